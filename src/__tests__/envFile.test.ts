@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parseEnvFile, readEnvCredentials } from '../utils/envFile';
+
+describe('parseEnvFile', () => {
+  it('parses dotenv syntax', () => {
+    expect(parseEnvFile([
+      '# Razorpay',
+      'RAZORPAY_KEY_ID=rzp_test_abc',
+      'export RAZORPAY_KEY_SECRET = secret # test key',
+      'DOUBLE="quoted # not a comment"',
+      "SINGLE='single'",
+      'EMPTY=',
+      'app.name=shop',
+      'not a variable',
+    ].join('\n'))).toEqual({
+      RAZORPAY_KEY_ID: 'rzp_test_abc',
+      RAZORPAY_KEY_SECRET: 'secret',
+      DOUBLE: 'quoted # not a comment',
+      SINGLE: 'single',
+      EMPTY: '',
+      'app.name': 'shop',
+    });
+  });
+
+  it('reads files with Windows line endings', () => {
+    expect(parseEnvFile('RAZORPAY_KEY_ID=rzp_test_abc\r\nRAZORPAY_KEY_SECRET=secret\r\n')).toEqual({
+      RAZORPAY_KEY_ID: 'rzp_test_abc',
+      RAZORPAY_KEY_SECRET: 'secret',
+    });
+  });
+
+  it('keeps an unterminated quote as part of the value', () => {
+    expect(parseEnvFile('VALUE="open')).toEqual({ VALUE: '"open' });
+  });
+});
+
+describe('readEnvCredentials', () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'razorpay-env-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(folder, { recursive: true, force: true });
+  });
+
+  it('lets later files override earlier ones', async () => {
+    await fs.promises.writeFile(path.join(folder, '.env'), 'RAZORPAY_KEY_ID=rzp_test_base\nRAZORPAY_KEY_SECRET=base_secret\n');
+    await fs.promises.writeFile(path.join(folder, '.env.local'), 'RAZORPAY_KEY_ID=rzp_test_local\n');
+
+    expect(await readEnvCredentials(folder, ['.env', '.env.local'])).toEqual({
+      keyId: 'rzp_test_local',
+      keySecret: 'base_secret',
+      file: '.env.local',
+    });
+  });
+
+  it('needs both keys', async () => {
+    await fs.promises.writeFile(path.join(folder, '.env'), 'RAZORPAY_KEY_ID=rzp_test_abc\n');
+    expect(await readEnvCredentials(folder, ['.env', '.env.missing'])).toBeUndefined();
+  });
+
+  it('ignores Key IDs that are not Razorpay keys', async () => {
+    await fs.promises.writeFile(path.join(folder, '.env'), 'RAZORPAY_KEY_ID=your_key_id\nRAZORPAY_KEY_SECRET=your_key_secret\n');
+    expect(await readEnvCredentials(folder, ['.env'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { formatToolArguments, isReadOnlyTool, validateToolArguments } from '../utils/mcpTools';
+import type { MCPJsonSchema } from '../types';
+
+const createRefundSchema: MCPJsonSchema = {
+  type: 'object',
+  properties: {
+    payment_id: { type: 'string', pattern: '^pay_\\w+$' },
+    amount: { type: 'integer', minimum: 100, maximum: 500000 },
+    speed: { type: 'string', enum: ['normal', 'optimum'] },
+    receipt: { type: 'string', minLength: 1, maxLength: 40 },
+    notes: { type: 'object' },
+    tags: { type: 'array' },
+    instant: { type: 'boolean' },
+    rate: { type: 'number' },
+    reason: { type: ['string', 'null'] },
+  },
+  required: ['payment_id', 'amount'],
+  additionalProperties: false,
+};
+
+describe('validateToolArguments', () => {
+  it('accepts valid arguments', () => {
+    expect(validateToolArguments(createRefundSchema, {
+      payment_id: 'pay_29QQoUBi66xm2f',
+      amount: 5000,
+      speed: 'optimum',
+      receipt: 'Receipt #1',
+      notes: { reason: 'duplicate' },
+      tags: ['a'],
+      instant: false,
+      rate: 1.5,
+      reason: null,
+    })).toEqual([]);
+  });
+
+  it('reports missing and empty required arguments', () => {
+    expect(validateToolArguments(createRefundSchema, {})).toEqual(['payment_id is required', 'amount is required']);
+    expect(validateToolArguments({ properties: { id: { type: 'string' } }, required: ['id'] }, { id: '' })).toEqual(['id is required']);
+  });
+
+  it.each([
+    [{ amount: '5000' }, 'amount must be integer'],
+    [{ amount: 50.5 }, 'amount must be integer'],
+    [{ rate: Number.NaN }, 'rate must be number'],
+    [{ instant: 'yes' }, 'instant must be boolean'],
+    [{ notes: ['duplicate'] }, 'notes must be object'],
+    [{ notes: null }, 'notes must be object'],
+    [{ tags: 'a' }, 'tags must be array'],
+    [{ reason: 1 }, 'reason must be string or null'],
+    [{ speed: 'instant' }, 'speed must be one of "normal", "optimum"'],
+    [{ amount: 50 }, 'amount must be at least 100'],
+    [{ amount: 500001 }, 'amount must be at most 500000'],
+    [{ receipt: 'x'.repeat(41) }, 'receipt must be at most 40 characters'],
+    [{ payment_id: 'order_29QQoUBi66xm2f' }, 'payment_id must match ^pay_\\w+$'],
+    [{ unknown: 1 }, 'unknown is not an argument of this tool'],
+  ])('reports %j', (args, error) => {
+    expect(validateToolArguments(createRefundSchema, { payment_id: 'pay_1', amount: 5000, ...args })).toEqual([error]);
+  });
+
+  it('skips arguments that are undefined', () => {
+    expect(validateToolArguments(createRefundSchema, { payment_id: 'pay_1', amount: 5000, speed: undefined })).toEqual([]);
+  });
+
+  it('allows unknown arguments unless the schema forbids them', () => {
+    expect(validateToolArguments({ type: 'object', properties: {} }, { anything: 1 })).toEqual([]);
+  });
+
+  it('leaves patterns JavaScript cannot compile to the server', () => {
+    const schema: MCPJsonSchema = { properties: { id: { type: 'string', pattern: '(?<' } } };
+    expect(validateToolArguments(schema, { id: 'x' })).toEqual([]);
+  });
+
+  it('accepts anything without a schema', () => {
+    expect(validateToolArguments(undefined, { anything: 1 })).toEqual([]);
+  });
+});
+
+describe('isReadOnlyTool', () => {
+  it.each([
+    ['fetch_order', true],
+    ['list_all_orders', true],
+    ['get_settlement', true],
+    ['create_order', false],
+    ['initiate_payment', false],
+    ['submit_otp', false],
+    ['resend_otp', false],
+    ['fetchorder', false],
+  ])('classifies %s by name', (name, readOnly) => {
+    expect(isReadOnlyTool({ name })).toBe(readOnly);
+  });
+
+  it('does not trust readOnlyHint on tools outside the read-only prefixes', () => {
+    expect(isReadOnlyTool({ name: 'initiate_payment', annotations: { readOnlyHint: true } })).toBe(false);
+  });
+
+  it('lets readOnlyHint: false mark a read-only name as changing data', () => {
+    expect(isReadOnlyTool({ name: 'fetch_and_capture', annotations: { readOnlyHint: false } })).toBe(false);
+  });
+
+  it('treats a tool missing from the server list as changing data', () => {
+    expect(isReadOnlyTool(undefined)).toBe(false);
+  });
+});
+
+describe('formatToolArguments', () => {
+  it('lists required arguments first', () => {
+    expect(formatToolArguments({
+      properties: { notes: { type: 'object' }, order_id: { type: 'string' }, reason: { type: ['string', 'null'] } },
+      required: ['order_id'],
+    })).toBe('`order_id`* string, `notes` object, `reason` string|null');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { formatAmount, fromSubunits, getCurrencyExponent, toSubunits } from '../utils/money';
+
+describe('toSubunits', () => {
+  it.each([
+    ['10', 'INR', 1000],
+    ['10.1', 'USD', 1010],
+    ['10.10', 'USD', 1010],
+    [' 5 ', 'INR', 500],
+    ['0.01', 'INR', 1],
+    ['1500', 'JPY', 1500],
+    ['1500.00', 'JPY', 1500],
+    ['1.234', 'KWD', 1234],
+    ['2.5', 'BHD', 2500],
+    ['10', 'usd', 1000],
+  ])('converts %s %s to %i', (amount, currency, expected) => {
+    expect(toSubunits(amount, currency)).toBe(expected);
+  });
+
+  it('converts numbers without float rounding errors', () => {
+    expect(toSubunits(10.1, 'USD')).toBe(1010);
+    expect(toSubunits(19.99, 'INR')).toBe(1999);
+    expect(toSubunits(0.29, 'INR')).toBe(29);
+  });
+
+  it.each(['', 'abc', '10abc', '1e3', '-5', '+5', '1,000', '1.2.3', '.5', '5.', 'NaN'])('rejects malformed amount %j', amount => {
+    expect(() => toSubunits(amount, 'INR')).toThrow('Invalid amount');
+  });
+
+  it('rejects more decimal places than the currency has', () => {
+    expect(() => toSubunits('10.001', 'USD')).toThrow('USD amounts support at most 2 decimal places');
+    expect(() => toSubunits('1.2345', 'KWD')).toThrow('KWD amounts support at most 3 decimal places');
+    expect(() => toSubunits('100.5', 'JPY')).toThrow('JPY does not support decimal amounts');
+  });
+
+  it('rejects amounts beyond safe integers', () => {
+    expect(() => toSubunits('99999999999999999', 'INR')).toThrow('Amount is too large');
+  });
+
+  it('rejects unsupported currencies', () => {
+    expect(() => toSubunits('10', 'XYZ')).toThrow('Unsupported currency: XYZ');
+  });
+});
+
+describe('getCurrencyExponent', () => {
+  it.each([
+    ['INR', 2],
+    ['JPY', 0],
+    ['OMR', 3],
+  ])('%s has %i decimal places', (currency, exponent) => {
+    expect(getCurrencyExponent(currency)).toBe(exponent);
+  });
+});
+
+describe('fromSubunits', () => {
+  it('converts back to the main unit', () => {
+    expect(fromSubunits(1010, 'USD')).toBe(10.1);
+    expect(fromSubunits(1500, 'JPY')).toBe(1500);
+    expect(fromSubunits(1234, 'KWD')).toBe(1.234);
+  });
+});
+
+describe('formatAmount', () => {
+  it('uses the currency decimal places', () => {
+    expect(formatAmount(1010, 'usd')).toBe('10.10 USD');
+    expect(formatAmount(1500, 'JPY')).toBe('1500 JPY');
+    expect(formatAmount(1234, 'KWD')).toBe('1.234 KWD');
+  });
+
+  it('falls back to two decimal places for unknown currencies', () => {
+    expect(formatAmount(1234, 'XYZ')).toBe('12.34 XYZ');
+  });
+});
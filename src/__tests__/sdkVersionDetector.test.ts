@@ -0,0 +1,505 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProjectType } from '../utils/projectDetector';
+
+const workspace = vi.hoisted(() => ({ folder: undefined as string | undefined }));
+
+vi.mock('vscode', () => ({
+  Uri: { file: (fsPath: string) => ({ fsPath }) },
+  workspace: {
+    getWorkspaceFolder: (uri: { fsPath: string }) =>
+      workspace.folder && uri.fsPath.startsWith(workspace.folder) ? { uri: { fsPath: workspace.folder } } : undefined,
+  },
+}));
+
+import { SDKVersionDetector } from '../utils/sdkVersionDetector';
+
+interface Fixture {
+  name: string;
+  type: ProjectType;
+  files: Record<string, string>;
+  /** Locked or installed version and the file it came from */
+  locked?: [version: string, source: string];
+  /** Declared constraint, the lowest version it allows and the file it came from */
+  declared?: [range: string, version: string, source: string];
+}
+
+const packageJson = (dependencies: Record<string, string>) => JSON.stringify({ name: 'shop', dependencies });
+
+const fixtures: Fixture[] = [
+  // npm, yarn and pnpm
+  {
+    name: 'package-lock.json v3',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.9.0' }),
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: { '': { dependencies: { razorpay: '^2.9.0' } }, 'node_modules/razorpay': { version: '2.9.4' } },
+      }),
+    },
+    locked: ['2.9.4', 'package-lock.json'],
+  },
+  {
+    name: 'package-lock.json v1',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.8.0' }),
+      'package-lock.json': JSON.stringify({ lockfileVersion: 1, dependencies: { razorpay: { version: '2.8.6' } } }),
+    },
+    locked: ['2.8.6', 'package-lock.json'],
+  },
+  {
+    name: 'npm-shrinkwrap.json',
+    type: 'node',
+    files: {
+      'package.json': JSON.stringify({ devDependencies: { razorpay: '2.9.1' } }),
+      'npm-shrinkwrap.json': JSON.stringify({ packages: { 'node_modules/razorpay': { version: '2.9.1' } } }),
+    },
+    locked: ['2.9.1', 'npm-shrinkwrap.json'],
+  },
+  {
+    name: 'yarn.lock v1',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.9.0' }),
+      'yarn.lock': [
+        '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+        '# yarn lockfile v1',
+        '',
+        '',
+        'razorpay@^2.0.0:',
+        '  version "2.0.6"',
+        '  resolved "https://registry.yarnpkg.com/razorpay/-/razorpay-2.0.6.tgz"',
+        '',
+        'razorpay@^2.8.0, razorpay@^2.9.0:',
+        '  version "2.9.3"',
+        '  resolved "https://registry.yarnpkg.com/razorpay/-/razorpay-2.9.3.tgz"',
+        '',
+      ].join('\n'),
+    },
+    locked: ['2.9.3', 'yarn.lock'],
+  },
+  {
+    name: 'yarn.lock Berry',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.9.0' }),
+      'yarn.lock': [
+        '__metadata:',
+        '  version: 6',
+        '',
+        '"razorpay@npm:^2.9.0":',
+        '  version: 2.9.5',
+        '  resolution: "razorpay@npm:2.9.5"',
+        '  languageName: node',
+        '',
+      ].join('\n'),
+    },
+    locked: ['2.9.5', 'yarn.lock'],
+  },
+  {
+    name: 'pnpm-lock.yaml v5',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.9.0' }),
+      'pnpm-lock.yaml': [
+        'lockfileVersion: 5.4',
+        '',
+        'specifiers:',
+        '  razorpay: ^2.9.0',
+        '',
+        'dependencies:',
+        '  razorpay: 2.9.2',
+        '',
+      ].join('\n'),
+    },
+    locked: ['2.9.2', 'pnpm-lock.yaml'],
+  },
+  {
+    name: 'pnpm-lock.yaml v9 importers with a peer suffix',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.9.0' }),
+      'pnpm-lock.yaml': [
+        "lockfileVersion: '9.0'",
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    dependencies:',
+        '      razorpay:',
+        '        specifier: ^2.9.0',
+        '        version: 2.9.6(debug@4.3.4)',
+        '',
+        'packages:',
+        '',
+        '  razorpay@2.9.6:',
+        '    resolution: {integrity: sha512-x}',
+        '',
+      ].join('\n'),
+    },
+    locked: ['2.9.6', 'pnpm-lock.yaml'],
+  },
+  {
+    name: 'installed package',
+    type: 'node',
+    files: {
+      'package.json': packageJson({ razorpay: '^2.9.0' }),
+      'node_modules/razorpay/package.json': JSON.stringify({ name: 'razorpay', version: '2.9.6' }),
+    },
+    locked: ['2.9.6', 'node_modules/razorpay/package.json'],
+  },
+  {
+    name: 'package.json range',
+    type: 'nextjs',
+    files: { 'package.json': packageJson({ razorpay: '^2.8.0' }) },
+    declared: ['^2.8.0', '2.8.0', 'package.json'],
+  },
+  {
+    name: 'package.json git dependency',
+    type: 'node',
+    files: { 'package.json': packageJson({ razorpay: 'github:razorpay/razorpay-node' }) },
+  },
+  {
+    name: 'react-razorpay before razorpay',
+    type: 'react',
+    files: {
+      'package.json': packageJson({ 'razorpay': '^2.9.0', 'react-razorpay': '^2.0.1' }),
+      'package-lock.json': JSON.stringify({ packages: { 'node_modules/react-razorpay': { version: '2.0.1' } } }),
+    },
+    locked: ['2.0.1', 'package-lock.json'],
+  },
+
+  // Python
+  {
+    name: 'poetry.lock',
+    type: 'python',
+    files: {
+      'pyproject.toml': '[tool.poetry.dependencies]\nrazorpay = "^1.4"\n',
+      'poetry.lock': [
+        '[[package]]',
+        'name = "requests"',
+        'version = "2.31.0"',
+        '',
+        '[[package]]',
+        'name = "razorpay"',
+        'version = "1.4.1"',
+        'description = "Razorpay Python Client"',
+        '',
+      ].join('\n'),
+    },
+    locked: ['1.4.1', 'poetry.lock'],
+  },
+  {
+    name: 'uv.lock',
+    type: 'python',
+    files: {
+      'pyproject.toml': '[project]\ndependencies = ["razorpay>=1.4"]\n',
+      'uv.lock': 'version = 1\n\n[[package]]\nname = "razorpay"\nversion = "1.4.2"\nsource = { registry = "https://pypi.org/simple" }\n',
+    },
+    locked: ['1.4.2', 'uv.lock'],
+  },
+  {
+    name: 'pdm.lock',
+    type: 'python',
+    files: {
+      'pyproject.toml': '[project]\ndependencies = ["Razorpay>=1.3"]\n',
+      'pdm.lock': '[[package]]\nname = "Razorpay"\nversion = "1.3.1"\nsummary = "Razorpay Python Client"\n',
+    },
+    locked: ['1.3.1', 'pdm.lock'],
+  },
+  {
+    name: 'Pipfile.lock',
+    type: 'python',
+    files: {
+      'Pipfile': '[packages]\nrazorpay = "*"\n',
+      'Pipfile.lock': JSON.stringify({ _meta: {}, default: { razorpay: { version: '==1.4.1' } }, develop: {} }),
+    },
+    locked: ['1.4.1', 'Pipfile.lock'],
+  },
+  {
+    name: 'requirements.txt pin',
+    type: 'python',
+    files: { 'requirements.txt': 'requests==2.31.0\nrazorpay==1.3.0  # payments\n' },
+    locked: ['1.3.0', 'requirements.txt'],
+  },
+  {
+    name: 'requirements.txt range',
+    type: 'python',
+    files: { 'requirements.txt': 'razorpay>=1.3,<2\n' },
+    declared: ['>=1.3,<2', '1.3', 'requirements.txt'],
+  },
+  {
+    name: 'pyproject.toml Poetry table',
+    type: 'python',
+    files: { 'pyproject.toml': '[tool.poetry.dependencies]\npython = "^3.11"\nrazorpay = { version = "^1.4", extras = [] }\n' },
+    declared: ['^1.4', '1.4', 'pyproject.toml'],
+  },
+  {
+    name: 'setup.py',
+    type: 'python',
+    files: { 'setup.py': 'setup(name="shop", install_requires=["razorpay>=1.2.0"])\n' },
+    declared: ['>=1.2.0', '1.2.0', 'setup.py'],
+  },
+
+  // Go
+  {
+    name: 'go.mod require block',
+    type: 'go',
+    files: {
+      'go.mod': 'module shop\n\ngo 1.21\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n\tgithub.com/razorpay/razorpay-go v1.3.0\n)\n',
+    },
+    locked: ['1.3.0', 'go.mod'],
+  },
+  {
+    name: 'go.mod single require',
+    type: 'go',
+    files: { 'go.mod': 'module shop\n\nrequire github.com/razorpay/razorpay-go v1.2.0 // indirect\n' },
+    locked: ['1.2.0', 'go.mod'],
+  },
+  {
+    name: 'go.mod replaced by a local copy',
+    type: 'go',
+    files: {
+      'go.mod': 'module shop\n\nrequire github.com/razorpay/razorpay-go v0.0.0\n\nreplace github.com/razorpay/razorpay-go => ../razorpay-go\n',
+    },
+  },
+  {
+    name: 'go.sum',
+    type: 'go',
+    files: {
+      'go.mod': 'module shop\n',
+      'go.sum': [
+        'github.com/razorpay/razorpay-go v1.2.0 h1:abc=',
+        'github.com/razorpay/razorpay-go v1.2.0/go.mod h1:def=',
+        'github.com/razorpay/razorpay-go v1.3.0 h1:ghi=',
+        'github.com/razorpay/razorpay-go v1.3.0/go.mod h1:jkl=',
+        '',
+      ].join('\n'),
+    },
+    locked: ['1.3.0', 'go.sum'],
+  },
+
+  // Ruby
+  {
+    name: 'Gemfile.lock',
+    type: 'ruby',
+    files: {
+      'Gemfile': "gem 'razorpay', '~> 3.0'\n",
+      'Gemfile.lock': 'GEM\n  remote: https://rubygems.org/\n  specs:\n    razorpay (3.0.1)\n      rest-client\n\nDEPENDENCIES\n  razorpay (~> 3.0)\n',
+    },
+    locked: ['3.0.1', 'Gemfile.lock'],
+  },
+  {
+    name: 'Gemfile',
+    type: 'ruby',
+    files: { Gemfile: "source 'https://rubygems.org'\ngem 'razorpay', '~> 3.0'\n" },
+    declared: ['~> 3.0', '3.0', 'Gemfile'],
+  },
+
+  // Maven and Gradle
+  {
+    name: 'pom.xml with a version property',
+    type: 'java',
+    files: {
+      'pom.xml': [
+        '<project>',
+        '  <properties><razorpay.version>1.4.3</razorpay.version></properties>',
+        '  <dependencies>',
+        '    <dependency>',
+        '      <groupId>com.razorpay</groupId>',
+        '      <artifactId>razorpay-java</artifactId>',
+        '      <version>${razorpay.version}</version>',
+        '    </dependency>',
+        '  </dependencies>',
+        '</project>',
+      ].join('\n'),
+    },
+    locked: ['1.4.3', 'pom.xml'],
+  },
+  {
+    name: 'gradle.lockfile',
+    type: 'java',
+    files: {
+      'build.gradle': "dependencies {\n  implementation 'com.razorpay:razorpay-java:1.4.+'\n}\n",
+      'gradle.lockfile': 'com.razorpay:razorpay-java:1.4.5=compileClasspath,runtimeClasspath\nempty=\n',
+    },
+    locked: ['1.4.5', 'gradle.lockfile'],
+  },
+  {
+    name: 'build.gradle.kts with a variable from gradle.properties',
+    type: 'java',
+    files: {
+      'build.gradle.kts': 'dependencies {\n  implementation("com.razorpay:razorpay-java:$razorpayVersion")\n}\n',
+      'gradle.properties': 'razorpayVersion=1.4.4\n',
+    },
+    locked: ['1.4.4', 'build.gradle.kts'],
+  },
+  {
+    name: 'build.gradle dynamic version',
+    type: 'java',
+    files: { 'build.gradle': "dependencies {\n  implementation 'com.razorpay:razorpay-java:1.4.+'\n}\n" },
+    declared: ['1.4.x', '1.4', 'build.gradle'],
+  },
+  {
+    name: 'Android app/build.gradle',
+    type: 'android',
+    files: { 'app/build.gradle': "dependencies {\n  implementation 'com.razorpay:razorpay-android:1.6.33'\n}\n" },
+    locked: ['1.6.33', 'app/build.gradle'],
+  },
+
+  // CocoaPods, Composer and pub
+  {
+    name: 'Podfile.lock',
+    type: 'ios',
+    files: {
+      'Podfile': "pod 'razorpay-pod', '~> 1.3'\n",
+      'Podfile.lock': 'PODS:\n  - razorpay-pod (1.3.5)\n\nDEPENDENCIES:\n  - razorpay-pod (~> 1.3)\n',
+    },
+    locked: ['1.3.5', 'Podfile.lock'],
+  },
+  {
+    name: 'Podfile',
+    type: 'ios',
+    files: { Podfile: "target 'Shop' do\n  pod 'razorpay-pod', '~> 1.3'\nend\n" },
+    declared: ['~> 1.3', '1.3', 'Podfile'],
+  },
+  {
+    name: 'composer.lock',
+    type: 'php',
+    files: {
+      'composer.json': JSON.stringify({ require: { 'razorpay/razorpay': '^2.8' } }),
+      'composer.lock': JSON.stringify({
+        packages: [{ name: 'rmccue/requests', version: 'v2.0.5' }],
+        'packages-dev': [{ name: 'razorpay/razorpay', version: '2.9.0' }],
+      }),
+    },
+    locked: ['2.9.0', 'composer.lock'],
+  },
+  {
+    name: 'composer.json',
+    type: 'php',
+    files: { 'composer.json': JSON.stringify({ 'require-dev': { 'razorpay/razorpay': '^2.8' } }) },
+    declared: ['^2.8', '2.8', 'composer.json'],
+  },
+  {
+    name: 'pubspec.lock',
+    type: 'flutter',
+    files: {
+      'pubspec.yaml': 'dependencies:\n  razorpay_flutter: ^1.3.0\n',
+      'pubspec.lock': [
+        'packages:',
+        '  razorpay_flutter:',
+        '    dependency: "direct main"',
+        '    description:',
+        '      name: razorpay_flutter',
+        '      url: "https://pub.dev"',
+        '    source: hosted',
+        '    version: "1.3.7"',
+        '',
+      ].join('\n'),
+    },
+    locked: ['1.3.7', 'pubspec.lock'],
+  },
+  {
+    name: 'pubspec.yaml',
+    type: 'flutter',
+    files: { 'pubspec.yaml': 'dependencies:\n  flutter:\n    sdk: flutter\n  razorpay_flutter: ^1.3.0 # payments\n' },
+    declared: ['^1.3.0', '1.3.0', 'pubspec.yaml'],
+  },
+];
+
+describe('SDKVersionDetector.detect', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'razorpay-sdk-'));
+  });
+
+  afterEach(async () => {
+    workspace.folder = undefined;
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+      await fs.promises.writeFile(path.join(dir, file), content);
+    }
+  }
+
+  it.each(fixtures)('reads $name', async ({ type, files, locked, declared }) => {
+    await writeFiles(root, files);
+    const result = await SDKVersionDetector.detect(type, root);
+
+    if (locked) {
+      expect(result).toMatchObject({ version: locked[0], source: locked[1] });
+      expect(result?.range).toBeUndefined();
+    } else if (declared) {
+      expect(result).toMatchObject({ range: declared[0], version: declared[1], source: declared[2] });
+    } else {
+      expect(result).toBeUndefined();
+    }
+  });
+
+  it('finds a monorepo lockfile in a parent folder of the workspace', async () => {
+    workspace.folder = root;
+    await writeFiles(root, {
+      'packages/api/package.json': packageJson({ razorpay: '^2.9.0' }),
+      'package-lock.json': JSON.stringify({
+        packages: {
+          'node_modules/razorpay': { version: '2.8.0' },
+          'packages/api/node_modules/razorpay': { version: '2.9.6' },
+        },
+      }),
+    });
+
+    expect(await SDKVersionDetector.detect('node', path.join(root, 'packages', 'api'))).toMatchObject({
+      version: '2.9.6',
+      source: '../../package-lock.json',
+    });
+  });
+
+  it('finds the importer of a pnpm workspace lockfile', async () => {
+    workspace.folder = root;
+    await writeFiles(root, {
+      'apps/web/package.json': packageJson({ razorpay: '^2.9.0' }),
+      'pnpm-lock.yaml': [
+        "lockfileVersion: '6.0'",
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    devDependencies:',
+        '      typescript:',
+        '        specifier: ^5.0.0',
+        '        version: 5.4.5',
+        '',
+        '  apps/web:',
+        '    dependencies:',
+        '      razorpay:',
+        '        specifier: ^2.9.0',
+        '        version: 2.9.3',
+        '',
+      ].join('\n'),
+    });
+
+    expect(await SDKVersionDetector.detect('node', path.join(root, 'apps', 'web'))).toMatchObject({
+      version: '2.9.3',
+      source: '../../pnpm-lock.yaml',
+    });
+  });
+
+  it('does not look above the workspace folder', async () => {
+    workspace.folder = path.join(root, 'shop');
+    await writeFiles(root, {
+      'shop/package.json': packageJson({ razorpay: '^2.9.0' }),
+      'package-lock.json': JSON.stringify({ packages: { 'node_modules/razorpay': { version: '2.8.0' } } }),
+    });
+
+    expect(await SDKVersionDetector.detect('node', path.join(root, 'shop'))).toMatchObject({ range: '^2.9.0', source: 'package.json' });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { compareVersions, getLowerBound, getSDKAdvice, satisfies } from '../utils/sdkVersions';
+
+describe('compareVersions', () => {
+  it.each([
+    ['2.9.6', '2.9.6', 0],
+    ['v1.2', '1.2.0', 0],
+    ['1.0.0+build.5', '1.0.0', 0],
+    ['1.10.0', '1.9.0', 1],
+    ['2.0.0', '10.0.0', -1],
+    ['3.0.0-beta.1', '3.0.0', -1],
+    ['3.0.0-beta.2', '3.0.0-beta.10', -1],
+    ['3.0.0', '3.0.0-rc.1', 1],
+  ])('compares %s with %s', (a, b, expected) => {
+    expect(Math.sign(compareVersions(a, b))).toBe(expected);
+  });
+});
+
+describe('getLowerBound', () => {
+  it.each([
+    ['^2.9.0', '2.9.0'],
+    ['>=1.4', '1.4'],
+    ['~> 3.2', '3.2'],
+    ['v1.3.0', '1.3.0'],
+    ['>=3.0.0-beta.1 <4', '3.0.0-beta.1'],
+    ['latest', undefined],
+  ])('%s starts at %s', (range, expected) => {
+    expect(getLowerBound(range)).toBe(expected);
+  });
+});
+
+describe('satisfies', () => {
+  it.each([
+    // npm and pub
+    ['^2.9.0', '2.9.6', true],
+    ['^2.9.0', '3.0.0', false],
+    ['^2.9.0', '2.8.9', false],
+    ['^0.2.3', '0.2.9', true],
+    ['^0.2.3', '0.3.0', false],
+    ['~1.2.3', '1.2.9', true],
+    ['~1.2.3', '1.3.0', false],
+    ['1.4.x', '1.4.7', true],
+    ['1.4.x', '1.5.0', false],
+    ['2.*', '2.9.6', true],
+    ['>=1.4 <2', '1.9.0', true],
+    ['>=1.4 <2', '2.0.0', false],
+    ['^1.0.0 || ^2.0.0', '2.1.0', true],
+    ['^1.0.0 || ^2.0.0', '3.0.0', false],
+    ['*', '0.1.0', true],
+    ['', '0.1.0', true],
+    ['2.9.6', '2.9.6', true],
+    ['2.9.6', '2.9.7', false],
+    ['v1.3.0', '1.3.0', true],
+    // pip
+    ['>=1.4,<2', '1.4.0', true],
+    ['>= 1.4, < 2', '2.0.0', false],
+    ['==1.4.1', '1.4.1', true],
+    ['~=1.4', '1.9.0', true],
+    ['~=1.4', '2.0.0', false],
+    // Bundler and CocoaPods
+    ['~> 3.2', '3.9.0', true],
+    ['~> 3.2', '4.0.0', false],
+    ['~> 3.2.1', '3.2.9', true],
+    ['~> 3.2.1', '3.3.0', false],
+  ])('%j allows %s: %s', (range, version, expected) => {
+    expect(satisfies(range, version)).toBe(expected);
+  });
+
+  it('treats unrecognised constraints as not met', () => {
+    expect(satisfies('git+https://github.com/razorpay/razorpay-node.git', '2.9.6')).toBe(false);
+    expect(satisfies('workspace:*', '2.9.6')).toBe(false);
+  });
+});
+
+describe('getSDKAdvice', () => {
+  it('flags versions below the deprecation cut-off', () => {
+    const advice = getSDKAdvice({ sdk: 'node', package: 'razorpay', version: '1.5.0', source: 'package-lock.json' });
+    expect(advice.status).toBe('deprecated');
+  });
+
+  it('lists the breaking changes after an outdated version', () => {
+    const advice = getSDKAdvice({ sdk: 'node', package: 'razorpay', version: '2.7.0', source: 'package-lock.json' });
+    expect(advice.status).toBe('outdated');
+    expect(advice.changes.map(change => change.version)).toEqual(['2.8.0']);
+  });
+
+  it('counts an unlocked range that allows the latest release as up to date', () => {
+    const advice = getSDKAdvice({ sdk: 'node', package: 'razorpay', version: '2.0.0', range: '^2.0.0', source: 'package.json' });
+    expect(advice.status).toBe('latest');
+    expect(advice.changes).toEqual([]);
+  });
+
+  it('counts an unlocked range that stops below the latest release as outdated', () => {
+    const advice = getSDKAdvice({ sdk: 'node', package: 'razorpay', version: '2.7.0', range: '~2.7.0', source: 'package.json' });
+    expect(advice.status).toBe('outdated');
+  });
+});
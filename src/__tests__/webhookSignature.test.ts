@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { signWebhookPayload, verifyWebhookSignature } from '../utils/webhookSignature';
+
+const body = '{"entity":"event","event":"payment.captured","payload":{}}';
+const secret = 'whsec_test';
+
+describe('signWebhookPayload', () => {
+  it('computes a hex HMAC-SHA256 of the body', () => {
+    // Widely published HMAC-SHA256 test vector
+    expect(signWebhookPayload('The quick brown fox jumps over the lazy dog', 'key'))
+      .toBe('f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8');
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const signature = signWebhookPayload(body, secret);
+
+  it('accepts the signature of the exact body', () => {
+    expect(verifyWebhookSignature(body, signature, secret)).toBe(true);
+  });
+
+  it('rejects a changed body', () => {
+    expect(verifyWebhookSignature(body.replace('captured', 'failed'), signature, secret)).toBe(false);
+    expect(verifyWebhookSignature(`${body}\n`, signature, secret)).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyWebhookSignature(body, signWebhookPayload(body, 'other'), secret)).toBe(false);
+  });
+
+  it('rejects signatures of the wrong length or case', () => {
+    expect(verifyWebhookSignature(body, '', secret)).toBe(false);
+    expect(verifyWebhookSignature(body, signature.slice(0, -2), secret)).toBe(false);
+    expect(verifyWebhookSignature(body, signature.toUpperCase(), secret)).toBe(false);
+  });
+});
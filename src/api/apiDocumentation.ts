@@ -1,7 +1,9 @@
 /**
  * API Documentation data for Razorpay APIs
- * Contains input parameters, required fields, output information, and documentation links
+ * Contains input parameters, required fields, output information, documentation links and the SDK methods that
+ * call each API. The data lives in apiDocumentation.json, so APIs can be added without code changes.
  */
+import apiDocumentationData from './apiDocumentation.json';
 
 export interface ApiParameter {
   name: string;
@@ -11,11 +13,23 @@ export interface ApiParameter {
   example?: string;
 }
 
+/**
+ * Server SDK whose method calls are recognised in code
+ */
+export type ApiSdkLanguage = 'node' | 'python' | 'php' | 'ruby' | 'java' | 'go';
+
 export interface ApiDocumentation {
+  /** Key the API is looked up by, such as `orders.create` */
+  id: string;
   apiName: string;
   description: string;
   method: string;
   endpoint: string;
+  /**
+   * SDK method paths per language, from the client to the method: `orders.create`, or `payment.fetch().capture`
+   * for calls chained on a fetched entity. Segments are matched across `.`, `->` and `::`, ignoring case.
+   */
+  sdkMethods: Partial<Record<ApiSdkLanguage, string[]>>;
   inputParameters: ApiParameter[];
   outputFields: string[];
   docUrl: string;
@@ -26,390 +40,139 @@ export interface ApiDocumentation {
 }
 
 /**
- * API Documentation for Create Order
- * Reference: https://razorpay.com/docs/api/orders/create
+ * An SDK method call found in code
  */
-export const createOrderDoc: ApiDocumentation = {
-  apiName: 'Create Order',
-  description: 'Create an order with basic details such as amount and currency',
-  method: 'POST',
-  endpoint: '/v1/orders',
-  inputParameters: [
-    {
-      name: 'amount',
-      type: 'integer',
-      required: true,
-      description: 'The amount for which the order was created, in currency subunits. For example, for an amount of ₹295, enter 29500',
-      example: '50000',
-    },
-    {
-      name: 'currency',
-      type: 'string',
-      required: true,
-      description: 'ISO code for the currency in which you want to accept the payment. The default length is 3 characters',
-      example: 'INR',
-    },
-    {
-      name: 'receipt',
-      type: 'string',
-      required: false,
-      description: 'Receipt number that corresponds to this order, set for your internal reference. Can have a maximum length of 40 characters and has to be unique',
-      example: 'receipt_001',
-    },
-    {
-      name: 'notes',
-      type: 'json object',
-      required: false,
-      description: 'Key-value pair that can be used to store additional information about the entity. Maximum 15 key-value pairs, 256 characters (maximum) each',
-      example: '{ "key1": "value1" }',
-    },
-    {
-      name: 'partial_payment',
-      type: 'boolean',
-      required: false,
-      description: 'Indicates whether the customer can make a partial payment. Default: false',
-      example: 'false',
-    },
-    {
-      name: 'first_payment_min_amount',
-      type: 'integer',
-      required: false,
-      description: 'Minimum amount that must be paid by the customer as the first partial payment. Should be passed only if partial_payment is true',
-      example: '50000',
-    },
-  ],
-  outputFields: [
-    'id - The unique identifier of the order',
-    'amount - The amount for which the order was created, in currency subunits',
-    'amount_paid - The amount paid against the order',
-    'amount_due - The amount pending against the order',
-    'currency - ISO code for the currency',
-    'receipt - Receipt number that corresponds to this order',
-    'status - The status of the order (created, attempted, paid)',
-    'attempts - The number of payment attempts made against this order',
-    'notes - Key-value pairs for additional information',
-    'created_at - Unix timestamp when this order was created',
-  ],
-  docUrl: 'https://razorpay.com/docs/api/orders/create',
-  examples: {
-    request: `{
-  "amount": 50000,
-  "currency": "INR",
-  "receipt": "receipt_001",
-  "notes": {
-    "key1": "value1"
-  }
-}`,
-    response: `{
-  "id": "order_RB58MiP5SPFYyM",
-  "entity": "order",
-  "amount": 50000,
-  "amount_paid": 0,
-  "amount_due": 50000,
-  "currency": "INR",
-  "receipt": "receipt_001",
-  "status": "created",
-  "attempts": 0,
-  "notes": {
-    "key1": "value1"
-  },
-  "created_at": 1756455561
-}`,
-  },
-};
+export interface ApiCall {
+  apiKey: string;
+  /** Offsets of the call in the text, from the client variable to the method name */
+  start: number;
+  end: number;
+}
 
-/**
- * API Documentation for Fetch Order
- * Reference: https://razorpay.com/docs/api/orders/fetch-with-id
- */
-export const fetchOrderDoc: ApiDocumentation = {
-  apiName: 'Fetch Order',
-  description: 'Retrieve details of a particular order as per the id',
-  method: 'GET',
-  endpoint: '/v1/orders/:id',
-  inputParameters: [
-    {
-      name: 'id',
-      type: 'string',
-      required: true,
-      description: 'Unique identifier of the order to be retrieved',
-      example: 'order_DaaS6LOUAASb7Y',
-    },
-  ],
-  outputFields: [
-    'id - The unique identifier of the order',
-    'entity - Name of the entity (order)',
-    'amount - The amount for which the order was created',
-    'amount_paid - The amount paid against the order',
-    'amount_due - The amount pending against the order',
-    'currency - ISO code for the currency',
-    'receipt - Receipt number that corresponds to this order',
-    'status - The status of the order (created, attempted, paid)',
-    'attempts - The number of payment attempts made against this order',
-    'notes - Key-value pairs for additional information',
-    'created_at - Unix timestamp when this order was created',
-  ],
-  docUrl: 'https://razorpay.com/docs/api/orders/fetch-with-id',
-  examples: {
-    response: `{
-  "id": "order_DaaS6LOUAASb7Y",
-  "entity": "order",
-  "amount": 2000,
-  "amount_paid": 0,
-  "amount_due": 2000,
-  "currency": "INR",
-  "receipt": null,
-  "status": "created",
-  "attempts": 0,
-  "notes": [],
-  "created_at": 1654776878
-}`,
-  },
-};
+interface ApiDocumentationFile {
+  apis: ApiDocumentation[];
+}
 
-/**
- * API Documentation for Fetch Payment
- * Reference: https://razorpay.com/docs/api/payments/fetch-with-id
- */
-export const fetchPaymentDoc: ApiDocumentation = {
-  apiName: 'Fetch Payment',
-  description: 'Retrieve details of a specific payment using its id',
-  method: 'GET',
-  endpoint: '/v1/payments/:id',
-  inputParameters: [
-    {
-      name: 'id',
-      type: 'string',
-      required: true,
-      description: 'Unique identifier of the payment to be retrieved. Must start with pay_',
-      example: 'pay_1234567890',
-    },
-  ],
-  outputFields: [
-    'id - The unique identifier of the payment',
-    'entity - Name of the entity (payment)',
-    'amount - Payment amount in currency subunits',
-    'currency - ISO code for the currency',
-    'status - Payment status (created, authorized, captured, refunded, failed)',
-    'order_id - The order ID associated with this payment',
-    'method - Payment method used (card, netbanking, wallet, upi, etc.)',
-    'description - Description of the payment',
-    'created_at - Unix timestamp when this payment was created',
-    'captured - Whether the payment was captured',
-    'international - Whether the payment is international',
-    'refund_status - Refund status (null, partial, full)',
-    'amount_refunded - Amount refunded in currency subunits',
-  ],
-  docUrl: 'https://razorpay.com/docs/api/payments/fetch-with-id',
-};
+/** Names the Razorpay client is usually given, besides any containing "razorpay" or "rzp" */
+const CLIENT_NAMES = ['instance', 'client', 'api'];
+/** Calls are looked for this many characters around the cursor, so chained calls split over lines are found */
+const CALL_SEARCH_WINDOW = 400;
+
+export const apiDocumentation: ApiDocumentation[] = (apiDocumentationData as ApiDocumentationFile).apis;
 
 /**
- * API Documentation for Create Refund
- * Reference: https://razorpay.com/docs/api/refunds/create-normal
+ * Documentation by API id and by each SDK method path, in lower case
  */
-export const createRefundDoc: ApiDocumentation = {
-  apiName: 'Create Refund',
-  description: 'Create a normal refund for a payment',
-  method: 'POST',
-  endpoint: '/v1/payments/:payment_id/refund',
-  inputParameters: [
-    {
-      name: 'payment_id',
-      type: 'string',
-      required: true,
-      description: 'Unique identifier of the payment for which refund is to be created. Must start with pay_',
-      example: 'pay_1234567890',
-    },
-    {
-      name: 'amount',
-      type: 'integer',
-      required: false,
-      description: 'The amount to be refunded in currency subunits. If not provided, full refund will be processed',
-      example: '50000',
-    },
-    {
-      name: 'speed',
-      type: 'string',
-      required: false,
-      description: 'Speed at which the refund is processed. Options: normal, instant',
-      example: 'normal',
-    },
-    {
-      name: 'notes',
-      type: 'json object',
-      required: false,
-      description: 'Key-value pair that can be used to store additional information. Maximum 15 key-value pairs, 256 characters (maximum) each',
-      example: '{ "reason": "Customer request" }',
-    },
-    {
-      name: 'receipt',
-      type: 'string',
-      required: false,
-      description: 'Receipt number that corresponds to this refund',
-      example: 'receipt_refund_001',
-    },
-  ],
-  outputFields: [
-    'id - The unique identifier of the refund (starts with rfnd_)',
-    'entity - Name of the entity (refund)',
-    'amount - Refund amount in currency subunits',
-    'currency - ISO code for the currency',
-    'payment_id - The payment ID for which refund was created',
-    'notes - Key-value pairs for additional information',
-    'receipt - Receipt number that corresponds to this refund',
-    'status - Refund status (pending, processed, failed)',
-    'speed_processed - Speed at which the refund was processed',
-    'created_at - Unix timestamp when this refund was created',
-  ],
-  docUrl: 'https://razorpay.com/docs/api/refunds/create-normal',
-};
+export const apiDocumentationMap: Map<string, ApiDocumentation> = new Map();
+for (const doc of apiDocumentation) {
+  apiDocumentationMap.set(doc.id.toLowerCase(), doc);
+  for (const methodPath of getSdkMethodPaths(doc)) {
+    const key = methodPath.replace(/\(\)/g, '').toLowerCase();
+    if (!apiDocumentationMap.has(key)) {
+      apiDocumentationMap.set(key, doc);
+    }
+  }
+}
+
+function getSdkMethodPaths(doc: ApiDocumentation): string[] {
+  return Object.values(doc.sdkMethods).flatMap(paths => paths || []);
+}
+
+function requireDocumentation(id: string): ApiDocumentation {
+  const doc = apiDocumentationMap.get(id.toLowerCase());
+  if (!doc) {
+    throw new Error(`apiDocumentation.json has no entry for ${id}`);
+  }
+  return doc;
+}
+
+// APIs the extension calls itself, whose documentation explains request errors and shapes sample payloads
+export const createOrderDoc = requireDocumentation('orders.create');
+export const fetchOrderDoc = requireDocumentation('orders.fetch');
+export const fetchPaymentDoc = requireDocumentation('payments.fetch');
+export const createPaymentLinkDoc = requireDocumentation('paymentLink.create');
+export const createRefundDoc = requireDocumentation('payments.refund');
+export const fetchRefundDoc = requireDocumentation('refunds.fetch');
+export const createPlanDoc = requireDocumentation('plans.create');
+export const createSubscriptionDoc = requireDocumentation('subscriptions.create');
 
 /**
- * API Documentation for Fetch Refund
- * Reference: https://razorpay.com/docs/api/refunds/fetch-with-id
+ * Get API documentation by pattern
  */
-export const fetchRefundDoc: ApiDocumentation = {
-  apiName: 'Fetch Refund',
-  description: 'Retrieve details of a specific refund using its id',
-  method: 'GET',
-  endpoint: '/v1/refunds/:id',
-  inputParameters: [
-    {
-      name: 'id',
-      type: 'string',
-      required: true,
-      description: 'Unique identifier of the refund to be retrieved. Must start with rfnd_',
-      example: 'rfnd_1234567890',
-    },
-  ],
-  outputFields: [
-    'id - The unique identifier of the refund',
-    'entity - Name of the entity (refund)',
-    'amount - Refund amount in currency subunits',
-    'currency - ISO code for the currency',
-    'payment_id - The payment ID for which refund was created',
-    'notes - Key-value pairs for additional information',
-    'receipt - Receipt number that corresponds to this refund',
-    'status - Refund status (pending, processed, failed)',
-    'speed_processed - Speed at which the refund was processed',
-    'created_at - Unix timestamp when this refund was created',
-  ],
-  docUrl: 'https://razorpay.com/docs/api/refunds/fetch-with-id',
-};
+export function getApiDocumentation(pattern: string): ApiDocumentation | undefined {
+  return apiDocumentationMap.get(pattern.toLowerCase());
+}
 
 /**
- * Map of API patterns to their documentation
- * Used by the hover provider to detect and show relevant documentation
+ * Find the input parameter an API error refers to
+ * Nested fields such as `customer.email` resolve to their top-level parameter
  */
-export const apiDocumentationMap: Map<string, ApiDocumentation> = new Map([
-  // Orders APIs
-  ['orders.create', createOrderDoc],
-  ['order.create', createOrderDoc],
-  ['orders.fetch', fetchOrderDoc],
-  ['order.fetch', fetchOrderDoc],
-  
-  // Payments APIs
-  ['payments.fetch', fetchPaymentDoc],
-  ['payment.fetch', fetchPaymentDoc],
-  
-  // Refunds APIs
-  ['payments.refund', createRefundDoc],
-  ['payment.refund', createRefundDoc],
-  ['refunds.create', createRefundDoc],
-  ['refund.create', createRefundDoc],
-  ['refunds.fetch', fetchRefundDoc],
-  ['refund.fetch', fetchRefundDoc],
-]);
+export function findApiParameter(doc: ApiDocumentation, field: string): ApiParameter | undefined {
+  return doc.inputParameters.find(param => param.name === field)
+    || doc.inputParameters.find(param => param.name === field.split('.')[0]);
+}
+
+let apiCallPatterns: Array<{ apiKey: string; pattern: RegExp }> | undefined;
 
 /**
- * Get API documentation by pattern
+ * One pattern per API, matching its SDK method paths in every language on a Razorpay client: `razorpay.orders.create`
+ * (Node.js, Java), `client.order.create` (Python), `$api->order->create` (PHP), `Razorpay::Order.create` (Ruby)
+ * and `client.Order.Create` (Go)
  */
-export function getApiDocumentation(pattern: string): ApiDocumentation | undefined {
-  return apiDocumentationMap.get(pattern.toLowerCase());
+function getApiCallPatterns(): Array<{ apiKey: string; pattern: RegExp }> {
+  if (!apiCallPatterns) {
+    const separator = '\\s*(?:\\.|->|::)\\s*';
+    const client = `(?<![\\w$])\\$?(?:\\w*(?:razorpay|rzp)\\w*|${CLIENT_NAMES.join('|')})`;
+
+    apiCallPatterns = apiDocumentation.map(doc => {
+      const paths = new Set(getSdkMethodPaths(doc).map(methodPath => methodPath.toLowerCase()));
+      const alternatives = [...paths].map(methodPath => methodPath.split('.').map(segment => {
+        // fetch() stands for a call with its arguments, as in $api->payment->fetch($id)->capture()
+        const name = segment.replace(/\(\)$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return segment.endsWith('()') ? `${name}\\s*\\([^()]*\\)` : name;
+      }).join(separator));
+
+      return {
+        apiKey: doc.id,
+        pattern: new RegExp(`${client}${separator}(?:${alternatives.join('|')})(?![\\w$])`, 'gi'),
+      };
+    });
+  }
+  return apiCallPatterns;
 }
 
 /**
- * Find matching API pattern in code
- * Supports various SDK patterns across different languages
+ * Find the SDK method call at `position`, preferring the longest when calls overlap, like a fetch() chained
+ * into capture()
  */
-export function findApiPattern(text: string, position: number): string | null {
-  // Define patterns for each API with their corresponding API pattern key
-  const apiPatternMap: Array<{ patterns: RegExp[]; apiKey: string }> = [
-    {
-      patterns: [
-        /razorpay\.orders\.create/gi,
-        /razorpay_client\.order\.create/gi,
-        /razorpay\.Order\.create/gi,
-        /razorpayClient\.Order\.Create/gi,
-        /razorpay\.Orders\.create/gi,
-        /Razorpay::Order\.create/gi,
-      ],
-      apiKey: 'orders.create',
-    },
-    {
-      patterns: [
-        /razorpay\.orders\.fetch/gi,
-        /razorpay_client\.order\.fetch/gi,
-        /razorpay\.Order\.fetch/gi,
-        /razorpayClient\.Order\.Fetch/gi,
-        /razorpay\.Orders\.fetch/gi,
-        /Razorpay::Order\.fetch/gi,
-      ],
-      apiKey: 'orders.fetch',
-    },
-    {
-      patterns: [
-        /razorpay\.payments\.fetch/gi,
-        /razorpay_client\.payment\.fetch/gi,
-        /razorpay\.Payment\.fetch/gi,
-        /razorpayClient\.Payment\.Fetch/gi,
-        /razorpay\.Payments\.fetch/gi,
-        /Razorpay::Payment\.fetch/gi,
-      ],
-      apiKey: 'payments.fetch',
-    },
-    {
-      patterns: [
-        /razorpay\.payments\.refund/gi,
-        /razorpay_client\.payment\.refund/gi,
-        /razorpay\.Payment\.refund/gi,
-        /razorpayClient\.Payment\.Refund/gi,
-        /razorpay\.Payments\.refund/gi,
-        /Razorpay::Payment\.refund/gi,
-      ],
-      apiKey: 'payments.refund',
-    },
-    {
-      patterns: [
-        /razorpay\.refunds\.fetch/gi,
-        /razorpay_client\.refund\.fetch/gi,
-        /razorpay\.Refund\.fetch/gi,
-        /razorpayClient\.Refund\.Fetch/gi,
-        /razorpay\.Refunds\.fetch/gi,
-        /Razorpay::Refund\.fetch/gi,
-      ],
-      apiKey: 'refunds.fetch',
-    },
-  ];
-  
-  // Check each API pattern
-  for (const { patterns, apiKey } of apiPatternMap) {
-    for (const pattern of patterns) {
-      const matches = Array.from(text.matchAll(pattern));
-      
-      for (const match of matches) {
-        if (match.index !== undefined) {
-          const start = match.index;
-          const end = start + match[0].length;
-          // Check if cursor position is within the match range
-          if (position >= start && position <= end) {
-            return apiKey;
-          }
-        }
+export function findApiCall(text: string, position: number): ApiCall | null {
+  // Generic client names such as `client` only count in files that use Razorpay
+  if (!/razorpay/i.test(text)) {
+    return null;
+  }
+
+  const windowStart = Math.max(0, position - CALL_SEARCH_WINDOW);
+  const nearby = text.substring(windowStart, position + CALL_SEARCH_WINDOW);
+  let found: ApiCall | null = null;
+
+  for (const { apiKey, pattern } of getApiCallPatterns()) {
+    for (const match of nearby.matchAll(pattern)) {
+      const start = windowStart + (match.index ?? 0);
+      const end = start + match[0].length;
+      // Check if cursor position is within the match range
+      if (position >= start && position <= end && (!found || end - start > found.end - found.start)) {
+        found = { apiKey, start, end };
       }
     }
   }
-  
-  return null;
+
+  return found;
 }
 
+/**
+ * Find matching API pattern in code
+ * Supports the SDK patterns of every language in apiDocumentation.json
+ */
+export function findApiPattern(text: string, position: number): string | null {
+  return findApiCall(text, position)?.apiKey ?? null;
+}
@@ -0,0 +1,309 @@
+/**
+ * Synthetic webhook payloads for Razorpay events
+ * Entities are shaped after the output fields documented in apiDocumentation.ts
+ */
+
+import { createPaymentLinkDoc, createSubscriptionDoc, fetchOrderDoc, fetchPaymentDoc, fetchRefundDoc } from './apiDocumentation';
+import type { ApiDocumentation } from './apiDocumentation';
+
+export type WebhookEntityType = 'payment' | 'order' | 'refund' | 'subscription' | 'payment_link';
+
+export interface WebhookEventDefinition {
+  event: string;
+  category: string;
+  description: string;
+  /** Entities included in `payload`, in the order Razorpay sends them */
+  contains: WebhookEntityType[];
+}
+
+export interface SyntheticWebhookInput {
+  /** Amount in currency subunits */
+  amount: number;
+  currency: string;
+  paymentId?: string;
+  orderId?: string;
+  refundId?: string;
+  subscriptionId?: string;
+  planId?: string;
+  paymentLinkId?: string;
+  method?: string;
+  email?: string;
+  contact?: string;
+  notes?: Record<string, string>;
+  accountId?: string;
+}
+
+/**
+ * Catalogue of webhook events that can be generated
+ * Reference: https://razorpay.com/docs/webhooks/payloads/
+ */
+export const webhookEventCatalogue: WebhookEventDefinition[] = [
+  { event: 'payment.authorized', category: 'Payments', description: 'Payment authorized by the customer\'s bank', contains: ['payment'] },
+  { event: 'payment.captured', category: 'Payments', description: 'Authorized payment captured', contains: ['payment'] },
+  { event: 'payment.failed', category: 'Payments', description: 'Payment attempt failed', contains: ['payment'] },
+  { event: 'order.paid', category: 'Orders', description: 'Order fully paid by a captured payment', contains: ['payment', 'order'] },
+  { event: 'refund.created', category: 'Refunds', description: 'Refund initiated for a payment', contains: ['refund', 'payment'] },
+  { event: 'refund.processed', category: 'Refunds', description: 'Refund processed and sent to the customer', contains: ['refund', 'payment'] },
+  { event: 'refund.failed', category: 'Refunds', description: 'Refund could not be processed', contains: ['refund', 'payment'] },
+  { event: 'subscription.activated', category: 'Subscriptions', description: 'Subscription moved to active state', contains: ['subscription'] },
+  { event: 'subscription.charged', category: 'Subscriptions', description: 'Recurring payment charged on a subscription', contains: ['subscription', 'payment'] },
+  { event: 'subscription.halted', category: 'Subscriptions', description: 'Subscription halted after repeated charge failures', contains: ['subscription'] },
+  { event: 'subscription.cancelled', category: 'Subscriptions', description: 'Subscription cancelled', contains: ['subscription'] },
+  { event: 'payment_link.paid', category: 'Payment Links', description: 'Payment link paid in full', contains: ['payment_link', 'order', 'payment'] },
+  { event: 'payment_link.partially_paid', category: 'Payment Links', description: 'Partial payment made on a payment link', contains: ['payment_link', 'order', 'payment'] },
+  { event: 'payment_link.expired', category: 'Payment Links', description: 'Payment link expired unpaid', contains: ['payment_link'] },
+  { event: 'payment_link.cancelled', category: 'Payment Links', description: 'Payment link cancelled', contains: ['payment_link'] },
+];
+
+export function getWebhookEventDefinition(event: string): WebhookEventDefinition | undefined {
+  return webhookEventCatalogue.find(e => e.event === event);
+}
+
+/**
+ * Generate a Razorpay-style identifier such as `pay_Nx3Qm7bYc2Lk9P`
+ */
+export function generateEntityId(prefix: string): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 14; i++) {
+    id += alphabet.charAt(Math.floor(Math.random() * alphabet.length));
+  }
+  return `${prefix}_${id}`;
+}
+
+/**
+ * Build a complete webhook body for the given event
+ */
+export function buildWebhookPayload(event: string, input: SyntheticWebhookInput): Record<string, unknown> {
+  const definition = getWebhookEventDefinition(event);
+  if (!definition) {
+    throw new Error(`Unknown webhook event: ${event}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const ids = {
+    paymentId: input.paymentId || generateEntityId('pay'),
+    orderId: input.orderId || generateEntityId('order'),
+    refundId: input.refundId || generateEntityId('rfnd'),
+    subscriptionId: input.subscriptionId || generateEntityId('sub'),
+    planId: input.planId || generateEntityId('plan'),
+    paymentLinkId: input.paymentLinkId || generateEntityId('plink'),
+  };
+
+  const payload: Record<string, unknown> = {};
+  for (const entityType of definition.contains) {
+    payload[entityType] = { entity: buildEntity(entityType, event, input, ids, now) };
+  }
+
+  return {
+    entity: 'event',
+    account_id: input.accountId || 'acc_TestAccount001',
+    event,
+    contains: definition.contains,
+    payload,
+    created_at: now,
+  };
+}
+
+type EntityIds = Required<Pick<SyntheticWebhookInput, 'paymentId' | 'orderId' | 'refundId' | 'subscriptionId' | 'planId' | 'paymentLinkId'>>;
+
+function buildEntity(
+  entityType: WebhookEntityType,
+  event: string,
+  input: SyntheticWebhookInput,
+  ids: EntityIds,
+  now: number,
+): Record<string, unknown> {
+  switch (entityType) {
+    case 'payment':
+      return buildPaymentEntity(event, input, ids, now);
+    case 'order':
+      return buildOrderEntity(event, input, ids, now);
+    case 'refund':
+      return buildRefundEntity(event, input, ids, now);
+    case 'subscription':
+      return buildSubscriptionEntity(event, input, ids, now);
+    case 'payment_link':
+      return buildPaymentLinkEntity(event, input, ids, now);
+  }
+}
+
+function buildPaymentEntity(event: string, input: SyntheticWebhookInput, ids: EntityIds, now: number): Record<string, unknown> {
+  const method = input.method || 'card';
+  let status = 'captured';
+  if (event === 'payment.authorized') {
+    status = 'authorized';
+  } else if (event === 'payment.failed') {
+    status = 'failed';
+  } else if (event.startsWith('refund.')) {
+    status = 'refunded';
+  }
+
+  const isRefund = event.startsWith('refund.');
+  const failed = status === 'failed';
+
+  return withDocumentedFields(fetchPaymentDoc, {
+    id: ids.paymentId,
+    entity: 'payment',
+    amount: input.amount,
+    currency: input.currency,
+    status,
+    order_id: ids.orderId,
+    invoice_id: null,
+    international: false,
+    method,
+    amount_refunded: isRefund ? input.amount : 0,
+    refund_status: isRefund ? 'full' : null,
+    captured: status === 'captured' || status === 'refunded',
+    description: 'Test payment',
+    card_id: method === 'card' ? generateEntityId('card') : null,
+    bank: method === 'netbanking' ? 'HDFC' : null,
+    wallet: method === 'wallet' ? 'paytm' : null,
+    vpa: method === 'upi' ? 'success@razorpay' : null,
+    email: input.email || 'customer@example.com',
+    contact: input.contact || '+919999999999',
+    notes: input.notes || {},
+    fee: failed ? null : Math.round(input.amount * 0.02),
+    tax: failed ? null : Math.round(input.amount * 0.0036),
+    error_code: failed ? 'BAD_REQUEST_ERROR' : null,
+    error_description: failed ? 'Payment processing failed because of incorrect OTP' : null,
+    error_source: failed ? 'customer' : null,
+    error_step: failed ? 'payment_authentication' : null,
+    error_reason: failed ? 'incorrect_otp' : null,
+    created_at: now,
+  });
+}
+
+function buildOrderEntity(event: string, input: SyntheticWebhookInput, ids: EntityIds, now: number): Record<string, unknown> {
+  const partial = event === 'payment_link.partially_paid';
+  const amountPaid = partial ? Math.floor(input.amount / 2) : input.amount;
+
+  return withDocumentedFields(fetchOrderDoc, {
+    id: ids.orderId,
+    entity: 'order',
+    amount: input.amount,
+    amount_paid: amountPaid,
+    amount_due: input.amount - amountPaid,
+    currency: input.currency,
+    receipt: `receipt_${now}`,
+    offer_id: null,
+    status: partial ? 'attempted' : 'paid',
+    attempts: 1,
+    notes: input.notes || {},
+    created_at: now - 60,
+  });
+}
+
+function buildRefundEntity(event: string, input: SyntheticWebhookInput, ids: EntityIds, now: number): Record<string, unknown> {
+  let status = 'processed';
+  if (event === 'refund.created') {
+    status = 'pending';
+  } else if (event === 'refund.failed') {
+    status = 'failed';
+  }
+
+  return withDocumentedFields(fetchRefundDoc, {
+    id: ids.refundId,
+    entity: 'refund',
+    amount: input.amount,
+    currency: input.currency,
+    payment_id: ids.paymentId,
+    notes: input.notes || {},
+    receipt: null,
+    acquirer_data: {
+      arn: status === 'processed' ? '10000000000000' : null,
+    },
+    status,
+    speed_processed: 'normal',
+    speed_requested: 'normal',
+    created_at: now,
+  });
+}
+
+function buildSubscriptionEntity(event: string, input: SyntheticWebhookInput, ids: EntityIds, now: number): Record<string, unknown> {
+  const action = event.split('.')[1];
+  const status = action === 'activated' || action === 'charged' ? 'active' : action;
+  const paidCount = event === 'subscription.charged' ? 2 : 1;
+
+  return withDocumentedFields(createSubscriptionDoc, {
+    id: ids.subscriptionId,
+    entity: 'subscription',
+    plan_id: ids.planId,
+    customer_id: generateEntityId('cust'),
+    status,
+    current_start: now,
+    current_end: now + 30 * 24 * 60 * 60,
+    ended_at: status === 'cancelled' ? now : null,
+    quantity: 1,
+    notes: input.notes || {},
+    charge_at: now + 30 * 24 * 60 * 60,
+    start_at: now - 30 * 24 * 60 * 60,
+    end_at: now + 11 * 30 * 24 * 60 * 60,
+    auth_attempts: 0,
+    total_count: 12,
+    paid_count: paidCount,
+    customer_notify: true,
+    created_at: now - 31 * 24 * 60 * 60,
+    expire_by: null,
+    short_url: null,
+    has_scheduled_changes: false,
+    change_scheduled_at: null,
+    source: 'api',
+    payment_method: input.method || 'card',
+    offer_id: null,
+    remaining_count: 12 - paidCount,
+  });
+}
+
+function buildPaymentLinkEntity(event: string, input: SyntheticWebhookInput, ids: EntityIds, now: number): Record<string, unknown> {
+  const status = event.split('.')[1];
+  const partial = status === 'partially_paid';
+  let amountPaid = 0;
+  if (status === 'paid') {
+    amountPaid = input.amount;
+  } else if (partial) {
+    amountPaid = Math.floor(input.amount / 2);
+  }
+
+  return withDocumentedFields(createPaymentLinkDoc, {
+    id: ids.paymentLinkId,
+    entity: 'payment_link',
+    amount: input.amount,
+    amount_paid: amountPaid,
+    currency: input.currency,
+    accept_partial: partial,
+    first_min_partial_amount: 0,
+    cancelled_at: status === 'cancelled' ? now : 0,
+    expired_at: status === 'expired' ? now : 0,
+    expire_by: 0,
+    customer: {
+      email: input.email || 'customer@example.com',
+      contact: input.contact || '+919999999999',
+    },
+    description: 'Test payment link',
+    notes: input.notes || {},
+    notify: { email: false, sms: false },
+    order_id: status === 'paid' || partial ? ids.orderId : '',
+    reference_id: '',
+    reminder_enable: false,
+    short_url: `https://rzp.io/i/${ids.paymentLinkId.substring(6, 14)}`,
+    status,
+    upi_link: false,
+    user_id: '',
+    created_at: now - 60,
+    updated_at: now,
+  });
+}
+
+/**
+ * Ensure every output field documented for the entity is present
+ * Documented fields come first, in documentation order; extra fields follow
+ */
+function withDocumentedFields(doc: ApiDocumentation, values: Record<string, unknown>): Record<string, unknown> {
+  const entity: Record<string, unknown> = {};
+  for (const field of doc.outputFields) {
+    const name = field.split(' - ')[0].trim();
+    entity[name] = name in values ? values[name] : null;
+  }
+  return { ...entity, ...values };
+}
@@ -1,23 +1,51 @@
 import * as vscode from 'vscode';
 import { Logger } from './utils/logger';
+import { formatAmount, fromSubunits } from './utils/money';
 import { SnippetGenerator } from './snippets/snippetGenerator';
 import { SnippetsTreeProvider } from './views/snippetsTreeProvider';
 import { EventsTreeProvider } from './views/eventsTreeProvider';
-import { SDKIntegrationTreeProvider } from './views/sdkIntegrationTreeProvider';
+import { SDKIntegrationTreeProvider, SDKIntegrationTreeItem } from './views/sdkIntegrationTreeProvider';
 import { AssistantChatViewProvider } from './webviews/assistantChatViewProvider';
 import { MCPChatViewProvider } from './webviews/mcpChatViewProvider';
 import { SnippetsWebviewProvider } from './webviews/snippetsWebview';
 import { EventsWebviewProvider } from './webviews/eventsWebview';
 import { RazorpayService } from './services/razorpayService';
+import { RazorpayApiError } from './services/razorpayApiError';
+import { CredentialManager, RazorpayProfile, SecretSetting } from './services/credentialManager';
+import { LiveModeGuard } from './services/liveModeGuard';
+import { MCPClient } from './services/mcpClient';
+import { MCPToolRouter } from './services/mcpToolRouter';
+import { ConversationStore } from './services/conversationStore';
+import { WebhookServer } from './services/webhookServer';
+import { WebhookForwarder } from './services/webhookForwarder';
+import { WebhookInboxTreeProvider, WebhookInboxTreeItem } from './views/webhookInboxTreeProvider';
+import { PaymentsTreeProvider, PaymentsTreeItem } from './views/paymentsTreeProvider';
+import { CustomersTreeProvider, CustomersTreeItem } from './views/customersTreeProvider';
+import { ProfileStatusBar } from './views/profileStatusBar';
 import { RazorpayHoverProvider } from './providers/razorpayHoverProvider';
 import { sdkSnippetTemplates } from './snippets/sdkTemplates';
+import { ProjectDetector, ProjectInfo } from './utils/projectDetector';
+import { IntegrationScaffolder } from './utils/integrationScaffolder';
+import { SDKInstaller } from './utils/sdkInstaller';
+import { getUpgradeGuide } from './utils/sdkVersions';
+import { scaffoldTemplates, ScaffoldTemplate } from './snippets/scaffoldTemplates';
 
 let logger: Logger;
+let credentialManager: CredentialManager;
+let liveModeGuard: LiveModeGuard;
+let mcpClient: MCPClient;
 let snippetGenerator: SnippetGenerator;
 let razorpayService: RazorpayService;
+let webhookServer: WebhookServer;
+let webhookForwarder: WebhookForwarder;
+let integrationScaffolder: IntegrationScaffolder;
+let sdkInstaller: SDKInstaller;
 let snippetsTreeProvider: SnippetsTreeProvider;
 let eventsTreeProvider: EventsTreeProvider;
 let sdkIntegrationTreeProvider: SDKIntegrationTreeProvider;
+let webhookInboxTreeProvider: WebhookInboxTreeProvider;
+let paymentsTreeProvider: PaymentsTreeProvider;
+let customersTreeProvider: CustomersTreeProvider;
 let snippetsWebview: SnippetsWebviewProvider;
 let eventsWebview: EventsWebviewProvider;
 
@@ -32,34 +60,54 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
     // Initialize services
     snippetGenerator = new SnippetGenerator(logger);
-    razorpayService = new RazorpayService(logger);
+    credentialManager = new CredentialManager(context.secrets, context.globalState, context.workspaceState, logger);
+    context.subscriptions.push(credentialManager);
+    liveModeGuard = new LiveModeGuard(credentialManager, logger);
+    razorpayService = new RazorpayService(logger, credentialManager, liveModeGuard);
+    mcpClient = new MCPClient(credentialManager, logger, context.extension.packageJSON.version);
+    context.subscriptions.push(mcpClient);
+    webhookServer = new WebhookServer(logger);
+    webhookForwarder = new WebhookForwarder(logger);
+    integrationScaffolder = new IntegrationScaffolder(logger);
+    sdkInstaller = new SDKInstaller(logger);
+    context.subscriptions.push(
+      webhookServer,
+      webhookServer.onDidChangeState(() => {
+        vscode.commands.executeCommand('setContext', 'razorpay.webhookListenerRunning', webhookServer.isRunning());
+      }),
+    );
+
+    // Move secrets still stored in plain-text settings to SecretStorage
+    await credentialManager.migrateFromSettings();
+    // Pick up RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET from .env files; new keys are offered in the background
+    await credentialManager.scanEnvFiles();
 
     // Initialize Razorpay service if credentials are configured
-    const config = vscode.workspace.getConfiguration('razorpay');
-    const keyId = config.get<string>('keyId', '');
-    const keySecret = config.get<string>('keySecret', '');
-    
-    if (keyId && keySecret) {
-      try {
-        razorpayService.initialize({ keyId, keySecret });
-        logger.info('Razorpay service initialized with configured credentials');
-      } catch (error) {
-        logger.warn('Failed to initialize Razorpay service. Please check your credentials in settings.');
+    try {
+      if (await razorpayService.reloadCredentials()) {
+        logger.info('Razorpay service initialized with stored credentials');
       }
+    } catch (error) {
+      logger.warn('Failed to initialize Razorpay service. Run "Razorpay: Set Credentials" to check your API keys.');
     }
 
     // Initialize tree view providers
     snippetsTreeProvider = new SnippetsTreeProvider(snippetGenerator);
     eventsTreeProvider = new EventsTreeProvider();
-    sdkIntegrationTreeProvider = new SDKIntegrationTreeProvider();
+    sdkIntegrationTreeProvider = new SDKIntegrationTreeProvider(context.workspaceState, logger);
+    context.subscriptions.push(sdkIntegrationTreeProvider);
+    webhookInboxTreeProvider = new WebhookInboxTreeProvider(webhookServer);
+    paymentsTreeProvider = new PaymentsTreeProvider(razorpayService, logger);
+    customersTreeProvider = new CustomersTreeProvider(razorpayService, logger);
 
     // Initialize webview providers
     snippetsWebview = new SnippetsWebviewProvider(context, logger, snippetGenerator);
-    eventsWebview = new EventsWebviewProvider(context, logger, razorpayService);
+    eventsWebview = new EventsWebviewProvider(context, logger, razorpayService, webhookServer, webhookForwarder, credentialManager);
 
     // Register sidebar chat view providers (opens in sidebar, not editor area)
-    const assistantChatProvider = new AssistantChatViewProvider(context.extensionUri, logger);
-    const mcpChatProvider = new MCPChatViewProvider(context.extensionUri, logger);
+    const assistantChatProvider = new AssistantChatViewProvider(context.extensionUri, logger, new ConversationStore(context.workspaceState));
+    const mcpChatProvider = new MCPChatViewProvider(context.extensionUri, logger, credentialManager, liveModeGuard, mcpClient,
+      new MCPToolRouter(credentialManager, mcpClient, logger));
 
     context.subscriptions.push(
       vscode.window.registerWebviewViewProvider(
@@ -75,6 +123,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       )
     );
 
+    // Show the active profile and mode in the status bar
+    context.subscriptions.push(new ProfileStatusBar(credentialManager));
+
     // Register tree views
     vscode.window.createTreeView('razorpaySnippets', {
       treeDataProvider: snippetsTreeProvider,
@@ -83,6 +134,16 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.window.createTreeView('razorpayEvents', {
       treeDataProvider: eventsTreeProvider,
     });
+    vscode.window.createTreeView('razorpayPayments', {
+      treeDataProvider: paymentsTreeProvider,
+    });
+    vscode.window.createTreeView('razorpayCustomers', {
+      treeDataProvider: customersTreeProvider,
+      showCollapseAll: true,
+    });
+    vscode.window.createTreeView('razorpayWebhookInbox', {
+      treeDataProvider: webhookInboxTreeProvider,
+    });
     vscode.window.createTreeView('razorpaySDKIntegration', {
       treeDataProvider: sdkIntegrationTreeProvider,
     });
@@ -98,6 +159,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       'java',
       'go',
       'ruby',
+      'php',
     ];
     
     supportedLanguages.forEach(language => {
@@ -109,22 +171,33 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Register commands
     registerCommands(context);
 
-    // Listen for configuration changes
+    // Listen for credential changes, from Set Credentials or from settings
+    context.subscriptions.push(
+      credentialManager.onDidChange(async (setting) => {
+        if (setting !== 'profile' && setting !== 'keySecret') {
+          return;
+        }
+
+        try {
+          await razorpayService.reloadCredentials();
+          logger.info('Razorpay service reinitialized with new credentials');
+        } catch (error) {
+          logger.error('Failed to reinitialize Razorpay service', error as Error);
+        }
+        paymentsTreeProvider.refresh();
+        customersTreeProvider.refresh();
+        eventsWebview.refreshConfigStatus();
+        if (setting === 'profile') {
+          mcpChatProvider.notifyProfileChanged(credentialManager.getActiveProfile());
+        }
+      }),
+    );
+
     context.subscriptions.push(
-      vscode.workspace.onDidChangeConfiguration((e) => {
-        if (e.affectsConfiguration('razorpay.keyId') || e.affectsConfiguration('razorpay.keySecret')) {
-          const newConfig = vscode.workspace.getConfiguration('razorpay');
-          const newKeyId = newConfig.get<string>('keyId', '');
-          const newKeySecret = newConfig.get<string>('keySecret', '');
-          
-          if (newKeyId && newKeySecret) {
-            try {
-              razorpayService.initialize({ keyId: newKeyId, keySecret: newKeySecret });
-              logger.info('Razorpay service reinitialized with new credentials');
-            } catch (error) {
-              logger.error('Failed to reinitialize Razorpay service', error as Error);
-            }
-          }
+      credentialManager.onDidChange(async (setting) => {
+        if (setting === 'webhookSecret') {
+          webhookServer.setSecret(await credentialManager.getSecret('webhookSecret') || '');
+          eventsWebview.refreshWebhooks();
         }
       }),
     );
@@ -144,6 +217,16 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 }
 
 function registerCommands(context: vscode.ExtensionContext): void {
+  const setCredentialsCommand = vscode.commands.registerCommand('razorpay.setCredentials', async () => {
+    await handleSetCredentials();
+  });
+  context.subscriptions.push(setCredentialsCommand);
+
+  const switchProfileCommand = vscode.commands.registerCommand('razorpay.switchProfile', async () => {
+    await handleSwitchProfile();
+  });
+  context.subscriptions.push(switchProfileCommand);
+
   // Focus the AI Assistant sidebar panel
   const openAssistantCommand = vscode.commands.registerCommand('razorpay.openAssistant', () => {
     vscode.commands.executeCommand('razorpayAssistantChat.focus');
@@ -155,8 +238,8 @@ function registerCommands(context: vscode.ExtensionContext): void {
   });
   context.subscriptions.push(openSnippetsCommand);
 
-  const openEventsCommand = vscode.commands.registerCommand('razorpay.openEvents', (section?: string) => {
-    eventsWebview.show(section);
+  const openEventsCommand = vscode.commands.registerCommand('razorpay.openEvents', (section?: string, selection?: string) => {
+    eventsWebview.show(section, selection);
   });
   context.subscriptions.push(openEventsCommand);
 
@@ -170,6 +253,31 @@ function registerCommands(context: vscode.ExtensionContext): void {
   });
   context.subscriptions.push(insertSDKTemplateCommand);
 
+  const selectSDKProjectCommand = vscode.commands.registerCommand('razorpay.sdk.selectProject', async (project?: ProjectInfo) => {
+    await handleSelectSDKProject(project);
+  });
+  context.subscriptions.push(selectSDKProjectCommand);
+
+  const refreshSDKProjectsCommand = vscode.commands.registerCommand('razorpay.sdk.refreshProjects', () => {
+    sdkIntegrationTreeProvider.refreshProjects();
+  });
+  context.subscriptions.push(refreshSDKProjectsCommand);
+
+  const scaffoldIntegrationCommand = vscode.commands.registerCommand('razorpay.scaffoldIntegration', async (item?: SDKIntegrationTreeItem) => {
+    await handleScaffoldIntegration(item?.project);
+  });
+  context.subscriptions.push(scaffoldIntegrationCommand);
+
+  const installSDKCommand = vscode.commands.registerCommand('razorpay.sdk.install', async (item?: SDKIntegrationTreeItem) => {
+    await handleInstallSDK(item?.project);
+  });
+  context.subscriptions.push(installSDKCommand);
+
+  const showSDKUpgradeGuideCommand = vscode.commands.registerCommand('razorpay.sdk.showUpgradeGuide', async (project?: ProjectInfo) => {
+    await handleShowSDKUpgradeGuide(project);
+  });
+  context.subscriptions.push(showSDKUpgradeGuideCommand);
+
   const snippetGenerateCommand = vscode.commands.registerCommand('razorpay.snippets.generate', async () => {
     await handleSnippetGenerate();
   });
@@ -179,6 +287,573 @@ function registerCommands(context: vscode.ExtensionContext): void {
     await handleSnippetList();
   });
   context.subscriptions.push(snippetListCommand);
+
+  const startWebhookListenerCommand = vscode.commands.registerCommand('razorpay.webhooks.startListener', async () => {
+    await handleStartWebhookListener();
+  });
+  context.subscriptions.push(startWebhookListenerCommand);
+
+  const stopWebhookListenerCommand = vscode.commands.registerCommand('razorpay.webhooks.stopListener', async () => {
+    await webhookServer.stop();
+  });
+  context.subscriptions.push(stopWebhookListenerCommand);
+
+  const clearWebhooksCommand = vscode.commands.registerCommand('razorpay.webhooks.clear', () => {
+    webhookServer.clear();
+  });
+  context.subscriptions.push(clearWebhooksCommand);
+
+  const replayWebhookCommand = vscode.commands.registerCommand('razorpay.webhooks.replay', async (item?: WebhookInboxTreeItem) => {
+    await handleReplayWebhook(item?.webhookId);
+  });
+  context.subscriptions.push(replayWebhookCommand);
+
+  const refreshPaymentsCommand = vscode.commands.registerCommand('razorpay.payments.refresh', () => {
+    paymentsTreeProvider.refresh();
+  });
+  context.subscriptions.push(refreshPaymentsCommand);
+
+  const capturePaymentCommand = vscode.commands.registerCommand('razorpay.payments.capture', async (item?: PaymentsTreeItem) => {
+    await handleCapturePayment(item);
+  });
+  context.subscriptions.push(capturePaymentCommand);
+
+  const refundPaymentCommand = vscode.commands.registerCommand('razorpay.payments.refund', (item?: PaymentsTreeItem) => {
+    eventsWebview.show('refund', item?.payment?.id);
+  });
+  context.subscriptions.push(refundPaymentCommand);
+
+  const copyPaymentIdCommand = vscode.commands.registerCommand('razorpay.payments.copyId', async (item?: PaymentsTreeItem) => {
+    if (!item?.payment) {
+      return;
+    }
+    await vscode.env.clipboard.writeText(item.payment.id);
+    vscode.window.showInformationMessage(`Copied to clipboard: ${item.payment.id}`);
+  });
+  context.subscriptions.push(copyPaymentIdCommand);
+
+  const refreshCustomersCommand = vscode.commands.registerCommand('razorpay.customers.refresh', () => {
+    customersTreeProvider.refresh();
+  });
+  context.subscriptions.push(refreshCustomersCommand);
+
+  const createCustomerCommand = vscode.commands.registerCommand('razorpay.customers.create', async () => {
+    await handleCreateCustomer();
+  });
+  context.subscriptions.push(createCustomerCommand);
+
+  const editCustomerCommand = vscode.commands.registerCommand('razorpay.customers.edit', async (item?: CustomersTreeItem) => {
+    await handleEditCustomer(item);
+  });
+  context.subscriptions.push(editCustomerCommand);
+
+  const revokeTokenCommand = vscode.commands.registerCommand('razorpay.customers.revokeToken', async (item?: CustomersTreeItem) => {
+    await handleRevokeToken(item);
+  });
+  context.subscriptions.push(revokeTokenCommand);
+
+  const copyCustomerIdCommand = vscode.commands.registerCommand('razorpay.customers.copyId', async (item?: CustomersTreeItem) => {
+    const id = item?.token?.id || item?.customer?.id;
+    if (!id) {
+      return;
+    }
+    await vscode.env.clipboard.writeText(id);
+    vscode.window.showInformationMessage(`Copied to clipboard: ${id}`);
+  });
+  context.subscriptions.push(copyCustomerIdCommand);
+}
+
+interface CredentialQuickPickItem extends vscode.QuickPickItem {
+  target: 'razorpay' | 'clear' | SecretSetting;
+}
+
+interface ProjectQuickPickItem extends vscode.QuickPickItem {
+  project: ProjectInfo;
+}
+
+interface ScaffoldQuickPickItem extends vscode.QuickPickItem {
+  template: ScaffoldTemplate;
+}
+
+interface ProfileQuickPickItem extends vscode.QuickPickItem {
+  profile?: RazorpayProfile;
+  action?: 'add' | 'edit' | 'remove' | 'env' | 'pin' | 'unpin';
+}
+
+async function handleSetCredentials(): Promise<void> {
+  const activeProfile = credentialManager.getActiveProfile();
+  const describe = async (setting: SecretSetting) => (await credentialManager.hasSecret(setting) ? 'stored' : 'not set');
+
+  const choice = await vscode.window.showQuickPick<CredentialQuickPickItem>([
+    {
+      label: '$(key) Razorpay API Keys',
+      description: activeProfile ? `${activeProfile.name} (${activeProfile.keyId})` : 'not set',
+      detail: 'Key ID and Key Secret from Dashboard → Account & Settings → API Keys',
+      target: 'razorpay',
+    },
+    {
+      label: '$(shield) Webhook Secret',
+      description: await describe('webhookSecret'),
+      detail: 'Verifies X-Razorpay-Signature on webhooks the local listener receives and signs replayed ones',
+      target: 'webhookSecret',
+    },
+    { label: '$(sparkle) OpenAI API Key', description: await describe('ai.openai.apiKey'), target: 'ai.openai.apiKey' },
+    { label: '$(sparkle) Gemini API Key', description: await describe('ai.gemini.apiKey'), target: 'ai.gemini.apiKey' },
+    { label: '$(trash) Clear Stored Secrets', target: 'clear' },
+  ], {
+    title: 'Razorpay: Set Credentials',
+    placeHolder: 'Secrets are kept in VS Code secure storage, never in settings.json',
+  });
+  if (!choice) {
+    return;
+  }
+
+  if (choice.target === 'razorpay') {
+    if (credentialManager.getProfiles().length === 0) {
+      await editRazorpayProfile();
+      return;
+    }
+    const profile = await pickProfile('Which profile do you want to set the API keys for?', true);
+    if (profile !== undefined) {
+      await editRazorpayProfile(profile || undefined);
+    }
+  } else if (choice.target === 'clear') {
+    const confirmation = await vscode.window.showWarningMessage(
+      'Remove every Razorpay Key Secret, the webhook secret and AI API keys from secure storage? Profiles are kept.',
+      { modal: true },
+      'Clear',
+    );
+    if (confirmation !== 'Clear') {
+      return;
+    }
+    await credentialManager.clearSecrets();
+    vscode.window.showInformationMessage('Stored Razorpay secrets cleared.');
+  } else {
+    const label = CredentialManager.getLabel(choice.target);
+    const value = await vscode.window.showInputBox({
+      title: label,
+      prompt: `${label} (leave empty to remove the stored key)`,
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (value === undefined) {
+      return;
+    }
+    if (value.trim()) {
+      await credentialManager.storeSecret(choice.target, value);
+      vscode.window.showInformationMessage(`${label} saved to secure storage.`);
+    } else {
+      await credentialManager.deleteSecret(choice.target);
+      vscode.window.showInformationMessage(`${label} removed.`);
+    }
+  }
+}
+
+async function handleSwitchProfile(): Promise<void> {
+  const activeProfile = credentialManager.getActiveProfile();
+  const folder = credentialManager.getCurrentFolder();
+  const env = folder && credentialManager.getEnvCredentials(folder);
+  const usingEnv = activeProfile?.source.kind === 'envFile';
+
+  const items: ProfileQuickPickItem[] = credentialManager.getProfiles().map(profile => ({
+    label: `${!usingEnv && profile.name === activeProfile?.name ? '$(check)' : '$(blank)'} ${profile.name}`,
+    description: `${CredentialManager.getMode(profile.keyId).toUpperCase()} · ${profile.keyId}`,
+    profile,
+  }));
+  if (folder && env) {
+    items.push({
+      label: `${usingEnv ? '$(check)' : '$(blank)'} .env (${folder.name})`,
+      description: `${CredentialManager.getMode(env.keyId).toUpperCase()} · ${env.keyId}`,
+      detail: `RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET from ${env.file}`,
+      action: 'env',
+    });
+  }
+  items.push(
+    { label: '', kind: vscode.QuickPickItemKind.Separator },
+    { label: '$(add) Add Profile...', action: 'add' },
+  );
+  if (activeProfile) {
+    items.push(
+      { label: '$(edit) Edit Profile...', action: 'edit' },
+      { label: '$(trash) Remove Profile...', action: 'remove' },
+    );
+  }
+  if (folder) {
+    items.push(activeProfile?.source.kind === 'folder'
+      ? { label: `$(pinned) Unpin Profile from ${folder.name}`, description: activeProfile.name, action: 'unpin' }
+      : { label: `$(pin) Pin a Profile to ${folder.name}...`, description: 'razorpay.profile', action: 'pin' });
+  }
+
+  const choice = await vscode.window.showQuickPick(items, {
+    title: 'Razorpay: Switch Profile',
+    placeHolder: activeProfile ? `Active: ${activeProfile.name} (${CredentialManager.describeSource(activeProfile)})` : 'No profiles yet',
+  });
+  if (!choice) {
+    return;
+  }
+
+  if (choice.action === 'env' && folder) {
+    if (!usingEnv) {
+      await credentialManager.useEnvCredentials(folder);
+      vscode.window.showInformationMessage(`Using the Razorpay keys from ${env?.file} in ${folder.name}.`);
+    }
+  } else if (choice.action === 'pin' && folder) {
+    const profile = await pickProfile(`Which profile should ${folder.name} always use?`, false);
+    if (profile) {
+      await credentialManager.pinProfile(folder, profile.name);
+    }
+  } else if (choice.action === 'unpin' && folder) {
+    await credentialManager.pinProfile(folder, undefined);
+  } else if (choice.profile) {
+    if (choice.profile.name === activeProfile?.name) {
+      return;
+    }
+    await credentialManager.setActiveProfile(choice.profile.name);
+    const mode = CredentialManager.getMode(choice.profile.keyId);
+    if (mode === 'live') {
+      vscode.window.showWarningMessage(`Switched to ${choice.profile.name}. This profile uses LIVE keys: writes affect real money and customers.`);
+    } else {
+      vscode.window.showInformationMessage(`Switched to ${choice.profile.name} (test mode).`);
+    }
+  } else if (choice.action === 'add') {
+    await editRazorpayProfile();
+  } else if (choice.action === 'edit') {
+    const profile = await pickProfile('Which profile do you want to edit?', false);
+    if (profile) {
+      await editRazorpayProfile(profile);
+    }
+  } else if (choice.action === 'remove') {
+    const profile = await pickProfile('Which profile do you want to remove?', false);
+    if (!profile) {
+      return;
+    }
+    const confirmation = await vscode.window.showWarningMessage(
+      `Remove profile ${profile.name} (${profile.keyId}) and its stored Key Secret?`,
+      { modal: true },
+      'Remove',
+    );
+    if (confirmation === 'Remove') {
+      await credentialManager.deleteProfile(profile.name);
+    }
+  }
+}
+
+/**
+ * Ask for one of the configured profiles
+ * @returns the chosen profile, null for "New Profile" when offered, or undefined when dismissed
+ */
+async function pickProfile(placeHolder: string, offerNew: boolean): Promise<RazorpayProfile | null | undefined> {
+  const items: ProfileQuickPickItem[] = credentialManager.getProfiles().map(profile => ({
+    label: profile.name,
+    description: `${CredentialManager.getMode(profile.keyId).toUpperCase()} · ${profile.keyId}`,
+    profile,
+  }));
+  if (offerNew) {
+    items.push({ label: '$(add) New Profile', action: 'add' });
+  }
+
+  const choice = await vscode.window.showQuickPick(items, { title: 'Razorpay Profiles', placeHolder });
+  if (!choice) {
+    return undefined;
+  }
+  return choice.profile || null;
+}
+
+async function editRazorpayProfile(existing?: RazorpayProfile): Promise<void> {
+  const otherNames = credentialManager.getProfiles().map(p => p.name).filter(n => n !== existing?.name);
+
+  const name = await vscode.window.showInputBox({
+    title: `${existing ? 'Edit' : 'Add'} Razorpay Profile (1/3)`,
+    prompt: 'Profile name',
+    placeHolder: 'Marketplace – test',
+    value: existing?.name,
+    ignoreFocusOut: true,
+    validateInput: value => !value.trim()
+      ? 'Profile name is required'
+      : otherNames.includes(value.trim()) ? 'A profile with this name already exists' : undefined,
+  });
+  if (name === undefined) {
+    return;
+  }
+
+  const keyId = await vscode.window.showInputBox({
+    title: `${existing ? 'Edit' : 'Add'} Razorpay Profile (2/3)`,
+    prompt: 'Key ID',
+    placeHolder: 'rzp_test_XXXXXXXXXXXXXX',
+    value: existing?.keyId,
+    ignoreFocusOut: true,
+    validateInput: value => /^rzp_(test|live)_\w+$/.test(value.trim()) ? undefined : 'Key ID starts with rzp_test_ or rzp_live_',
+  });
+  if (keyId === undefined) {
+    return;
+  }
+
+  const profile: RazorpayProfile = { name: name.trim(), keyId: keyId.trim() };
+  const canKeepSecret = !!existing && existing.keyId === profile.keyId && await credentialManager.hasProfileSecret(existing);
+  const keySecret = await vscode.window.showInputBox({
+    title: `${existing ? 'Edit' : 'Add'} Razorpay Profile (3/3)`,
+    prompt: canKeepSecret ? `Key Secret for ${profile.keyId} (leave empty to keep the stored one)` : `Key Secret for ${profile.keyId}`,
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: value => value.trim() || canKeepSecret ? undefined : 'Key Secret is required',
+  });
+  if (keySecret === undefined) {
+    return;
+  }
+
+  await credentialManager.saveProfile(profile, keySecret.trim() || undefined, existing?.name);
+
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Verifying Razorpay credentials for ${profile.name}...` },
+      async () => {
+        await razorpayService.reloadCredentials();
+        await razorpayService.listPayments({ count: 1 });
+      },
+    );
+    const mode = CredentialManager.getMode(profile.keyId);
+    vscode.window.showInformationMessage(`Razorpay profile ${profile.name} saved and verified (${mode} mode).`);
+  } catch (error) {
+    logger.error('Failed to verify Razorpay credentials', error as Error);
+    const errorMessage = error instanceof RazorpayApiError
+      ? `${error.code}: ${error.message}`
+      : error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showWarningMessage(`Razorpay profile ${profile.name} saved, but verification failed: ${errorMessage}`);
+  }
+}
+
+async function handleCapturePayment(item?: PaymentsTreeItem): Promise<void> {
+  const payment = item?.payment;
+  if (!payment) {
+    return;
+  }
+
+  const confirmation = await vscode.window.showWarningMessage(
+    `Capture ${formatAmount(payment.amount, payment.currency)} for payment ${payment.id}?`,
+    { modal: true },
+    'Capture',
+  );
+  if (confirmation !== 'Capture') {
+    return;
+  }
+
+  try {
+    const captured = await razorpayService.capturePayment({
+      payment_id: payment.id,
+      amount: fromSubunits(payment.amount, payment.currency),
+      currency: payment.currency,
+    });
+    vscode.window.showInformationMessage(`Payment ${captured.id} captured (status: ${captured.status})`);
+    paymentsTreeProvider.refresh();
+  } catch (error) {
+    logger.error('Failed to capture payment', error as Error);
+    let errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof RazorpayApiError) {
+      errorMessage = `${error.code}: ${error.message}`;
+    }
+    vscode.window.showErrorMessage(`Failed to capture payment: ${errorMessage}`);
+  }
+}
+
+async function handleCreateCustomer(): Promise<void> {
+  if (!razorpayService.isInitialized()) {
+    vscode.window.showWarningMessage('Razorpay credentials not configured. Run "Razorpay: Set Credentials" to add your API keys.');
+    return;
+  }
+
+  const name = await vscode.window.showInputBox({
+    title: 'Create Customer (1/3)',
+    prompt: 'Customer name',
+    placeHolder: 'Gaurav Kumar',
+    ignoreFocusOut: true,
+    validateInput: value => value.trim().length < 3 || value.trim().length > 50 ? 'Name must be between 3 and 50 characters' : undefined,
+  });
+  if (name === undefined) {
+    return;
+  }
+
+  const email = await vscode.window.showInputBox({
+    title: 'Create Customer (2/3)',
+    prompt: 'Email (optional)',
+    placeHolder: 'gaurav.kumar@example.com',
+    ignoreFocusOut: true,
+  });
+  if (email === undefined) {
+    return;
+  }
+
+  const contact = await vscode.window.showInputBox({
+    title: 'Create Customer (3/3)',
+    prompt: 'Contact number with country code (optional)',
+    placeHolder: '+919000090000',
+    ignoreFocusOut: true,
+  });
+  if (contact === undefined) {
+    return;
+  }
+
+  try {
+    const customer = await razorpayService.createCustomer({
+      name: name.trim(),
+      email: email.trim() || undefined,
+      contact: contact.trim() || undefined,
+    });
+    await vscode.env.clipboard.writeText(customer.id);
+    vscode.window.showInformationMessage(`Customer created! Customer ID: ${customer.id} (copied to clipboard)`);
+    customersTreeProvider.refresh();
+  } catch (error) {
+    logger.error('Failed to create customer', error as Error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to create customer: ${errorMessage}`);
+  }
+}
+
+async function handleEditCustomer(item?: CustomersTreeItem): Promise<void> {
+  const customer = item?.customer;
+  if (!customer) {
+    return;
+  }
+
+  const name = await vscode.window.showInputBox({
+    title: `Edit ${customer.id} (1/3)`,
+    prompt: 'Customer name',
+    value: customer.name,
+    ignoreFocusOut: true,
+    validateInput: value => value.trim().length < 3 || value.trim().length > 50 ? 'Name must be between 3 and 50 characters' : undefined,
+  });
+  if (name === undefined) {
+    return;
+  }
+
+  const email = await vscode.window.showInputBox({
+    title: `Edit ${customer.id} (2/3)`,
+    prompt: 'Email',
+    value: customer.email || '',
+    ignoreFocusOut: true,
+  });
+  if (email === undefined) {
+    return;
+  }
+
+  const contact = await vscode.window.showInputBox({
+    title: `Edit ${customer.id} (3/3)`,
+    prompt: 'Contact number with country code',
+    value: customer.contact || '',
+    ignoreFocusOut: true,
+  });
+  if (contact === undefined) {
+    return;
+  }
+
+  // Only send the fields that changed
+  const changes: { name?: string; email?: string; contact?: string } = {};
+  if (name.trim() !== customer.name) {
+    changes.name = name.trim();
+  }
+  if (email.trim() !== (customer.email || '')) {
+    changes.email = email.trim();
+  }
+  if (contact.trim() !== (customer.contact || '')) {
+    changes.contact = contact.trim();
+  }
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  try {
+    const updated = await razorpayService.editCustomer(customer.id, changes);
+    vscode.window.showInformationMessage(`Customer ${updated.id} updated`);
+    customersTreeProvider.refresh();
+  } catch (error) {
+    logger.error('Failed to edit customer', error as Error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to edit customer: ${errorMessage}`);
+  }
+}
+
+async function handleRevokeToken(item?: CustomersTreeItem): Promise<void> {
+  const customer = item?.customer;
+  const token = item?.token;
+  if (!customer || !token) {
+    return;
+  }
+
+  const confirmation = await vscode.window.showWarningMessage(
+    `Revoke token ${token.id} (${item.label}) for customer ${customer.id}? The saved payment method can no longer be charged.`,
+    { modal: true },
+    'Revoke',
+  );
+  if (confirmation !== 'Revoke') {
+    return;
+  }
+
+  try {
+    await razorpayService.deleteToken(customer.id, token.id);
+    vscode.window.showInformationMessage(`Token ${token.id} revoked`);
+    customersTreeProvider.refresh();
+  } catch (error) {
+    logger.error('Failed to revoke token', error as Error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to revoke token: ${errorMessage}`);
+  }
+}
+
+async function handleReplayWebhook(webhookId?: string): Promise<void> {
+  const captured = webhookId ? webhookServer.getEvent(webhookId) : webhookServer.getEvents()[0];
+  if (!captured) {
+    vscode.window.showWarningMessage('No captured webhook to replay.');
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('razorpay');
+  const url = await vscode.window.showInputBox({
+    prompt: `Replay ${captured.event} to`,
+    value: config.get<string>('webhooks.forwardUrl', ''),
+    placeHolder: 'http://localhost:3000/razorpay/webhook',
+  });
+  if (!url) {
+    return;
+  }
+
+  try {
+    const result = await webhookForwarder.forward({
+      url,
+      body: captured.rawBody,
+      secret: await credentialManager.getSecret('webhookSecret') || '',
+      eventId: captured.eventId,
+    });
+    const message = `Replayed ${captured.event}: HTTP ${result.status} ${result.statusText} (${result.durationMs}ms)`;
+    if (result.status >= 400) {
+      vscode.window.showWarningMessage(message);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+  } catch (error) {
+    logger.error('Failed to replay webhook', error as Error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to replay webhook: ${errorMessage}`);
+  }
+}
+
+async function handleStartWebhookListener(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('razorpay');
+  const port = config.get<number>('webhooks.port', 8787);
+  const rawPath = config.get<string>('webhooks.path', '/razorpay/webhook');
+  const path = rawPath.startsWith('/') ? rawPath : `/${rawPath}`;
+  const secret = await credentialManager.getSecret('webhookSecret') || '';
+
+  try {
+    await webhookServer.start({ port, path, secret });
+    if (!secret) {
+      vscode.window.showWarningMessage('Webhook listener started without a webhook secret. Store it with "Razorpay: Set Credentials" to verify signatures.');
+    } else {
+      vscode.window.showInformationMessage(`Listening for Razorpay webhooks on ${webhookServer.getUrl()}`);
+    }
+  } catch (error) {
+    logger.error('Failed to start webhook listener', error as Error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to start webhook listener on port ${port}: ${errorMessage}`);
+  }
 }
 
 async function handleInsertSnippet(snippetPattern: string): Promise<void> {
@@ -214,12 +889,14 @@ async function handleInsertSDKTemplate(templateId: string): Promise<void> {
     // If no file is open, create a new file with appropriate extension
     if (!editor) {
       const fileInfo = getFileInfoForTemplate(templateId);
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      // In the project selected in the SDK Integration view, so a monorepo gets the file in the right package
+      const project = await sdkIntegrationTreeProvider.getSelectedProject();
+      const folderUri = project ? vscode.Uri.file(project.rootPath) : vscode.workspace.workspaceFolders?.[0]?.uri;
       
-      if (workspaceFolder) {
+      if (folderUri) {
         // Create file in workspace
         const fileName = `razorpay-${fileInfo.name}${fileInfo.extension}`;
-        const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, fileName);
+        const fileUri = vscode.Uri.joinPath(folderUri, fileName);
         
         // Create the file with empty content
         await vscode.workspace.fs.writeFile(fileUri, new Uint8Array());
@@ -251,6 +928,146 @@ async function handleInsertSDKTemplate(templateId: string): Promise<void> {
   }
 }
 
+async function handleSelectSDKProject(project?: ProjectInfo): Promise<void> {
+  if (!project) {
+    const projects = await sdkIntegrationTreeProvider.getProjects();
+    if (projects.length === 0) {
+      vscode.window.showInformationMessage('No projects detected in the workspace folders.');
+      return;
+    }
+
+    const selected = await sdkIntegrationTreeProvider.getSelectedProject();
+    const choice = await vscode.window.showQuickPick<ProjectQuickPickItem>(projects.map(p => ({
+      label: `${p.rootPath === selected?.rootPath ? '$(check)' : '$(blank)'} ${SDKIntegrationTreeProvider.getProjectName(p)}`,
+      description: SDKIntegrationTreeProvider.getProjectDescription(p),
+      detail: p.rootPath,
+      project: p,
+    })), {
+      title: 'Razorpay: Select Project for SDK Setup',
+      placeHolder: 'Which project do you want to integrate Razorpay into?',
+    });
+    if (!choice) {
+      return;
+    }
+    project = choice.project;
+  }
+
+  await sdkIntegrationTreeProvider.selectProject(project);
+}
+
+/**
+ * The project selected in the SDK Integration view, asking for one when several were detected and none is selected
+ * @returns undefined when the user cancelled
+ */
+async function resolveSDKProject(): Promise<ProjectInfo | undefined> {
+  const projects = await sdkIntegrationTreeProvider.getProjects();
+  const selected = await sdkIntegrationTreeProvider.getSelectedProject();
+  if (selected || projects.length <= 1) {
+    // A folder with nothing detected yet is set up at its root
+    return selected || await ProjectDetector.detectProject();
+  }
+
+  await handleSelectSDKProject();
+  return sdkIntegrationTreeProvider.getSelectedProject();
+}
+
+async function handleInstallSDK(project?: ProjectInfo): Promise<void> {
+  project = project || await resolveSDKProject();
+  if (!project) {
+    return;
+  }
+  if (!project.rootPath) {
+    vscode.window.showErrorMessage('Open a project folder to install the Razorpay SDK.');
+    return;
+  }
+
+  if (await sdkInstaller.installSDK(project)) {
+    sdkIntegrationTreeProvider.refreshProjects();
+  }
+}
+
+async function handleShowSDKUpgradeGuide(project?: ProjectInfo): Promise<void> {
+  project = project || await resolveSDKProject();
+  if (!project) {
+    return;
+  }
+
+  const name = SDKIntegrationTreeProvider.getProjectName(project);
+  const advice = SDKIntegrationTreeProvider.getSDKAdvice(project);
+  if (!advice) {
+    vscode.window.showInformationMessage(project.hasSDK
+      ? `Could not tell which version of ${project.sdkPackage || 'the Razorpay SDK'} ${name} uses.`
+      : `The Razorpay SDK is not installed in ${name}.`);
+    return;
+  }
+  if (advice.status === 'latest') {
+    vscode.window.showInformationMessage(`${advice.installed.package} ${advice.installed.version} in ${name} is up to date.`);
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    content: getUpgradeGuide(advice, name),
+    language: 'markdown',
+  });
+  await vscode.window.showTextDocument(document);
+}
+
+async function handleScaffoldIntegration(project?: ProjectInfo): Promise<void> {
+  try {
+    project = project || await resolveSDKProject();
+    if (!project) {
+      return;
+    }
+    if (!project.rootPath) {
+      vscode.window.showErrorMessage('Open a project folder to scaffold a Razorpay integration.');
+      return;
+    }
+
+    const detected = await integrationScaffolder.detectFramework(project);
+    const templates = [...scaffoldTemplates].sort((a, b) => Number(b.framework === detected) - Number(a.framework === detected));
+    const choice = await vscode.window.showQuickPick<ScaffoldQuickPickItem>(templates.map(template => ({
+      label: template.name,
+      description: template.framework === detected ? 'detected' : undefined,
+      detail: template.description,
+      template,
+    })), {
+      title: `Razorpay: Scaffold Integration in ${SDKIntegrationTreeProvider.getProjectName(project)}`,
+      placeHolder: 'Which framework does the project use?',
+    });
+    if (!choice) {
+      return;
+    }
+
+    const plan = await integrationScaffolder.plan(choice.template, project);
+    if (plan.files.every(file => file.exists)) {
+      vscode.window.showInformationMessage(`Every ${choice.template.name} integration file already exists in ${project.rootPath}.`);
+      return;
+    }
+
+    // Opens the Refactor Preview listing each file; nothing is written until it is applied
+    const written = await integrationScaffolder.apply(plan);
+    if (!written || written.length === 0) {
+      return;
+    }
+
+    const skipped = plan.files.length - written.length;
+    const action = await vscode.window.showInformationMessage(
+      `Created ${written.length} ${choice.template.name} integration files${skipped > 0 ? `, skipped ${skipped}` : ''}.`,
+      'Next Steps',
+    );
+    if (action === 'Next Steps') {
+      const document = await vscode.workspace.openTextDocument({
+        content: IntegrationScaffolder.getSummary(plan, written),
+        language: 'markdown',
+      });
+      await vscode.window.showTextDocument(document);
+    }
+  } catch (error) {
+    logger.error('Failed to scaffold integration', error as Error);
+    vscode.window.showErrorMessage('Failed to scaffold the integration. Check output channel for details.');
+  }
+}
+
 interface FileInfo {
   name: string;
   extension: string;
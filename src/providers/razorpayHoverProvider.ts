@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { findApiPattern, getApiDocumentation, type ApiDocumentation } from '../api/apiDocumentation';
+import { findApiCall, getApiDocumentation, type ApiDocumentation } from '../api/apiDocumentation';
 
 /**
  * Hover provider for Razorpay API calls
@@ -12,19 +12,18 @@ export class RazorpayHoverProvider implements vscode.HoverProvider {
     _token: vscode.CancellationToken,
   ): vscode.ProviderResult<vscode.Hover> {
     try {
-      const lineText = document.lineAt(position.line).text;
       const offset = document.offsetAt(position);
       const fullText = document.getText();
       
-      // Find API pattern at the cursor position
-      const apiPattern = findApiPattern(fullText, offset);
+      // Find the SDK method call at the cursor position
+      const apiCall = findApiCall(fullText, offset);
       
-      if (!apiPattern) {
+      if (!apiCall) {
         return null;
       }
       
       // Get API documentation
-      const apiDoc = getApiDocumentation(apiPattern);
+      const apiDoc = getApiDocumentation(apiCall.apiKey);
       
       if (!apiDoc) {
         return null;
@@ -33,8 +32,8 @@ export class RazorpayHoverProvider implements vscode.HoverProvider {
       // Create hover content
       const hoverContent = this.createHoverContent(apiDoc);
       
-      // Get the range of the API call for highlighting
-      const range = this.getApiCallRange(document, position, lineText);
+      // Highlight the whole call, which may span lines when chained
+      const range = new vscode.Range(document.positionAt(apiCall.start), document.positionAt(apiCall.end));
       
       return new vscode.Hover(hoverContent, range);
     } catch (error) {
@@ -117,61 +116,5 @@ export class RazorpayHoverProvider implements vscode.HoverProvider {
     
     return markdown;
   }
-  
-  /**
-   * Get the range of the API call for highlighting
-   */
-  private getApiCallRange(
-    document: vscode.TextDocument,
-    position: vscode.Position,
-    lineText: string,
-  ): vscode.Range {
-    // Try to find the API call pattern on the current line
-    const patterns = [
-      /razorpay\.orders\.create/gi,
-      /razorpay_client\.order\.create/gi,
-      /razorpay\.Order\.create/gi,
-      /razorpayClient\.Order\.Create/gi,
-      /razorpay\.Orders\.create/gi,
-      /Razorpay::Order\.create/gi,
-      /razorpay\.orders\.fetch/gi,
-      /razorpay_client\.order\.fetch/gi,
-      /razorpay\.Order\.fetch/gi,
-      /razorpayClient\.Order\.Fetch/gi,
-      /razorpay\.Orders\.fetch/gi,
-      /Razorpay::Order\.fetch/gi,
-      /razorpay\.payments\.fetch/gi,
-      /razorpay_client\.payment\.fetch/gi,
-      /razorpay\.Payment\.fetch/gi,
-      /razorpayClient\.Payment\.Fetch/gi,
-      /razorpay\.Payments\.fetch/gi,
-      /Razorpay::Payment\.fetch/gi,
-      /razorpay\.payments\.refund/gi,
-      /razorpay_client\.payment\.refund/gi,
-      /razorpay\.Payment\.refund/gi,
-      /razorpayClient\.Payment\.Refund/gi,
-      /razorpay\.Payments\.refund/gi,
-      /Razorpay::Payment\.refund/gi,
-      /razorpay\.refunds\.fetch/gi,
-      /razorpay_client\.refund\.fetch/gi,
-      /razorpay\.Refund\.fetch/gi,
-      /razorpayClient\.Refund\.Fetch/gi,
-      /razorpay\.Refunds\.fetch/gi,
-      /Razorpay::Refund\.fetch/gi,
-    ];
-    
-    for (const pattern of patterns) {
-      const match = lineText.match(pattern);
-      if (match && match.index !== undefined) {
-        const startPos = new vscode.Position(position.line, match.index);
-        const endPos = new vscode.Position(position.line, match.index + match[0].length);
-        return new vscode.Range(startPos, endPos);
-      }
-    }
-    
-    // Default: return range for the current word
-    const wordRange = document.getWordRangeAtPosition(position);
-    return wordRange || new vscode.Range(position, position);
-  }
 }
 
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ChatOpenAI } from '@langchain/openai';
+import type { CredentialManager } from './credentialManager';
+
+export type ChatModel = ChatOpenAI | ChatGoogleGenerativeAI;
+
+/**
+ * Chat model of the configured AI provider: OpenAI when its key is stored, otherwise Gemini
+ * @returns undefined when no AI API key is stored
+ */
+export async function createChatModel(credentialManager: CredentialManager, temperature = 0.2): Promise<ChatModel | undefined> {
+  const config = vscode.workspace.getConfiguration('razorpay');
+
+  const openaiKey = await credentialManager.getSecret('ai.openai.apiKey');
+  const openaiModel = config.get<string>('ai.openai.model') || 'gpt-4o-mini';
+
+  if (openaiKey) {
+    return new ChatOpenAI({
+      apiKey: openaiKey,
+      model: openaiModel,
+      temperature,
+    });
+  }
+
+  const geminiKey = await credentialManager.getSecret('ai.gemini.apiKey');
+  const geminiModel = config.get<string>('ai.gemini.model') || 'gemini-2.0-flash';
+
+  if (geminiKey) {
+    return new ChatGoogleGenerativeAI({
+      apiKey: geminiKey,
+      model: geminiModel,
+      temperature,
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * Text of a model response, whose content is a string or a list of content parts
+ */
+export function getMessageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part: unknown) => {
+        if (typeof part === 'string') return part;
+        if (part && typeof part === 'object' && 'text' in part) {
+          return (part as { text: string }).text;
+        }
+        return '';
+      })
+      .join('');
+  }
+  return '';
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ConversationMessage[];
+}
+
+/**
+ * A question and the answer to it, as the Smartron API takes previous turns
+ */
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+const CONVERSATIONS_STATE_KEY = 'razorpay.assistant.conversations';
+const ACTIVE_CONVERSATION_STATE_KEY = 'razorpay.assistant.activeConversation';
+/** Oldest conversations are dropped beyond this, to keep workspace state small */
+const MAX_CONVERSATIONS = 50;
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Assistant conversations of this workspace, kept in workspace state so they survive the view being hidden
+ * and VS Code restarting
+ */
+export class ConversationStore {
+  constructor(private workspaceState: vscode.Memento) {}
+
+  /**
+   * Title for a conversation started with `question`: its first line, shortened
+   */
+  static getTitle(question: string): string {
+    const line = question.split('\n')[0].trim();
+    return line.length > MAX_TITLE_LENGTH ? `${line.substring(0, MAX_TITLE_LENGTH - 1)}…` : line || 'New conversation';
+  }
+
+  /**
+   * Completed question-and-answer pairs, oldest first
+   * @param limit keep only the most recent turns
+   */
+  static getTurns(conversation: Conversation, limit: number): ConversationTurn[] {
+    const turns: ConversationTurn[] = [];
+    conversation.messages.forEach((message, index) => {
+      const next = conversation.messages[index + 1];
+      if (message.role === 'user' && next?.role === 'assistant') {
+        turns.push({ question: message.text, answer: next.text });
+      }
+    });
+    return turns.slice(-limit);
+  }
+
+  static toMarkdown(conversation: Conversation): string {
+    const lines = [
+      `# ${conversation.title}`,
+      '',
+      `*Razorpay Assistant conversation, ${new Date(conversation.createdAt).toLocaleString()}*`,
+      '',
+    ];
+    for (const message of conversation.messages) {
+      lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'}`, '', message.text.trim(), '');
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Conversations, most recently updated first
+   */
+  list(): Conversation[] {
+    return [...this.getAll()].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  get(id: string): Conversation | undefined {
+    return this.getAll().find(conversation => conversation.id === id);
+  }
+
+  getActive(): Conversation | undefined {
+    const id = this.workspaceState.get<string>(ACTIVE_CONVERSATION_STATE_KEY);
+    return id ? this.get(id) : undefined;
+  }
+
+  async setActive(id: string | undefined): Promise<void> {
+    await this.workspaceState.update(ACTIVE_CONVERSATION_STATE_KEY, id);
+  }
+
+  /**
+   * Start an empty conversation and make it the active one
+   */
+  async create(title = 'New conversation'): Promise<Conversation> {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: `${now.toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+      title,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+
+    const conversations = [...this.getAll(), conversation]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_CONVERSATIONS);
+    await this.workspaceState.update(CONVERSATIONS_STATE_KEY, conversations);
+    await this.setActive(conversation.id);
+    return conversation;
+  }
+
+  async append(id: string, message: Omit<ConversationMessage, 'timestamp'>): Promise<void> {
+    await this.update(id, conversation => {
+      // A conversation takes its title from the first question unless it was renamed
+      const title = conversation.messages.length === 0 && message.role === 'user' && conversation.title === 'New conversation'
+        ? ConversationStore.getTitle(message.text)
+        : conversation.title;
+      return {
+        ...conversation,
+        title,
+        updatedAt: Date.now(),
+        messages: [...conversation.messages, { ...message, timestamp: Date.now() }],
+      };
+    });
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    await this.update(id, conversation => ({ ...conversation, title: title.trim() || conversation.title }));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.workspaceState.update(CONVERSATIONS_STATE_KEY, this.getAll().filter(conversation => conversation.id !== id));
+    if (this.workspaceState.get<string>(ACTIVE_CONVERSATION_STATE_KEY) === id) {
+      await this.workspaceState.update(ACTIVE_CONVERSATION_STATE_KEY, undefined);
+    }
+  }
+
+  private getAll(): Conversation[] {
+    return this.workspaceState.get<Conversation[]>(CONVERSATIONS_STATE_KEY, []);
+  }
+
+  private async update(id: string, change: (conversation: Conversation) => Conversation): Promise<void> {
+    await this.workspaceState.update(
+      CONVERSATIONS_STATE_KEY,
+      this.getAll().map(conversation => conversation.id === id ? change(conversation) : conversation),
+    );
+  }
+}
@@ -0,0 +1,518 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { Logger } from '../utils/logger';
+import { EnvCredentials, readEnvCredentials } from '../utils/envFile';
+
+/**
+ * Settings that used to hold secrets in plain text, relative to the `razorpay` section
+ */
+export type SecretSetting = 'keySecret' | 'webhookSecret' | 'ai.openai.apiKey' | 'ai.gemini.apiKey';
+
+export const secretSettings: SecretSetting[] = ['keySecret', 'webhookSecret', 'ai.openai.apiKey', 'ai.gemini.apiKey'];
+
+export interface RazorpayCredentials {
+  keyId: string;
+  keySecret: string;
+}
+
+export type RazorpayMode = 'test' | 'live';
+
+/**
+ * A named Razorpay account and key pair. The Key Secret is kept in SecretStorage, keyed by Key ID.
+ */
+export interface RazorpayProfile {
+  name: string;
+  keyId: string;
+}
+
+/**
+ * Where the active keys come from: the profile selected in the status bar, a profile pinned to the current
+ * workspace folder with `razorpay.profile`, or the folder's .env files
+ */
+export type KeySource =
+  | { kind: 'profile' }
+  | { kind: 'folder'; folder: string }
+  | { kind: 'envFile'; folder: string; file: string };
+
+/**
+ * The profile whose keys are in use in the current workspace folder
+ */
+export interface ActiveProfile extends RazorpayProfile {
+  source: KeySource;
+}
+
+/** What changed: a profile (added, edited, removed or switched to) or one of the stored secrets */
+export type CredentialChange = 'profile' | SecretSetting;
+
+const secretLabels: Record<SecretSetting, string> = {
+  'keySecret': 'Razorpay Key Secret',
+  'webhookSecret': 'Razorpay Webhook Secret',
+  'ai.openai.apiKey': 'OpenAI API Key',
+  'ai.gemini.apiKey': 'Gemini API Key',
+};
+
+const ACTIVE_PROFILE_STATE_KEY = 'razorpay.activeProfile';
+const PROFILE_SECRET_PREFIX = 'razorpay.keySecret.';
+/** Per folder URI: the .env Key ID the user was asked about, and whether they chose to use it */
+const ENV_DECISIONS_STATE_KEY = 'razorpay.envCredentials';
+
+interface EnvDecision {
+  keyId: string;
+  use: boolean;
+}
+
+/**
+ * Single source of credentials for the extension.
+ * Profile names and Key IDs live in the `razorpay.profiles` setting; Key Secrets, the webhook secret and AI provider
+ * keys live in VS Code SecretStorage so they never reach settings.json or Settings Sync.
+ * Each workspace folder can override the active profile with `razorpay.profile`, or use the keys in its .env files.
+ * The current folder follows the active editor.
+ */
+export class CredentialManager implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<CredentialChange>();
+  /** Fires with the credential that changed, whether it was stored here or edited in settings */
+  readonly onDidChange = this._onDidChange.event;
+  private readonly disposables: vscode.Disposable[] = [];
+  private migration: Promise<SecretSetting[]> | undefined;
+  /** .env keys per folder URI, so the active profile can be resolved synchronously */
+  private readonly envCredentials = new Map<string, EnvCredentials>();
+  private currentFolder: vscode.WorkspaceFolder | undefined;
+  /** Folder URI and Key ID of .env offers still on screen, so a rescan doesn't ask twice */
+  private readonly pendingOffers = new Set<string>();
+
+  constructor(
+    private secrets: vscode.SecretStorage,
+    private globalState: vscode.Memento,
+    private workspaceState: vscode.Memento,
+    private logger: Logger,
+  ) {
+    const envWatcher = vscode.workspace.createFileSystemWatcher('**/.env*');
+
+    this.disposables.push(
+      this._onDidChange,
+      secrets.onDidChange(e => {
+        if (e.key.startsWith(PROFILE_SECRET_PREFIX)) {
+          this._onDidChange.fire('keySecret');
+          return;
+        }
+        const setting = secretSettings.find(s => CredentialManager.getStorageKey(s) === e.key);
+        if (setting) {
+          this._onDidChange.fire(setting);
+        }
+      }),
+      envWatcher,
+      envWatcher.onDidCreate(() => this.scanEnvFiles()),
+      envWatcher.onDidChange(() => this.scanEnvFiles()),
+      envWatcher.onDidDelete(() => this.scanEnvFiles()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.scanEnvFiles()),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        const folder = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+        if (!folder || folder.uri.toString() === this.currentFolder?.uri.toString()) {
+          return;
+        }
+        const before = this.getActiveProfile();
+        this.currentFolder = folder;
+        const after = this.getActiveProfile();
+        if (before?.name !== after?.name || before?.keyId !== after?.keyId) {
+          this._onDidChange.fire('profile');
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(async e => {
+        if (e.affectsConfiguration('razorpay.profiles') || e.affectsConfiguration('razorpay.profile')) {
+          this._onDidChange.fire('profile');
+        }
+        if (e.affectsConfiguration('razorpay.envFiles')) {
+          await this.scanEnvFiles();
+        }
+        // A secret typed into settings.json is moved to secret storage, which fires onDidChange
+        if (e.affectsConfiguration('razorpay.keyId') || secretSettings.some(s => e.affectsConfiguration(`razorpay.${s}`))) {
+          await this.migrateFromSettings();
+        }
+      }),
+    );
+  }
+
+  static getStorageKey(setting: SecretSetting): string {
+    return `razorpay.${setting}`;
+  }
+
+  static getLabel(setting: SecretSetting): string {
+    return secretLabels[setting];
+  }
+
+  static getMode(keyId: string): RazorpayMode {
+    return keyId.startsWith('rzp_live_') ? 'live' : 'test';
+  }
+
+  getProfiles(): RazorpayProfile[] {
+    const profiles = vscode.workspace.getConfiguration('razorpay').get<RazorpayProfile[]>('profiles', []);
+    return profiles.filter(p => p && p.name && p.keyId);
+  }
+
+  /**
+   * Workspace folder of the active editor, or of the last editor that had one, or the first folder
+   */
+  getCurrentFolder(): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (!this.currentFolder || !folders.some(f => f.uri.toString() === this.currentFolder!.uri.toString())) {
+      const editorUri = vscode.window.activeTextEditor?.document.uri;
+      this.currentFolder = (editorUri && vscode.workspace.getWorkspaceFolder(editorUri)) || folders[0];
+    }
+    return this.currentFolder;
+  }
+
+  /**
+   * Profile for the current folder: its .env keys when the user chose them, the profile pinned with
+   * `razorpay.profile`, or else the profile selected in the status bar (the first profile until one is selected)
+   */
+  getActiveProfile(): ActiveProfile | undefined {
+    const profiles = this.getProfiles();
+    const folder = this.getCurrentFolder();
+
+    if (folder) {
+      const env = this.getUsedEnvCredentials(folder);
+      if (env) {
+        return { name: `.env (${folder.name})`, keyId: env.keyId, source: { kind: 'envFile', folder: folder.name, file: env.file } };
+      }
+
+      const pinnedName = vscode.workspace.getConfiguration('razorpay', folder.uri).get<string>('profile', '');
+      const pinned = pinnedName && profiles.find(p => p.name === pinnedName);
+      if (pinned) {
+        return { ...pinned, source: { kind: 'folder', folder: folder.name } };
+      }
+    }
+
+    const activeName = this.globalState.get<string>(ACTIVE_PROFILE_STATE_KEY);
+    const profile = profiles.find(p => p.name === activeName) || profiles[0];
+    return profile && { ...profile, source: { kind: 'profile' } };
+  }
+
+  /**
+   * Human-readable origin of the active keys, for the status bar and the Events panel
+   */
+  static describeSource(profile: ActiveProfile): string {
+    switch (profile.source.kind) {
+      case 'envFile':
+        return `RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET in ${profile.source.folder}/${profile.source.file}`;
+      case 'folder':
+        return `profile "${profile.name}", pinned to ${profile.source.folder} by razorpay.profile`;
+      default:
+        return `profile "${profile.name}", selected in the status bar`;
+    }
+  }
+
+  getActiveMode(): RazorpayMode | undefined {
+    const profile = this.getActiveProfile();
+    return profile ? CredentialManager.getMode(profile.keyId) : undefined;
+  }
+
+  /**
+   * Switch profiles. In a folder that has its own keys the choice replaces them, or it would have no effect there.
+   */
+  async setActiveProfile(name: string): Promise<void> {
+    if (!this.getProfiles().some(p => p.name === name)) {
+      throw new Error(`Unknown Razorpay profile: ${name}`);
+    }
+
+    const folder = this.getCurrentFolder();
+    if (folder) {
+      const env = this.envCredentials.get(folder.uri.toString());
+      if (env && this.getUsedEnvCredentials(folder)) {
+        await this.setEnvDecision(folder, { keyId: env.keyId, use: false });
+      }
+      const pinned = vscode.workspace.getConfiguration('razorpay', folder.uri).inspect<string>('profile');
+      if (pinned?.workspaceFolderValue) {
+        await this.pinProfile(folder, name);
+      } else if (pinned?.workspaceValue) {
+        await vscode.workspace.getConfiguration('razorpay').update('profile', name, vscode.ConfigurationTarget.Workspace);
+      }
+    }
+
+    await this.globalState.update(ACTIVE_PROFILE_STATE_KEY, name);
+    this.logger.info(`Switched to Razorpay profile "${name}"`);
+    this._onDidChange.fire('profile');
+  }
+
+  /**
+   * Add a profile, or replace the one named `previousName`, and make it active.
+   * The Key Secret is only updated when one is given, so a profile can be renamed without re-entering it.
+   */
+  async saveProfile(profile: RazorpayProfile, keySecret?: string, previousName?: string): Promise<void> {
+    const profiles = this.getProfiles().filter(p => p.name !== (previousName ?? profile.name) && p.name !== profile.name);
+    profiles.push(profile);
+
+    if (keySecret) {
+      await this.secrets.store(PROFILE_SECRET_PREFIX + profile.keyId, keySecret.trim());
+      this.logger.info(`Key Secret for ${profile.keyId} saved to secure storage`);
+    }
+    await this.globalState.update(ACTIVE_PROFILE_STATE_KEY, profile.name);
+    await vscode.workspace.getConfiguration('razorpay').update('profiles', profiles, vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * Use a profile in one workspace folder regardless of the status bar selection, or stop doing so
+   */
+  async pinProfile(folder: vscode.WorkspaceFolder, name: string | undefined): Promise<void> {
+    await vscode.workspace.getConfiguration('razorpay', folder.uri).update('profile', name, vscode.ConfigurationTarget.WorkspaceFolder);
+    this.logger.info(name ? `Pinned Razorpay profile "${name}" to ${folder.name}` : `Unpinned the Razorpay profile of ${folder.name}`);
+  }
+
+  async deleteProfile(name: string): Promise<void> {
+    const removed = this.getProfiles().find(p => p.name === name);
+    if (!removed) {
+      return;
+    }
+    const profiles = this.getProfiles().filter(p => p.name !== name);
+    // Other profiles may share the key pair, e.g. the same account under two names
+    if (!profiles.some(p => p.keyId === removed.keyId)) {
+      await this.secrets.delete(PROFILE_SECRET_PREFIX + removed.keyId);
+    }
+    await vscode.workspace.getConfiguration('razorpay').update('profiles', profiles, vscode.ConfigurationTarget.Global);
+    this.logger.info(`Removed Razorpay profile "${name}"`);
+  }
+
+  async hasProfileSecret(profile: RazorpayProfile): Promise<boolean> {
+    return !!(await this.secrets.get(PROFILE_SECRET_PREFIX + profile.keyId));
+  }
+
+  async getSecret(setting: SecretSetting): Promise<string | undefined> {
+    return (await this.secrets.get(CredentialManager.getStorageKey(setting))) || undefined;
+  }
+
+  async hasSecret(setting: SecretSetting): Promise<boolean> {
+    return !!(await this.getSecret(setting));
+  }
+
+  /**
+   * API credentials of the active profile, or undefined when there is no profile or its secret is missing
+   */
+  async getRazorpayCredentials(): Promise<RazorpayCredentials | undefined> {
+    const profile = this.getActiveProfile();
+    if (!profile) {
+      return undefined;
+    }
+    if (profile.source.kind === 'envFile') {
+      const env = this.getUsedEnvCredentials(this.getCurrentFolder()!);
+      return env && { keyId: env.keyId, keySecret: env.keySecret };
+    }
+    const keySecret = await this.secrets.get(PROFILE_SECRET_PREFIX + profile.keyId);
+    return keySecret ? { keyId: profile.keyId, keySecret } : undefined;
+  }
+
+  async storeSecret(setting: SecretSetting, value: string): Promise<void> {
+    await this.secrets.store(CredentialManager.getStorageKey(setting), value.trim());
+    this.logger.info(`${secretLabels[setting]} saved to secure storage`);
+  }
+
+  async deleteSecret(setting: SecretSetting): Promise<void> {
+    await this.secrets.delete(CredentialManager.getStorageKey(setting));
+    this.logger.info(`${secretLabels[setting]} removed from secure storage`);
+  }
+
+  /**
+   * Remove every stored Key Secret, the webhook secret and AI provider keys. Profiles are kept and need their secret re-entered.
+   */
+  async clearSecrets(): Promise<void> {
+    for (const profile of this.getProfiles()) {
+      await this.secrets.delete(PROFILE_SECRET_PREFIX + profile.keyId);
+    }
+    for (const setting of secretSettings) {
+      await this.deleteSecret(setting);
+    }
+  }
+
+  /**
+   * Move secrets found in plain-text settings into SecretStorage and clear the settings.
+   * The plain-text value wins over an already stored secret, since it is the most recent one the user entered.
+   * A lone `razorpay.keyId` / `razorpay.keySecret` pair from older versions becomes a "Default" profile.
+   * @returns the settings that were migrated
+   */
+  migrateFromSettings(): Promise<SecretSetting[]> {
+    // Clearing the settings fires configuration events of our own; let them join the running migration
+    if (!this.migration) {
+      this.migration = this.migrate().finally(() => {
+        this.migration = undefined;
+      });
+    }
+    return this.migration;
+  }
+
+  private async migrate(): Promise<SecretSetting[]> {
+    const migrated: SecretSetting[] = [];
+
+    for (const setting of secretSettings) {
+      const value = await this.takeSetting(setting);
+      if (!value) {
+        continue;
+      }
+
+      try {
+        await this.storeSecret(setting, value);
+        migrated.push(setting);
+      } catch (error) {
+        this.logger.error(`Failed to move ${secretLabels[setting]} to secure storage`, error as Error);
+      }
+    }
+
+    // Key pairs from before profiles existed belong to the profile with that Key ID, or to the active profile
+    const legacyKeyId = await this.takeSetting('keyId');
+    const legacySecret = await this.getSecret('keySecret');
+    const active = this.getActiveProfile();
+    const target: RazorpayProfile | undefined = legacyKeyId
+      ? this.getProfiles().find(p => p.keyId === legacyKeyId) || { name: `Default – ${CredentialManager.getMode(legacyKeyId)}`, keyId: legacyKeyId }
+      : legacySecret && active && active.source.kind !== 'envFile' ? { name: active.name, keyId: active.keyId } : undefined;
+    if (target) {
+      await this.saveProfile(target, legacySecret);
+      if (legacySecret) {
+        await this.deleteSecret('keySecret');
+      }
+      this.logger.info(`Moved legacy Razorpay credentials into profile "${target.name}"`);
+    }
+
+    if (migrated.length > 0) {
+      const labels = migrated.map(s => secretLabels[s]).join(', ');
+      this.logger.info(`Migrated plain-text settings to secure storage: ${labels}`);
+      vscode.window.showInformationMessage(
+        `Razorpay: moved ${labels} from settings.json to secure storage. Use "Razorpay: Set Credentials" to change them.`,
+      );
+    }
+
+    return migrated;
+  }
+
+  /**
+   * .env keys found in a folder, whether or not they are in use
+   */
+  getEnvCredentials(folder: vscode.WorkspaceFolder): EnvCredentials | undefined {
+    return this.envCredentials.get(folder.uri.toString());
+  }
+
+  /**
+   * Use a folder's .env keys there instead of a profile
+   */
+  async useEnvCredentials(folder: vscode.WorkspaceFolder): Promise<void> {
+    const env = this.envCredentials.get(folder.uri.toString());
+    if (!env) {
+      throw new Error(`No Razorpay keys found in the .env files of ${folder.name}`);
+    }
+    await this.setEnvDecision(folder, { keyId: env.keyId, use: true });
+    this.logger.info(`Using Razorpay keys from ${folder.name}/${env.file}`);
+    this._onDidChange.fire('profile');
+  }
+
+  /**
+   * Look for RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET in each folder's `razorpay.envFiles` and offer keys not seen before.
+   * Keys that already belong to a profile are not offered. Resolves once the files are read, without waiting for answers.
+   */
+  async scanEnvFiles(): Promise<void> {
+    const before = this.getActiveProfile();
+    const secretBefore = before?.source.kind === 'envFile' ? (await this.getRazorpayCredentials())?.keySecret : undefined;
+    const offers: Array<{ folder: vscode.WorkspaceFolder; env: EnvCredentials }> = [];
+
+    this.envCredentials.clear();
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const files = vscode.workspace.getConfiguration('razorpay', folder.uri).get<string[]>('envFiles', ['.env', '.env.local']);
+      const env = await readEnvCredentials(folder.uri.fsPath, files);
+      if (!env) {
+        continue;
+      }
+      this.envCredentials.set(folder.uri.toString(), env);
+
+      const decision = this.getEnvDecision(folder);
+      const offerKey = `${folder.uri.toString()} ${env.keyId}`;
+      if (decision?.keyId !== env.keyId && !this.getProfiles().some(p => p.keyId === env.keyId) && !this.pendingOffers.has(offerKey)) {
+        this.pendingOffers.add(offerKey);
+        offers.push({ folder, env });
+      }
+    }
+
+    const after = this.getActiveProfile();
+    if (before?.name !== after?.name || before?.keyId !== after?.keyId) {
+      this._onDidChange.fire('profile');
+    } else if (after?.source.kind === 'envFile' && (await this.getRazorpayCredentials())?.keySecret !== secretBefore) {
+      this._onDidChange.fire('keySecret');
+    }
+
+    this.offerEnvCredentials(offers).catch(error => this.logger.error('Failed to apply .env credentials', error as Error));
+  }
+
+  /**
+   * Ask about each folder's .env keys in turn
+   */
+  private async offerEnvCredentials(offers: Array<{ folder: vscode.WorkspaceFolder; env: EnvCredentials }>): Promise<void> {
+    for (const { folder, env } of offers) {
+      try {
+        await this.offerFolderEnvCredentials(folder, env);
+      } finally {
+        this.pendingOffers.delete(`${folder.uri.toString()} ${env.keyId}`);
+      }
+    }
+  }
+
+  private async offerFolderEnvCredentials(folder: vscode.WorkspaceFolder, env: EnvCredentials): Promise<void> {
+    const mode = CredentialManager.getMode(env.keyId);
+    const choice = await vscode.window.showInformationMessage(
+      `Found Razorpay ${mode} keys (${env.keyId}) in ${path.posix.join(folder.name, env.file)}. Use them for ${folder.name}?`,
+      'Use .env Keys',
+      'Save as Profile',
+      'Ignore',
+    );
+
+    if (choice === 'Use .env Keys') {
+      await this.useEnvCredentials(folder);
+    } else if (choice === 'Save as Profile') {
+      const names = this.getProfiles().map(p => p.name);
+      let name = `${folder.name} – ${mode}`;
+      for (let i = 2; names.includes(name); i++) {
+        name = `${folder.name} – ${mode} (${i})`;
+      }
+      await this.setEnvDecision(folder, { keyId: env.keyId, use: false });
+      await this.saveProfile({ name, keyId: env.keyId }, env.keySecret);
+      this.logger.info(`Saved Razorpay keys from ${folder.name}/${env.file} as profile "${name}"`);
+    } else if (choice === 'Ignore') {
+      await this.setEnvDecision(folder, { keyId: env.keyId, use: false });
+    }
+  }
+
+  /**
+   * The folder's .env keys, if the user chose to use them. A different Key ID in the file needs a new decision.
+   */
+  private getUsedEnvCredentials(folder: vscode.WorkspaceFolder): EnvCredentials | undefined {
+    const env = this.envCredentials.get(folder.uri.toString());
+    const decision = this.getEnvDecision(folder);
+    return env && decision?.use && decision.keyId === env.keyId ? env : undefined;
+  }
+
+  private getEnvDecision(folder: vscode.WorkspaceFolder): EnvDecision | undefined {
+    return this.workspaceState.get<Record<string, EnvDecision>>(ENV_DECISIONS_STATE_KEY, {})[folder.uri.toString()];
+  }
+
+  private async setEnvDecision(folder: vscode.WorkspaceFolder, decision: EnvDecision): Promise<void> {
+    const decisions = this.workspaceState.get<Record<string, EnvDecision>>(ENV_DECISIONS_STATE_KEY, {});
+    await this.workspaceState.update(ENV_DECISIONS_STATE_KEY, { ...decisions, [folder.uri.toString()]: decision });
+  }
+
+  /**
+   * Read a setting and clear it from user and workspace settings
+   */
+  private async takeSetting(setting: string): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration('razorpay');
+    const inspected = config.inspect<string>(setting);
+    const value = inspected?.workspaceValue || inspected?.globalValue;
+    if (!value) {
+      return undefined;
+    }
+
+    if (inspected?.globalValue !== undefined) {
+      await config.update(setting, undefined, vscode.ConfigurationTarget.Global);
+    }
+    if (inspected?.workspaceValue !== undefined) {
+      await config.update(setting, undefined, vscode.ConfigurationTarget.Workspace);
+    }
+    return value.trim();
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
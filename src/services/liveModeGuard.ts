@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Logger } from '../utils/logger';
+import { CredentialManager, RazorpayMode } from './credentialManager';
+
+/**
+ * What to do with a mutating call while live keys are active
+ */
+export type LiveMutationPolicy = 'confirm' | 'block' | 'allow';
+
+/**
+ * One line of the diff summary shown before a mutating call
+ */
+export interface MutationChange {
+  field: string;
+  /** Value before the call; omitted for values the call creates */
+  before?: string;
+  after: string;
+}
+
+export interface MutationRequest {
+  /** Operation name, e.g. `refund.create`, or the MCP tool name */
+  operation: string;
+  /** Entity the call acts on, e.g. a payment ID */
+  target?: string;
+  source: 'extension' | 'mcp';
+  /** Key ID the call is sent with; decides whether the call is live */
+  keyId: string;
+  /** Builds the diff summary; only called when live keys are active, since it may need extra API reads */
+  describe: () => MutationChange[] | Promise<MutationChange[]>;
+}
+
+export type MutationOutcome = 'succeeded' | 'failed' | 'blocked' | 'declined';
+
+export interface AuditEntry {
+  timestamp: string;
+  profile?: string;
+  keyId?: string;
+  mode: RazorpayMode;
+  source: MutationRequest['source'];
+  operation: string;
+  target?: string;
+  outcome: MutationOutcome;
+  changes?: MutationChange[];
+  /** ID of the entity the call created or changed */
+  resultId?: string;
+  error?: string;
+}
+
+/**
+ * Thrown when the live-mode policy stops a mutating call
+ */
+export class MutationBlockedError extends Error {
+  constructor(message: string, readonly outcome: 'blocked' | 'declined') {
+    super(message);
+    this.name = 'MutationBlockedError';
+  }
+}
+
+const CONFIRM_ACTION = 'Run in Live Mode';
+
+/**
+ * Policy layer for calls that create or change data in a Razorpay account.
+ * With `rzp_live_` keys active it confirms or blocks each call, per `razorpay.liveMode.mutations`, after showing
+ * a diff-style summary. Every mutating call, live or test, is written to the output channel and the audit log file.
+ */
+export class LiveModeGuard {
+  constructor(private credentialManager: CredentialManager, private logger: Logger) {}
+
+  /**
+   * Describe an MCP tool call from its arguments, for tools that change data
+   */
+  static describeToolCall(toolName: string, args: Record<string, unknown>, keyId: string): MutationRequest {
+    const target = Object.keys(args).filter(key => key.endsWith('_id')).map(key => args[key]).find(value => typeof value === 'string');
+    return {
+      operation: toolName,
+      target: target as string | undefined,
+      source: 'mcp',
+      keyId,
+      describe: () => Object.entries(args).map(([field, value]) => ({
+        field,
+        after: typeof value === 'string' ? value : JSON.stringify(value),
+      })),
+    };
+  }
+
+  /**
+   * Check the policy, run the call and record the outcome
+   * @param summarize picks the ID of the created or changed entity, or an error the call returned instead of throwing
+   */
+  async run<T>(
+    request: MutationRequest,
+    call: () => Promise<T>,
+    summarize?: (result: T) => { resultId?: string; error?: string },
+  ): Promise<T> {
+    const mode = CredentialManager.getMode(request.keyId);
+    const profile = this.getProfileName(request.keyId);
+    const entry: Omit<AuditEntry, 'timestamp' | 'outcome'> = {
+      profile,
+      keyId: request.keyId,
+      mode,
+      source: request.source,
+      operation: request.operation,
+      target: request.target,
+    };
+
+    if (mode === 'live') {
+      const policy = vscode.workspace.getConfiguration('razorpay').get<LiveMutationPolicy>('liveMode.mutations', 'confirm');
+
+      if (policy === 'block') {
+        await this.record({ ...entry, outcome: 'blocked' });
+        throw new MutationBlockedError(
+          `${request.operation} blocked: live-mode writes are disabled by razorpay.liveMode.mutations`,
+          'blocked',
+        );
+      }
+
+      if (policy === 'confirm') {
+        entry.changes = await this.describe(request);
+        if (!(await this.confirm(request, entry.changes, profile))) {
+          await this.record({ ...entry, outcome: 'declined' });
+          throw new MutationBlockedError(`${request.operation} cancelled: the live-mode call was not confirmed`, 'declined');
+        }
+      }
+    }
+
+    try {
+      const result = await call();
+      const summary = summarize?.(result) ?? {};
+      await this.record({ ...entry, ...summary, outcome: summary.error ? 'failed' : 'succeeded' });
+      return result;
+    } catch (error) {
+      await this.record({ ...entry, outcome: 'failed', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Render changes as a unified-diff style summary
+   */
+  static formatChanges(changes: MutationChange[]): string {
+    return changes.map(change => (change.before !== undefined && change.before !== change.after
+      ? `- ${change.field}: ${change.before}\n+ ${change.field}: ${change.after}`
+      : `${change.before === undefined ? '+' : ' '} ${change.field}: ${change.after}`)).join('\n');
+  }
+
+  private async describe(request: MutationRequest): Promise<MutationChange[]> {
+    try {
+      return await request.describe();
+    } catch (error) {
+      // Still ask, just without the current values
+      this.logger.warn(`Could not build a summary for ${request.operation}: ${error instanceof Error ? error.message : String(error)}`);
+      return [{ field: 'summary', after: 'unavailable, current values could not be fetched' }];
+    }
+  }
+
+  /**
+   * Name of the profile a key belongs to, preferring the active one; undefined for keys no profile holds
+   */
+  private getProfileName(keyId: string): string | undefined {
+    const active = this.credentialManager.getActiveProfile();
+    return active?.keyId === keyId ? active.name : this.credentialManager.getProfiles().find(p => p.keyId === keyId)?.name;
+  }
+
+  private async confirm(request: MutationRequest, changes: MutationChange[], profileName?: string): Promise<boolean> {
+    const target = request.target ? ` on ${request.target}` : '';
+    const account = profileName ? `profile "${profileName}"` : `key ${request.keyId}`;
+    const confirmation = await vscode.window.showWarningMessage(
+      `LIVE MODE: run ${request.operation}${target} with ${account}?`,
+      {
+        modal: true,
+        detail: `${LiveModeGuard.formatChanges(changes)}\n\nThis changes your live Razorpay account and cannot be undone from here.`,
+      },
+      CONFIRM_ACTION,
+    );
+    return confirmation === CONFIRM_ACTION;
+  }
+
+  private async record(fields: Omit<AuditEntry, 'timestamp'>): Promise<void> {
+    const entry: AuditEntry = { timestamp: new Date().toISOString(), ...fields };
+    const target = entry.target ? ` ${entry.target}` : '';
+    const result = entry.resultId ? ` -> ${entry.resultId}` : '';
+    const error = entry.error ? `: ${entry.error}` : '';
+    this.logger.info(`[AUDIT] ${entry.mode.toUpperCase()} ${entry.source} ${entry.operation}${target} ${entry.outcome}${result}${error}`);
+
+    const file = this.getAuditFile();
+    if (!file) {
+      return;
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (err) {
+      this.logger.error(`Failed to write audit log ${file}`, err as Error);
+    }
+  }
+
+  /**
+   * Audit log location from `razorpay.auditLog.file`, relative to the current workspace folder
+   * @returns undefined when the setting is empty or no folder is open
+   */
+  getAuditFile(): string | undefined {
+    const workspaceFolder = this.credentialManager.getCurrentFolder();
+    const configured = vscode.workspace.getConfiguration('razorpay', workspaceFolder?.uri).get<string>('auditLog.file', '.razorpay/audit.log').trim();
+    if (!configured || !workspaceFolder) {
+      return undefined;
+    }
+    return path.isAbsolute(configured) ? configured : path.join(workspaceFolder.uri.fsPath, configured);
+  }
+}
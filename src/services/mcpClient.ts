@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import type { Logger } from '../utils/logger';
+import type { CredentialManager, RazorpayCredentials } from './credentialManager';
+import { HttpTransport, MCPSessionExpiredError, MCPTransport, StdioTransport } from './mcpTransport';
+import type {
+  MCPInitializeResult,
+  MCPListToolsResult,
+  MCPRequest,
+  MCPResponse,
+  MCPTool,
+  MCPToolCallResult,
+} from '../types';
+
+const DEFAULT_SERVER_URL = 'https://mcp.razorpay.com/mcp';
+const PROTOCOL_VERSION = '2025-03-26';
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+/** Settings that decide which server to talk to; changing any of them starts a new session */
+const TRANSPORT_SETTINGS = ['transport', 'url', 'command', 'args', 'env'];
+
+interface MCPSession {
+  keyId: string;
+  transport: MCPTransport;
+  protocolVersion: string;
+  serverInfo?: MCPInitializeResult['serverInfo'];
+}
+
+/**
+ * Client for a Razorpay MCP server: the remote server over Streamable HTTP by default, another HTTP endpoint,
+ * or a local server launched over stdio, as configured under `razorpay.mcp`.
+ * Performs the `initialize` handshake once per key pair and caches the tool list, so tools added on the server
+ * show up without an extension release.
+ * Credentials come from the active profile; switching profiles or servers starts a new session.
+ */
+export class MCPClient implements vscode.Disposable {
+  private requestId = 0;
+  private session: Promise<MCPSession> | undefined;
+  private sessionKeyId: string | undefined;
+  private tools: { keyId: string; tools: MCPTool[] } | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private credentialManager: CredentialManager,
+    private logger: Logger,
+    private clientVersion: string,
+  ) {
+    this.disposables.push(
+      credentialManager.onDidChange(change => {
+        if (change === 'profile' || change === 'keySecret') {
+          this.reset();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (TRANSPORT_SETTINGS.some(setting => e.affectsConfiguration(`razorpay.mcp.${setting}`))) {
+          this.reset();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Text of a tool result's text content blocks
+   */
+  static getText(result: MCPToolCallResult | undefined): string {
+    return (result?.content || [])
+      .filter(c => c.type === 'text' && typeof c.text === 'string')
+      .map(c => c.text)
+      .join('\n');
+  }
+
+  /**
+   * Error message of a failed call: a JSON-RPC error, or a tool result flagged with `isError`
+   */
+  static getError(response: MCPResponse<MCPToolCallResult>): string | undefined {
+    if (response.error) {
+      return response.error.message;
+    }
+    return response.result?.isError ? MCPClient.getText(response.result) || 'Tool call failed' : undefined;
+  }
+
+  /**
+   * Where the server is, and the name and version it reported during `initialize`
+   */
+  async getServerInfo(): Promise<{ endpoint: string; name?: string; version?: string }> {
+    const session = await this.getSession(await this.getCredentials());
+    return { endpoint: session.transport.endpoint, ...session.serverInfo };
+  }
+
+  /**
+   * Tools offered by the server, sorted by name
+   * @param refresh ask the server again instead of using the cached list
+   */
+  async listTools(refresh = false): Promise<MCPTool[]> {
+    const credentials = await this.getCredentials();
+    if (!refresh && this.tools?.keyId === credentials.keyId) {
+      return this.tools.tools;
+    }
+
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await this.request<MCPListToolsResult>('tools/list', cursor ? { cursor } : {});
+      if (response.error) {
+        throw new Error(`MCP tools/list failed: ${response.error.message}`);
+      }
+      tools.push(...(response.result?.tools || []));
+      cursor = response.result?.nextCursor;
+    } while (cursor);
+
+    tools.sort((a, b) => a.name.localeCompare(b.name));
+    this.tools = { keyId: credentials.keyId, tools };
+    this.logger.info(`MCP server offers ${tools.length} tools`);
+    return tools;
+  }
+
+  async getTool(name: string): Promise<MCPTool | undefined> {
+    return (await this.listTools()).find(tool => tool.name === name);
+  }
+
+  /**
+   * Key ID requests are sent with, from the active profile
+   */
+  async getKeyId(): Promise<string> {
+    return (await this.getCredentials()).keyId;
+  }
+
+  /**
+   * @param keyId only send the call with this key, e.g. the one a live-mode confirmation was for
+   */
+  async callTool(name: string, args: Record<string, unknown>, keyId?: string): Promise<MCPResponse<MCPToolCallResult>> {
+    return this.request<MCPToolCallResult>('tools/call', { name, arguments: args }, keyId);
+  }
+
+  /**
+   * Send a JSON-RPC request in the current session, starting one if needed
+   * @param keyId fail instead of sending when the active key is no longer this one
+   */
+  async request<T>(method: string, params: Record<string, unknown> = {}, keyId?: string): Promise<MCPResponse<T>> {
+    const credentials = await this.getCredentials();
+    if (keyId && credentials.keyId !== keyId) {
+      throw new Error(`The active key changed from ${keyId} to ${credentials.keyId}; ${method} was not sent`);
+    }
+    const message: MCPRequest = { jsonrpc: '2.0', id: ++this.requestId, method, params };
+
+    try {
+      return await (await this.getSession(credentials)).transport.request<T>(message);
+    } catch (error) {
+      if (!(error instanceof MCPSessionExpiredError)) {
+        throw error;
+      }
+      // The server dropped the session; start a new one and retry once
+      this.logger.info(`${error.message}, reconnecting`);
+      this.closeSession();
+      return (await this.getSession(credentials)).transport.request<T>(message);
+    }
+  }
+
+  /**
+   * Forget the session and cached tools, e.g. after the credentials changed
+   */
+  reset(): void {
+    this.closeSession();
+    this.tools = undefined;
+  }
+
+  private closeSession(): void {
+    this.session?.then(session => session.transport.dispose(), () => undefined);
+    this.session = undefined;
+    this.sessionKeyId = undefined;
+  }
+
+  private async getCredentials(): Promise<RazorpayCredentials> {
+    const credentials = await this.credentialManager.getRazorpayCredentials();
+    if (!credentials) {
+      throw new Error('Razorpay credentials not configured. Run "Razorpay: Set Credentials" from the Command Palette.');
+    }
+    return credentials;
+  }
+
+  private getSession(credentials: RazorpayCredentials): Promise<MCPSession> {
+    if (!this.session || this.sessionKeyId !== credentials.keyId) {
+      this.closeSession();
+      this.sessionKeyId = credentials.keyId;
+      this.session = this.initialize(credentials).catch(error => {
+        this.session = undefined;
+        throw error;
+      });
+    }
+    return this.session;
+  }
+
+  private async initialize(credentials: RazorpayCredentials): Promise<MCPSession> {
+    const transport = this.createTransport(credentials);
+    const message: MCPRequest = {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method: 'initialize',
+      params: {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'razorpay-vscode', version: this.clientVersion },
+      },
+    };
+
+    try {
+      const result = await transport.request<MCPInitializeResult>(message);
+      if (result.error || !result.result) {
+        throw new Error(`MCP initialize failed: ${result.error?.message || 'empty response'}`);
+      }
+
+      const session: MCPSession = {
+        keyId: credentials.keyId,
+        transport,
+        protocolVersion: result.result.protocolVersion || PROTOCOL_VERSION,
+        serverInfo: result.result.serverInfo,
+      };
+
+      await transport.notify({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      const server = session.serverInfo ? `${session.serverInfo.name} ${session.serverInfo.version || ''}`.trim() : 'MCP server';
+      this.logger.info(`Connected to ${server} at ${transport.endpoint} (protocol ${session.protocolVersion})`);
+      return session;
+    } catch (error) {
+      transport.dispose();
+      throw error;
+    }
+  }
+
+  /**
+   * Transport for the server configured under `razorpay.mcp`
+   */
+  private createTransport(credentials: RazorpayCredentials): MCPTransport {
+    const config = vscode.workspace.getConfiguration('razorpay.mcp');
+
+    if (config.get<string>('transport') === 'stdio') {
+      const command = config.get<string>('command', '').trim();
+      if (!command) {
+        throw new Error('Set razorpay.mcp.command to the MCP server to launch, e.g. razorpay-mcp-server');
+      }
+      return new StdioTransport({
+        command,
+        args: config.get<string[]>('args', ['stdio']),
+        env: config.get<Record<string, string>>('env', {}),
+        cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+      }, credentials, this.logger);
+    }
+
+    const url = config.get<string>('url') || DEFAULT_SERVER_URL;
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`razorpay.mcp.url is not a valid URL: ${url}`);
+    }
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && LOCAL_HOSTS.includes(parsed.hostname))) {
+      // The merchant token goes in every request, so plain HTTP is only allowed to this machine
+      throw new Error(`razorpay.mcp.url must use https, or http to localhost: ${url}`);
+    }
+    return new HttpTransport(parsed, credentials);
+  }
+
+  dispose(): void {
+    this.closeSession();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -0,0 +1,187 @@
+import { BaseMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+import type { Logger } from '../utils/logger';
+import type { CredentialManager } from './credentialManager';
+import type { MCPJsonSchema, MCPTool } from '../types';
+import { MCPClient } from './mcpClient';
+import { createChatModel, getMessageText } from './chatModel';
+import { isReadOnlyTool, validateToolArguments } from '../utils/mcpTools';
+
+/**
+ * A call the model wants to make
+ */
+export interface PlannedToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A call that changes data, held back for the user to confirm
+ */
+export interface ProposedToolCall extends PlannedToolCall {
+  /** Problems found by checking the arguments against the tool's schema */
+  errors: string[];
+}
+
+export interface ToolPlan {
+  /** Read-only calls the model made while working out the plan */
+  lookups: Array<PlannedToolCall & { error?: string }>;
+  /** Calls that create or change data, in the order they should run */
+  proposed: ProposedToolCall[];
+  /** The model's answer, or its summary of the proposed calls */
+  summary: string;
+}
+
+const MAX_STEPS = 6;
+const MAX_RESULT_LENGTH = 8000;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Turns a natural-language request into MCP tool calls with the configured OpenAI or Gemini model.
+ * The model sees the server's tool schemas as functions. Read-only tools run straight away so it can look up
+ * IDs and amounts; calls that create or change data are never run here but returned as a proposal.
+ */
+export class MCPToolRouter {
+  constructor(
+    private credentialManager: CredentialManager,
+    private mcpClient: MCPClient,
+    private logger: Logger,
+  ) {}
+
+  /**
+   * Whether an AI API key is stored
+   */
+  async isAvailable(): Promise<boolean> {
+    return await this.credentialManager.hasSecret('ai.openai.apiKey')
+      || await this.credentialManager.hasSecret('ai.gemini.apiKey');
+  }
+
+  async plan(request: string): Promise<ToolPlan> {
+    const model = await createChatModel(this.credentialManager, 0);
+    if (!model) {
+      throw new Error('No AI provider configured. Store an OpenAI or Gemini API key with "Razorpay: Set Credentials".');
+    }
+
+    const tools = await this.mcpClient.listTools();
+    const toolsByName = new Map(tools.map(tool => [tool.name, tool]));
+    const modelWithTools = model.bindTools(tools.map(toFunctionTool));
+
+    const messages: BaseMessage[] = [new SystemMessage(this.getSystemPrompt()), new HumanMessage(request)];
+    const plan: ToolPlan = { lookups: [], proposed: [], summary: '' };
+
+    for (let step = 0; step < MAX_STEPS; step++) {
+      const response = await modelWithTools.invoke(messages);
+      messages.push(response);
+
+      const calls = response.tool_calls || [];
+      if (calls.length === 0) {
+        plan.summary = getMessageText(response.content).trim();
+        return plan;
+      }
+
+      for (const call of calls) {
+        const tool = toolsByName.get(call.name);
+        const args = (call.args || {}) as Record<string, unknown>;
+        let content: string;
+
+        if (!tool) {
+          content = `There is no tool named ${call.name}.`;
+        } else if (isReadOnlyTool(tool)) {
+          content = await this.lookup(call.name, args, plan);
+        } else {
+          plan.proposed.push({ tool: call.name, arguments: args, errors: validateToolArguments(tool.inputSchema, args) });
+          content = 'Queued for the user to confirm; it has not run yet. Do not call it again.';
+        }
+
+        messages.push(new ToolMessage({ content, tool_call_id: call.id || call.name, name: call.name }));
+      }
+    }
+
+    this.logger.warn(`Tool routing stopped after ${MAX_STEPS} steps`);
+    plan.summary = `Stopped planning after ${MAX_STEPS} steps.`;
+    return plan;
+  }
+
+  /**
+   * Run a read-only call and return what the model should see of its result
+   */
+  private async lookup(tool: string, args: Record<string, unknown>, plan: ToolPlan): Promise<string> {
+    this.logger.info(`Tool routing looked up ${tool}`);
+    try {
+      const response = await this.mcpClient.callTool(tool, args);
+      const error = MCPClient.getError(response);
+      plan.lookups.push({ tool, arguments: args, error });
+      if (error) {
+        return `Error: ${error}`;
+      }
+
+      const text = MCPClient.getText(response.result) || JSON.stringify(response.result);
+      return text.length > MAX_RESULT_LENGTH ? `${text.substring(0, MAX_RESULT_LENGTH)}\n[truncated]` : text;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      plan.lookups.push({ tool, arguments: args, error: message });
+      return `Error: ${message}`;
+    }
+  }
+
+  private getSystemPrompt(): string {
+    const now = new Date();
+    const offset = -now.getTimezoneOffset();
+    const zone = `UTC${offset >= 0 ? '+' : '-'}${String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0')}:${String(Math.abs(offset) % 60).padStart(2, '0')}`;
+
+    return `You turn requests about a Razorpay account into calls to the Razorpay MCP tools.
+
+Current time: ${now.toISOString()} (the user's time zone is ${zone}, Unix time ${Math.floor(now.getTime() / 1000)}).
+
+Rules:
+- Amounts are integers in the currency's smallest unit (paise for INR: ₹500 = 50000). Timestamps are Unix seconds.
+- Tools that only fetch data run immediately; use them to find IDs, amounts and dates. Never guess an ID.
+- Tools that create, capture, refund, update or cancel are NOT run. They are queued for the user to confirm, in the order you call them.
+- If a write needs the result of an earlier queued write, queue only the first one and say what comes next.
+- If the request is ambiguous or the tools can't do it, ask or explain instead of calling tools.
+- When done, reply briefly: what you found and what the queued calls will do, with amounts in rupees.`;
+  }
+}
+
+/**
+ * OpenAI function definition for a tool; both OpenAI and Gemini accept this shape
+ */
+function toFunctionTool(tool: MCPTool) {
+  const description = tool.description || tool.annotations?.title || tool.name;
+  return {
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: description.length > MAX_DESCRIPTION_LENGTH ? description.substring(0, MAX_DESCRIPTION_LENGTH) : description,
+      parameters: sanitizeSchema(tool.inputSchema || { type: 'object', properties: {} }),
+    },
+  };
+}
+
+/**
+ * Reduce a schema to the keywords every provider understands; Gemini rejects union types and most validation keywords
+ */
+function sanitizeSchema(schema: MCPJsonSchema): MCPJsonSchema {
+  const types = schema.type ? ([] as string[]).concat(schema.type) : [];
+  const type = types.find(t => t !== 'null') || (schema.properties ? 'object' : 'string');
+  const result: MCPJsonSchema = { type };
+
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  if (schema.enum && type === 'string') {
+    result.enum = schema.enum.filter(value => typeof value === 'string');
+  }
+  if (type === 'object') {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties || {}).map(([name, property]) => [name, sanitizeSchema(property)]),
+    );
+    if (schema.required?.length) {
+      result.required = schema.required;
+    }
+  }
+  if (type === 'array') {
+    result.items = sanitizeSchema(schema.items || { type: 'string' });
+  }
+
+  return result;
+}
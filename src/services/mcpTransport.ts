@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { ChildProcess, spawn } from 'child_process';
+import type { Logger } from '../utils/logger';
+import type { RazorpayCredentials } from './credentialManager';
+import type { MCPInitializeResult, MCPNotification, MCPRequest, MCPResponse } from '../types';
+
+const REQUEST_TIMEOUT_MS = 30000;
+const STDERR_LINES_KEPT = 20;
+
+/**
+ * Carries JSON-RPC messages to one MCP server session, started by the `initialize` request
+ */
+export interface MCPTransport extends vscode.Disposable {
+  /** Where the server is, for logs and the chat: a URL or the launched command */
+  readonly endpoint: string;
+  /**
+   * Send a request and wait for the server's response to it
+   * @throws MCPSessionExpiredError when the session is gone and has to be initialized again
+   */
+  request<T>(message: MCPRequest): Promise<MCPResponse<T>>;
+  notify(message: MCPNotification): Promise<void>;
+}
+
+/**
+ * The server no longer knows the session: it answered 404 to the session ID, or its process exited
+ */
+export class MCPSessionExpiredError extends Error {
+  constructor(message = 'MCP session expired') {
+    super(message);
+    this.name = 'MCPSessionExpiredError';
+  }
+}
+
+interface HttpResponse {
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+/**
+ * Streamable HTTP transport: one POST per message, authenticated with the merchant token.
+ * Keeps the `Mcp-Session-Id` the server assigns during `initialize` and the negotiated protocol version.
+ * Reference: https://modelcontextprotocol.io/specification/2025-03-26/basic/transports#streamable-http
+ */
+export class HttpTransport implements MCPTransport {
+  readonly endpoint: string;
+  private sessionId: string | undefined;
+  private protocolVersion: string | undefined;
+
+  constructor(private url: URL, private credentials: RazorpayCredentials) {
+    this.endpoint = url.toString();
+  }
+
+  async request<T>(message: MCPRequest): Promise<MCPResponse<T>> {
+    const response = await this.post(message);
+    if (response.statusCode === 404 && this.sessionId) {
+      throw new MCPSessionExpiredError();
+    }
+
+    const result = this.parseMessage<T>(response, message.id);
+    if (message.method === 'initialize') {
+      const sessionId = response.headers['mcp-session-id'];
+      this.sessionId = Array.isArray(sessionId) ? sessionId[0] : sessionId;
+      this.protocolVersion = (result.result as MCPInitializeResult | undefined)?.protocolVersion;
+    }
+    return result;
+  }
+
+  async notify(message: MCPNotification): Promise<void> {
+    await this.post(message);
+  }
+
+  /**
+   * Pick the response to `id` out of a JSON body or a `text/event-stream` body
+   */
+  private parseMessage<T>(response: HttpResponse, id: number): MCPResponse<T> {
+    if (response.statusCode === 401 || response.statusCode === 403) {
+      throw new Error(`MCP server rejected the Razorpay credentials (HTTP ${response.statusCode})`);
+    }
+
+    for (const line of response.body.split('\n')) {
+      const data = line.replace(/^data:\s?/, '').trim();
+      if (!data.startsWith('{')) {
+        continue;
+      }
+      try {
+        const message = JSON.parse(data);
+        if (message.jsonrpc && message.id === id) {
+          return message;
+        }
+      } catch {
+        // Not a complete JSON line; try the next one
+      }
+    }
+
+    try {
+      const message = JSON.parse(response.body);
+      if (message.jsonrpc) {
+        return message;
+      }
+    } catch {
+      // Reported below
+    }
+
+    const status = response.statusCode >= 400 ? `HTTP ${response.statusCode}: ` : '';
+    throw new Error(`Invalid MCP response: ${status}${response.body.substring(0, 200)}`);
+  }
+
+  private post(message: MCPRequest | MCPNotification): Promise<HttpResponse> {
+    const body = JSON.stringify(message);
+    const merchantToken = Buffer.from(`${this.credentials.keyId}:${this.credentials.keySecret}`).toString('base64');
+    const headers: Record<string, string | number> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'Authorization': `Basic ${merchantToken}`,
+      'Content-Length': Buffer.byteLength(body),
+    };
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+
+    const client = this.url.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+      const req = client.request({
+        // IPv6 hosts such as [::1] without the brackets
+        hostname: this.url.hostname.replace(/^\[|\]$/g, ''),
+        port: this.url.port || undefined,
+        path: `${this.url.pathname}${this.url.search}`,
+        method: 'POST',
+        headers,
+      }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => data += chunk);
+        res.on('end', () => resolve({ statusCode: res.statusCode || 0, headers: res.headers, body: data }));
+      });
+
+      req.on('error', (error) => reject(new Error(`MCP connection to ${this.url.host} failed: ${error.message}`)));
+      req.setTimeout(REQUEST_TIMEOUT_MS, () => { req.destroy(); reject(new Error('MCP request timed out')); });
+      req.write(body);
+      req.end();
+    });
+  }
+
+  dispose(): void {
+    // Nothing held open between requests
+  }
+}
+
+export interface StdioServerOptions {
+  command: string;
+  args: string[];
+  /** Extra environment variables; the active profile's keys are added as RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET */
+  env: Record<string, string>;
+  cwd?: string;
+}
+
+interface PendingRequest {
+  resolve: (response: MCPResponse<unknown>) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * stdio transport: launches a local MCP server, such as the open-source razorpay-mcp-server, and exchanges
+ * newline-delimited JSON-RPC messages over its stdin and stdout. The process lives as long as the session.
+ * Reference: https://modelcontextprotocol.io/specification/2025-03-26/basic/transports#stdio
+ */
+export class StdioTransport implements MCPTransport {
+  readonly endpoint: string;
+  private process: ChildProcess | undefined;
+  private buffer = '';
+  private stderr: string[] = [];
+  /** Why the process is gone, once it is */
+  private exitReason: string | undefined;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  constructor(
+    private options: StdioServerOptions,
+    private credentials: RazorpayCredentials,
+    private logger: Logger,
+  ) {
+    this.endpoint = [options.command, ...options.args].join(' ');
+  }
+
+  request<T>(message: MCPRequest): Promise<MCPResponse<T>> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new Error('MCP request timed out'));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(message.id, { resolve: resolve as PendingRequest['resolve'], reject, timer });
+
+      try {
+        this.write(message);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(message.id);
+        reject(error);
+      }
+    });
+  }
+
+  async notify(message: MCPNotification): Promise<void> {
+    this.write(message);
+  }
+
+  private write(message: object): void {
+    if (this.exitReason) {
+      throw new MCPSessionExpiredError(`MCP server stopped: ${this.exitReason}`);
+    }
+    this.start().stdin?.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private start(): ChildProcess {
+    if (this.process) {
+      return this.process;
+    }
+
+    this.logger.info(`Starting MCP server: ${this.endpoint}`);
+    const child = spawn(this.options.command, this.options.args, {
+      cwd: this.options.cwd,
+      env: {
+        ...process.env,
+        ...this.options.env,
+        RAZORPAY_KEY_ID: this.credentials.keyId,
+        RAZORPAY_KEY_SECRET: this.credentials.keySecret,
+      },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // npx and other .cmd shims only resolve through the shell on Windows
+      shell: process.platform === 'win32',
+    });
+    this.process = child;
+
+    child.stdout?.setEncoding('utf-8');
+    child.stdout?.on('data', (chunk: string) => this.onStdout(chunk));
+    child.stderr?.setEncoding('utf-8');
+    child.stderr?.on('data', (chunk: string) => {
+      for (const line of chunk.split('\n').map(l => l.trimEnd()).filter(Boolean)) {
+        this.logger.debug(`MCP server: ${line}`);
+        this.stderr.push(line);
+      }
+      this.stderr.splice(0, Math.max(0, this.stderr.length - STDERR_LINES_KEPT));
+    });
+    // Write errors such as EPIPE are reported through the exit below
+    child.stdin?.on('error', () => undefined);
+
+    child.on('error', (error) => {
+      this.stop(`could not start "${this.options.command}": ${error.message}`);
+    });
+    child.on('exit', (code, signal) => {
+      const lastError = this.stderr[this.stderr.length - 1];
+      this.stop(`exited with ${signal || `code ${code}`}${lastError ? ` (${lastError})` : ''}`);
+    });
+
+    return child;
+  }
+
+  private onStdout(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('{')) {
+        continue;
+      }
+      try {
+        this.onMessage(JSON.parse(data));
+      } catch {
+        this.logger.debug(`Ignoring MCP server output: ${data.substring(0, 200)}`);
+      }
+    }
+  }
+
+  private onMessage(message: { id?: number; method?: string } & MCPResponse<unknown>): void {
+    if (message.method) {
+      // Requests from the server: answer pings, and decline the rest since no client capabilities are declared
+      if (message.id !== undefined) {
+        this.write(message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } });
+      }
+      return;
+    }
+
+    const pending = message.id !== undefined ? this.pending.get(message.id) : undefined;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(message.id);
+      pending.resolve(message);
+    }
+  }
+
+  private stop(reason: string): void {
+    if (this.exitReason) {
+      return;
+    }
+    this.logger.warn(`MCP server ${reason}`);
+    this.fail(reason);
+  }
+
+  private fail(reason: string): void {
+    this.exitReason = reason;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`MCP server ${reason}`));
+    }
+    this.pending.clear();
+  }
+
+  dispose(): void {
+    if (!this.exitReason) {
+      this.fail('stopped');
+    }
+    this.process?.kill();
+  }
+}
@@ -0,0 +1,73 @@
+import { isRazorpayErrorResponse } from '../types';
+
+/**
+ * Error returned by the Razorpay API, with the details from the error envelope preserved
+ * Reference: https://razorpay.com/docs/errors/
+ */
+export class RazorpayApiError extends Error {
+  /** HTTP status of the failed request */
+  readonly statusCode?: number;
+  /** Error code such as `BAD_REQUEST_ERROR` or `GATEWAY_ERROR` */
+  readonly code: string;
+  readonly description: string;
+  /** Request parameter that caused the error, when the API names one */
+  readonly field?: string;
+  readonly source?: string;
+  readonly step?: string;
+  readonly reason?: string;
+  readonly metadata?: Record<string, unknown>;
+
+  constructor(details: {
+    statusCode?: number;
+    code: string;
+    description: string;
+    field?: string | null;
+    source?: string;
+    step?: string;
+    reason?: string;
+    metadata?: Record<string, unknown>;
+  }) {
+    super(details.description);
+    this.name = 'RazorpayApiError';
+    this.statusCode = details.statusCode;
+    this.code = details.code;
+    this.description = details.description;
+    this.field = details.field || undefined;
+    this.source = valueOrUndefined(details.source);
+    this.step = valueOrUndefined(details.step);
+    this.reason = valueOrUndefined(details.reason);
+    this.metadata = details.metadata;
+  }
+
+  /**
+   * Convert an error thrown by the Razorpay SDK into a RazorpayApiError
+   * Errors that did not come from the API (network failures, validation) are returned as plain Errors
+   */
+  static from(error: unknown): Error {
+    if (error instanceof RazorpayApiError) {
+      return error;
+    }
+
+    if (isRazorpayErrorResponse(error)) {
+      const statusCode = (error as { statusCode?: unknown }).statusCode;
+      return new RazorpayApiError({
+        ...error.error,
+        statusCode: typeof statusCode === 'number' ? statusCode : undefined,
+      });
+    }
+
+    if (error instanceof Error) {
+      return error;
+    }
+
+    const message = (error as { message?: unknown })?.message;
+    return new Error(typeof message === 'string' && message ? message : String(error ?? 'Unknown error occurred'));
+  }
+}
+
+/**
+ * The API fills unused details with the string "NA"
+ */
+function valueOrUndefined(value?: string): string | undefined {
+  return value && value !== 'NA' ? value : undefined;
+}
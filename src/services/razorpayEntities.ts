@@ -0,0 +1,261 @@
+import type { IMap } from 'razorpay/dist/types/api';
+import type { Customers } from 'razorpay/dist/types/customers';
+import type { Invoices } from 'razorpay/dist/types/invoices';
+import type { Orders } from 'razorpay/dist/types/orders';
+import type { Payments } from 'razorpay/dist/types/payments';
+import type { Plans } from 'razorpay/dist/types/plans';
+import type { Refunds } from 'razorpay/dist/types/refunds';
+import type { Subscriptions } from 'razorpay/dist/types/subscriptions';
+import type { Tokens } from 'razorpay/dist/types/tokens';
+import type {
+  RazorpayCollection,
+  RazorpayCustomer,
+  RazorpayInvoice,
+  RazorpayNotes,
+  RazorpayOrder,
+  RazorpayPayment,
+  RazorpayPaymentMethod,
+  RazorpayPlan,
+  RazorpayRefund,
+  RazorpaySubscription,
+  RazorpayToken,
+} from '../types';
+
+/**
+ * Map SDK responses into the domain model in src/types/razorpay.ts.
+ * Every field is copied explicitly, so a field the SDK renames or retypes breaks the build here. Where the SDK types
+ * are looser than the API (amounts as `number | string`, optional fields the API always returns), the value is
+ * normalised to the domain type.
+ */
+
+/**
+ * List response of an SDK `all`/`fetch*` call; some endpoints type `count` as a string
+ */
+interface SDKCollection<T> {
+  count: number | string;
+  items: T[];
+}
+
+export function toCollection<T, R>(collection: SDKCollection<T>, toEntity: (item: T) => R): RazorpayCollection<R> {
+  return {
+    entity: 'collection',
+    count: Number(collection.count),
+    items: collection.items.map(toEntity),
+  };
+}
+
+export function toOrder(order: Orders.RazorpayOrder): RazorpayOrder {
+  return {
+    id: order.id,
+    entity: 'order',
+    amount: Number(order.amount),
+    amount_paid: order.amount_paid,
+    amount_due: order.amount_due,
+    currency: order.currency,
+    receipt: order.receipt ?? null,
+    offer_id: order.offer_id ?? null,
+    status: order.status,
+    attempts: order.attempts,
+    notes: toNotes(order.notes),
+    created_at: order.created_at,
+  };
+}
+
+export function toPayment(payment: Payments.RazorpayPayment): RazorpayPayment {
+  return {
+    id: payment.id,
+    entity: 'payment',
+    amount: Number(payment.amount),
+    currency: payment.currency,
+    status: payment.status,
+    order_id: payment.order_id ?? null,
+    invoice_id: payment.invoice_id,
+    international: payment.international,
+    // The SDK types the method as any string
+    method: payment.method as RazorpayPaymentMethod,
+    amount_refunded: payment.amount_refunded ?? 0,
+    // The SDK types a missing refund status as the string 'null'
+    refund_status: payment.refund_status === 'partial' || payment.refund_status === 'full' ? payment.refund_status : null,
+    captured: payment.captured,
+    description: payment.description ?? null,
+    card_id: payment.card_id,
+    bank: payment.bank ?? null,
+    wallet: payment.wallet,
+    vpa: payment.vpa,
+    email: payment.email,
+    contact: String(payment.contact),
+    customer_id: payment.customer_id ?? null,
+    token_id: payment.token_id,
+    notes: toNotes(payment.notes),
+    fee: payment.fee ?? null,
+    tax: payment.tax ?? null,
+    error_code: payment.error_code,
+    error_description: payment.error_description,
+    error_source: payment.error_source,
+    error_step: payment.error_step,
+    error_reason: payment.error_reason,
+    created_at: payment.created_at,
+  };
+}
+
+export function toRefund(refund: Refunds.RazorpayRefund): RazorpayRefund {
+  return {
+    id: refund.id,
+    entity: 'refund',
+    amount: refund.amount ?? 0,
+    currency: refund.currency,
+    payment_id: refund.payment_id,
+    notes: toNotes(refund.notes),
+    receipt: refund.receipt ?? null,
+    acquirer_data: refund.acquirer_data && {
+      arn: refund.acquirer_data.arn ?? null,
+      rrn: refund.acquirer_data.rrn ?? null,
+    },
+    status: refund.status,
+    speed_processed: refund.speed_processed,
+    speed_requested: refund.speed_requested,
+    batch_id: refund.batch_id,
+    created_at: refund.created_at,
+  };
+}
+
+export function toCustomer(customer: Customers.RazorpayCustomer): RazorpayCustomer {
+  return {
+    id: customer.id,
+    entity: 'customer',
+    name: customer.name ?? '',
+    email: customer.email ?? '',
+    contact: customer.contact === undefined ? '' : String(customer.contact),
+    gstin: customer.gstin ?? null,
+    notes: toNotes(customer.notes),
+    created_at: customer.created_at,
+  };
+}
+
+export function toToken(token: Tokens.RazorpayToken): RazorpayToken {
+  return {
+    id: token.id,
+    entity: 'token',
+    token: token.token,
+    bank: token.bank,
+    wallet: token.wallet,
+    // The SDK types the method as any string
+    method: token.method as RazorpayPaymentMethod,
+    card: token.card && {
+      entity: 'card',
+      name: token.card.name,
+      last4: token.card.last4,
+      network: token.card.network,
+      type: token.card.type,
+      issuer: token.card.issuer ?? null,
+      international: token.card.international,
+      emi: token.card.emi,
+      expiry_month: Number(token.card.expiry_month),
+      expiry_year: Number(token.card.expiry_year),
+    },
+    vpa: token.vpa,
+    recurring: token.recurring,
+    recurring_details: token.recurring_details,
+    auth_type: token.auth_type,
+    mrn: token.mrn,
+    used_at: token.used_at ?? null,
+    created_at: token.created_at,
+    expired_at: token.expired_at,
+    status: token.status ?? null,
+    notes: toNotes(token.notes),
+  };
+}
+
+export function toPlan(plan: Plans.RazorPayPlans): RazorpayPlan {
+  return {
+    id: plan.id,
+    entity: 'plan',
+    period: plan.period,
+    interval: plan.interval,
+    item: {
+      id: plan.item.id,
+      active: plan.item.active,
+      name: plan.item.name,
+      description: plan.item.description ?? null,
+      amount: Number(plan.item.amount),
+      unit_amount: plan.item.unit_amount,
+      currency: plan.item.currency,
+      type: plan.item.type,
+      created_at: plan.item.created_at,
+      updated_at: plan.item.updated_at,
+    },
+    notes: toNotes(plan.notes),
+    created_at: plan.created_at,
+  };
+}
+
+export function toSubscription(subscription: Subscriptions.RazorpaySubscription): RazorpaySubscription {
+  return {
+    id: subscription.id,
+    entity: 'subscription',
+    plan_id: subscription.plan_id,
+    customer_id: subscription.customer_id,
+    status: subscription.status,
+    current_start: subscription.current_start ?? null,
+    current_end: subscription.current_end ?? null,
+    ended_at: subscription.ended_at ?? null,
+    quantity: subscription.quantity ?? 1,
+    notes: toNotes(subscription.notes),
+    charge_at: subscription.charge_at ?? null,
+    start_at: subscription.start_at ?? null,
+    end_at: subscription.end_at ?? null,
+    auth_attempts: subscription.auth_attempts,
+    total_count: subscription.total_count,
+    paid_count: subscription.paid_count,
+    // Razorpay notifies the customer unless told not to
+    customer_notify: subscription.customer_notify === undefined || !!subscription.customer_notify,
+    created_at: subscription.created_at,
+    expire_by: subscription.expire_by ?? null,
+    short_url: subscription.short_url ?? null,
+    has_scheduled_changes: subscription.has_scheduled_changes,
+    change_scheduled_at: subscription.change_scheduled_at ?? null,
+    source: subscription.source,
+    offer_id: subscription.offer_id ?? null,
+    remaining_count: Number(subscription.remaining_count),
+  };
+}
+
+export function toInvoice(invoice: Invoices.RazorpayInvoice): RazorpayInvoice {
+  return {
+    id: invoice.id,
+    entity: 'invoice',
+    type: invoice.type,
+    invoice_number: invoice.invoice_number ?? null,
+    customer_id: invoice.customer_id ?? null,
+    order_id: invoice.order_id ?? null,
+    payment_id: invoice.payment_id ?? null,
+    status: invoice.status ?? 'draft',
+    amount: Number(invoice.amount ?? 0),
+    amount_paid: invoice.amount_paid ?? 0,
+    amount_due: invoice.amount_due ?? 0,
+    currency: invoice.currency ?? 'INR',
+    billing_start: invoice.billing_start ?? null,
+    billing_end: invoice.billing_end ?? null,
+    short_url: invoice.short_url ?? null,
+    issued_at: invoice.issued_at ?? null,
+    paid_at: invoice.paid_at ?? null,
+    cancelled_at: invoice.cancelled_at ?? null,
+    expired_at: invoice.expired_at ?? null,
+    date: invoice.date ?? null,
+    notes: toNotes(invoice.notes),
+    created_at: invoice.created_at,
+  };
+}
+
+/**
+ * Notes without the null values the SDK allows; the API sends an empty array when there are none
+ */
+function toNotes(notes: IMap<string | number> | undefined): RazorpayNotes {
+  const result: RazorpayNotes = {};
+  for (const [key, value] of Object.entries(notes || {})) {
+    if (value !== null && value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -1,15 +1,79 @@
 import Razorpay from 'razorpay';
+import type { Orders } from 'razorpay/dist/types/orders';
+import type { PaymentLinks } from 'razorpay/dist/types/paymentLink';
+import type { Payments } from 'razorpay/dist/types/payments';
+import type { Refunds } from 'razorpay/dist/types/refunds';
 import type { Logger } from '../utils/logger';
+import type { CredentialManager } from './credentialManager';
+import type { LiveModeGuard } from './liveModeGuard';
+import { RazorpayApiError } from './razorpayApiError';
+import {
+  toCollection,
+  toCustomer,
+  toInvoice,
+  toOrder,
+  toPayment,
+  toPlan,
+  toRefund,
+  toSubscription,
+  toToken,
+} from './razorpayEntities';
+import { formatAmount, toSubunits } from '../utils/money';
+import type {
+  RazorpayCollection,
+  RazorpayCustomer,
+  RazorpayInvoice,
+  RazorpayOrder,
+  RazorpayPayment,
+  RazorpayPaymentLink,
+  RazorpayPlan,
+  RazorpayPlanPeriod,
+  RazorpayRefund,
+  RazorpaySubscription,
+  RazorpayToken,
+} from '../types';
 
 export interface CreateOrderParams {
-  amount: number;
+  /** Amount in the currency's main unit, e.g. 100.50 or "100.50" */
+  amount: number | string;
   currency: string;
   receipt?: string;
   notes?: Record<string, string>;
 }
 
+export interface ListOrdersParams {
+  /** Unix timestamp (seconds) from when orders are fetched */
+  from?: number;
+  /** Unix timestamp (seconds) till when orders are fetched */
+  to?: number;
+  /** Number of orders to fetch, up to 100 */
+  count?: number;
+  /** Number of orders to skip, for pagination */
+  skip?: number;
+  receipt?: string;
+}
+
+export interface ListPaymentsParams {
+  /** Unix timestamp (seconds) from when payments are fetched */
+  from?: number;
+  /** Unix timestamp (seconds) till when payments are fetched */
+  to?: number;
+  /** Number of payments to fetch, up to 100 */
+  count?: number;
+  /** Number of payments to skip, for pagination */
+  skip?: number;
+}
+
+export interface CapturePaymentParams {
+  payment_id: string;
+  /** Amount to capture in the currency's main unit; must equal the authorized amount */
+  amount: number | string;
+  currency: string;
+}
+
 export interface CreatePaymentParams {
-  amount: number;
+  /** Amount in the currency's main unit, e.g. 100.50 or "100.50" */
+  amount: number | string;
   currency: string;
   order_id: string;
   description?: string;
@@ -23,12 +87,85 @@ export interface CreatePaymentParams {
 
 export interface CreateRefundParams {
   payment_id: string;
-  amount?: number;
-  speed?: 'normal' | 'instant';
+  /** Amount in the payment currency's main unit; omit for a full refund */
+  amount?: number | string;
+  /** Expected payment currency; checked against the payment before the amount is converted */
+  currency?: string;
+  speed?: Refunds.RazorpayRefundCreateRequestBody['speed'];
   notes?: Record<string, string>;
   receipt?: string;
 }
 
+export interface CreateCustomerParams {
+  /** Between 3 and 50 characters */
+  name: string;
+  email?: string;
+  contact?: string;
+  gstin?: string;
+  notes?: Record<string, string>;
+  /** When false, return the existing customer with the same details instead of failing */
+  fail_existing?: boolean;
+}
+
+export interface EditCustomerParams {
+  name?: string;
+  email?: string;
+  contact?: string;
+}
+
+export interface ListCustomersParams {
+  /** Number of customers to fetch, up to 100 */
+  count?: number;
+  /** Number of customers to skip, for pagination */
+  skip?: number;
+}
+
+export interface CreatePlanParams {
+  period: RazorpayPlanPeriod;
+  /** Number of periods between charges; at least 7 for daily plans */
+  interval: number;
+  name: string;
+  /** Amount per charge in the currency's main unit, e.g. 499.00 or "499.00" */
+  amount: number | string;
+  currency: string;
+  description?: string;
+  notes?: Record<string, string>;
+}
+
+export interface ListPlansParams {
+  /** Number of plans to fetch, up to 100 */
+  count?: number;
+  /** Number of plans to skip, for pagination */
+  skip?: number;
+}
+
+export interface CreateSubscriptionParams {
+  plan_id: string;
+  /** Number of billing cycles the customer is charged for */
+  total_count: number;
+  quantity?: number;
+  /** Whether Razorpay emails and texts the customer about the subscription */
+  customer_notify?: boolean;
+  /** Unix timestamp (seconds) of the first charge; defaults to when the customer authorizes */
+  start_at?: number;
+  notes?: Record<string, string>;
+}
+
+export interface ListSubscriptionsParams {
+  plan_id?: string;
+  /** Number of subscriptions to fetch, up to 100 */
+  count?: number;
+  /** Number of subscriptions to skip, for pagination */
+  skip?: number;
+}
+
+/**
+ * Summary of a payment link created for an order
+ */
+export type CreatedPaymentLink = Pick<RazorpayPaymentLink, 'id' | 'short_url' | 'amount' | 'currency' | 'status' | 'created_at'> & {
+  order_id: string;
+};
+
 export interface RazorpayConfig {
   keyId: string;
   keySecret: string;
@@ -39,8 +176,14 @@ export interface RazorpayConfig {
  */
 export class RazorpayService {
   private razorpay: Razorpay | null = null;
+  /** Key ID the client was built with; live-mode checks go by this key, not the profile active at call time */
+  private keyId = '';
 
-  constructor(private logger: Logger) {}
+  constructor(
+    private logger: Logger,
+    private credentials: CredentialManager,
+    private guard: LiveModeGuard,
+  ) {}
 
   /**
    * Initialize Razorpay client with credentials
@@ -55,6 +198,7 @@ export class RazorpayService {
         key_id: config.keyId,
         key_secret: config.keySecret,
       });
+      this.keyId = config.keyId;
 
       this.logger.info('Razorpay client initialized successfully');
     } catch (error) {
@@ -63,153 +207,794 @@ export class RazorpayService {
     }
   }
 
+  /**
+   * Initialize the client from stored credentials unless it is already initialized
+   * @returns whether the client is ready to use
+   */
+  async ensureInitialized(): Promise<boolean> {
+    return this.razorpay !== null || this.reloadCredentials();
+  }
+
+  /**
+   * Re-create the client from stored credentials, or drop it when they have been removed
+   * @returns whether the client is ready to use
+   */
+  async reloadCredentials(): Promise<boolean> {
+    const credentials = await this.credentials.getRazorpayCredentials();
+    if (!credentials) {
+      this.razorpay = null;
+      return false;
+    }
+    this.initialize(credentials);
+    return true;
+  }
+
   isInitialized(): boolean {
     return this.razorpay !== null;
   }
 
+  private getClient(): Razorpay {
+    if (!this.razorpay) {
+      throw new Error('Razorpay client not initialized. Run "Razorpay: Set Credentials" to configure your API keys.');
+    }
+    return this.razorpay;
+  }
+
   /**
    * Create a new order
    */
-  async createOrder(params: CreateOrderParams): Promise<any> {
-    if (!this.razorpay) {
-      throw new Error('Razorpay client not initialized. Please configure your credentials in settings.');
+  async createOrder(params: CreateOrderParams): Promise<RazorpayOrder> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'order.create',
+      source: 'extension',
+      keyId: this.keyId,
+      describe: () => [
+        { field: 'amount', after: this.formatDisplayAmount(params.amount, params.currency) },
+        ...(params.receipt ? [{ field: 'receipt', after: params.receipt }] : []),
+        ...(params.notes ? [{ field: 'notes', after: JSON.stringify(params.notes) }] : []),
+      ],
+    }, async () => {
+      try {
+        this.logger.info(`Creating order with amount: ${params.amount}, currency: ${params.currency}`);
+      
+        const orderParams: Orders.RazorpayOrderCreateRequestBody = {
+          amount: toSubunits(params.amount, params.currency),
+          currency: params.currency,
+        };
+
+        if (params.receipt) {
+          orderParams.receipt = params.receipt;
+        }
+
+        if (params.notes) {
+          orderParams.notes = params.notes;
+        }
+
+        const order = await razorpay.orders.create(orderParams);
+        this.logger.info(`Order created successfully: ${order.id}`);
+      
+        return toOrder(order);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to create order: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, order => ({ resultId: order.id }));
+  }
+
+  /**
+   * Fetch order by ID
+   */
+  async fetchOrder(orderId: string): Promise<RazorpayOrder> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching order: ${orderId}`);
+      const order = await razorpay.orders.fetch(orderId);
+      return toOrder(order);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch order ${orderId}: ${apiError.message}`, apiError);
+      throw apiError;
     }
+  }
+
+  /**
+   * List orders, optionally filtered by creation time or receipt
+   */
+  async listOrders(params: ListOrdersParams = {}): Promise<RazorpayCollection<RazorpayOrder>> {
+    const razorpay = this.getClient();
 
     try {
-      this.logger.info(`Creating order with amount: ${params.amount}, currency: ${params.currency}`);
-      
-      const orderParams: any = {
-        amount: params.amount * 100, // Convert to paise
-        currency: params.currency,
+      const query: Orders.RazorpayOrderQuery = {
+        count: params.count ?? 10,
+        skip: params.skip ?? 0,
       };
 
+      if (params.from) {
+        query.from = params.from;
+      }
+
+      if (params.to) {
+        query.to = params.to;
+      }
+
       if (params.receipt) {
-        orderParams.receipt = params.receipt;
+        query.receipt = params.receipt;
       }
 
-      if (params.notes) {
-        orderParams.notes = params.notes || {};
+      this.logger.info(`Listing orders: count=${query.count}, skip=${query.skip}`);
+      const orders = await razorpay.orders.all(query);
+      return toCollection(orders, toOrder);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to list orders: ${apiError.message}`, apiError);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Replace the notes on an order
+   */
+  async updateOrder(orderId: string, notes: Record<string, string>): Promise<RazorpayOrder> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'order.update',
+      target: orderId,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const order = await razorpay.orders.fetch(orderId);
+        return [{ field: 'notes', before: JSON.stringify(order.notes || {}), after: JSON.stringify(notes) }];
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Updating notes for order: ${orderId}`);
+        const order = await razorpay.orders.edit(orderId, { notes });
+        this.logger.info(`Order updated successfully: ${order.id}`);
+        return toOrder(order);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to update order ${orderId}: ${apiError.message}`, apiError);
+        throw apiError;
       }
+    }, order => ({ resultId: order.id }));
+  }
 
-      const order = await this.razorpay.orders.create(orderParams);
-      this.logger.info(`Order created successfully: ${order.id}`);
-      
-      return order;
+  /**
+   * Fetch all payments made against an order
+   */
+  async fetchOrderPayments(orderId: string): Promise<RazorpayCollection<RazorpayPayment>> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching payments for order: ${orderId}`);
+      const payments = await razorpay.orders.fetchPayments(orderId);
+      return toCollection(payments, toPayment);
     } catch (error) {
-      this.logger.error('Failed to create order', error as Error);
-      throw error;
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch payments for order ${orderId}: ${apiError.message}`, apiError);
+      throw apiError;
     }
   }
 
   /**
-   * Fetch order by ID
+   * Fetch payment by ID
    */
-  async fetchOrder(orderId: string): Promise<any> {
-    if (!this.razorpay) {
-      throw new Error('Razorpay client not initialized. Please configure your credentials in settings.');
+  async fetchPayment(paymentId: string): Promise<RazorpayPayment> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching payment: ${paymentId}`);
+      const payment = await razorpay.payments.fetch(paymentId);
+      return toPayment(payment);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch payment ${paymentId}: ${apiError.message}`, apiError);
+      throw apiError;
     }
+  }
+
+  /**
+   * List payments, newest first
+   */
+  async listPayments(params: ListPaymentsParams = {}): Promise<RazorpayCollection<RazorpayPayment>> {
+    const razorpay = this.getClient();
 
     try {
-      this.logger.info(`Fetching order: ${orderId}`);
-      const order = await this.razorpay.orders.fetch(orderId);
-      return order;
+      const query: Payments.RazorpayPaymentQuery = {
+        count: params.count ?? 10,
+        skip: params.skip ?? 0,
+      };
+
+      if (params.from) {
+        query.from = params.from;
+      }
+
+      if (params.to) {
+        query.to = params.to;
+      }
+
+      this.logger.info(`Listing payments: count=${query.count}, skip=${query.skip}`);
+      const payments = await razorpay.payments.all(query);
+      return toCollection(payments, toPayment);
     } catch (error) {
-      this.logger.error(`Failed to fetch order ${orderId}`, error as Error);
-      throw error;
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to list payments: ${apiError.message}`, apiError);
+      throw apiError;
     }
   }
 
+  /**
+   * Capture an authorized payment
+   */
+  async capturePayment(params: CapturePaymentParams): Promise<RazorpayPayment> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'payment.capture',
+      target: params.payment_id,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const payment = await razorpay.payments.fetch(params.payment_id);
+        return [
+          { field: 'status', before: payment.status, after: 'captured' },
+          { field: 'amount_captured', after: this.formatDisplayAmount(params.amount, params.currency) },
+        ];
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Capturing payment: ${params.payment_id}`);
+        const payment = await razorpay.payments.capture(
+          params.payment_id,
+          toSubunits(params.amount, params.currency),
+          params.currency,
+        );
+        this.logger.info(`Payment captured successfully: ${payment.id}`);
+        return toPayment(payment);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to capture payment ${params.payment_id}: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, payment => ({ resultId: payment.id }));
+  }
+
   /**
    * Create a payment link for checkout
    */
-  async createPayment(params: CreatePaymentParams): Promise<any> {
-    if (!this.razorpay) {
-      throw new Error('Razorpay client not initialized. Please configure your credentials in settings.');
+  async createPayment(params: CreatePaymentParams): Promise<CreatedPaymentLink> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'payment_link.create',
+      target: params.order_id,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: () => [
+        { field: 'amount', after: this.formatDisplayAmount(params.amount, params.currency) },
+        { field: 'description', after: params.description || 'Payment for order' },
+        ...(params.customer?.email || params.customer?.contact
+          ? [{ field: 'customer', after: [params.customer.email, params.customer.contact].filter(Boolean).join(', ') }]
+          : []),
+      ],
+    }, async () => {
+      try {
+        this.logger.info(`Creating payment link with amount: ${params.amount}, currency: ${params.currency}, order_id: ${params.order_id}`);
+      
+        const paymentLinkParams: PaymentLinks.RazorpayPaymentLinkCreateRequestBody = {
+          amount: toSubunits(params.amount, params.currency),
+          currency: params.currency,
+          accept_partial: false,
+          description: params.description || 'Payment for order',
+          notify: {
+            sms: false,
+            email: false,
+          },
+          reminder_enable: false,
+          notes: {
+            ...(params.notes || {}),
+            order_id: params.order_id, 
+          },
+          callback_url: '',
+          callback_method: 'get',
+          customer: params.customer || {},
+        };
+
+        const paymentLink = await razorpay.paymentLink.create(paymentLinkParams);
+        this.logger.info(`Payment link created successfully: ${paymentLink.id}`);
+      
+        return {
+          id: paymentLink.id,
+          short_url: paymentLink.short_url,
+          amount: Number(paymentLink.amount),
+          currency: paymentLink.currency ?? params.currency,
+          status: paymentLink.status,
+          order_id: params.order_id,
+          // The SDK types the timestamp as a string
+          created_at: Number(paymentLink.created_at),
+        };
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to create payment link: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, link => ({ resultId: link.id }));
+  }
+
+  /**
+   * Create a refund for a payment
+   */
+  async createRefund(params: CreateRefundParams): Promise<RazorpayRefund> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'refund.create',
+      target: params.payment_id,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const payment = toPayment(await razorpay.payments.fetch(params.payment_id));
+        const refunded = payment.amount_refunded || 0;
+        const refundAmount = params.amount ? toSubunits(params.amount, payment.currency) : payment.amount - refunded;
+        return [
+          { field: 'refund.amount', after: formatAmount(refundAmount, payment.currency) },
+          {
+            field: 'payment.amount_refunded',
+            before: formatAmount(refunded, payment.currency),
+            after: formatAmount(refunded + refundAmount, payment.currency),
+          },
+          {
+            field: 'payment.refund_status',
+            before: payment.refund_status || 'none',
+            after: refunded + refundAmount >= payment.amount ? 'full' : 'partial',
+          },
+          ...(params.speed ? [{ field: 'refund.speed', after: params.speed }] : []),
+        ];
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Creating refund for payment: ${params.payment_id}`);
+      
+        const refundParams: Refunds.RazorpayRefundCreateRequestBody = {};
+
+        if (params.amount) {
+          // Partial refunds are in the payment's currency, which the caller may not know
+          const payment = await razorpay.payments.fetch(params.payment_id);
+          if (params.currency && params.currency.toUpperCase() !== payment.currency) {
+            throw new Error(`Payment ${params.payment_id} is in ${payment.currency}, not ${params.currency.toUpperCase()}`);
+          }
+          refundParams.amount = toSubunits(params.amount, payment.currency);
+        }
+
+        if (params.speed) {
+          refundParams.speed = params.speed;
+        }
+
+        if (params.notes) {
+          refundParams.notes = params.notes;
+        }
+
+        if (params.receipt) {
+          refundParams.receipt = params.receipt;
+        }
+
+        const refund = await razorpay.payments.refund(params.payment_id, refundParams);
+        this.logger.info(`Refund created successfully: ${refund.id}`);
+      
+        return toRefund(refund);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to create refund: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, refund => ({ resultId: refund.id }));
+  }
+
+  /**
+   * Create a customer
+   */
+  async createCustomer(params: CreateCustomerParams): Promise<RazorpayCustomer> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'customer.create',
+      source: 'extension',
+      keyId: this.keyId,
+      describe: () => [
+        { field: 'name', after: params.name },
+        ...(params.email ? [{ field: 'email', after: params.email }] : []),
+        ...(params.contact ? [{ field: 'contact', after: params.contact }] : []),
+        ...(params.gstin ? [{ field: 'gstin', after: params.gstin }] : []),
+      ],
+    }, async () => {
+      try {
+        this.logger.info(`Creating customer: ${params.name}`);
+        const customer = await razorpay.customers.create({
+          name: params.name,
+          email: params.email,
+          contact: params.contact,
+          gstin: params.gstin,
+          notes: params.notes,
+          fail_existing: params.fail_existing === false ? 0 : 1,
+        });
+        this.logger.info(`Customer created successfully: ${customer.id}`);
+        return toCustomer(customer);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to create customer: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, customer => ({ resultId: customer.id }));
+  }
+
+  /**
+   * Fetch customer by ID
+   */
+  async fetchCustomer(customerId: string): Promise<RazorpayCustomer> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching customer: ${customerId}`);
+      const customer = await razorpay.customers.fetch(customerId);
+      return toCustomer(customer);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch customer ${customerId}: ${apiError.message}`, apiError);
+      throw apiError;
     }
+  }
+
+  /**
+   * Edit the name, email or contact of a customer
+   */
+  async editCustomer(customerId: string, params: EditCustomerParams): Promise<RazorpayCustomer> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'customer.edit',
+      target: customerId,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const customer = toCustomer(await razorpay.customers.fetch(customerId));
+        return (Object.keys(params) as (keyof EditCustomerParams)[])
+          .filter(field => params[field] !== undefined)
+          .map(field => ({ field, before: String(customer[field] ?? ''), after: String(params[field]) }));
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Editing customer: ${customerId}`);
+        const customer = await razorpay.customers.edit(customerId, params);
+        this.logger.info(`Customer updated successfully: ${customer.id}`);
+        return toCustomer(customer);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to edit customer ${customerId}: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, customer => ({ resultId: customer.id }));
+  }
+
+  /**
+   * List customers, newest first
+   */
+  async listCustomers(params: ListCustomersParams = {}): Promise<RazorpayCollection<RazorpayCustomer>> {
+    const razorpay = this.getClient();
 
     try {
-      this.logger.info(`Creating payment link with amount: ${params.amount}, currency: ${params.currency}, order_id: ${params.order_id}`);
-      
-      const paymentLinkParams: any = {
-        amount: params.amount * 100, 
-        currency: params.currency,
-        accept_partial: false,
-        description: params.description || 'Payment for order',
-        notify: {
-          sms: false,
-          email: false,
-        },
-        reminder_enable: false,
-        notes: {
-          ...(params.notes || {}),
-          order_id: params.order_id, 
-        },
-        callback_url: '',
-        callback_method: 'get',
+      const query = {
+        count: params.count ?? 10,
+        skip: params.skip ?? 0,
       };
 
-      if (params.customer && Object.keys(params.customer).length > 0) {
-        paymentLinkParams.customer = params.customer;
+      this.logger.info(`Listing customers: count=${query.count}, skip=${query.skip}`);
+      const customers = await razorpay.customers.all(query);
+      return toCollection(customers, toCustomer);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to list customers: ${apiError.message}`, apiError);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Fetch the saved tokens of a customer
+   */
+  async fetchTokens(customerId: string): Promise<RazorpayCollection<RazorpayToken>> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching tokens for customer: ${customerId}`);
+      const tokens = await razorpay.customers.fetchTokens(customerId);
+      return toCollection(tokens, toToken);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch tokens for customer ${customerId}: ${apiError.message}`, apiError);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Revoke (delete) a saved token of a customer
+   */
+  async deleteToken(customerId: string, tokenId: string): Promise<void> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'token.delete',
+      target: tokenId,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: () => [{ field: `customer ${customerId} token`, before: tokenId, after: '(revoked)' }],
+    }, async () => {
+      try {
+        this.logger.info(`Revoking token ${tokenId} for customer: ${customerId}`);
+        await razorpay.customers.deleteToken(customerId, tokenId);
+        this.logger.info(`Token revoked successfully: ${tokenId}`);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to revoke token ${tokenId}: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    });
+  }
+
+  /**
+   * Create a plan for subscriptions
+   */
+  async createPlan(params: CreatePlanParams): Promise<RazorpayPlan> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'plan.create',
+      source: 'extension',
+      keyId: this.keyId,
+      describe: () => [
+        { field: 'name', after: params.name },
+        { field: 'amount', after: this.formatDisplayAmount(params.amount, params.currency) },
+        { field: 'billing', after: `every ${params.interval} ${params.period}` },
+      ],
+    }, async () => {
+      try {
+        this.logger.info(`Creating ${params.period} plan: ${params.name}`);
+        const plan = await razorpay.plans.create({
+          period: params.period,
+          interval: params.interval,
+          item: {
+            name: params.name,
+            amount: toSubunits(params.amount, params.currency),
+            currency: params.currency,
+            description: params.description,
+          },
+          notes: params.notes,
+        });
+        this.logger.info(`Plan created successfully: ${plan.id}`);
+        return toPlan(plan);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to create plan: ${apiError.message}`, apiError);
+        throw apiError;
       }
+    }, plan => ({ resultId: plan.id }));
+  }
 
+  /**
+   * List plans, newest first
+   */
+  async listPlans(params: ListPlansParams = {}): Promise<RazorpayCollection<RazorpayPlan>> {
+    const razorpay = this.getClient();
 
-      const paymentLink = await this.razorpay.paymentLink.create(paymentLinkParams);
-      this.logger.info(`Payment link created successfully: ${paymentLink.id}`);
-      
-      return {
-        id: paymentLink.id,
-        short_url: paymentLink.short_url,
-        amount: paymentLink.amount,
-        currency: paymentLink.currency,
-        status: paymentLink.status,
-        order_id: params.order_id,
-        created_at: paymentLink.created_at,
+    try {
+      const query = {
+        count: params.count ?? 10,
+        skip: params.skip ?? 0,
       };
-    } catch (error: any) {
-      const errorMessage = error?.error?.description || error?.message || error?.toString() || 'Unknown error occurred';
-      this.logger.error(`Failed to create payment link: ${errorMessage}`, error as Error);
-      throw new Error(errorMessage);
+
+      this.logger.info(`Listing plans: count=${query.count}, skip=${query.skip}`);
+      const plans = await razorpay.plans.all(query);
+      return toCollection(plans, toPlan);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to list plans: ${apiError.message}`, apiError);
+      throw apiError;
     }
   }
 
   /**
-   * Create a refund for a payment
+   * Create a subscription against a plan
    */
-  async createRefund(params: CreateRefundParams): Promise<any> {
-    if (!this.razorpay) {
-      throw new Error('Razorpay client not initialized. Please configure your credentials in settings.');
+  async createSubscription(params: CreateSubscriptionParams): Promise<RazorpaySubscription> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'subscription.create',
+      target: params.plan_id,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: () => [
+        { field: 'plan_id', after: params.plan_id },
+        { field: 'total_count', after: String(params.total_count) },
+        ...(params.quantity ? [{ field: 'quantity', after: String(params.quantity) }] : []),
+        ...(params.start_at ? [{ field: 'start_at', after: new Date(params.start_at * 1000).toISOString() }] : []),
+      ],
+    }, async () => {
+      try {
+        this.logger.info(`Creating subscription for plan: ${params.plan_id}`);
+        const subscription = await razorpay.subscriptions.create({
+          plan_id: params.plan_id,
+          total_count: params.total_count,
+          quantity: params.quantity,
+          customer_notify: params.customer_notify === false ? 0 : 1,
+          start_at: params.start_at,
+          notes: params.notes,
+        });
+        this.logger.info(`Subscription created successfully: ${subscription.id}`);
+        return toSubscription(subscription);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to create subscription: ${apiError.message}`, apiError);
+        throw apiError;
+      }
+    }, subscription => ({ resultId: subscription.id }));
+  }
+
+  /**
+   * Fetch subscription by ID
+   */
+  async fetchSubscription(subscriptionId: string): Promise<RazorpaySubscription> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching subscription: ${subscriptionId}`);
+      const subscription = await razorpay.subscriptions.fetch(subscriptionId);
+      return toSubscription(subscription);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch subscription ${subscriptionId}: ${apiError.message}`, apiError);
+      throw apiError;
     }
+  }
+
+  /**
+   * List subscriptions, optionally for a single plan
+   */
+  async listSubscriptions(params: ListSubscriptionsParams = {}): Promise<RazorpayCollection<RazorpaySubscription>> {
+    const razorpay = this.getClient();
 
     try {
-      this.logger.info(`Creating refund for payment: ${params.payment_id}`);
-      
-      const refundParams: any = {};
+      const query: { count: number; skip: number; plan_id?: string } = {
+        count: params.count ?? 10,
+        skip: params.skip ?? 0,
+      };
 
-      if (params.amount) {
-        refundParams.amount = params.amount * 100; // Convert to paise
+      if (params.plan_id) {
+        query.plan_id = params.plan_id;
       }
 
-      if (params.speed) {
-        refundParams.speed = params.speed;
+      this.logger.info(`Listing subscriptions: count=${query.count}, skip=${query.skip}`);
+      const subscriptions = await razorpay.subscriptions.all(query);
+      return toCollection(subscriptions, toSubscription);
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to list subscriptions: ${apiError.message}`, apiError);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Pause an active subscription immediately
+   */
+  async pauseSubscription(subscriptionId: string): Promise<RazorpaySubscription> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'subscription.pause',
+      target: subscriptionId,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const subscription = await razorpay.subscriptions.fetch(subscriptionId);
+        return [{ field: 'status', before: subscription.status, after: 'paused' }];
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Pausing subscription: ${subscriptionId}`);
+        const subscription = await razorpay.subscriptions.pause(subscriptionId, { pause_at: 'now' });
+        this.logger.info(`Subscription paused: ${subscription.id}`);
+        return toSubscription(subscription);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to pause subscription ${subscriptionId}: ${apiError.message}`, apiError);
+        throw apiError;
       }
+    }, subscription => ({ resultId: subscription.id }));
+  }
+
+  /**
+   * Resume a paused subscription immediately
+   */
+  async resumeSubscription(subscriptionId: string): Promise<RazorpaySubscription> {
+    const razorpay = this.getClient();
 
-      if (params.notes) {
-        refundParams.notes = params.notes;
+    return this.guard.run({
+      operation: 'subscription.resume',
+      target: subscriptionId,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const subscription = await razorpay.subscriptions.fetch(subscriptionId);
+        return [{ field: 'status', before: subscription.status, after: 'active' }];
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Resuming subscription: ${subscriptionId}`);
+        const subscription = await razorpay.subscriptions.resume(subscriptionId, { resume_at: 'now' });
+        this.logger.info(`Subscription resumed: ${subscription.id}`);
+        return toSubscription(subscription);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to resume subscription ${subscriptionId}: ${apiError.message}`, apiError);
+        throw apiError;
       }
+    }, subscription => ({ resultId: subscription.id }));
+  }
 
-      if (params.receipt) {
-        refundParams.receipt = params.receipt;
+  /**
+   * Cancel a subscription, either now or at the end of the current billing cycle
+   */
+  async cancelSubscription(subscriptionId: string, cancelAtCycleEnd = false): Promise<RazorpaySubscription> {
+    const razorpay = this.getClient();
+
+    return this.guard.run({
+      operation: 'subscription.cancel',
+      target: subscriptionId,
+      source: 'extension',
+      keyId: this.keyId,
+      describe: async () => {
+        const subscription = await razorpay.subscriptions.fetch(subscriptionId);
+        return [{ field: 'status', before: subscription.status, after: cancelAtCycleEnd ? 'cancelled at cycle end' : 'cancelled' }];
+      },
+    }, async () => {
+      try {
+        this.logger.info(`Cancelling subscription: ${subscriptionId}${cancelAtCycleEnd ? ' at cycle end' : ''}`);
+        const subscription = await razorpay.subscriptions.cancel(subscriptionId, cancelAtCycleEnd);
+        this.logger.info(`Subscription cancelled: ${subscription.id}`);
+        return toSubscription(subscription);
+      } catch (error) {
+        const apiError = RazorpayApiError.from(error);
+        this.logger.error(`Failed to cancel subscription ${subscriptionId}: ${apiError.message}`, apiError);
+        throw apiError;
       }
+    }, subscription => ({ resultId: subscription.id }));
+  }
 
-      const refund = await this.razorpay.payments.refund(params.payment_id, refundParams);
-      this.logger.info(`Refund created successfully: ${refund.id}`);
-      
-      return refund;
-    } catch (error: any) {
-      const errorMessage = error?.error?.description || error?.message || error?.toString() || 'Unknown error occurred';
-      this.logger.error(`Failed to create refund: ${errorMessage}`, error as Error);
-      throw new Error(errorMessage);
+  /**
+   * List up to 100 invoices, filtered by `subscription_id` on the Invoices API
+   */
+  async fetchSubscriptionInvoices(subscriptionId: string): Promise<RazorpayCollection<RazorpayInvoice>> {
+    const razorpay = this.getClient();
+
+    try {
+      this.logger.info(`Fetching invoices for subscription: ${subscriptionId}`);
+      const invoices = await razorpay.invoices.all({ subscription_id: subscriptionId, count: 100 });
+      // The SDK's invoice type has no subscription_id; every invoice returned matched the filter
+      return toCollection(invoices, invoice => ({ ...toInvoice(invoice), subscription_id: subscriptionId }));
+    } catch (error) {
+      const apiError = RazorpayApiError.from(error);
+      this.logger.error(`Failed to fetch invoices for subscription ${subscriptionId}: ${apiError.message}`, apiError);
+      throw apiError;
     }
   }
-}
 
+  /**
+   * Display an amount entered in main units, e.g. "10.10 USD", for the live-mode summary
+   */
+  private formatDisplayAmount(amount: number | string, currency: string): string {
+    return formatAmount(toSubunits(amount, currency), currency);
+  }
+}
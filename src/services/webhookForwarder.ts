@@ -0,0 +1,90 @@
+import * as http from 'http';
+import * as https from 'https';
+import type { Logger } from '../utils/logger';
+import { signWebhookPayload } from '../utils/webhookSignature';
+
+export interface ForwardWebhookParams {
+  url: string;
+  body: string;
+  secret: string;
+  /** Sent as `X-Razorpay-Event-Id`; keep the original to exercise idempotency checks */
+  eventId?: string;
+}
+
+export interface ForwardWebhookResult {
+  status: number;
+  statusText: string;
+  body: string;
+  durationMs: number;
+}
+
+const FORWARD_TIMEOUT_MS = 15000;
+const MAX_RESPONSE_BODY_LENGTH = 10000;
+
+/**
+ * Sends signed webhook deliveries to a local endpoint,
+ * the same way Razorpay would deliver them.
+ */
+export class WebhookForwarder {
+  constructor(private logger: Logger) {}
+
+  /**
+   * Sign the body with the webhook secret and POST it to the target URL
+   */
+  async forward(params: ForwardWebhookParams): Promise<ForwardWebhookResult> {
+    let target: URL;
+    try {
+      target = new URL(params.url);
+    } catch {
+      throw new Error(`Invalid target URL: ${params.url}`);
+    }
+
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Unsupported protocol: ${target.protocol}`);
+    }
+
+    const headers: Record<string, string | number> = {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(params.body),
+      'User-Agent': 'Razorpay-Webhook/v1',
+    };
+
+    if (params.secret) {
+      headers['X-Razorpay-Signature'] = signWebhookPayload(params.body, params.secret);
+    }
+
+    if (params.eventId) {
+      headers['X-Razorpay-Event-Id'] = params.eventId;
+    }
+
+    this.logger.info(`Forwarding webhook to ${target.toString()}`);
+    const transport = target.protocol === 'https:' ? https : http;
+    const startedAt = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(target, { method: 'POST', headers }, (res) => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => data += chunk);
+        res.on('end', () => {
+          const result: ForwardWebhookResult = {
+            status: res.statusCode || 0,
+            statusText: res.statusMessage || '',
+            body: data.length > MAX_RESPONSE_BODY_LENGTH ? `${data.substring(0, MAX_RESPONSE_BODY_LENGTH)}\n... (truncated)` : data,
+            durationMs: Date.now() - startedAt,
+          };
+          this.logger.info(`Webhook forwarded: ${result.status} in ${result.durationMs}ms`);
+          resolve(result);
+        });
+      });
+
+      req.on('error', (error) => reject(new Error(`Failed to reach ${target.toString()}: ${error.message}`)));
+      req.setTimeout(FORWARD_TIMEOUT_MS, () => {
+        req.destroy();
+        reject(new Error(`Request to ${target.toString()} timed out`));
+      });
+      req.write(params.body);
+      req.end();
+    });
+  }
+}
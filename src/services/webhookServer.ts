@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import type { Logger } from '../utils/logger';
+import { verifyWebhookSignature } from '../utils/webhookSignature';
+
+export type WebhookVerification = 'verified' | 'invalid' | 'missing_signature' | 'no_secret';
+
+export interface CapturedWebhook {
+  id: string;
+  /** Value of `X-Razorpay-Event-Id`; repeated across retries of the same delivery */
+  eventId?: string;
+  event: string;
+  receivedAt: number;
+  headers: Record<string, string>;
+  rawBody: string;
+  payload: unknown;
+  signature?: string;
+  verification: WebhookVerification;
+}
+
+export interface WebhookServerOptions {
+  port: number;
+  path: string;
+  secret: string;
+}
+
+const MAX_CAPTURED_EVENTS = 100;
+/** Razorpay payloads are a few kilobytes; anything past this is refused rather than buffered */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Local HTTP listener that captures Razorpay webhook deliveries
+ * and verifies their signatures against the configured webhook secret.
+ */
+export class WebhookServer implements vscode.Disposable {
+  private server: http.Server | null = null;
+  private options: WebhookServerOptions | null = null;
+  private events: CapturedWebhook[] = [];
+  private eventCounter = 0;
+
+  private _onDidReceiveWebhook = new vscode.EventEmitter<CapturedWebhook>();
+  readonly onDidReceiveWebhook: vscode.Event<CapturedWebhook> = this._onDidReceiveWebhook.event;
+
+  private _onDidChangeState = new vscode.EventEmitter<void>();
+  readonly onDidChangeState: vscode.Event<void> = this._onDidChangeState.event;
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * Start listening for webhook POSTs on localhost
+   */
+  async start(options: WebhookServerOptions): Promise<void> {
+    if (this.server) {
+      await this.stop();
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    server.on('error', (error) => this.logger.error('Webhook listener error', error));
+
+    this.server = server;
+    this.options = options;
+    this.logger.info(`Webhook listener started on ${this.getUrl()}`);
+    this._onDidChangeState.fire();
+  }
+
+  /**
+   * Stop the listener if it is running
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    this.logger.info('Webhook listener stopped');
+    this._onDidChangeState.fire();
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * URL that Razorpay (or a tunnel in front of it) should deliver webhooks to
+   */
+  getUrl(): string | undefined {
+    if (!this.server || !this.options) {
+      return undefined;
+    }
+    return `http://localhost:${this.options.port}${this.options.path}`;
+  }
+
+  /**
+   * Update the secret used for verification without restarting the listener
+   */
+  setSecret(secret: string): void {
+    if (this.options) {
+      this.options = { ...this.options, secret };
+    }
+  }
+
+  /**
+   * Captured events, newest first
+   */
+  getEvents(): CapturedWebhook[] {
+    return [...this.events];
+  }
+
+  getEvent(id: string): CapturedWebhook | undefined {
+    return this.events.find(e => e.id === id);
+  }
+
+  clear(): void {
+    this.events = [];
+    this._onDidChangeState.fire();
+  }
+
+  dispose(): void {
+    this.server?.close();
+    this.server = null;
+    this._onDidReceiveWebhook.dispose();
+    this._onDidChangeState.dispose();
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const requestPath = (req.url || '').split('?')[0];
+
+    if (req.method !== 'POST' || requestPath !== this.options?.path) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      this.rejectTooLarge(req, res);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let rejected = false;
+    req.on('data', (chunk: Buffer) => {
+      if (rejected) {
+        return;
+      }
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        rejected = true;
+        this.rejectTooLarge(req, res);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('error', (error) => {
+      rejected = true;
+      this.logger.warn(`Webhook request failed: ${error.message}`);
+      if (!res.writableEnded) {
+        res.end();
+      }
+    });
+    req.on('end', () => {
+      if (rejected) {
+        return;
+      }
+      const captured = this.capture(req, Buffer.concat(chunks).toString('utf8'));
+
+      res.writeHead(captured.verification === 'invalid' ? 400 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: captured.verification }));
+    });
+  }
+
+  private rejectTooLarge(req: http.IncomingMessage, res: http.ServerResponse): void {
+    this.logger.warn(`Webhook request refused: body larger than ${MAX_BODY_BYTES} bytes`);
+    res.writeHead(413, { 'Content-Type': 'application/json', Connection: 'close' });
+    res.end(JSON.stringify({ error: 'Payload too large' }), () => req.destroy());
+  }
+
+  private capture(req: http.IncomingMessage, rawBody: string): CapturedWebhook {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    let payload: unknown = rawBody;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      // Keep the raw body so malformed deliveries are still visible
+    }
+
+    const signature = headers['x-razorpay-signature'];
+    const secret = this.options?.secret || '';
+    let verification: WebhookVerification;
+    if (!secret) {
+      verification = 'no_secret';
+    } else if (!signature) {
+      verification = 'missing_signature';
+    } else {
+      verification = verifyWebhookSignature(rawBody, signature, secret) ? 'verified' : 'invalid';
+    }
+
+    const eventName = payload && typeof payload === 'object' && typeof (payload as { event?: unknown }).event === 'string'
+      ? (payload as { event: string }).event
+      : 'unknown';
+
+    const captured: CapturedWebhook = {
+      id: `wh_${Date.now()}_${++this.eventCounter}`,
+      eventId: headers['x-razorpay-event-id'],
+      event: eventName,
+      receivedAt: Date.now(),
+      headers,
+      rawBody,
+      payload,
+      signature,
+      verification,
+    };
+
+    this.events.unshift(captured);
+    if (this.events.length > MAX_CAPTURED_EVENTS) {
+      this.events = this.events.slice(0, MAX_CAPTURED_EVENTS);
+    }
+
+    this.logger.info(`Webhook received: ${captured.event} (${captured.verification})`);
+    this._onDidReceiveWebhook.fire(captured);
+    this._onDidChangeState.fire();
+    return captured;
+  }
+}
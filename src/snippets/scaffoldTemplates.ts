@@ -0,0 +1,1080 @@
+/**
+ * End-to-end integration templates for the "Scaffold Integration" wizard.
+ * Each framework gets a create-order endpoint, a payment signature verification endpoint, a webhook route and a
+ * checkout page, in the framework's conventional locations. Every backend uses the same routes under
+ * /api/razorpay, so the checkout pages only differ in how they send the CSRF token.
+ *
+ * Keys come from RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET environment variables.
+ */
+
+export type ScaffoldFramework = 'express' | 'nextjs' | 'django' | 'flask' | 'spring' | 'gin' | 'rails';
+
+/**
+ * Project details that decide file names, paths and syntax
+ */
+export interface ScaffoldOptions {
+  /** TypeScript instead of JavaScript (Express, Next.js) */
+  typescript: boolean;
+  /** ES module syntax in JavaScript files (Express) */
+  esm: boolean;
+  /** Directory the sources live in, such as `src/`, or '' */
+  sourceDir: string;
+  /** Package of the generated Java classes (Spring Boot) */
+  javaPackage: string;
+  /** Module path from go.mod (Gin) */
+  goModule: string;
+}
+
+export interface ScaffoldFile {
+  /** Path relative to the project root, with `/` separators */
+  path: string;
+  description: string;
+  body: string[];
+}
+
+export interface ScaffoldTemplate {
+  framework: ScaffoldFramework;
+  name: string;
+  description: string;
+  /** SDK package the generated code imports */
+  sdkPackage: string;
+  files(options: ScaffoldOptions): ScaffoldFile[];
+  /** What is left to do by hand, such as registering the routes */
+  nextSteps(options: ScaffoldOptions): string[];
+}
+
+const ORDER_URL = '/api/razorpay/order';
+const VERIFY_URL = '/api/razorpay/verify';
+const ENV_STEP = 'Set RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET in the environment (test keys from Dashboard → Account & Settings → API Keys).';
+const WEBHOOK_STEP = 'Add a webhook for payment.captured, payment.failed and order.paid pointing at /api/razorpay/webhook, with the same secret as RAZORPAY_WEBHOOK_SECRET. The webhook listener in this extension can forward test events locally.';
+
+/**
+ * Checkout button and script for a server-rendered page
+ * @param csrfHeader entries added to the fetch headers, such as `'X-CSRFToken': '{{ csrf_token }}'`
+ */
+function checkoutMarkup(orderUrl: string, verifyUrl: string, csrfHeader?: string): string[] {
+  return [
+    '<button id="rzp-pay">Pay with Razorpay</button>',
+    '<p id="rzp-status"></p>',
+    '',
+    '<script src="https://checkout.razorpay.com/v1/checkout.js"></script>',
+    '<script>',
+    "  const button = document.getElementById('rzp-pay');",
+    "  const status = document.getElementById('rzp-status');",
+    '',
+    '  async function post(url, body) {',
+    '    const response = await fetch(url, {',
+    "      method: 'POST',",
+    `      headers: { 'Content-Type': 'application/json'${csrfHeader ? `, ${csrfHeader}` : ''} },`,
+    '      body: JSON.stringify(body),',
+    '    });',
+    '    if (!response.ok) {',
+    "      throw new Error('Request to ' + url + ' failed: HTTP ' + response.status);",
+    '    }',
+    '    return response.json();',
+    '  }',
+    '',
+    "  button.addEventListener('click', async () => {",
+    '    button.disabled = true;',
+    "    status.textContent = '';",
+    '    try {',
+    '      // Amount in paise: 50000 = ₹500',
+    `      const order = await post('${orderUrl}', { amount: 50000, currency: 'INR' });`,
+    '      const checkout = new Razorpay({',
+    '        key: order.key_id,',
+    '        amount: order.amount,',
+    '        currency: order.currency,',
+    '        order_id: order.order_id,',
+    "        name: 'Your Company Name',",
+    "        description: 'Test Transaction',",
+    '        handler: async (response) => {',
+    '          try {',
+    `            await post('${verifyUrl}', response);`,
+    "            status.textContent = 'Payment successful: ' + response.razorpay_payment_id;",
+    '          } catch (error) {',
+    "            status.textContent = 'Payment could not be verified';",
+    '          }',
+    '          button.disabled = false;',
+    '        },',
+    '        modal: { ondismiss: () => { button.disabled = false; } },',
+    '      });',
+    "      checkout.on('payment.failed', (response) => {",
+    "        status.textContent = 'Payment failed: ' + response.error.description;",
+    '      });',
+    '      checkout.open();',
+    '    } catch (error) {',
+    '      status.textContent = error.message;',
+    '      button.disabled = false;',
+    '    }',
+    '  });',
+    '</script>',
+  ];
+}
+
+function htmlPage(body: string[]): string[] {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1">',
+    '  <title>Checkout</title>',
+    '</head>',
+    '<body>',
+    ...body.map(line => line ? `  ${line}` : line),
+    '</body>',
+    '</html>',
+  ];
+}
+
+// ============================================
+// EXPRESS
+// ============================================
+
+function expressRouter(options: ScaffoldOptions): string[] {
+  const modules = options.typescript || options.esm;
+  const ts = options.typescript;
+  return [
+    ...(modules ? [
+      ts ? "import express, { Request, Response } from 'express';" : "import express from 'express';",
+      "import * as crypto from 'crypto';",
+      "import Razorpay from 'razorpay';",
+    ] : [
+      "const express = require('express');",
+      "const crypto = require('crypto');",
+      "const Razorpay = require('razorpay');",
+    ]),
+    '',
+    '/**',
+    ' * Razorpay Checkout endpoints: create an order, verify the payment signature, receive webhooks.',
+    ' * Mount it before any app-wide express.json(), so the webhook route gets the raw body to check the signature.',
+    ' */',
+    'const router = express.Router();',
+    '',
+    'const razorpay = new Razorpay({',
+    `  key_id: process.env.RAZORPAY_KEY_ID${ts ? " || ''" : ''},`,
+    `  key_secret: process.env.RAZORPAY_KEY_SECRET${ts ? " || ''" : ''},`,
+    '});',
+    '',
+    '/** Whether `signature` is the hex HMAC-SHA256 of `message`, compared in constant time */',
+    ts
+      ? 'function isValidSignature(message: string, signature: unknown, secret: string | undefined): boolean {'
+      : 'function isValidSignature(message, signature, secret) {',
+    "  if (!secret || typeof signature !== 'string') {",
+    '    return false;',
+    '  }',
+    "  const expected = crypto.createHmac('sha256', secret).update(message).digest('hex');",
+    '  return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));',
+    '}',
+    '',
+    `router.post('/order', express.json(), async (req${ts ? ': Request' : ''}, res${ts ? ': Response' : ''}) => {`,
+    '  try {',
+    "    // Take the amount from your own order records; the browser's value is only for this example",
+    '    const order = await razorpay.orders.create({',
+    '      amount: Number(req.body.amount) || 50000,',
+    "      currency: req.body.currency || 'INR',",
+    "      receipt: 'receipt_' + Date.now(),",
+    '    });',
+    '    res.json({ order_id: order.id, amount: order.amount, currency: order.currency, key_id: process.env.RAZORPAY_KEY_ID });',
+    '  } catch (error) {',
+    "    console.error('Razorpay order creation failed', error);",
+    "    res.status(502).json({ error: 'Could not create the order' });",
+    '  }',
+    '});',
+    '',
+    `router.post('/verify', express.json(), (req${ts ? ': Request' : ''}, res${ts ? ': Response' : ''}) => {`,
+    '  const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;',
+    "  const verified = isValidSignature(razorpay_order_id + '|' + razorpay_payment_id, razorpay_signature, process.env.RAZORPAY_KEY_SECRET);",
+    '  if (!verified) {',
+    '    res.status(400).json({ verified: false });',
+    '    return;',
+    '  }',
+    '  // Mark the order as paid in your database here',
+    '  res.json({ verified: true });',
+    '});',
+    '',
+    `router.post('/webhook', express.raw({ type: 'application/json' }), (req${ts ? ': Request' : ''}, res${ts ? ': Response' : ''}) => {`,
+    "  const payload = req.body.toString('utf8');",
+    "  if (!isValidSignature(payload, req.headers['x-razorpay-signature'], process.env.RAZORPAY_WEBHOOK_SECRET)) {",
+    "    res.status(400).json({ error: 'Invalid signature' });",
+    '    return;',
+    '  }',
+    '',
+    '  // Razorpay retries deliveries; use the X-Razorpay-Event-Id header to skip events already handled',
+    '  const event = JSON.parse(payload);',
+    '  switch (event.event) {',
+    "    case 'payment.captured':",
+    '      // event.payload.payment.entity is the captured payment',
+    '      break;',
+    "    case 'payment.failed':",
+    '      break;',
+    "    case 'order.paid':",
+    '      break;',
+    '  }',
+    "  res.json({ status: 'ok' });",
+    '});',
+    '',
+    modules ? 'export default router;' : 'module.exports = router;',
+  ];
+}
+
+const expressTemplate: ScaffoldTemplate = {
+  framework: 'express',
+  name: 'Express',
+  description: 'Router with order, verify and webhook routes, and a static checkout page',
+  sdkPackage: 'razorpay',
+  files: (options) => [
+    {
+      path: `${options.sourceDir}routes/razorpay.${options.typescript ? 'ts' : 'js'}`,
+      description: 'Create-order, verify-signature and webhook routes',
+      body: expressRouter(options),
+    },
+    {
+      path: 'public/checkout.html',
+      description: 'Checkout page',
+      body: htmlPage(checkoutMarkup(ORDER_URL, VERIFY_URL)),
+    },
+  ],
+  nextSteps: (options) => [
+    'Install the SDK: npm install razorpay',
+    `Mount the router from ${options.sourceDir}routes/razorpay before any app-wide express.json(): app.use('/api/razorpay', razorpayRouter).`,
+    "Serve the checkout page: app.use(express.static('public')), then open /checkout.html.",
+    ENV_STEP,
+    WEBHOOK_STEP,
+  ],
+};
+
+// ============================================
+// NEXT.JS (App Router route handlers)
+// ============================================
+
+function nextLibrary(ts: boolean): string[] {
+  return [
+    "import { createHmac, timingSafeEqual } from 'crypto';",
+    "import Razorpay from 'razorpay';",
+    '',
+    '/**',
+    ' * Razorpay client for route handlers. Created on use, so builds work without the keys set.',
+    ' */',
+    'export function getRazorpay() {',
+    '  return new Razorpay({',
+    "    key_id: process.env.RAZORPAY_KEY_ID || '',",
+    "    key_secret: process.env.RAZORPAY_KEY_SECRET || '',",
+    '  });',
+    '}',
+    '',
+    '/** Whether `signature` is the hex HMAC-SHA256 of `message`, compared in constant time */',
+    ts
+      ? 'export function isValidSignature(message: string, signature: string | null | undefined, secret: string | undefined): boolean {'
+      : 'export function isValidSignature(message, signature, secret) {',
+    '  if (!secret || !signature) {',
+    '    return false;',
+    '  }',
+    "  const expected = createHmac('sha256', secret).update(message).digest('hex');",
+    '  return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));',
+    '}',
+  ];
+}
+
+function nextOrderRoute(ts: boolean): string[] {
+  return [
+    "import { NextResponse } from 'next/server';",
+    "import { getRazorpay } from '../../../../lib/razorpay';",
+    '',
+    "export const runtime = 'nodejs';",
+    '',
+    '/** Create an order for Checkout to pay */',
+    `export async function POST(request${ts ? ': Request' : ''}) {`,
+    '  const body = await request.json().catch(() => ({}));',
+    '  try {',
+    "    // Take the amount from your own order records; the browser's value is only for this example",
+    '    const order = await getRazorpay().orders.create({',
+    '      amount: Number(body.amount) || 50000,',
+    "      currency: body.currency || 'INR',",
+    "      receipt: 'receipt_' + Date.now(),",
+    '    });',
+    '    return NextResponse.json({ order_id: order.id, amount: order.amount, currency: order.currency, key_id: process.env.RAZORPAY_KEY_ID });',
+    '  } catch (error) {',
+    "    console.error('Razorpay order creation failed', error);",
+    "    return NextResponse.json({ error: 'Could not create the order' }, { status: 502 });",
+    '  }',
+    '}',
+  ];
+}
+
+function nextVerifyRoute(ts: boolean): string[] {
+  return [
+    "import { NextResponse } from 'next/server';",
+    "import { isValidSignature } from '../../../../lib/razorpay';",
+    '',
+    "export const runtime = 'nodejs';",
+    '',
+    '/** Check the signature Checkout returns after a successful payment */',
+    `export async function POST(request${ts ? ': Request' : ''}) {`,
+    '  const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = await request.json();',
+    "  const verified = isValidSignature(razorpay_order_id + '|' + razorpay_payment_id, razorpay_signature, process.env.RAZORPAY_KEY_SECRET);",
+    '  if (!verified) {',
+    '    return NextResponse.json({ verified: false }, { status: 400 });',
+    '  }',
+    '  // Mark the order as paid in your database here',
+    '  return NextResponse.json({ verified: true });',
+    '}',
+  ];
+}
+
+function nextWebhookRoute(ts: boolean): string[] {
+  return [
+    "import { NextResponse } from 'next/server';",
+    "import { isValidSignature } from '../../../../lib/razorpay';",
+    '',
+    "export const runtime = 'nodejs';",
+    '',
+    '/** Razorpay webhooks, checked against RAZORPAY_WEBHOOK_SECRET */',
+    `export async function POST(request${ts ? ': Request' : ''}) {`,
+    '  const payload = await request.text();',
+    "  if (!isValidSignature(payload, request.headers.get('x-razorpay-signature'), process.env.RAZORPAY_WEBHOOK_SECRET)) {",
+    "    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });",
+    '  }',
+    '',
+    '  // Razorpay retries deliveries; use the X-Razorpay-Event-Id header to skip events already handled',
+    '  const event = JSON.parse(payload);',
+    '  switch (event.event) {',
+    "    case 'payment.captured':",
+    '      // event.payload.payment.entity is the captured payment',
+    '      break;',
+    "    case 'payment.failed':",
+    '      break;',
+    "    case 'order.paid':",
+    '      break;',
+    '  }',
+    "  return NextResponse.json({ status: 'ok' });",
+    '}',
+  ];
+}
+
+function nextCheckoutComponent(ts: boolean): string[] {
+  return [
+    "'use client';",
+    '',
+    "import { useState } from 'react';",
+    "import Script from 'next/script';",
+    '',
+    ...(ts ? [
+      'interface CheckoutResponse {',
+      '  razorpay_payment_id: string;',
+      '  razorpay_order_id: string;',
+      '  razorpay_signature: string;',
+      '}',
+      '',
+      'interface RazorpayCheckoutInstance {',
+      '  open(): void;',
+      '  on(event: \'payment.failed\', handler: (response: { error: { description: string } }) => void): void;',
+      '}',
+      '',
+      'declare global {',
+      '  interface Window {',
+      '    Razorpay: new (options: Record<string, unknown>) => RazorpayCheckoutInstance;',
+      '  }',
+      '}',
+      '',
+      'interface RazorpayCheckoutProps {',
+      '  /** Amount in paise: 50000 = ₹500 */',
+      '  amount?: number;',
+      '  currency?: string;',
+      '}',
+      '',
+    ] : []),
+    `export default function RazorpayCheckout({ amount = 50000, currency = 'INR' }${ts ? ': RazorpayCheckoutProps' : ''}) {`,
+    "  const [status, setStatus] = useState('');",
+    '  const [busy, setBusy] = useState(false);',
+    '',
+    `  async function post(url${ts ? ': string' : ''}, body${ts ? ': unknown' : ''}) {`,
+    '    const response = await fetch(url, {',
+    "      method: 'POST',",
+    "      headers: { 'Content-Type': 'application/json' },",
+    '      body: JSON.stringify(body),',
+    '    });',
+    '    if (!response.ok) {',
+    "      throw new Error('Request to ' + url + ' failed: HTTP ' + response.status);",
+    '    }',
+    '    return response.json();',
+    '  }',
+    '',
+    '  async function pay() {',
+    '    setBusy(true);',
+    "    setStatus('');",
+    '    try {',
+    `      const order = await post('${ORDER_URL}', { amount, currency });`,
+    '      const checkout = new window.Razorpay({',
+    '        key: order.key_id,',
+    '        amount: order.amount,',
+    '        currency: order.currency,',
+    '        order_id: order.order_id,',
+    "        name: 'Your Company Name',",
+    "        description: 'Test Transaction',",
+    `        handler: async (response${ts ? ': CheckoutResponse' : ''}) => {`,
+    '          try {',
+    `            await post('${VERIFY_URL}', response);`,
+    "            setStatus('Payment successful: ' + response.razorpay_payment_id);",
+    '          } catch {',
+    "            setStatus('Payment could not be verified');",
+    '          }',
+    '          setBusy(false);',
+    '        },',
+    '        modal: { ondismiss: () => setBusy(false) },',
+    '      });',
+    "      checkout.on('payment.failed', (response) => setStatus('Payment failed: ' + response.error.description));",
+    '      checkout.open();',
+    '    } catch (error) {',
+    '      setStatus(error instanceof Error ? error.message : String(error));',
+    '      setBusy(false);',
+    '    }',
+    '  }',
+    '',
+    '  return (',
+    '    <>',
+    '      <Script src="https://checkout.razorpay.com/v1/checkout.js" strategy="lazyOnload" />',
+    '      <button onClick={pay} disabled={busy}>Pay with Razorpay</button>',
+    '      {status && <p>{status}</p>}',
+    '    </>',
+    '  );',
+    '}',
+  ];
+}
+
+const nextjsTemplate: ScaffoldTemplate = {
+  framework: 'nextjs',
+  name: 'Next.js',
+  description: 'App Router route handlers for order, verify and webhook, and a checkout page',
+  sdkPackage: 'razorpay',
+  files: (options) => {
+    const ext = options.typescript ? 'ts' : 'js';
+    const app = `${options.sourceDir}app`;
+    return [
+      { path: `${options.sourceDir}lib/razorpay.${ext}`, description: 'Razorpay client and signature check', body: nextLibrary(options.typescript) },
+      { path: `${app}/api/razorpay/order/route.${ext}`, description: 'Create-order route handler', body: nextOrderRoute(options.typescript) },
+      { path: `${app}/api/razorpay/verify/route.${ext}`, description: 'Verify-signature route handler', body: nextVerifyRoute(options.typescript) },
+      { path: `${app}/api/razorpay/webhook/route.${ext}`, description: 'Webhook route handler', body: nextWebhookRoute(options.typescript) },
+      {
+        path: `${options.sourceDir}components/RazorpayCheckout.${ext}x`,
+        description: 'Checkout button component',
+        body: nextCheckoutComponent(options.typescript),
+      },
+      {
+        path: `${app}/checkout/page.${ext}x`,
+        description: 'Checkout page',
+        body: [
+          "import RazorpayCheckout from '../../components/RazorpayCheckout';",
+          '',
+          'export default function CheckoutPage() {',
+          '  return (',
+          '    <main>',
+          '      <h1>Checkout</h1>',
+          '      <RazorpayCheckout amount={50000} />',
+          '    </main>',
+          '  );',
+          '}',
+        ],
+      },
+    ];
+  },
+  nextSteps: () => [
+    'Install the SDK: npm install razorpay',
+    'Add RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET to .env.local (test keys from Dashboard → Account & Settings → API Keys).',
+    'Open /checkout to try a payment.',
+    WEBHOOK_STEP,
+  ],
+};
+
+// ============================================
+// DJANGO
+// ============================================
+
+const PYTHON_WEBHOOK_EVENTS = [
+  "    # Razorpay retries deliveries; use the X-Razorpay-Event-Id header to skip events already handled",
+  '    event = json.loads(payload)',
+  "    if event['event'] == 'payment.captured':",
+  "        pass  # event['payload']['payment']['entity'] is the captured payment",
+  "    elif event['event'] == 'payment.failed':",
+  '        pass',
+  "    elif event['event'] == 'order.paid':",
+  '        pass',
+];
+
+const djangoTemplate: ScaffoldTemplate = {
+  framework: 'django',
+  name: 'Django',
+  description: 'A razorpay_payments app with order, verify and webhook views, and a checkout template',
+  sdkPackage: 'razorpay',
+  files: () => [
+    { path: 'razorpay_payments/__init__.py', description: 'App package', body: [] },
+    {
+      path: 'razorpay_payments/apps.py',
+      description: 'App configuration',
+      body: [
+        'from django.apps import AppConfig',
+        '',
+        '',
+        'class RazorpayPaymentsConfig(AppConfig):',
+        "    default_auto_field = 'django.db.models.BigAutoField'",
+        "    name = 'razorpay_payments'",
+      ],
+    },
+    {
+      path: 'razorpay_payments/views.py',
+      description: 'Create-order, verify-signature and webhook views',
+      body: [
+        '"""Razorpay Checkout endpoints: create an order, verify the payment signature, receive webhooks"""',
+        'import json',
+        'import os',
+        'import time',
+        '',
+        'import razorpay',
+        'from django.http import JsonResponse',
+        'from django.shortcuts import render',
+        'from django.views.decorators.csrf import csrf_exempt',
+        'from django.views.decorators.http import require_POST',
+        '',
+        "client = razorpay.Client(auth=(os.environ.get('RAZORPAY_KEY_ID', ''), os.environ.get('RAZORPAY_KEY_SECRET', '')))",
+        '',
+        '',
+        'def checkout(request):',
+        "    return render(request, 'razorpay_payments/checkout.html')",
+        '',
+        '',
+        '@require_POST',
+        'def create_order(request):',
+        "    body = json.loads(request.body or '{}')",
+        "    # Take the amount from your own order records; the browser's value is only for this example",
+        '    order = client.order.create({',
+        "        'amount': int(body.get('amount', 50000)),",
+        "        'currency': body.get('currency', 'INR'),",
+        "        'receipt': f'receipt_{int(time.time())}',",
+        '    })',
+        '    return JsonResponse({',
+        "        'order_id': order['id'],",
+        "        'amount': order['amount'],",
+        "        'currency': order['currency'],",
+        "        'key_id': os.environ.get('RAZORPAY_KEY_ID'),",
+        '    })',
+        '',
+        '',
+        '@require_POST',
+        'def verify_payment(request):',
+        "    body = json.loads(request.body or '{}')",
+        '    try:',
+        '        client.utility.verify_payment_signature({',
+        "            'razorpay_order_id': body.get('razorpay_order_id'),",
+        "            'razorpay_payment_id': body.get('razorpay_payment_id'),",
+        "            'razorpay_signature': body.get('razorpay_signature'),",
+        '        })',
+        '    except razorpay.errors.SignatureVerificationError:',
+        "        return JsonResponse({'verified': False}, status=400)",
+        '    # Mark the order as paid in your database here',
+        "    return JsonResponse({'verified': True})",
+        '',
+        '',
+        '@csrf_exempt',
+        '@require_POST',
+        'def webhook(request):',
+        "    payload = request.body.decode('utf-8')",
+        '    try:',
+        '        client.utility.verify_webhook_signature(',
+        "            payload, request.headers.get('X-Razorpay-Signature', ''), os.environ.get('RAZORPAY_WEBHOOK_SECRET', ''))",
+        '    except razorpay.errors.SignatureVerificationError:',
+        "        return JsonResponse({'error': 'Invalid signature'}, status=400)",
+        '',
+        ...PYTHON_WEBHOOK_EVENTS,
+        "    return JsonResponse({'status': 'ok'})",
+      ],
+    },
+    {
+      path: 'razorpay_payments/urls.py',
+      description: 'Routes for the views',
+      body: [
+        'from django.urls import path',
+        '',
+        'from . import views',
+        '',
+        'urlpatterns = [',
+        "    path('checkout/', views.checkout, name='razorpay-checkout'),",
+        "    path('order/', views.create_order, name='razorpay-order'),",
+        "    path('verify/', views.verify_payment, name='razorpay-verify'),",
+        "    path('webhook/', views.webhook, name='razorpay-webhook'),",
+        ']',
+      ],
+    },
+    {
+      path: 'razorpay_payments/templates/razorpay_payments/checkout.html',
+      description: 'Checkout page',
+      body: htmlPage(checkoutMarkup('{% url "razorpay-order" %}', '{% url "razorpay-verify" %}', "'X-CSRFToken': '{{ csrf_token }}'")),
+    },
+  ],
+  nextSteps: () => [
+    'Install the SDK: pip install razorpay',
+    "Add 'razorpay_payments' to INSTALLED_APPS.",
+    "Include the routes in your root urls.py: path('api/razorpay/', include('razorpay_payments.urls')), then open /api/razorpay/checkout/.",
+    ENV_STEP,
+    WEBHOOK_STEP.replace('/api/razorpay/webhook', '/api/razorpay/webhook/'),
+  ],
+};
+
+// ============================================
+// FLASK
+// ============================================
+
+const flaskTemplate: ScaffoldTemplate = {
+  framework: 'flask',
+  name: 'Flask',
+  description: 'A blueprint with order, verify and webhook routes, and a checkout template',
+  sdkPackage: 'razorpay',
+  files: () => [
+    {
+      path: 'razorpay_payments.py',
+      description: 'Blueprint with create-order, verify-signature and webhook routes',
+      body: [
+        '"""Razorpay Checkout endpoints: create an order, verify the payment signature, receive webhooks"""',
+        'import json',
+        'import os',
+        'import time',
+        '',
+        'import razorpay',
+        'from flask import Blueprint, jsonify, render_template, request',
+        '',
+        "razorpay_bp = Blueprint('razorpay', __name__, url_prefix='/api/razorpay')",
+        "client = razorpay.Client(auth=(os.environ.get('RAZORPAY_KEY_ID', ''), os.environ.get('RAZORPAY_KEY_SECRET', '')))",
+        '',
+        '',
+        "@razorpay_bp.get('/checkout')",
+        'def checkout():',
+        "    return render_template('razorpay_checkout.html')",
+        '',
+        '',
+        "@razorpay_bp.post('/order')",
+        'def create_order():',
+        '    body = request.get_json(silent=True) or {}',
+        "    # Take the amount from your own order records; the browser's value is only for this example",
+        '    order = client.order.create({',
+        "        'amount': int(body.get('amount', 50000)),",
+        "        'currency': body.get('currency', 'INR'),",
+        "        'receipt': f'receipt_{int(time.time())}',",
+        '    })',
+        '    return jsonify(',
+        "        order_id=order['id'],",
+        "        amount=order['amount'],",
+        "        currency=order['currency'],",
+        "        key_id=os.environ.get('RAZORPAY_KEY_ID'),",
+        '    )',
+        '',
+        '',
+        "@razorpay_bp.post('/verify')",
+        'def verify_payment():',
+        '    body = request.get_json(silent=True) or {}',
+        '    try:',
+        '        client.utility.verify_payment_signature({',
+        "            'razorpay_order_id': body.get('razorpay_order_id'),",
+        "            'razorpay_payment_id': body.get('razorpay_payment_id'),",
+        "            'razorpay_signature': body.get('razorpay_signature'),",
+        '        })',
+        '    except razorpay.errors.SignatureVerificationError:',
+        '        return jsonify(verified=False), 400',
+        '    # Mark the order as paid in your database here',
+        '    return jsonify(verified=True)',
+        '',
+        '',
+        "@razorpay_bp.post('/webhook')",
+        'def webhook():',
+        '    payload = request.get_data(as_text=True)',
+        '    try:',
+        '        client.utility.verify_webhook_signature(',
+        "            payload, request.headers.get('X-Razorpay-Signature', ''), os.environ.get('RAZORPAY_WEBHOOK_SECRET', ''))",
+        '    except razorpay.errors.SignatureVerificationError:',
+        "        return jsonify(error='Invalid signature'), 400",
+        '',
+        ...PYTHON_WEBHOOK_EVENTS,
+        "    return jsonify(status='ok')",
+      ],
+    },
+    {
+      path: 'templates/razorpay_checkout.html',
+      description: 'Checkout page',
+      body: htmlPage(checkoutMarkup(ORDER_URL, VERIFY_URL)),
+    },
+  ],
+  nextSteps: () => [
+    'Install the SDK: pip install razorpay',
+    'Register the blueprint: from razorpay_payments import razorpay_bp, then app.register_blueprint(razorpay_bp). Open /api/razorpay/checkout.',
+    ENV_STEP,
+    WEBHOOK_STEP,
+  ],
+};
+
+// ============================================
+// SPRING BOOT
+// ============================================
+
+const springTemplate: ScaffoldTemplate = {
+  framework: 'spring',
+  name: 'Spring Boot',
+  description: 'A REST controller with order, verify and webhook endpoints, and a static checkout page',
+  sdkPackage: 'com.razorpay:razorpay-java',
+  files: (options) => [
+    {
+      path: `src/main/java/${options.javaPackage.replace(/\./g, '/')}/RazorpayController.java`,
+      description: 'Create-order, verify-signature and webhook endpoints',
+      body: [
+        `package ${options.javaPackage};`,
+        '',
+        'import com.razorpay.Order;',
+        'import com.razorpay.RazorpayClient;',
+        'import com.razorpay.RazorpayException;',
+        'import com.razorpay.Utils;',
+        'import org.json.JSONObject;',
+        'import org.springframework.beans.factory.annotation.Value;',
+        'import org.springframework.http.HttpStatus;',
+        'import org.springframework.http.ResponseEntity;',
+        'import org.springframework.web.bind.annotation.PostMapping;',
+        'import org.springframework.web.bind.annotation.RequestBody;',
+        'import org.springframework.web.bind.annotation.RequestHeader;',
+        'import org.springframework.web.bind.annotation.RequestMapping;',
+        'import org.springframework.web.bind.annotation.RestController;',
+        '',
+        'import java.util.Map;',
+        '',
+        '/**',
+        ' * Razorpay Checkout endpoints: create an order, verify the payment signature, receive webhooks',
+        ' */',
+        '@RestController',
+        '@RequestMapping("/api/razorpay")',
+        'public class RazorpayController {',
+        '',
+        '    private final RazorpayClient razorpay;',
+        '    private final String keyId;',
+        '    private final String keySecret;',
+        '    private final String webhookSecret;',
+        '',
+        '    public RazorpayController(',
+        '            @Value("${RAZORPAY_KEY_ID}") String keyId,',
+        '            @Value("${RAZORPAY_KEY_SECRET}") String keySecret,',
+        '            @Value("${RAZORPAY_WEBHOOK_SECRET:}") String webhookSecret) throws RazorpayException {',
+        '        this.razorpay = new RazorpayClient(keyId, keySecret);',
+        '        this.keyId = keyId;',
+        '        this.keySecret = keySecret;',
+        '        this.webhookSecret = webhookSecret;',
+        '    }',
+        '',
+        '    @PostMapping("/order")',
+        '    public Map<String, Object> createOrder(@RequestBody Map<String, Object> body) throws RazorpayException {',
+        "        // Take the amount from your own order records; the browser's value is only for this example",
+        '        JSONObject options = new JSONObject();',
+        '        options.put("amount", ((Number) body.getOrDefault("amount", 50000)).intValue());',
+        '        options.put("currency", body.getOrDefault("currency", "INR"));',
+        '        options.put("receipt", "receipt_" + System.currentTimeMillis());',
+        '        Order order = razorpay.orders.create(options);',
+        '        return Map.of(',
+        '                "order_id", order.get("id"),',
+        '                "amount", order.get("amount"),',
+        '                "currency", order.get("currency"),',
+        '                "key_id", keyId);',
+        '    }',
+        '',
+        '    @PostMapping("/verify")',
+        '    public ResponseEntity<Map<String, Object>> verifyPayment(@RequestBody Map<String, String> body) throws RazorpayException {',
+        '        JSONObject attributes = new JSONObject();',
+        '        attributes.put("razorpay_order_id", body.get("razorpay_order_id"));',
+        '        attributes.put("razorpay_payment_id", body.get("razorpay_payment_id"));',
+        '        attributes.put("razorpay_signature", body.get("razorpay_signature"));',
+        '        if (!Utils.verifyPaymentSignature(attributes, keySecret)) {',
+        '            return ResponseEntity.badRequest().body(Map.of("verified", false));',
+        '        }',
+        '        // Mark the order as paid in your database here',
+        '        return ResponseEntity.ok(Map.of("verified", true));',
+        '    }',
+        '',
+        '    @PostMapping("/webhook")',
+        '    public ResponseEntity<Map<String, Object>> webhook(',
+        '            @RequestBody String payload,',
+        '            @RequestHeader(value = "X-Razorpay-Signature", required = false) String signature) throws RazorpayException {',
+        '        if (webhookSecret.isEmpty()) {',
+        '            return ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(Map.of("error", "RAZORPAY_WEBHOOK_SECRET is not set"));',
+        '        }',
+        '        if (signature == null || !Utils.verifyWebhookSignature(payload, signature, webhookSecret)) {',
+        '            return ResponseEntity.badRequest().body(Map.of("error", "Invalid signature"));',
+        '        }',
+        '',
+        '        // Razorpay retries deliveries; use the X-Razorpay-Event-Id header to skip events already handled',
+        '        JSONObject event = new JSONObject(payload);',
+        '        switch (event.getString("event")) {',
+        '            case "payment.captured":',
+        '                // event.getJSONObject("payload").getJSONObject("payment").getJSONObject("entity") is the captured payment',
+        '                break;',
+        '            case "payment.failed":',
+        '                break;',
+        '            case "order.paid":',
+        '                break;',
+        '            default:',
+        '                break;',
+        '        }',
+        '        return ResponseEntity.ok(Map.of("status", "ok"));',
+        '    }',
+        '}',
+      ],
+    },
+    {
+      path: 'src/main/resources/static/checkout.html',
+      description: 'Checkout page',
+      body: htmlPage(checkoutMarkup(ORDER_URL, VERIFY_URL)),
+    },
+  ],
+  nextSteps: () => [
+    'Add the SDK dependency: com.razorpay:razorpay-java (Maven or Gradle).',
+    ENV_STEP,
+    'Open /checkout.html to try a payment. If Spring Security is on, permit /api/razorpay/** and exclude the webhook from CSRF protection.',
+    WEBHOOK_STEP,
+  ],
+};
+
+// ============================================
+// GIN
+// ============================================
+
+const ginTemplate: ScaffoldTemplate = {
+  framework: 'gin',
+  name: 'Gin',
+  description: 'A payments package with order, verify and webhook handlers, and a static checkout page',
+  sdkPackage: 'github.com/razorpay/razorpay-go',
+  files: () => [
+    {
+      path: 'payments/razorpay.go',
+      description: 'Create-order, verify-signature and webhook handlers',
+      body: [
+        '// Package payments adds Razorpay Checkout endpoints: create an order, verify the payment signature, receive webhooks.',
+        'package payments',
+        '',
+        'import (',
+        '\t"crypto/hmac"',
+        '\t"crypto/sha256"',
+        '\t"encoding/hex"',
+        '\t"encoding/json"',
+        '\t"fmt"',
+        '\t"log"',
+        '\t"net/http"',
+        '\t"os"',
+        '\t"time"',
+        '',
+        '\t"github.com/gin-gonic/gin"',
+        '\trazorpay "github.com/razorpay/razorpay-go"',
+        ')',
+        '',
+        '// RegisterRoutes adds the endpoints under /api/razorpay',
+        'func RegisterRoutes(r gin.IRouter) {',
+        '\tclient := razorpay.NewClient(os.Getenv("RAZORPAY_KEY_ID"), os.Getenv("RAZORPAY_KEY_SECRET"))',
+        '\tgroup := r.Group("/api/razorpay")',
+        '\tgroup.POST("/order", createOrder(client))',
+        '\tgroup.POST("/verify", verifyPayment)',
+        '\tgroup.POST("/webhook", webhook)',
+        '}',
+        '',
+        'type orderRequest struct {',
+        '\tAmount   int    `json:"amount"`',
+        '\tCurrency string `json:"currency"`',
+        '}',
+        '',
+        'func createOrder(client *razorpay.Client) gin.HandlerFunc {',
+        '\treturn func(c *gin.Context) {',
+        '\t\treq := orderRequest{Amount: 50000, Currency: "INR"}',
+        '\t\tif err := c.ShouldBindJSON(&req); err != nil {',
+        '\t\t\tc.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})',
+        '\t\t\treturn',
+        '\t\t}',
+        '',
+        "\t\t// Take the amount from your own order records; the browser's value is only for this example",
+        '\t\torder, err := client.Order.Create(map[string]interface{}{',
+        '\t\t\t"amount":   req.Amount,',
+        '\t\t\t"currency": req.Currency,',
+        '\t\t\t"receipt":  fmt.Sprintf("receipt_%d", time.Now().Unix()),',
+        '\t\t}, nil)',
+        '\t\tif err != nil {',
+        '\t\t\tlog.Printf("Razorpay order creation failed: %v", err)',
+        '\t\t\tc.JSON(http.StatusBadGateway, gin.H{"error": "Could not create the order"})',
+        '\t\t\treturn',
+        '\t\t}',
+        '\t\tc.JSON(http.StatusOK, gin.H{',
+        '\t\t\t"order_id": order["id"],',
+        '\t\t\t"amount":   order["amount"],',
+        '\t\t\t"currency": order["currency"],',
+        '\t\t\t"key_id":   os.Getenv("RAZORPAY_KEY_ID"),',
+        '\t\t})',
+        '\t}',
+        '}',
+        '',
+        'type verifyRequest struct {',
+        '\tOrderID   string `json:"razorpay_order_id"`',
+        '\tPaymentID string `json:"razorpay_payment_id"`',
+        '\tSignature string `json:"razorpay_signature"`',
+        '}',
+        '',
+        'func verifyPayment(c *gin.Context) {',
+        '\tvar req verifyRequest',
+        '\tif err := c.ShouldBindJSON(&req); err != nil {',
+        '\t\tc.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})',
+        '\t\treturn',
+        '\t}',
+        '\tif !validSignature(req.OrderID+"|"+req.PaymentID, req.Signature, os.Getenv("RAZORPAY_KEY_SECRET")) {',
+        '\t\tc.JSON(http.StatusBadRequest, gin.H{"verified": false})',
+        '\t\treturn',
+        '\t}',
+        '\t// Mark the order as paid in your database here',
+        '\tc.JSON(http.StatusOK, gin.H{"verified": true})',
+        '}',
+        '',
+        'func webhook(c *gin.Context) {',
+        '\tpayload, err := c.GetRawData()',
+        '\tif err != nil || !validSignature(string(payload), c.GetHeader("X-Razorpay-Signature"), os.Getenv("RAZORPAY_WEBHOOK_SECRET")) {',
+        '\t\tc.JSON(http.StatusBadRequest, gin.H{"error": "Invalid signature"})',
+        '\t\treturn',
+        '\t}',
+        '',
+        '\t// Razorpay retries deliveries; use the X-Razorpay-Event-Id header to skip events already handled',
+        '\tvar event struct {',
+        '\t\tEvent   string                 `json:"event"`',
+        '\t\tPayload map[string]interface{} `json:"payload"`',
+        '\t}',
+        '\tif err := json.Unmarshal(payload, &event); err != nil {',
+        '\t\tc.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})',
+        '\t\treturn',
+        '\t}',
+        '\tswitch event.Event {',
+        '\tcase "payment.captured":',
+        '\t\t// event.Payload["payment"] holds the captured payment',
+        '\tcase "payment.failed":',
+        '\tcase "order.paid":',
+        '\t}',
+        '\tc.JSON(http.StatusOK, gin.H{"status": "ok"})',
+        '}',
+        '',
+        '// validSignature reports whether signature is the hex HMAC-SHA256 of message, compared in constant time',
+        'func validSignature(message, signature, secret string) bool {',
+        '\tif secret == "" {',
+        '\t\treturn false',
+        '\t}',
+        '\tmac := hmac.New(sha256.New, []byte(secret))',
+        '\tmac.Write([]byte(message))',
+        '\treturn hmac.Equal([]byte(hex.EncodeToString(mac.Sum(nil))), []byte(signature))',
+        '}',
+      ],
+    },
+    {
+      path: 'static/checkout.html',
+      description: 'Checkout page',
+      body: htmlPage(checkoutMarkup(ORDER_URL, VERIFY_URL)),
+    },
+  ],
+  nextSteps: (options) => [
+    'Add the SDK: go get github.com/razorpay/razorpay-go',
+    `Register the routes: import "${options.goModule || '<your module>'}/payments", then payments.RegisterRoutes(r).`,
+    'Serve the checkout page: r.StaticFile("/checkout", "./static/checkout.html"), then open /checkout.',
+    ENV_STEP,
+    WEBHOOK_STEP,
+  ],
+};
+
+// ============================================
+// RAILS
+// ============================================
+
+const railsTemplate: ScaffoldTemplate = {
+  framework: 'rails',
+  name: 'Ruby on Rails',
+  description: 'A controller with order, verify and webhook actions, an initializer and a checkout view',
+  sdkPackage: 'razorpay',
+  files: () => [
+    {
+      path: 'config/initializers/razorpay.rb',
+      description: 'SDK setup',
+      body: [
+        "Razorpay.setup(ENV['RAZORPAY_KEY_ID'], ENV['RAZORPAY_KEY_SECRET'])",
+      ],
+    },
+    {
+      path: 'app/controllers/razorpay_controller.rb',
+      description: 'Create-order, verify-signature and webhook actions',
+      body: [
+        '# Razorpay Checkout endpoints: create an order, verify the payment signature, receive webhooks',
+        'class RazorpayController < ApplicationController',
+        '  # Webhooks come from Razorpay, not from a page with a CSRF token',
+        '  skip_before_action :verify_authenticity_token, only: :webhook, raise: false',
+        '',
+        '  def checkout; end',
+        '',
+        '  def order',
+        "    # Take the amount from your own order records; the browser's value is only for this example",
+        '    order = Razorpay::Order.create(',
+        '      amount: params.fetch(:amount, 50000).to_i,',
+        "      currency: params.fetch(:currency, 'INR'),",
+        '      receipt: "receipt_#{Time.now.to_i}"',
+        '    )',
+        "    render json: { order_id: order.id, amount: order.amount, currency: order.currency, key_id: ENV['RAZORPAY_KEY_ID'] }",
+        '  end',
+        '',
+        '  def verify',
+        '    Razorpay::Utility.verify_payment_signature(',
+        '      razorpay_order_id: params[:razorpay_order_id],',
+        '      razorpay_payment_id: params[:razorpay_payment_id],',
+        '      razorpay_signature: params[:razorpay_signature]',
+        '    )',
+        '    # Mark the order as paid in your database here',
+        '    render json: { verified: true }',
+        '  rescue SecurityError',
+        '    render json: { verified: false }, status: :bad_request',
+        '  end',
+        '',
+        '  def webhook',
+        '    payload = request.raw_post',
+        '    Razorpay::Utility.verify_webhook_signature(',
+        "      payload, request.headers['X-Razorpay-Signature'].to_s, ENV.fetch('RAZORPAY_WEBHOOK_SECRET', '')",
+        '    )',
+        '',
+        '    # Razorpay retries deliveries; use the X-Razorpay-Event-Id header to skip events already handled',
+        '    event = JSON.parse(payload)',
+        "    case event['event']",
+        "    when 'payment.captured'",
+        "      # event['payload']['payment']['entity'] is the captured payment",
+        "    when 'payment.failed'",
+        "    when 'order.paid'",
+        '    end',
+        "    render json: { status: 'ok' }",
+        '  rescue SecurityError',
+        "    render json: { error: 'Invalid signature' }, status: :bad_request",
+        '  end',
+        'end',
+      ],
+    },
+    {
+      path: 'app/views/razorpay/checkout.html.erb',
+      description: 'Checkout view',
+      body: [
+        '<h1>Checkout</h1>',
+        '',
+        ...checkoutMarkup(ORDER_URL, VERIFY_URL, "'X-CSRF-Token': document.querySelector('meta[name=\"csrf-token\"]')?.content"),
+      ],
+    },
+  ],
+  nextSteps: () => [
+    'Add the SDK: bundle add razorpay',
+    'Add the routes to config/routes.rb:\n  scope "api/razorpay", controller: :razorpay, as: :razorpay do\n    get :checkout\n    post :order\n    post :verify\n    post :webhook\n  end',
+    'Open /api/razorpay/checkout to try a payment.',
+    ENV_STEP,
+    WEBHOOK_STEP,
+  ],
+};
+
+export const scaffoldTemplates: ScaffoldTemplate[] = [
+  expressTemplate,
+  nextjsTemplate,
+  djangoTemplate,
+  flaskTemplate,
+  springTemplate,
+  ginTemplate,
+  railsTemplate,
+];
@@ -8,6 +8,8 @@ import type { SnippetTemplate } from '../types';
  * - Setup (Import and initialize Razorpay)
  * - Orders APIs (Create, Fetch)
  * - Payments APIs (Fetch)
+ * - Refunds APIs (Create, Fetch)
+ * - Subscriptions APIs (Create Plan, Create, Cancel, Fetch Invoices)
  */
 export const snippetTemplates: SnippetTemplate[] = [
   // ============================================
@@ -803,4 +805,389 @@ export const snippetTemplates: SnippetTemplate[] = [
       'puts "Refund: #{refund}"',
     ],
   },
-];
\ No newline at end of file
+  // ============================================
+  // SUBSCRIPTIONS APIs - TypeScript/JavaScript
+  // ============================================
+  {
+    id: 'plan.create-ts',
+    name: 'Create Plan',
+    description: 'Create a plan that subscriptions bill against',
+    category: 'subscription',
+    language: ['typescript', 'javascript'],
+    prefix: 'razorpay-plan-create',
+    body: [
+      'const plan = await razorpay.plans.create({',
+      '  period: "${1|daily,weekly,monthly,yearly|}",',
+      '  interval: ${2:1},',
+      '  item: {',
+      '    name: ${3:"Pro plan"},',
+      '    amount: ${4:49900}, // Amount in paise',
+      '    currency: "INR",',
+      '  },',
+      '});',
+      '',
+      'console.log("Plan created:", plan.id);',
+    ],
+  },
+  {
+    id: 'subscription.create-ts',
+    name: 'Create Subscription',
+    description: 'Create a subscription for a plan',
+    category: 'subscription',
+    language: ['typescript', 'javascript'],
+    prefix: 'razorpay-subscription-create',
+    body: [
+      'const subscription = await razorpay.subscriptions.create({',
+      '  plan_id: ${1:"planId"},',
+      '  total_count: ${2:12}, // Number of billing cycles',
+      '  quantity: ${3:1},',
+      '  customer_notify: 1,',
+      '});',
+      '',
+      'console.log("Subscription created:", subscription.id, subscription.short_url);',
+    ],
+  },
+  {
+    id: 'subscription.cancel-ts',
+    name: 'Cancel Subscription',
+    description: 'Cancel a subscription now or at the end of the current cycle',
+    category: 'subscription',
+    language: ['typescript', 'javascript'],
+    prefix: 'razorpay-subscription-cancel',
+    body: [
+      'const subscription = await razorpay.subscriptions.cancel(${1:"subscriptionId"}, ${2:false}); // true to cancel at cycle end',
+      '',
+      'console.log("Subscription status:", subscription.status);',
+    ],
+  },
+  {
+    id: 'subscription.invoices-ts',
+    name: 'Fetch Subscription Invoices',
+    description: 'List the invoices generated for a subscription',
+    category: 'subscription',
+    language: ['typescript', 'javascript'],
+    prefix: 'razorpay-subscription-invoices',
+    body: [
+      'const invoices = await razorpay.invoices.all({',
+      '  subscription_id: ${1:"subscriptionId"},',
+      '});',
+      '',
+      'console.log("Invoices:", invoices.items);',
+    ],
+  },
+  // ============================================
+  // SUBSCRIPTIONS APIs - Python
+  // ============================================
+  {
+    id: 'plan.create-python',
+    name: 'Create Plan',
+    description: 'Create a plan that subscriptions bill against',
+    category: 'subscription',
+    language: ['python'],
+    prefix: 'razorpay-plan-create',
+    body: [
+      'plan_data = {',
+      '    "period": "${1|daily,weekly,monthly,yearly|}",',
+      '    "interval": ${2:1},',
+      '    "item": {',
+      '        "name": "${3:Pro plan}",',
+      '        "amount": ${4:49900},  # Amount in paise',
+      '        "currency": "INR"',
+      '    }',
+      '}',
+      '',
+      'plan = razorpay_client.plan.create(data=plan_data)',
+      'print(f"Plan created: {plan[\'id\']}")',
+    ],
+  },
+  {
+    id: 'subscription.create-python',
+    name: 'Create Subscription',
+    description: 'Create a subscription for a plan',
+    category: 'subscription',
+    language: ['python'],
+    prefix: 'razorpay-subscription-create',
+    body: [
+      'subscription_data = {',
+      '    "plan_id": "${1:planId}",',
+      '    "total_count": ${2:12},  # Number of billing cycles',
+      '    "quantity": ${3:1},',
+      '    "customer_notify": 1',
+      '}',
+      '',
+      'subscription = razorpay_client.subscription.create(data=subscription_data)',
+      'print(f"Subscription created: {subscription[\'id\']} {subscription[\'short_url\']}")',
+    ],
+  },
+  {
+    id: 'subscription.cancel-python',
+    name: 'Cancel Subscription',
+    description: 'Cancel a subscription now or at the end of the current cycle',
+    category: 'subscription',
+    language: ['python'],
+    prefix: 'razorpay-subscription-cancel',
+    body: [
+      'subscription = razorpay_client.subscription.cancel("${1:subscriptionId}", {',
+      '    "cancel_at_cycle_end": ${2:0}  # 1 to cancel at cycle end',
+      '})',
+      'print(f"Subscription status: {subscription[\'status\']}")',
+    ],
+  },
+  {
+    id: 'subscription.invoices-python',
+    name: 'Fetch Subscription Invoices',
+    description: 'List the invoices generated for a subscription',
+    category: 'subscription',
+    language: ['python'],
+    prefix: 'razorpay-subscription-invoices',
+    body: [
+      'invoices = razorpay_client.invoice.all({"subscription_id": "${1:subscriptionId}"})',
+      'print(f"Invoices: {invoices[\'items\']}")',
+    ],
+  },
+  // ============================================
+  // SUBSCRIPTIONS APIs - Java
+  // ============================================
+  {
+    id: 'plan.create-java',
+    name: 'Create Plan',
+    description: 'Create a plan that subscriptions bill against',
+    category: 'subscription',
+    language: ['java'],
+    prefix: 'razorpay-plan-create',
+    body: [
+      'JSONObject item = new JSONObject();',
+      'item.put("name", "${3:Pro plan}");',
+      'item.put("amount", ${4:49900}); // Amount in paise',
+      'item.put("currency", "INR");',
+      '',
+      'JSONObject planRequest = new JSONObject();',
+      'planRequest.put("period", "${1|daily,weekly,monthly,yearly|}");',
+      'planRequest.put("interval", ${2:1});',
+      'planRequest.put("item", item);',
+      '',
+      'try {',
+      '    Plan plan = razorpay.Plans.create(planRequest);',
+      '    System.out.println("Plan created: " + plan.get("id"));',
+      '} catch (RazorpayException e) {',
+      '    System.out.println("Error: " + e.getMessage());',
+      '}',
+    ],
+  },
+  {
+    id: 'subscription.create-java',
+    name: 'Create Subscription',
+    description: 'Create a subscription for a plan',
+    category: 'subscription',
+    language: ['java'],
+    prefix: 'razorpay-subscription-create',
+    body: [
+      'JSONObject subscriptionRequest = new JSONObject();',
+      'subscriptionRequest.put("plan_id", "${1:planId}");',
+      'subscriptionRequest.put("total_count", ${2:12}); // Number of billing cycles',
+      'subscriptionRequest.put("quantity", ${3:1});',
+      'subscriptionRequest.put("customer_notify", 1);',
+      '',
+      'try {',
+      '    Subscription subscription = razorpay.Subscriptions.create(subscriptionRequest);',
+      '    System.out.println("Subscription created: " + subscription.get("id"));',
+      '} catch (RazorpayException e) {',
+      '    System.out.println("Error: " + e.getMessage());',
+      '}',
+    ],
+  },
+  {
+    id: 'subscription.cancel-java',
+    name: 'Cancel Subscription',
+    description: 'Cancel a subscription now or at the end of the current cycle',
+    category: 'subscription',
+    language: ['java'],
+    prefix: 'razorpay-subscription-cancel',
+    body: [
+      'JSONObject cancelRequest = new JSONObject();',
+      'cancelRequest.put("cancel_at_cycle_end", ${2:false}); // true to cancel at cycle end',
+      '',
+      'try {',
+      '    Subscription subscription = razorpay.Subscriptions.cancel("${1:subscriptionId}", cancelRequest);',
+      '    System.out.println("Subscription status: " + subscription.get("status"));',
+      '} catch (RazorpayException e) {',
+      '    System.out.println("Error: " + e.getMessage());',
+      '}',
+    ],
+  },
+  {
+    id: 'subscription.invoices-java',
+    name: 'Fetch Subscription Invoices',
+    description: 'List the invoices generated for a subscription',
+    category: 'subscription',
+    language: ['java'],
+    prefix: 'razorpay-subscription-invoices',
+    body: [
+      'JSONObject params = new JSONObject();',
+      'params.put("subscription_id", "${1:subscriptionId}");',
+      '',
+      'try {',
+      '    List<Invoice> invoices = razorpay.Invoices.fetchAll(params);',
+      '    System.out.println("Invoices: " + invoices);',
+      '} catch (RazorpayException e) {',
+      '    System.out.println("Error: " + e.getMessage());',
+      '}',
+    ],
+  },
+  // ============================================
+  // SUBSCRIPTIONS APIs - Go
+  // ============================================
+  {
+    id: 'plan.create-go',
+    name: 'Create Plan',
+    description: 'Create a plan that subscriptions bill against',
+    category: 'subscription',
+    language: ['go'],
+    prefix: 'razorpay-plan-create',
+    body: [
+      'planParams := map[string]interface{}{',
+      '    "period": "${1|daily,weekly,monthly,yearly|}",',
+      '    "interval": ${2:1},',
+      '    "item": map[string]interface{}{',
+      '        "name": "${3:Pro plan}",',
+      '        "amount": ${4:49900}, // Amount in paise',
+      '        "currency": "INR",',
+      '    },',
+      '}',
+      '',
+      'plan, err := razorpayClient.Plan.Create(planParams, nil)',
+      'if err != nil {',
+      '    log.Fatal(err)',
+      '}',
+      'fmt.Printf("Plan created: %s\\n", plan["id"])',
+    ],
+  },
+  {
+    id: 'subscription.create-go',
+    name: 'Create Subscription',
+    description: 'Create a subscription for a plan',
+    category: 'subscription',
+    language: ['go'],
+    prefix: 'razorpay-subscription-create',
+    body: [
+      'subscriptionParams := map[string]interface{}{',
+      '    "plan_id": "${1:planId}",',
+      '    "total_count": ${2:12}, // Number of billing cycles',
+      '    "quantity": ${3:1},',
+      '    "customer_notify": 1,',
+      '}',
+      '',
+      'subscription, err := razorpayClient.Subscription.Create(subscriptionParams, nil)',
+      'if err != nil {',
+      '    log.Fatal(err)',
+      '}',
+      'fmt.Printf("Subscription created: %s\\n", subscription["id"])',
+    ],
+  },
+  {
+    id: 'subscription.cancel-go',
+    name: 'Cancel Subscription',
+    description: 'Cancel a subscription now or at the end of the current cycle',
+    category: 'subscription',
+    language: ['go'],
+    prefix: 'razorpay-subscription-cancel',
+    body: [
+      'cancelParams := map[string]interface{}{',
+      '    "cancel_at_cycle_end": ${2:0}, // 1 to cancel at cycle end',
+      '}',
+      '',
+      'subscription, err := razorpayClient.Subscription.Cancel("${1:subscriptionId}", cancelParams, nil)',
+      'if err != nil {',
+      '    log.Fatal(err)',
+      '}',
+      'fmt.Printf("Subscription status: %s\\n", subscription["status"])',
+    ],
+  },
+  {
+    id: 'subscription.invoices-go',
+    name: 'Fetch Subscription Invoices',
+    description: 'List the invoices generated for a subscription',
+    category: 'subscription',
+    language: ['go'],
+    prefix: 'razorpay-subscription-invoices',
+    body: [
+      'invoiceParams := map[string]interface{}{',
+      '    "subscription_id": "${1:subscriptionId}",',
+      '}',
+      '',
+      'invoices, err := razorpayClient.Invoice.All(invoiceParams, nil)',
+      'if err != nil {',
+      '    log.Fatal(err)',
+      '}',
+      'fmt.Printf("Invoices: %+v\\n", invoices["items"])',
+    ],
+  },
+  // ============================================
+  // SUBSCRIPTIONS APIs - Ruby
+  // ============================================
+  {
+    id: 'plan.create-ruby',
+    name: 'Create Plan',
+    description: 'Create a plan that subscriptions bill against',
+    category: 'subscription',
+    language: ['ruby'],
+    prefix: 'razorpay-plan-create',
+    body: [
+      'plan_params = {',
+      '  period: "${1|daily,weekly,monthly,yearly|}",',
+      '  interval: ${2:1},',
+      '  item: {',
+      '    name: "${3:Pro plan}",',
+      '    amount: ${4:49900}, # Amount in paise',
+      '    currency: "INR"',
+      '  }',
+      '}',
+      '',
+      'plan = Razorpay::Plan.create(plan_params)',
+      'puts "Plan created: #{plan.id}"',
+    ],
+  },
+  {
+    id: 'subscription.create-ruby',
+    name: 'Create Subscription',
+    description: 'Create a subscription for a plan',
+    category: 'subscription',
+    language: ['ruby'],
+    prefix: 'razorpay-subscription-create',
+    body: [
+      'subscription_params = {',
+      '  plan_id: "${1:planId}",',
+      '  total_count: ${2:12}, # Number of billing cycles',
+      '  quantity: ${3:1},',
+      '  customer_notify: 1',
+      '}',
+      '',
+      'subscription = Razorpay::Subscription.create(subscription_params)',
+      'puts "Subscription created: #{subscription.id} #{subscription.short_url}"',
+    ],
+  },
+  {
+    id: 'subscription.cancel-ruby',
+    name: 'Cancel Subscription',
+    description: 'Cancel a subscription now or at the end of the current cycle',
+    category: 'subscription',
+    language: ['ruby'],
+    prefix: 'razorpay-subscription-cancel',
+    body: [
+      'subscription = Razorpay::Subscription.cancel("${1:subscriptionId}", cancel_at_cycle_end: ${2:0}) # 1 to cancel at cycle end',
+      'puts "Subscription status: #{subscription.status}"',
+    ],
+  },
+  {
+    id: 'subscription.invoices-ruby',
+    name: 'Fetch Subscription Invoices',
+    description: 'List the invoices generated for a subscription',
+    category: 'subscription',
+    language: ['ruby'],
+    prefix: 'razorpay-subscription-invoices',
+    body: [
+      'invoices = Razorpay::Invoice.all(subscription_id: "${1:subscriptionId}")',
+      'puts "Invoices: #{invoices.items}"',
+    ],
+  },
+];
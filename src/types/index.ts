@@ -24,3 +24,5 @@ export interface SnippetTemplate {
   prefix: string;
 }
 
+export * from './razorpay';
+export * from './mcp';
@@ -0,0 +1,77 @@
+/**
+ * Model Context Protocol messages used with the Razorpay MCP server.
+ * Reference: https://modelcontextprotocol.io/specification/2025-03-26
+ */
+
+/**
+ * JSON Schema subset MCP servers use to describe tool arguments
+ */
+export interface MCPJsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, MCPJsonSchema>;
+  required?: string[];
+  items?: MCPJsonSchema;
+  enum?: unknown[];
+  default?: unknown;
+  [key: string]: unknown;
+}
+
+export interface MCPTool {
+  name: string;
+  description?: string;
+  inputSchema?: MCPJsonSchema;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
+}
+
+export interface MCPContent {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface MCPToolCallResult {
+  content?: MCPContent[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo?: { name: string; version?: string };
+  instructions?: string;
+}
+
+export interface MCPListToolsResult {
+  tools: MCPTool[];
+  nextCursor?: string;
+}
+
+export interface MCPRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface MCPResponse<T = Record<string, unknown>> {
+  jsonrpc: string;
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
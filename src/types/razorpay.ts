@@ -0,0 +1,336 @@
+/**
+ * Razorpay API domain model.
+ * Shapes follow the entities returned by the Razorpay REST API; amounts are in currency subunits
+ * and timestamps are Unix seconds.
+ */
+
+export type RazorpayNotes = Record<string, string | number>;
+
+/**
+ * List response returned by every `all`/`fetch*` collection endpoint
+ */
+export interface RazorpayCollection<T> {
+  entity: 'collection';
+  count: number;
+  items: T[];
+}
+
+export type RazorpayOrderStatus = 'created' | 'attempted' | 'paid';
+
+export interface RazorpayOrder {
+  id: string;
+  entity: 'order';
+  amount: number;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  receipt: string | null;
+  offer_id: string | null;
+  status: RazorpayOrderStatus;
+  attempts: number;
+  /** The API returns an empty array instead of an object when no notes are set */
+  notes: RazorpayNotes | [];
+  created_at: number;
+}
+
+export type RazorpayPaymentStatus = 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+
+export type RazorpayPaymentMethod = 'card' | 'netbanking' | 'wallet' | 'emi' | 'upi' | 'cardless_emi' | 'paylater' | 'bank_transfer';
+
+export interface RazorpayPayment {
+  id: string;
+  entity: 'payment';
+  amount: number;
+  currency: string;
+  status: RazorpayPaymentStatus;
+  order_id: string | null;
+  invoice_id: string | null;
+  international: boolean;
+  method: RazorpayPaymentMethod;
+  amount_refunded: number;
+  refund_status: 'partial' | 'full' | null;
+  captured: boolean;
+  description: string | null;
+  card_id: string | null;
+  bank: string | null;
+  wallet: string | null;
+  vpa: string | null;
+  email: string;
+  contact: string;
+  customer_id?: string | null;
+  token_id?: string | null;
+  notes: RazorpayNotes | [];
+  fee: number | null;
+  tax: number | null;
+  error_code: string | null;
+  error_description: string | null;
+  error_source: string | null;
+  error_step: string | null;
+  error_reason: string | null;
+  created_at: number;
+}
+
+export type RazorpayPaymentLinkStatus = 'created' | 'partially_paid' | 'expired' | 'cancelled' | 'paid';
+
+export interface RazorpayPaymentLink {
+  id: string;
+  entity?: 'payment_link';
+  amount: number;
+  amount_paid: number;
+  currency: string;
+  accept_partial: boolean;
+  description: string;
+  customer: {
+    name?: string;
+    email?: string;
+    contact?: string;
+  };
+  notes: RazorpayNotes | null;
+  order_id: string;
+  reference_id: string;
+  short_url: string;
+  status: RazorpayPaymentLinkStatus;
+  expire_by: number;
+  expired_at: number;
+  cancelled_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export type RazorpayRefundStatus = 'pending' | 'processed' | 'failed';
+
+export interface RazorpayRefund {
+  id: string;
+  entity: 'refund';
+  amount: number;
+  currency: string;
+  payment_id: string;
+  notes: RazorpayNotes | [];
+  receipt: string | null;
+  acquirer_data?: {
+    arn?: string | null;
+    rrn?: string | null;
+  };
+  status: RazorpayRefundStatus;
+  speed_processed?: 'normal' | 'instant';
+  speed_requested: 'normal' | 'optimum';
+  batch_id?: string | null;
+  created_at: number;
+}
+
+export interface RazorpayCustomer {
+  id: string;
+  entity: 'customer';
+  name: string;
+  email: string;
+  contact: string;
+  gstin: string | null;
+  notes: RazorpayNotes | [];
+  created_at: number;
+}
+
+/**
+ * Saved payment method of a customer, used for repeat and recurring payments
+ */
+export interface RazorpayToken {
+  id: string;
+  entity: 'token';
+  token: string;
+  bank: string | null;
+  wallet: string | null;
+  method: RazorpayPaymentMethod;
+  card?: {
+    entity: 'card';
+    name: string;
+    last4: string;
+    network: string;
+    type: 'credit' | 'debit' | 'prepaid' | 'unknown';
+    issuer: string | null;
+    international: boolean;
+    emi: boolean;
+    expiry_month: number;
+    expiry_year: number;
+  };
+  vpa?: {
+    username: string | null;
+    handle: string | null;
+    name: string | null;
+  };
+  recurring: boolean;
+  recurring_details?: {
+    status: string;
+    failure_reason: string | null;
+  };
+  auth_type: string | null;
+  mrn: string | null;
+  used_at: number | null;
+  created_at: number;
+  expired_at: number;
+  status?: string | null;
+  notes?: RazorpayNotes | [];
+}
+
+export type RazorpayPlanPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RazorpayPlan {
+  id: string;
+  entity: 'plan';
+  period: RazorpayPlanPeriod;
+  /** Number of periods between charges, e.g. 2 with a monthly period bills every two months */
+  interval: number;
+  item: {
+    id: string;
+    active: boolean;
+    name: string;
+    description: string | null;
+    amount: number;
+    unit_amount: number;
+    currency: string;
+    type: string;
+    created_at: number;
+    updated_at: number;
+  };
+  notes: RazorpayNotes | [];
+  created_at: number;
+}
+
+export type RazorpaySubscriptionStatus =
+  | 'created'
+  | 'authenticated'
+  | 'active'
+  | 'pending'
+  | 'halted'
+  | 'paused'
+  | 'cancelled'
+  | 'completed'
+  | 'expired';
+
+export interface RazorpaySubscription {
+  id: string;
+  entity: 'subscription';
+  plan_id: string;
+  customer_id: string | null;
+  status: RazorpaySubscriptionStatus;
+  current_start: number | null;
+  current_end: number | null;
+  ended_at: number | null;
+  quantity: number;
+  notes: RazorpayNotes | [];
+  charge_at: number | null;
+  start_at: number | null;
+  end_at: number | null;
+  auth_attempts: number;
+  total_count: number;
+  paid_count: number;
+  customer_notify: boolean;
+  created_at: number;
+  expire_by: number | null;
+  /** Link the customer uses to authorize the subscription */
+  short_url: string | null;
+  has_scheduled_changes: boolean;
+  change_scheduled_at: number | null;
+  source: string;
+  offer_id: string | null;
+  remaining_count: number;
+}
+
+export type RazorpayInvoiceStatus = 'draft' | 'issued' | 'partially_paid' | 'paid' | 'cancelled' | 'expired' | 'deleted';
+
+export interface RazorpayInvoice {
+  id: string;
+  entity: 'invoice';
+  type: 'invoice' | 'link' | 'ecod';
+  invoice_number: string | null;
+  customer_id: string | null;
+  order_id: string | null;
+  subscription_id?: string | null;
+  payment_id: string | null;
+  status: RazorpayInvoiceStatus;
+  amount: number;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  billing_start: number | null;
+  billing_end: number | null;
+  short_url: string | null;
+  issued_at: number | null;
+  paid_at: number | null;
+  cancelled_at: number | null;
+  expired_at: number | null;
+  date: number | null;
+  notes: RazorpayNotes | [];
+  created_at: number;
+}
+
+export type RazorpaySettlementStatus = 'created' | 'processed' | 'failed';
+
+export interface RazorpaySettlement {
+  id: string;
+  entity: 'settlement';
+  amount: number;
+  status: RazorpaySettlementStatus;
+  fees: number;
+  tax: number;
+  utr: string | null;
+  created_at: number;
+}
+
+/**
+ * Error envelope returned by the Razorpay API for 4xx/5xx responses
+ */
+export interface RazorpayErrorResponse {
+  error: {
+    code: string;
+    description: string;
+    field?: string | null;
+    source?: string;
+    step?: string;
+    reason?: string;
+    metadata?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Entity types that can be told apart by their `entity` field
+ */
+export interface RazorpayEntityMap {
+  order: RazorpayOrder;
+  payment: RazorpayPayment;
+  payment_link: RazorpayPaymentLink;
+  refund: RazorpayRefund;
+  customer: RazorpayCustomer;
+  token: RazorpayToken;
+  plan: RazorpayPlan;
+  subscription: RazorpaySubscription;
+  invoice: RazorpayInvoice;
+  settlement: RazorpaySettlement;
+}
+
+export function isRazorpayEntity<K extends keyof RazorpayEntityMap>(value: unknown, entity: K): value is RazorpayEntityMap[K] {
+  return !!value && typeof value === 'object' && (value as { entity?: unknown }).entity === entity;
+}
+
+export function isRazorpayCollection(value: unknown): value is RazorpayCollection<Record<string, unknown>> {
+  return isRazorpayEntityLike(value) && value.entity === 'collection' && Array.isArray((value as { items?: unknown }).items);
+}
+
+/**
+ * Payment links created through some endpoints omit `entity`, so match on the id prefix
+ */
+export function isRazorpayPaymentLink(value: unknown): value is RazorpayPaymentLink {
+  return isRazorpayEntityLike(value)
+    && typeof value.id === 'string'
+    && value.id.startsWith('plink_')
+    && typeof (value as { short_url?: unknown }).short_url === 'string';
+}
+
+export function isRazorpayErrorResponse(value: unknown): value is RazorpayErrorResponse {
+  return !!value
+    && typeof value === 'object'
+    && !!(value as { error?: unknown }).error
+    && typeof (value as { error: { description?: unknown } }).error.description === 'string';
+}
+
+function isRazorpayEntityLike(value: unknown): value is { entity?: unknown; id?: unknown } {
+  return !!value && typeof value === 'object';
+}
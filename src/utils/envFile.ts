@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Razorpay keys found in a project's .env files, under the names the generated snippets read
+ */
+export interface EnvCredentials {
+  keyId: string;
+  keySecret: string;
+  /** File the Key ID came from, relative to the folder */
+  file: string;
+}
+
+const KEY_ID_PATTERN = /^rzp_(test|live)_\w+$/;
+
+/**
+ * Parse dotenv syntax: `KEY=value`, optional `export`, quoted values and `#` comments
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+
+    let value = match[2].trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+      value = value.slice(1, value.indexOf(quote, 1));
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+    values[match[1]] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Read RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET from the given files in a folder; later files override earlier ones
+ * @returns undefined unless both are set and the Key ID looks like a Razorpay key
+ */
+export async function readEnvCredentials(folderPath: string, files: string[]): Promise<EnvCredentials | undefined> {
+  let keyId: string | undefined;
+  let keySecret: string | undefined;
+  let source: string | undefined;
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(path.join(folderPath, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const values = parseEnvFile(content);
+    if (values.RAZORPAY_KEY_ID) {
+      keyId = values.RAZORPAY_KEY_ID;
+      source = file;
+    }
+    if (values.RAZORPAY_KEY_SECRET) {
+      keySecret = values.RAZORPAY_KEY_SECRET;
+    }
+  }
+
+  if (!keyId || !keySecret || !source || !KEY_ID_PATTERN.test(keyId)) {
+    return undefined;
+  }
+  return { keyId, keySecret, file: source };
+}
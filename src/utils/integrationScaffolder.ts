@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ProjectInfo } from './projectDetector';
+import type { Logger } from './logger';
+import {
+  scaffoldTemplates,
+  ScaffoldFile,
+  ScaffoldFramework,
+  ScaffoldOptions,
+  ScaffoldTemplate,
+} from '../snippets/scaffoldTemplates';
+
+export interface PlannedFile extends ScaffoldFile {
+  uri: vscode.Uri;
+  /** Existing files are left alone */
+  exists: boolean;
+}
+
+export interface ScaffoldPlan {
+  template: ScaffoldTemplate;
+  project: ProjectInfo;
+  files: PlannedFile[];
+  nextSteps: string[];
+}
+
+const DEFAULT_JAVA_PACKAGE = 'com.example';
+const MAX_JAVA_SEARCH_DEPTH = 8;
+
+/**
+ * Generates a complete Razorpay integration (order, verification, webhook and checkout page) for a project's
+ * framework, from the templates in scaffoldTemplates.ts.
+ */
+export class IntegrationScaffolder {
+  constructor(private logger: Logger) {}
+
+  static getTemplate(framework: ScaffoldFramework): ScaffoldTemplate | undefined {
+    return scaffoldTemplates.find(t => t.framework === framework);
+  }
+
+  /**
+   * Framework the project is built with, from its type and manifests
+   */
+  async detectFramework(project: ProjectInfo): Promise<ScaffoldFramework | undefined> {
+    const root = project.rootPath;
+
+    switch (project.type) {
+      case 'nextjs':
+        return 'nextjs';
+
+      case 'node':
+      case 'react':
+      case 'vue':
+      case 'angular':
+      case 'web': {
+        const packageJson = await this.readFile(root, 'package.json');
+        return packageJson?.includes('"express"') || project.type === 'node' ? 'express' : undefined;
+      }
+
+      case 'python': {
+        if (await this.readFile(root, 'manage.py') !== undefined) {
+          return 'django';
+        }
+        const manifests = [
+          await this.readFile(root, 'requirements.txt'),
+          await this.readFile(root, 'pyproject.toml'),
+          await this.readFile(root, 'Pipfile'),
+        ].join('\n').toLowerCase();
+        if (/\bdjango\b/.test(manifests)) {
+          return 'django';
+        }
+        return /\bflask\b/.test(manifests) ? 'flask' : undefined;
+      }
+
+      case 'java': {
+        const build = [
+          await this.readFile(root, 'pom.xml'),
+          await this.readFile(root, 'build.gradle'),
+          await this.readFile(root, 'build.gradle.kts'),
+        ].join('\n');
+        return build.includes('spring-boot') ? 'spring' : undefined;
+      }
+
+      case 'go':
+        return (await this.readFile(root, 'go.mod'))?.includes('github.com/gin-gonic/gin') ? 'gin' : undefined;
+
+      case 'ruby': {
+        const gemfile = await this.readFile(root, 'Gemfile');
+        return /gem\s+['"]rails['"]/.test(gemfile || '') || await this.readFile(root, 'config/application.rb') !== undefined
+          ? 'rails'
+          : undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Work out the files for `template` in the project, without writing anything
+   */
+  async plan(template: ScaffoldTemplate, project: ProjectInfo): Promise<ScaffoldPlan> {
+    const options = await this.getOptions(template.framework, project.rootPath);
+    const files = await Promise.all(template.files(options).map(async file => {
+      const uri = vscode.Uri.file(path.join(project.rootPath, ...file.path.split('/')));
+      return { ...file, uri, exists: await this.exists(uri.fsPath) };
+    }));
+
+    const nextSteps = template.nextSteps(options);
+    if (template.framework === 'spring' && options.javaPackage === `${DEFAULT_JAVA_PACKAGE}.razorpay`) {
+      nextSteps.unshift('No @SpringBootApplication class was found; move RazorpayController into a package below it so it is scanned.');
+    }
+
+    return { template, project, files, nextSteps };
+  }
+
+  /**
+   * Show the new files in the Refactor Preview and write the ones the user accepts.
+   * Files that already exist are never overwritten.
+   * @returns the files written, or undefined when the preview was discarded
+   */
+  async apply(plan: ScaffoldPlan): Promise<PlannedFile[] | undefined> {
+    const files = plan.files.filter(file => !file.exists);
+    const edit = new vscode.WorkspaceEdit();
+    for (const file of files) {
+      const metadata: vscode.WorkspaceEditEntryMetadata = {
+        needsConfirmation: true,
+        label: file.path,
+        description: file.description,
+      };
+      edit.createFile(file.uri, { ignoreIfExists: false }, metadata);
+      if (file.body.length > 0) {
+        edit.insert(file.uri, new vscode.Position(0, 0), `${file.body.join('\n')}\n`, metadata);
+      }
+    }
+
+    if (!await vscode.workspace.applyEdit(edit)) {
+      return undefined;
+    }
+
+    // The edit leaves the new documents unsaved; files unchecked in the preview were never created
+    const written: PlannedFile[] = [];
+    for (const file of files) {
+      if (!await this.exists(file.uri.fsPath)) {
+        continue;
+      }
+      const document = await vscode.workspace.openTextDocument(file.uri);
+      if (document.isDirty) {
+        await document.save();
+      }
+      written.push(file);
+    }
+
+    this.logger.info(`Scaffolded ${plan.template.name} integration in ${plan.project.rootPath}: ${written.map(f => f.path).join(', ')}`);
+    return written;
+  }
+
+  /**
+   * What was created and what is left to do, as Markdown
+   */
+  static getSummary(plan: ScaffoldPlan, written: PlannedFile[]): string {
+    const lines = [`# Razorpay ${plan.template.name} integration`, '', `In \`${plan.project.rootPath}\`:`, ''];
+    lines.push(...written.map(file => `- Created \`${file.path}\`: ${file.description}`));
+
+    const skipped = plan.files.filter(file => file.exists);
+    lines.push(...skipped.map(file => `- Skipped \`${file.path}\`, which already exists`));
+
+    lines.push('', '## Next steps', '');
+    plan.nextSteps.forEach((step, index) => {
+      const [first, ...rest] = step.split('\n');
+      lines.push(`${index + 1}. ${first}`);
+      if (rest.length > 0) {
+        lines.push('', '   ```', ...rest.map(line => `   ${line}`), '   ```', '');
+      }
+    });
+    return lines.join('\n');
+  }
+
+  private async getOptions(framework: ScaffoldFramework, rootPath: string): Promise<ScaffoldOptions> {
+    const packageJson = await this.readFile(rootPath, 'package.json');
+    let esm = false;
+    try {
+      esm = packageJson ? JSON.parse(packageJson).type === 'module' : false;
+    } catch {
+      // Invalid package.json
+    }
+
+    let sourceDir = '';
+    if (framework === 'nextjs' && await this.exists(path.join(rootPath, 'src', 'app'))) {
+      sourceDir = 'src/';
+    } else if (framework === 'express' && await this.exists(path.join(rootPath, 'src'))) {
+      sourceDir = 'src/';
+    }
+
+    const goMod = framework === 'gin' ? await this.readFile(rootPath, 'go.mod') : undefined;
+    const javaPackage = framework === 'spring' ? await this.findSpringPackage(rootPath) : undefined;
+
+    return {
+      typescript: await this.exists(path.join(rootPath, 'tsconfig.json')),
+      esm,
+      sourceDir,
+      javaPackage: `${javaPackage || DEFAULT_JAVA_PACKAGE}.razorpay`,
+      goModule: goMod?.match(/^module\s+(\S+)/m)?.[1] || '',
+    };
+  }
+
+  /**
+   * Package of the @SpringBootApplication class, whose sub-packages Spring scans for controllers
+   */
+  private async findSpringPackage(rootPath: string): Promise<string | undefined> {
+    const search = async (dir: string, depth: number): Promise<string | undefined> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        return undefined;
+      }
+
+      for (const entry of entries.filter(e => e.isFile() && e.name.endsWith('.java'))) {
+        const content = await fs.promises.readFile(path.join(dir, entry.name), 'utf-8');
+        if (content.includes('@SpringBootApplication')) {
+          return content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1];
+        }
+      }
+      if (depth < MAX_JAVA_SEARCH_DEPTH) {
+        for (const entry of entries.filter(e => e.isDirectory())) {
+          const found = await search(path.join(dir, entry.name), depth + 1);
+          if (found) {
+            return found;
+          }
+        }
+      }
+      return undefined;
+    };
+
+    return search(path.join(rootPath, 'src', 'main', 'java'), 0);
+  }
+
+  private async readFile(rootPath: string, relativePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import type { MCPJsonSchema, MCPTool } from '../types';
+
+/**
+ * MCP tools that only read data; every other tool, e.g. `initiate_payment` or `submit_otp`, may change it
+ */
+const READ_ONLY_TOOL_PATTERN = /^(fetch|list|get)_/;
+
+/**
+ * Whether a tool only reads data, going by its name. A server's `readOnlyHint: false` can mark a `fetch_` tool as
+ * changing data, but a hint alone never lets a tool skip the live mode guard.
+ * A tool missing from the server's list counts as changing data.
+ */
+export function isReadOnlyTool(tool: MCPTool | undefined): boolean {
+  return !!tool && READ_ONLY_TOOL_PATTERN.test(tool.name) && tool.annotations?.readOnlyHint !== false;
+}
+
+/**
+ * One-line summary of a tool's arguments, e.g. "`order_id`* string, `notes` object"; `*` marks required ones
+ */
+export function formatToolArguments(schema: MCPJsonSchema | undefined): string {
+  const properties = schema?.properties || {};
+  const required = new Set(schema?.required || []);
+
+  return Object.entries(properties)
+    .sort(([a], [b]) => Number(required.has(b)) - Number(required.has(a)))
+    .map(([name, property]) => {
+      const type = Array.isArray(property.type) ? property.type.join('|') : property.type;
+      return `\`${name}\`${required.has(name) ? '*' : ''}${type ? ` ${type}` : ''}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Markdown list of the tools a server offers, read-only tools first
+ */
+export function formatToolList(tools: MCPTool[]): string {
+  const section = (title: string, group: MCPTool[]): string => {
+    if (group.length === 0) {
+      return '';
+    }
+    const lines = group.map(tool => {
+      const description = (tool.description || '').split('\n')[0].trim();
+      const args = formatToolArguments(tool.inputSchema);
+      return `- **${tool.name}**${description ? ` – ${description}` : ''}${args ? `\n  Arguments: ${args}` : ''}`;
+    });
+    return `**${title} (${group.length})**\n${lines.join('\n')}\n\n`;
+  };
+
+  return `**Razorpay MCP Tools (${tools.length})**\n\n`
+    + section('Read-only', tools.filter(isReadOnlyTool))
+    + section('Creates or changes data', tools.filter(tool => !isReadOnlyTool(tool)))
+    + '`*` marks required arguments.';
+}
+
+/**
+ * Check arguments against a tool's input schema: required fields, types, enums, ranges, lengths and patterns
+ * @returns one message per problem; empty when the arguments are valid
+ */
+export function validateToolArguments(schema: MCPJsonSchema | undefined, args: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const properties = schema?.properties || {};
+
+  for (const name of schema?.required || []) {
+    if (args[name] === undefined || args[name] === '') {
+      errors.push(`${name} is required`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const property = properties[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (!property) {
+      if (schema?.additionalProperties === false) {
+        errors.push(`${name} is not an argument of this tool`);
+      }
+      continue;
+    }
+
+    const types = property.type ? ([] as string[]).concat(property.type) : [];
+    if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+      errors.push(`${name} must be ${types.join(' or ')}`);
+      continue;
+    }
+    if (property.enum && !property.enum.includes(value)) {
+      errors.push(`${name} must be one of ${property.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+    if (typeof value === 'number') {
+      if (typeof property.minimum === 'number' && value < property.minimum) {
+        errors.push(`${name} must be at least ${property.minimum}`);
+      }
+      if (typeof property.maximum === 'number' && value > property.maximum) {
+        errors.push(`${name} must be at most ${property.maximum}`);
+      }
+    }
+    if (typeof value === 'string') {
+      if (typeof property.minLength === 'number' && value.length < property.minLength) {
+        errors.push(`${name} must be at least ${property.minLength} characters`);
+      }
+      if (typeof property.maxLength === 'number' && value.length > property.maxLength) {
+        errors.push(`${name} must be at most ${property.maxLength} characters`);
+      }
+      if (typeof property.pattern === 'string' && !matchesPattern(value, property.pattern)) {
+        errors.push(`${name} must match ${property.pattern}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    // A pattern JavaScript can't compile is the server's to enforce
+    return true;
+  }
+}
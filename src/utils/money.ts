@@ -0,0 +1,103 @@
+/**
+ * Currency-aware conversion between display amounts and the subunits the Razorpay API expects.
+ * Reference: https://razorpay.com/docs/payments/international-payments/#supported-currencies
+ */
+
+export interface CurrencyDefinition {
+  code: string;
+  name: string;
+  /** Number of decimal places in the minor unit, e.g. 2 for paise/cents, 0 for yen, 3 for fils */
+  exponent: number;
+}
+
+export const supportedCurrencies: CurrencyDefinition[] = [
+  { code: 'INR', name: 'Indian Rupee', exponent: 2 },
+  { code: 'USD', name: 'US Dollar', exponent: 2 },
+  { code: 'EUR', name: 'Euro', exponent: 2 },
+  { code: 'GBP', name: 'British Pound', exponent: 2 },
+  { code: 'AED', name: 'UAE Dirham', exponent: 2 },
+  { code: 'AUD', name: 'Australian Dollar', exponent: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', exponent: 2 },
+  { code: 'CHF', name: 'Swiss Franc', exponent: 2 },
+  { code: 'HKD', name: 'Hong Kong Dollar', exponent: 2 },
+  { code: 'MYR', name: 'Malaysian Ringgit', exponent: 2 },
+  { code: 'NZD', name: 'New Zealand Dollar', exponent: 2 },
+  { code: 'SAR', name: 'Saudi Riyal', exponent: 2 },
+  { code: 'SEK', name: 'Swedish Krona', exponent: 2 },
+  { code: 'SGD', name: 'Singapore Dollar', exponent: 2 },
+  { code: 'ZAR', name: 'South African Rand', exponent: 2 },
+  { code: 'JPY', name: 'Japanese Yen', exponent: 0 },
+  { code: 'KRW', name: 'South Korean Won', exponent: 0 },
+  { code: 'VND', name: 'Vietnamese Dong', exponent: 0 },
+  { code: 'CLP', name: 'Chilean Peso', exponent: 0 },
+  { code: 'PYG', name: 'Paraguayan Guarani', exponent: 0 },
+  { code: 'UGX', name: 'Ugandan Shilling', exponent: 0 },
+  { code: 'XAF', name: 'Central African CFA Franc', exponent: 0 },
+  { code: 'XOF', name: 'West African CFA Franc', exponent: 0 },
+  { code: 'BHD', name: 'Bahraini Dinar', exponent: 3 },
+  { code: 'JOD', name: 'Jordanian Dinar', exponent: 3 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', exponent: 3 },
+  { code: 'OMR', name: 'Omani Rial', exponent: 3 },
+  { code: 'TND', name: 'Tunisian Dinar', exponent: 3 },
+];
+
+export function getCurrency(code: string): CurrencyDefinition | undefined {
+  return supportedCurrencies.find(c => c.code === code.toUpperCase());
+}
+
+export function getCurrencyExponent(code: string): number {
+  const currency = getCurrency(code);
+  if (!currency) {
+    throw new Error(`Unsupported currency: ${code}`);
+  }
+  return currency.exponent;
+}
+
+/**
+ * Convert an amount in the currency's main unit to subunits, e.g. 10.10 USD to 1010.
+ * Works on the decimal string so floats such as 10.1 never produce fractional subunits.
+ */
+export function toSubunits(amount: number | string, currency: string): number {
+  const exponent = getCurrencyExponent(currency);
+  const text = (typeof amount === 'number' ? amount.toFixed(Math.max(exponent, decimalPlaces(amount))) : amount).trim();
+
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  const significantFraction = fraction.replace(/0+$/, '');
+  if (significantFraction.length > exponent) {
+    throw new Error(exponent === 0
+      ? `${currency.toUpperCase()} does not support decimal amounts`
+      : `${currency.toUpperCase()} amounts support at most ${exponent} decimal places`);
+  }
+
+  const subunits = Number(whole + significantFraction.padEnd(exponent, '0'));
+  if (!Number.isSafeInteger(subunits)) {
+    throw new Error(`Amount is too large: ${amount}`);
+  }
+  return subunits;
+}
+
+/**
+ * Convert subunits back to the currency's main unit, e.g. 1010 USD to 10.1
+ */
+export function fromSubunits(subunits: number, currency: string): number {
+  return subunits / Math.pow(10, getCurrencyExponent(currency));
+}
+
+/**
+ * Format subunits for display with the currency's decimal places, e.g. "10.10 USD".
+ * Unknown currencies fall back to two decimal places.
+ */
+export function formatAmount(subunits: number, currency: string): string {
+  const exponent = getCurrency(currency)?.exponent ?? 2;
+  return `${(subunits / Math.pow(10, exponent)).toFixed(exponent)} ${currency.toUpperCase()}`;
+}
+
+function decimalPlaces(value: number): number {
+  const [, fraction = ''] = String(value).split('.');
+  return fraction.length;
+}
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { SDKVersionDetector } from './sdkVersionDetector';
+import type { InstalledSDKVersion } from './sdkVersions';
 
 export type ProjectType = 
   | 'web'           // Plain HTML/JS
@@ -19,13 +21,39 @@ export type ProjectType =
   | 'go'            // Go server
   | 'unknown';      // Unknown project type
 
+/**
+ * Monorepo tool whose configuration lists a sub-project
+ */
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'gradle' | 'go';
+
 export interface ProjectInfo {
   type: ProjectType;
   rootPath: string;
   hasSDK: boolean;
   sdkPackage?: string;
+  /** Version of the SDK in use, when it is installed and its version can be read */
+  sdkVersion?: InstalledSDKVersion;
+  /** Name of the workspace folder the project is in */
+  workspaceFolder?: string;
+  /** Path from the workspace folder to the project, with `/` separators; empty for the folder itself */
+  relativePath?: string;
+  /** Workspace configuration that lists the project; undefined when found at the root or by scanning */
+  workspaceTool?: WorkspaceTool;
 }
 
+/** Files that mark a directory as a project when scanning for nested ones */
+const MANIFEST_FILES = [
+  'package.json', 'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'requirements.txt',
+  'pyproject.toml', 'setup.py', 'composer.json', 'Gemfile', 'pubspec.yaml', 'Podfile',
+];
+/** Directories that hold dependencies or build output rather than projects */
+const SKIPPED_DIRECTORIES = new Set([
+  'node_modules', 'vendor', 'dist', 'build', 'out', 'target', 'bin', 'obj', 'venv', 'env',
+  '__pycache__', 'Pods', 'coverage', 'tmp',
+]);
+const MAX_SCAN_DEPTH = 3;
+const MAX_PROJECTS = 50;
+
 /**
  * Detects the project type and checks if Razorpay SDK is already installed.
  */
@@ -44,6 +72,87 @@ export class ProjectDetector {
       };
     }
 
+    return { ...await this.detectAt(rootPath), relativePath: '' };
+  }
+
+  /**
+   * Detect every project in the workspace folders: each folder itself, the members listed by npm, yarn or pnpm
+   * workspaces, Gradle settings and go.work, and directories with a manifest up to three levels down.
+   * A monorepo root that only lists members is not reported itself.
+   */
+  static async detectProjects(folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders || []): Promise<ProjectInfo[]> {
+    const projects: ProjectInfo[] = [];
+
+    for (const folder of folders) {
+      const rootPath = folder.uri.fsPath;
+      const members = await this.findWorkspaceMembers(rootPath);
+      const candidates = new Map<string, WorkspaceTool | undefined>(members);
+      for (const dir of await this.findManifestDirectories(rootPath)) {
+        if (!candidates.has(dir)) {
+          candidates.set(dir, undefined);
+        }
+      }
+
+      const found: ProjectInfo[] = [];
+      for (const [dir, workspaceTool] of candidates) {
+        const info = await this.detectAt(dir);
+        // Scanned directories only count with a recognised manifest, not for loose .js files
+        if (info.type !== 'unknown' && info.type !== 'web') {
+          found.push({ ...info, workspaceFolder: folder.name, relativePath: this.toRelativePath(rootPath, dir), workspaceTool });
+        }
+      }
+
+      found.sort((a, b) => (a.relativePath || '').localeCompare(b.relativePath || ''));
+
+      // The folder itself counts unless it is a monorepo root, or only looks like a web project next to real ones
+      const root = await this.detectAt(rootPath);
+      if (members.size === 0 && root.type !== 'unknown' && !(root.type === 'web' && found.length > 0)) {
+        found.unshift({ ...root, workspaceFolder: folder.name, relativePath: '' });
+      }
+
+      projects.push(...found);
+      if (projects.length >= MAX_PROJECTS) {
+        return projects.slice(0, MAX_PROJECTS);
+      }
+    }
+
+    return projects;
+  }
+
+  /**
+   * Whether the Razorpay SDK for `type` is declared in the manifests at `rootPath`
+   */
+  static async checkSDK(type: ProjectType, rootPath: string): Promise<boolean> {
+    switch (type) {
+      case 'flutter': return this.hasFlutterSDK(rootPath);
+      case 'android': return this.hasAndroidSDK(rootPath);
+      case 'ios': return this.hasIOSSDK(rootPath);
+      case 'react': return await this.hasNodeSDK(rootPath) || await this.hasReactRazorpaySDK(rootPath);
+      case 'nextjs':
+      case 'vue':
+      case 'angular':
+      case 'node': return this.hasNodeSDK(rootPath);
+      case 'python': return this.hasPythonSDK(rootPath);
+      case 'php': return this.hasPHPSDK(rootPath);
+      case 'ruby': return this.hasRubySDK(rootPath);
+      case 'java': return this.hasJavaSDK(rootPath);
+      case 'go': return this.hasGoSDK(rootPath);
+      default: return false;
+    }
+  }
+
+  /**
+   * Detect the project type of one directory, and the version of the SDK it uses
+   */
+  static async detectAt(rootPath: string): Promise<ProjectInfo> {
+    const info = await this.detectType(rootPath);
+    if (info.hasSDK) {
+      info.sdkVersion = await SDKVersionDetector.detect(info.type, rootPath);
+    }
+    return info;
+  }
+
+  private static async detectType(rootPath: string): Promise<ProjectInfo> {
     // Check for Flutter
     if (await this.isFlutterProject(rootPath)) {
       return {
@@ -199,17 +308,21 @@ export class ProjectDetector {
   }
 
   private static async isAndroidProject(rootPath: string): Promise<boolean> {
-    const buildGradle = path.join(rootPath, 'build.gradle');
-    const buildGradleKts = path.join(rootPath, 'build.gradle.kts');
-    const androidManifest = path.join(rootPath, 'AndroidManifest.xml');
-    const appDir = path.join(rootPath, 'app');
-    
-    return (
-      (await this.fileExists(buildGradle)) ||
-      (await this.fileExists(buildGradleKts)) ||
-      (await this.fileExists(androidManifest)) ||
-      (await this.directoryExists(appDir))
-    );
+    // Any Gradle build or `app` directory is not enough: Java services use Gradle and Next.js apps have `app/`
+    const gradleFiles = ['build.gradle', 'build.gradle.kts', 'app/build.gradle', 'app/build.gradle.kts'];
+    for (const file of gradleFiles) {
+      if ((await this.readFile(path.join(rootPath, file)))?.includes('com.android')) {
+        return true;
+      }
+    }
+
+    const manifests = ['AndroidManifest.xml', 'src/main/AndroidManifest.xml', 'app/src/main/AndroidManifest.xml'];
+    for (const file of manifests) {
+      if (await this.fileExists(path.join(rootPath, file))) {
+        return true;
+      }
+    }
+    return false;
   }
 
   private static async isIOSProject(rootPath: string): Promise<boolean> {
@@ -374,15 +487,20 @@ export class ProjectDetector {
   }
 
   private static async hasAndroidSDK(rootPath: string): Promise<boolean> {
-    const buildGradle = path.join(rootPath, 'app', 'build.gradle');
-    const buildGradleKts = path.join(rootPath, 'app', 'build.gradle.kts');
-    
-    const filesToCheck = [buildGradle, buildGradleKts];
+    // The app module of a whole Android build, or the module itself when it was found as a Gradle sub-project
+    const filesToCheck = [
+      path.join(rootPath, 'app', 'build.gradle'),
+      path.join(rootPath, 'app', 'build.gradle.kts'),
+      path.join(rootPath, 'build.gradle'),
+      path.join(rootPath, 'build.gradle.kts'),
+    ];
     for (const file of filesToCheck) {
       if (await this.fileExists(file)) {
         try {
           const content = await fs.promises.readFile(file, 'utf-8');
-          return content.includes('com.razorpay:razorpay-android');
+          if (content.includes('com.razorpay:razorpay-android')) {
+            return true;
+          }
         } catch {
           // Continue to next file
         }
@@ -405,13 +523,11 @@ export class ProjectDetector {
   }
 
   private static async hasPythonSDK(rootPath: string): Promise<boolean> {
-    const requirementsTxt = path.join(rootPath, 'requirements.txt');
-    if (await this.fileExists(requirementsTxt)) {
-      try {
-        const content = await fs.promises.readFile(requirementsTxt, 'utf-8');
-        return content.includes('razorpay');
-      } catch {
-        return false;
+    for (const file of ['requirements.txt', 'pyproject.toml', 'Pipfile', 'setup.py']) {
+      const content = await this.readFile(path.join(rootPath, file));
+      // A requirement such as razorpay==1.4.2, "razorpay>=1.4" or razorpay = "^1.4", not a name like razorpay-demo
+      if (content && /(^|["'\s])razorpay\s*([<>=~!;[,"']|$)/m.test(content)) {
+        return true;
       }
     }
     return false;
@@ -454,7 +570,9 @@ export class ProjectDetector {
       if (await this.fileExists(file)) {
         try {
           const content = await fs.promises.readFile(file, 'utf-8');
-          return content.includes('razorpay-java') || content.includes('com.razorpay');
+          if (content.includes('razorpay-java') || content.includes('com.razorpay')) {
+            return true;
+          }
         } catch {
           // Continue to next file
         }
@@ -477,6 +595,191 @@ export class ProjectDetector {
   }
 
   // Helper methods
+  /**
+   * Directories listed as members by the monorepo configuration at `rootPath`, with the tool that lists them
+   */
+  private static async findWorkspaceMembers(rootPath: string): Promise<Map<string, WorkspaceTool>> {
+    const members = new Map<string, WorkspaceTool>();
+    const add = async (patterns: string[], tool: WorkspaceTool) => {
+      for (const pattern of patterns) {
+        // Negated patterns only exclude packages matched by others
+        if (pattern.startsWith('!')) {
+          continue;
+        }
+        for (const dir of await this.expandPattern(rootPath, pattern)) {
+          if (dir !== rootPath && !members.has(dir)) {
+            members.set(dir, tool);
+          }
+        }
+      }
+    };
+
+    // npm and yarn: "workspaces": ["packages/*"] or { "packages": [...] }
+    const packageJson = await this.readFile(path.join(rootPath, 'package.json'));
+    if (packageJson) {
+      try {
+        const workspaces = JSON.parse(packageJson).workspaces;
+        const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+        if (Array.isArray(patterns)) {
+          const tool = await this.fileExists(path.join(rootPath, 'yarn.lock')) ? 'yarn' : 'npm';
+          await add(patterns.filter((p): p is string => typeof p === 'string'), tool);
+        }
+      } catch {
+        // Invalid package.json
+      }
+    }
+
+    // pnpm: a `packages:` list in pnpm-workspace.yaml
+    const pnpmWorkspace = await this.readFile(path.join(rootPath, 'pnpm-workspace.yaml'));
+    if (pnpmWorkspace) {
+      const patterns: string[] = [];
+      let inPackages = false;
+      for (const line of pnpmWorkspace.split('\n')) {
+        if (/^\S/.test(line)) {
+          inPackages = /^packages\s*:/.test(line);
+          continue;
+        }
+        const item = inPackages ? line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/) : null;
+        if (item) {
+          patterns.push(item[1]);
+        }
+      }
+      await add(patterns, 'pnpm');
+    }
+
+    // Gradle: include ':app', ':libs:core' or include("app") in settings.gradle(.kts)
+    const settingsGradle = await this.readFile(path.join(rootPath, 'settings.gradle'))
+      ?? await this.readFile(path.join(rootPath, 'settings.gradle.kts'));
+    if (settingsGradle) {
+      const projects: string[] = [];
+      for (const include of settingsGradle.matchAll(/^\s*include\b(.*)$/gm)) {
+        for (const name of include[1].matchAll(/['"]([^'"]+)['"]/g)) {
+          projects.push(name[1].replace(/^:/, '').replace(/:/g, '/'));
+        }
+      }
+      await add(projects, 'gradle');
+    }
+
+    // Go: `use ./api` or a `use ( ... )` block in go.work
+    const goWork = await this.readFile(path.join(rootPath, 'go.work'));
+    if (goWork) {
+      const modules: string[] = [];
+      for (const use of goWork.matchAll(/^\s*use\s*(?:\(([^)]*)\)|(\S+))/gm)) {
+        const paths = use[1] !== undefined ? use[1].split('\n') : [use[2]];
+        modules.push(...paths.map(p => p.replace(/\/\/.*$/, '').trim()).filter(Boolean));
+      }
+      await add(modules, 'go');
+    }
+
+    return members;
+  }
+
+  /**
+   * Directories below `rootPath` that contain a project manifest.
+   * The `android` and `ios` folders of Flutter and React Native apps belong to the app and are not scanned.
+   */
+  private static async findManifestDirectories(rootPath: string): Promise<string[]> {
+    const results: string[] = [];
+    const scan = async (dir: string, depth: number): Promise<void> => {
+      const entries = await this.readDirectory(dir);
+      const names = new Set(entries.filter(entry => entry.isFile()).map(entry => entry.name));
+      if (dir !== rootPath && MANIFEST_FILES.some(file => names.has(file))) {
+        results.push(dir);
+      }
+      if (depth >= MAX_SCAN_DEPTH) {
+        return;
+      }
+
+      const isApp = names.has('pubspec.yaml') || names.has('package.json');
+      for (const entry of entries) {
+        if (entry.isDirectory() && !this.isSkippedDirectory(entry.name) && !(isApp && (entry.name === 'android' || entry.name === 'ios'))) {
+          await scan(path.join(dir, entry.name), depth + 1);
+        }
+      }
+    };
+
+    await scan(rootPath, 0);
+    return results;
+  }
+
+  /**
+   * Directories matching a workspace pattern such as `packages/*`, `apps/**` or `./api`.
+   * Patterns that lead outside `rootPath`, such as `use ../shared` in go.work, match nothing.
+   */
+  private static async expandPattern(rootPath: string, pattern: string): Promise<string[]> {
+    const segments = pattern.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.');
+    const results: string[] = [];
+
+    const expand = async (dir: string, index: number, depth: number): Promise<void> => {
+      if (!this.isWithin(rootPath, dir)) {
+        return;
+      }
+      if (index === segments.length) {
+        if (await this.directoryExists(dir)) {
+          results.push(path.normalize(dir));
+        }
+        return;
+      }
+
+      const segment = segments[index];
+      if (!segment.includes('*')) {
+        await expand(path.join(dir, segment), index + 1, depth);
+        return;
+      }
+
+      const children = (await this.readDirectory(dir))
+        .filter(entry => entry.isDirectory() && !this.isSkippedDirectory(entry.name))
+        .map(entry => entry.name);
+      if (segment === '**') {
+        // Zero or more directories, within the scan depth
+        await expand(dir, index + 1, depth);
+        if (depth < MAX_SCAN_DEPTH) {
+          for (const child of children) {
+            await expand(path.join(dir, child), index, depth + 1);
+          }
+        }
+        return;
+      }
+
+      const matcher = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+      for (const child of children.filter(name => matcher.test(name))) {
+        await expand(path.join(dir, child), index + 1, depth);
+      }
+    };
+
+    await expand(rootPath, 0, 0);
+    return results;
+  }
+
+  private static isSkippedDirectory(name: string): boolean {
+    return name.startsWith('.') || SKIPPED_DIRECTORIES.has(name);
+  }
+
+  private static isWithin(rootPath: string, dir: string): boolean {
+    const relative = path.relative(rootPath, dir);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  }
+
+  private static toRelativePath(rootPath: string, dir: string): string {
+    return path.relative(rootPath, dir).split(path.sep).join('/');
+  }
+
+  private static async readFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static async readDirectory(dirPath: string): Promise<fs.Dirent[]> {
+    try {
+      return await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+  }
+
   private static async fileExists(filePath: string): Promise<boolean> {
     try {
       await fs.promises.access(filePath);
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { ProjectType } from './projectDetector';
+import { ProjectDetector, ProjectInfo } from './projectDetector';
 import type { Logger } from './logger';
+import { sdkReleases } from './sdkVersions';
 
 export interface InstallCommand {
   command: string;
@@ -11,326 +12,539 @@ export interface InstallCommand {
 }
 
 /**
- * Handles SDK installation for different project types.
+ * A change to one dependency manifest that declares the SDK
+ */
+export interface ManifestEdit {
+  uri: vscode.Uri;
+  /** Current content; undefined when the manifest does not exist yet */
+  original?: string;
+  content: string;
+  /** What the edit adds, shown in the preview */
+  description: string;
+  /** Downloads the dependency and updates lockfiles once the manifest declares it */
+  followUp?: InstallCommand;
+}
+
+/**
+ * Dependency versions written to manifests, from the latest known releases
+ */
+const SDK_VERSIONS = {
+  node: `^${sdkReleases.node.latest}`,
+  react: `^${sdkReleases.react.latest}`,
+  python: sdkReleases.python.latest,
+  go: `v${sdkReleases.go.latest}`,
+  // Written as '~> 3.2', which allows any 3.x from 3.2
+  ruby: sdkReleases.ruby.latest.split('.').slice(0, 2).join('.'),
+  java: sdkReleases.java.latest,
+  android: sdkReleases.android.latest,
+  ios: sdkReleases.ios.latest,
+  php: `^${sdkReleases.php.latest}`,
+  flutter: `^${sdkReleases.flutter.latest}`,
+};
+
+type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+/**
+ * Handles SDK installation for different project types by adding the SDK to the project's dependency manifest.
+ * Each edit is shown in the Refactor Preview before it is saved, and the result is checked with the same
+ * manifest checks ProjectDetector uses. Downloading the package is left to the project's package manager.
  */
 export class SDKInstaller {
   constructor(private logger: Logger) {}
 
   /**
-   * Get installation command for a project type
+   * Add the SDK to the project's manifest, after the user has accepted the preview
+   * @returns whether the manifest now declares the SDK
+   */
+  async installSDK(project: ProjectInfo): Promise<boolean> {
+    if (project.type === 'web') {
+      vscode.window.showInformationMessage('Web pages load Razorpay Checkout from https://checkout.razorpay.com/v1/checkout.js; there is nothing to install.');
+      return false;
+    }
+    if (await ProjectDetector.checkSDK(project.type, project.rootPath)) {
+      vscode.window.showInformationMessage(`${project.sdkPackage || 'The Razorpay SDK'} is already a dependency of ${project.rootPath}.`);
+      return true;
+    }
+
+    let edit: ManifestEdit | undefined;
+    try {
+      edit = await this.planInstall(project);
+    } catch (error) {
+      this.logger.error('Failed to prepare SDK installation', error as Error);
+      vscode.window.showErrorMessage(`Could not add the Razorpay SDK: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+    if (!edit) {
+      vscode.window.showWarningMessage(`Installing the Razorpay SDK is not supported for ${project.type} projects.`);
+      return false;
+    }
+
+    const manifest = path.relative(project.rootPath, edit.uri.fsPath);
+    if (!await this.applyEdit(edit, manifest)) {
+      return false;
+    }
+
+    // Check the saved manifest the same way the SDK Integration view does
+    if (!await ProjectDetector.checkSDK(project.type, project.rootPath)) {
+      this.logger.warn(`${edit.uri.fsPath} was changed but the Razorpay SDK is still not detected`);
+      vscode.window.showWarningMessage(`${manifest} was changed, but the Razorpay SDK is still not detected. Check the file.`);
+      return false;
+    }
+    this.logger.info(`Razorpay SDK added to ${edit.uri.fsPath}`);
+
+    if (!edit.followUp) {
+      vscode.window.showInformationMessage(`Razorpay SDK added to ${manifest}.`);
+      return true;
+    }
+
+    const run = `Run ${edit.followUp.command}`;
+    const choice = await vscode.window.showInformationMessage(
+      `Razorpay SDK added to ${manifest}. ${edit.followUp.description}`,
+      run,
+      'Later',
+    );
+    if (choice === run) {
+      const terminal = vscode.window.createTerminal({
+        name: 'Razorpay SDK Installation',
+        cwd: edit.followUp.cwd,
+      });
+      terminal.sendText(edit.followUp.command);
+      terminal.show();
+    }
+    return true;
+  }
+
+  /**
+   * Work out the manifest change for a project, without applying it
+   * @returns undefined when the project type has no manifest to edit
+   * @throws Error when the manifest exists but has no place for the dependency
    */
-  async getInstallCommand(projectType: ProjectType, rootPath: string): Promise<InstallCommand | null> {
-    switch (projectType) {
+  async planInstall(project: ProjectInfo): Promise<ManifestEdit | undefined> {
+    const rootPath = project.rootPath;
+
+    switch (project.type) {
       case 'node':
       case 'nextjs':
       case 'vue':
       case 'angular':
-        return {
-          command: 'npm install razorpay',
-          cwd: rootPath,
-          description: 'Installing Razorpay Node.js SDK...',
-        };
+        return this.planPackageJson(rootPath, 'razorpay', SDK_VERSIONS.node);
 
       case 'react':
-        // Check if react-razorpay is needed
-        return {
-          command: 'npm install react-razorpay',
-          cwd: rootPath,
-          description: 'Installing Razorpay React SDK...',
-        };
+        return this.planPackageJson(rootPath, 'react-razorpay', SDK_VERSIONS.react);
 
       case 'python':
-        return {
-          command: 'pip install razorpay',
-          cwd: rootPath,
-          description: 'Installing Razorpay Python SDK...',
-        };
+        return this.planPython(rootPath);
 
-      case 'php':
-        return {
-          command: 'composer require razorpay/razorpay:2.*',
-          cwd: rootPath,
-          description: 'Installing Razorpay PHP SDK...',
-        };
+      case 'go':
+        return this.planGoMod(rootPath);
 
       case 'ruby':
-        return await this.getRubyInstallCommand(rootPath);
+        return this.planGemfile(rootPath);
 
       case 'java':
-        return await this.getJavaInstallCommand(rootPath);
-
-      case 'go':
-        return {
-          command: 'go get github.com/razorpay/razorpay-go',
-          cwd: rootPath,
-          description: 'Installing Razorpay Go SDK...',
-        };
-
-      case 'flutter':
-        return {
-          command: 'flutter pub add razorpay_flutter',
-          cwd: rootPath,
-          description: 'Installing Razorpay Flutter SDK...',
-        };
+        if (await this.fileExists(path.join(rootPath, 'pom.xml'))) {
+          return this.planPom(rootPath);
+        }
+        return this.planGradle(rootPath, ['build.gradle', 'build.gradle.kts'], 'com.razorpay:razorpay-java', SDK_VERSIONS.java);
 
       case 'android':
-        // Android requires manual Gradle configuration
-        return null;
+        return this.planGradle(
+          rootPath,
+          ['app/build.gradle', 'app/build.gradle.kts', 'build.gradle', 'build.gradle.kts'],
+          'com.razorpay:razorpay-android',
+          SDK_VERSIONS.android,
+        );
 
       case 'ios':
-        // iOS requires manual Podfile configuration
-        return null;
+        return this.planPodfile(rootPath);
+
+      case 'php':
+        return this.planComposer(rootPath);
 
-      case 'web':
-        // Web uses CDN, no installation needed
-        return null;
+      case 'flutter':
+        return this.planPubspec(rootPath);
 
       default:
-        return null;
+        return undefined;
     }
   }
 
   /**
-   * Install SDK with user confirmation
+   * Show the edit in the Refactor Preview, then save it
+   * @returns false when the user discarded the edit
    */
-  async installSDK(projectType: ProjectType, rootPath: string): Promise<boolean> {
-    const installCmd = await this.getInstallCommand(projectType, rootPath);
+  private async applyEdit(edit: ManifestEdit, label: string): Promise<boolean> {
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+      needsConfirmation: true,
+      label,
+      description: edit.description,
+    };
+    const workspaceEdit = new vscode.WorkspaceEdit();
 
-    if (!installCmd) {
-      // Manual installation required
-      return await this.handleManualInstallation(projectType, rootPath);
+    if (edit.original === undefined) {
+      workspaceEdit.createFile(edit.uri, { ignoreIfExists: false }, metadata);
+      workspaceEdit.insert(edit.uri, new vscode.Position(0, 0), edit.content, metadata);
+    } else {
+      // Only the changed span, so the preview shows the added lines rather than the whole file
+      const document = await vscode.workspace.openTextDocument(edit.uri);
+      const change = getChangedSpan(edit.original, edit.content);
+      const range = new vscode.Range(document.positionAt(change.start), document.positionAt(change.end));
+      workspaceEdit.replace(edit.uri, range, change.text, metadata);
     }
 
-    // Show confirmation dialog
-    const confirm = await vscode.window.showInformationMessage(
-      installCmd.description,
-      'Install',
-      'Cancel',
-    );
-
-    if (confirm !== 'Install') {
+    if (!await vscode.workspace.applyEdit(workspaceEdit)) {
       return false;
     }
 
-    try {
-      this.logger.info(`Executing: ${installCmd.command} in ${installCmd.cwd}`);
-      
-      const terminal = vscode.window.createTerminal({
-        name: 'Razorpay SDK Installation',
-        cwd: installCmd.cwd,
-      });
+    const document = await vscode.workspace.openTextDocument(edit.uri);
+    if (document.isDirty) {
+      await document.save();
+    }
+    return true;
+  }
 
-      terminal.sendText(installCmd.command);
-      terminal.show();
+  private async planPackageJson(rootPath: string, name: string, version: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'package.json'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('package.json not found');
+    }
 
-      // Wait a bit and check if command succeeded
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    const packageManager = await this.detectPackageManager(rootPath);
+    return {
+      uri,
+      original,
+      content: addJsonDependency(original, 'dependencies', name, version),
+      description: `Add ${name}@${version} to dependencies`,
+      followUp: {
+        command: `${packageManager} install`,
+        cwd: rootPath,
+        description: `Run ${packageManager} install to download it and update the lockfile.`,
+      },
+    };
+  }
 
-      this.logger.info(`SDK installation command sent to terminal: ${installCmd.command}`);
-      return true;
-    } catch (error) {
-      this.logger.error('Failed to install SDK', error as Error);
-      vscode.window.showErrorMessage(`Failed to install SDK: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return false;
+  private async planComposer(rootPath: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'composer.json'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('composer.json not found');
     }
+
+    return {
+      uri,
+      original,
+      content: addJsonDependency(original, 'require', 'razorpay/razorpay', SDK_VERSIONS.php),
+      description: `Add razorpay/razorpay ${SDK_VERSIONS.php} to require`,
+      followUp: {
+        command: 'composer update razorpay/razorpay',
+        cwd: rootPath,
+        description: 'Run composer update to download it and update composer.lock.',
+      },
+    };
   }
 
   /**
-   * Handle manual installation (Android, iOS)
+   * requirements.txt when there is one, otherwise the Poetry or PEP 621 dependencies in pyproject.toml,
+   * otherwise a new requirements.txt
    */
-  private async handleManualInstallation(projectType: ProjectType, rootPath: string): Promise<boolean> {
-    if (projectType === 'android') {
-      return await this.installAndroidSDK(rootPath);
-    } else if (projectType === 'ios') {
-      return await this.installIOSSDK(rootPath);
+  private async planPython(rootPath: string): Promise<ManifestEdit> {
+    const requirementsUri = vscode.Uri.file(path.join(rootPath, 'requirements.txt'));
+    const requirements = await this.readManifest(requirementsUri);
+    const pyprojectUri = vscode.Uri.file(path.join(rootPath, 'pyproject.toml'));
+    const pyproject = requirements === undefined ? await this.readManifest(pyprojectUri) : undefined;
+
+    if (pyproject !== undefined) {
+      const poetry = pyproject.match(/^\[tool\.poetry\.dependencies\][^\n]*\n/m);
+      if (poetry) {
+        const at = (poetry.index || 0) + poetry[0].length;
+        return {
+          uri: pyprojectUri,
+          original: pyproject,
+          content: `${pyproject.slice(0, at)}razorpay = "^${SDK_VERSIONS.python}"\n${pyproject.slice(at)}`,
+          description: `Add razorpay ^${SDK_VERSIONS.python} to [tool.poetry.dependencies]`,
+          followUp: {
+            command: 'poetry lock',
+            cwd: rootPath,
+            description: 'Run poetry lock to update poetry.lock, then poetry install.',
+          },
+        };
+      }
+
+      const content = addPep621Dependency(pyproject, `razorpay>=${SDK_VERSIONS.python}`);
+      if (content) {
+        const uv = await this.fileExists(path.join(rootPath, 'uv.lock'));
+        return {
+          uri: pyprojectUri,
+          original: pyproject,
+          content,
+          description: `Add razorpay>=${SDK_VERSIONS.python} to [project] dependencies`,
+          followUp: uv
+            ? { command: 'uv sync', cwd: rootPath, description: 'Run uv sync to download it and update uv.lock.' }
+            : { command: 'pip install -e .', cwd: rootPath, description: 'Run pip install -e . to download it.' },
+        };
+      }
     }
-    return false;
+
+    const line = `razorpay>=${SDK_VERSIONS.python}`;
+    return {
+      uri: requirementsUri,
+      original: requirements,
+      content: appendLine(requirements || '', line),
+      description: `Add ${line}`,
+      followUp: {
+        command: 'pip install -r requirements.txt',
+        cwd: rootPath,
+        description: 'Run pip install to download it.',
+      },
+    };
   }
 
-  /**
-   * Install Android SDK by modifying build.gradle
-   */
-  private async installAndroidSDK(rootPath: string): Promise<boolean> {
-    const buildGradlePath = path.join(rootPath, 'app', 'build.gradle');
-    const buildGradleKtsPath = path.join(rootPath, 'app', 'build.gradle.kts');
-    
-    let targetFile: string | null = null;
-    if (await this.fileExists(buildGradlePath)) {
-      targetFile = buildGradlePath;
-    } else if (await this.fileExists(buildGradleKtsPath)) {
-      targetFile = buildGradleKtsPath;
+  private async planGoMod(rootPath: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'go.mod'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('go.mod not found');
+    }
+
+    const requirement = `github.com/razorpay/razorpay-go ${SDK_VERSIONS.go}`;
+    const block = original.match(/^require\s*\(\s*\n([\s\S]*?)^\)/m);
+    let content: string;
+    if (block) {
+      const at = (block.index || 0) + block[0].length - 1;
+      content = `${original.slice(0, at)}\t${requirement}\n${original.slice(at)}`;
     } else {
-      vscode.window.showErrorMessage('Could not find build.gradle or build.gradle.kts in app directory');
-      return false;
+      content = appendLine(original, `\nrequire ${requirement}`);
     }
 
-    const confirm = await vscode.window.showInformationMessage(
-      'Android SDK requires adding dependency to build.gradle. Would you like to add it automatically?',
-      'Add Dependency',
-      'Cancel',
-    );
+    return {
+      uri,
+      original,
+      content,
+      description: `Require ${requirement}`,
+      followUp: {
+        command: 'go mod download github.com/razorpay/razorpay-go',
+        cwd: rootPath,
+        description: 'Run go mod download to fetch it and record its checksum in go.sum.',
+      },
+    };
+  }
 
-    if (confirm !== 'Add Dependency') {
-      return false;
+  private async planGemfile(rootPath: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'Gemfile'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('Gemfile not found');
     }
 
-    try {
-      const content = await fs.promises.readFile(targetFile, 'utf-8');
-      
-      // Check if already added
-      if (content.includes('com.razorpay:razorpay-android')) {
-        vscode.window.showInformationMessage('Razorpay Android SDK dependency already exists');
-        return true;
-      }
+    const line = `gem 'razorpay', '~> ${SDK_VERSIONS.ruby}'`;
+    return {
+      uri,
+      original,
+      content: appendLine(original, line),
+      description: `Add ${line}`,
+      followUp: {
+        command: 'bundle install',
+        cwd: rootPath,
+        description: 'Run bundle install to download it and update Gemfile.lock.',
+      },
+    };
+  }
 
-      // Add dependency
-      const dependency = targetFile.endsWith('.kts')
-        ? '    implementation("com.razorpay:razorpay-android:1.6.33")'
-        : '    implementation \'com.razorpay:razorpay-android:1.6.33\'';
+  /**
+   * Add the dependency to the project's own <dependencies>, not the ones in dependencyManagement, build plugins
+   * or profiles
+   */
+  private async planPom(rootPath: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'pom.xml'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('pom.xml not found');
+    }
 
-      // Find dependencies block
-      if (content.includes('dependencies {')) {
-        const newContent = content.replace(
-          /(dependencies\s*\{)/,
-          `$1\n${dependency}`,
-        );
-        await fs.promises.writeFile(targetFile, newContent, 'utf-8');
-        vscode.window.showInformationMessage('Razorpay Android SDK dependency added to build.gradle');
-        return true;
-      } else {
-        vscode.window.showWarningMessage('Could not find dependencies block. Please add manually.');
-        return false;
+    // Blank out nested sections so only the top-level <dependencies> matches
+    const masked = original.replace(
+      /<(dependencyManagement|build|profiles|reporting)>[\s\S]*?<\/\1>/g,
+      section => ' '.repeat(section.length),
+    );
+    const unit = original.match(/\n([ \t]+)</)?.[1] || '    ';
+    const dependency = (indent: string) => [
+      `${indent}<dependency>`,
+      `${indent}${unit}<groupId>com.razorpay</groupId>`,
+      `${indent}${unit}<artifactId>razorpay-java</artifactId>`,
+      `${indent}${unit}<version>${SDK_VERSIONS.java}</version>`,
+      `${indent}</dependency>`,
+    ].join('\n');
+
+    let content: string;
+    const opening = masked.indexOf('<dependencies>');
+    const closing = opening === -1 ? -1 : masked.indexOf('</dependencies>', opening);
+    if (closing !== -1) {
+      const lineStart = original.lastIndexOf('\n', closing) + 1;
+      const indent = original.slice(lineStart, closing).match(/^[ \t]*$/) ? original.slice(lineStart, closing) : unit;
+      content = `${original.slice(0, lineStart)}${dependency(indent + unit)}\n${original.slice(lineStart)}`;
+    } else {
+      const end = original.lastIndexOf('</project>');
+      if (end === -1) {
+        throw new Error('pom.xml has no </project> element');
       }
-    } catch (error) {
-      this.logger.error('Failed to add Android SDK dependency', error as Error);
-      vscode.window.showErrorMessage('Failed to add Android SDK dependency');
-      return false;
+      const lineStart = original.lastIndexOf('\n', end) + 1;
+      const block = `${unit}<dependencies>\n${dependency(unit + unit)}\n${unit}</dependencies>\n`;
+      content = `${original.slice(0, lineStart)}${block}${original.slice(lineStart)}`;
     }
+
+    const mavenWrapper = await this.fileExists(path.join(rootPath, process.platform === 'win32' ? 'mvnw.cmd' : 'mvnw'));
+    return {
+      uri,
+      original,
+      content,
+      description: `Add com.razorpay:razorpay-java:${SDK_VERSIONS.java}`,
+      followUp: {
+        command: `${mavenWrapper ? (process.platform === 'win32' ? '.\\mvnw.cmd' : './mvnw') : 'mvn'} dependency:resolve`,
+        cwd: rootPath,
+        description: 'Run Maven to download it.',
+      },
+    };
   }
 
   /**
-   * Install iOS SDK by modifying Podfile
+   * Add an implementation dependency to the first of `files` that exists, in its top-level dependencies block
    */
-  private async installIOSSDK(rootPath: string): Promise<boolean> {
-    const podfilePath = path.join(rootPath, 'Podfile');
-    
-    if (!(await this.fileExists(podfilePath))) {
-      vscode.window.showErrorMessage('Could not find Podfile');
-      return false;
+  private async planGradle(rootPath: string, files: string[], artifact: string, version: string): Promise<ManifestEdit> {
+    for (const file of files) {
+      const uri = vscode.Uri.file(path.join(rootPath, ...file.split('/')));
+      const original = await this.readManifest(uri);
+      if (original === undefined) {
+        continue;
+      }
+
+      const kotlin = file.endsWith('.kts');
+      const declaration = kotlin ? `implementation("${artifact}:${version}")` : `implementation '${artifact}:${version}'`;
+      const block = findTopLevelBlock(original, 'dependencies');
+      let content: string;
+      if (block !== undefined) {
+        const indent = original.slice(block + 1).match(/\n([ \t]+)\S/)?.[1] || '    ';
+        content = `${original.slice(0, block + 1)}\n${indent}${declaration}${original.slice(block + 1)}`;
+      } else {
+        content = appendLine(original, `\ndependencies {\n    ${declaration}\n}`);
+      }
+
+      return {
+        uri,
+        original,
+        content,
+        description: `Add ${artifact}:${version}`,
+      };
     }
+    throw new Error(`None of ${files.join(', ')} found`);
+  }
 
-    const confirm = await vscode.window.showInformationMessage(
-      'iOS SDK requires adding pod to Podfile. Would you like to add it automatically?',
-      'Add Pod',
-      'Cancel',
-    );
+  private async planPodfile(rootPath: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'Podfile'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('Podfile not found');
+    }
 
-    if (confirm !== 'Add Pod') {
-      return false;
+    const target = original.match(/^[ \t]*target\s+['"][^'"]+['"]\s+do[^\n]*\n/m);
+    if (!target) {
+      throw new Error('Podfile has no target block to add the pod to');
     }
+    const at = (target.index || 0) + target[0].length;
+    const line = `  pod 'razorpay-pod', '~> ${SDK_VERSIONS.ios}'`;
+    return {
+      uri,
+      original,
+      content: `${original.slice(0, at)}${line}\n${original.slice(at)}`,
+      description: `Add ${line.trim()}`,
+      followUp: {
+        command: 'pod install',
+        cwd: rootPath,
+        description: 'Run pod install to download it.',
+      },
+    };
+  }
 
-    try {
-      const content = await fs.promises.readFile(podfilePath, 'utf-8');
-      
-      // Check if already added
-      if (content.includes('razorpay-pod') || content.includes('Razorpay')) {
-        vscode.window.showInformationMessage('Razorpay iOS SDK pod already exists');
-        return true;
-      }
+  private async planPubspec(rootPath: string): Promise<ManifestEdit> {
+    const uri = vscode.Uri.file(path.join(rootPath, 'pubspec.yaml'));
+    const original = await this.readManifest(uri);
+    if (original === undefined) {
+      throw new Error('pubspec.yaml not found');
+    }
 
-      // Add pod
-      const podLine = "pod 'razorpay-pod', '~> 1.2.0'";
-      
-      // Find target block or add at end
-      if (content.includes('target ')) {
-        const newContent = content.replace(
-          /(target\s+['"][^'"]+['"]\s+do)/,
-          `$1\n  ${podLine}`,
-        );
-        await fs.promises.writeFile(podfilePath, newContent, 'utf-8');
-        vscode.window.showInformationMessage('Razorpay iOS SDK pod added to Podfile. Run "pod install" in terminal.');
-        
-        // Offer to run pod install
-        const runPodInstall = await vscode.window.showInformationMessage(
-          'Would you like to run "pod install" now?',
-          'Run pod install',
-          'Later',
-        );
-        
-        if (runPodInstall === 'Run pod install') {
-          const terminal = vscode.window.createTerminal({
-            name: 'Razorpay iOS Installation',
-            cwd: rootPath,
-          });
-          terminal.sendText('pod install');
-          terminal.show();
-        }
-        
-        return true;
-      } else {
-        vscode.window.showWarningMessage('Could not find target block. Please add manually.');
-        return false;
-      }
-    } catch (error) {
-      this.logger.error('Failed to add iOS SDK pod', error as Error);
-      vscode.window.showErrorMessage('Failed to add iOS SDK pod');
-      return false;
+    const line = `razorpay_flutter: ${SDK_VERSIONS.flutter}`;
+    const dependencies = original.match(/^dependencies:[ \t]*\n/m);
+    let content: string;
+    if (dependencies) {
+      const at = (dependencies.index || 0) + dependencies[0].length;
+      const indent = original.slice(at).match(/^([ \t]+)\S/)?.[1] || '  ';
+      content = `${original.slice(0, at)}${indent}${line}\n${original.slice(at)}`;
+    } else {
+      content = appendLine(original, `\ndependencies:\n  ${line}`);
     }
+
+    return {
+      uri,
+      original,
+      content,
+      description: `Add ${line}`,
+      followUp: {
+        command: 'flutter pub get',
+        cwd: rootPath,
+        description: 'Run flutter pub get to download it.',
+      },
+    };
   }
 
   /**
-   * Get Ruby installation command (may need to modify Gemfile)
+   * Package manager of a JavaScript project, from the packageManager field or the lockfile next to it or in a
+   * parent folder up to the workspace folder (monorepos keep one lockfile at the root)
    */
-  private async getRubyInstallCommand(rootPath: string): Promise<InstallCommand | null> {
-    const gemfilePath = path.join(rootPath, 'Gemfile');
-    
-    if (await this.fileExists(gemfilePath)) {
-      // Check if already in Gemfile
+  private async detectPackageManager(rootPath: string): Promise<PackageManager> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath))?.uri.fsPath;
+    let dir = rootPath;
+
+    for (;;) {
       try {
-        const content = await fs.promises.readFile(gemfilePath, 'utf-8');
-        if (content.includes("gem 'razorpay'") || content.includes('gem "razorpay"')) {
-          return {
-            command: 'bundle install',
-            cwd: rootPath,
-            description: 'Installing Razorpay Ruby SDK (bundle install)...',
-          };
+        const declared = JSON.parse(await fs.promises.readFile(path.join(dir, 'package.json'), 'utf-8')).packageManager;
+        const name = typeof declared === 'string' ? declared.split('@')[0] : undefined;
+        if (name === 'npm' || name === 'yarn' || name === 'pnpm' || name === 'bun') {
+          return name;
         }
       } catch {
-        // Continue to add gem
+        // No package.json here
+      }
+      for (const [lockfile, manager] of LOCKFILES) {
+        if (await this.fileExists(path.join(dir, lockfile))) {
+          return manager;
+        }
       }
 
-      // Need to add gem first
-      return {
-        command: 'bundle add razorpay',
-        cwd: rootPath,
-        description: 'Adding and installing Razorpay Ruby SDK...',
-      };
+      const parent = path.dirname(dir);
+      if (!folder || dir === folder || parent === dir || !parent.startsWith(folder)) {
+        return 'npm';
+      }
+      dir = parent;
     }
-
-    return {
-      command: 'gem install razorpay',
-      cwd: rootPath,
-      description: 'Installing Razorpay Ruby SDK...',
-    };
   }
 
   /**
-   * Get Java installation command (may need to modify pom.xml or build.gradle)
+   * Text of a manifest as the editor has it, including unsaved changes
+   * @returns undefined when the file does not exist
    */
-  private async getJavaInstallCommand(rootPath: string): Promise<InstallCommand | null> {
-    const pomXmlPath = path.join(rootPath, 'pom.xml');
-    const buildGradlePath = path.join(rootPath, 'build.gradle');
-    const buildGradleKtsPath = path.join(rootPath, 'build.gradle.kts');
-
-    if (await this.fileExists(pomXmlPath)) {
-      // Maven project - need to add dependency manually
-      return null;
-    } else if (await this.fileExists(buildGradlePath) || await this.fileExists(buildGradleKtsPath)) {
-      // Gradle project - can add via command or manually
-      return null;
+  private async readManifest(uri: vscode.Uri): Promise<string | undefined> {
+    if (!await this.fileExists(uri.fsPath)) {
+      return undefined;
     }
-
-    return null;
+    return (await vscode.workspace.openTextDocument(uri)).getText();
   }
 
   private async fileExists(filePath: string): Promise<boolean> {
@@ -344,3 +558,152 @@ export class SDKInstaller {
   }
 }
 
+/**
+ * The part of `original` that `content` replaces: everything between their common prefix and suffix
+ */
+function getChangedSpan(original: string, content: string): { start: number; end: number; text: string } {
+  let start = 0;
+  while (start < original.length && start < content.length && original[start] === content[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < original.length - start &&
+    end < content.length - start &&
+    original[original.length - 1 - end] === content[content.length - 1 - end]
+  ) {
+    end++;
+  }
+  return { start, end: original.length - end, text: content.slice(start, content.length - end) };
+}
+
+function appendLine(text: string, line: string): string {
+  if (!text) {
+    return `${line.replace(/^\n+/, '')}\n`;
+  }
+  return `${text}${text.endsWith('\n') ? '' : '\n'}${line}\n`;
+}
+
+/**
+ * Add `name` to an object such as "dependencies" at the top level of a JSON manifest, editing the text rather
+ * than re-serialising it so the rest of the file keeps its formatting
+ */
+function addJsonDependency(text: string, section: string, name: string, version: string): string {
+  // Throws for a manifest that is not valid JSON, rather than editing it blindly
+  JSON.parse(text);
+  const indent = text.match(/\n([ \t]+)"/)?.[1] || '  ';
+  const entry = `"${name}": "${version}"`;
+
+  const opening = findTopLevelKey(text, section);
+  if (opening !== undefined) {
+    const close = text.indexOf('}', opening);
+    const empty = text.slice(opening + 1, close).trim() === '';
+    if (empty) {
+      return `${text.slice(0, opening + 1)}\n${indent}${indent}${entry}\n${indent}${text.slice(close)}`;
+    }
+    return `${text.slice(0, opening + 1)}\n${indent}${indent}${entry},${text.slice(opening + 1)}`;
+  }
+
+  const end = text.lastIndexOf('}');
+  const before = text.slice(0, end).replace(/\s*$/, '');
+  const comma = before.endsWith('{') ? '' : ',';
+  return `${before}${comma}\n${indent}"${section}": {\n${indent}${indent}${entry}\n${indent}}\n${text.slice(end)}`;
+}
+
+/**
+ * Position of the `{` that opens the value of a top-level key in a JSON document
+ */
+function findTopLevelKey(text: string, key: string): number | undefined {
+  let depth = 0;
+  let lastString: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') {
+        j += text[j] === '\\' ? 2 : 1;
+      }
+      lastString = text.slice(i + 1, j);
+      i = j;
+    } else if (char === '{' || char === '[') {
+      if (depth === 1 && char === '{' && lastString === key) {
+        return i;
+      }
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    } else if (char === ',') {
+      lastString = undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Add a requirement to `dependencies` in the [project] table of a pyproject.toml
+ * @returns undefined when there is no [project] table
+ */
+function addPep621Dependency(text: string, requirement: string): string | undefined {
+  const header = text.match(/^\[project\][ \t]*\n/m);
+  if (!header) {
+    return undefined;
+  }
+  const tableStart = (header.index || 0) + header[0].length;
+  const nextTable = text.slice(tableStart).search(/^\[/m);
+  const tableEnd = nextTable === -1 ? text.length : tableStart + nextTable;
+  const table = text.slice(tableStart, tableEnd);
+
+  const list = table.match(/^dependencies\s*=\s*\[/m);
+  if (!list) {
+    return `${text.slice(0, tableStart)}dependencies = ["${requirement}"]\n${text.slice(tableStart)}`;
+  }
+
+  const open = tableStart + (list.index || 0) + list[0].length;
+  const close = text.indexOf(']', open);
+  const items = text.slice(open, close);
+  if (items.trim() === '') {
+    return `${text.slice(0, open)}"${requirement}"${text.slice(close)}`;
+  }
+  if (items.includes('\n')) {
+    // One requirement per line: add ours as the first, with the same indentation
+    const indent = items.match(/\n([ \t]+)\S/)?.[1] || '    ';
+    return `${text.slice(0, open)}\n${indent}"${requirement}",${text.slice(open)}`;
+  }
+  return `${text.slice(0, close).replace(/,?\s*$/, '')}, "${requirement}"${text.slice(close)}`;
+}
+
+/**
+ * Position of the `{` of a `name { ... }` block at the top level of a Gradle script, skipping the ones in
+ * buildscript, subprojects and other blocks
+ */
+function findTopLevelBlock(text: string, name: string): number | undefined {
+  let depth = 0;
+  const pattern = new RegExp(`^${name}\\s*$`);
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '/' && text[i + 1] === '/') {
+      i = text.indexOf('\n', i);
+      if (i === -1) {
+        return undefined;
+      }
+    } else if (char === '/' && text[i + 1] === '*') {
+      const close = text.indexOf('*/', i + 2);
+      if (close === -1) {
+        return undefined;
+      }
+      i = close + 1;
+    } else if (char === '"' || char === "'") {
+      const close = text.indexOf(char, i + 1);
+      i = close === -1 ? text.length : close;
+    } else if (char === '{') {
+      const lineStart = text.lastIndexOf('\n', i) + 1;
+      if (depth === 0 && pattern.test(text.slice(lineStart, i).trim())) {
+        return i;
+      }
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,402 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ProjectType } from './projectDetector';
+import { compareVersions, getLowerBound, InstalledSDKVersion, SDKId, sdkReleases } from './sdkVersions';
+
+/**
+ * Finds the version of the Razorpay SDK a project uses: from its lockfile when there is one, then the installed
+ * package, then the constraint declared in its manifest.
+ */
+export class SDKVersionDetector {
+  /**
+   * @returns undefined when the SDK is not declared or its version cannot be told, e.g. a git dependency
+   */
+  static async detect(type: ProjectType, rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    switch (type) {
+      case 'react':
+        return await this.detectNpm('react', rootPath) || this.detectNpm('node', rootPath);
+      case 'nextjs':
+      case 'vue':
+      case 'angular':
+      case 'node':
+        return this.detectNpm('node', rootPath);
+      case 'python': return this.detectPython(rootPath);
+      case 'go': return this.detectGo(rootPath);
+      case 'ruby': return this.detectRuby(rootPath);
+      case 'java':
+        return await this.detectMaven(rootPath) || this.detectGradle('java', rootPath, ['build.gradle', 'build.gradle.kts']);
+      case 'android':
+        return this.detectGradle('android', rootPath, ['app/build.gradle', 'app/build.gradle.kts', 'build.gradle', 'build.gradle.kts']);
+      case 'ios': return this.detectPods(rootPath);
+      case 'php': return this.detectComposer(rootPath);
+      case 'flutter': return this.detectPub(rootPath);
+      default: return undefined;
+    }
+  }
+
+  /**
+   * package-lock.json, yarn.lock, pnpm-lock.yaml or node_modules next to the project or in a parent folder up to the
+   * workspace folder, as monorepos keep one lockfile at the root
+   */
+  private static async detectNpm(sdk: SDKId, rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const name = sdkReleases[sdk].package;
+    const manifest = await this.readJson(path.join(rootPath, 'package.json'));
+    const range = getString(manifest, 'dependencies', name) || getString(manifest, 'devDependencies', name);
+    if (!range) {
+      return undefined;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath))?.uri.fsPath;
+    let dir = rootPath;
+    for (;;) {
+      const importer = path.relative(dir, rootPath).split(path.sep).join('/');
+
+      for (const lockfile of ['package-lock.json', 'npm-shrinkwrap.json']) {
+        const lock = await this.readJson(path.join(dir, lockfile));
+        // Lockfile v2 and v3 list packages by path, v1 only has the hoisted tree
+        const version = getString(lock, 'packages', `${importer ? `${importer}/` : ''}node_modules/${name}`, 'version')
+          || getString(lock, 'packages', `node_modules/${name}`, 'version')
+          || getString(lock, 'dependencies', name, 'version');
+        if (version) {
+          return this.locked(sdk, version, rootPath, path.join(dir, lockfile));
+        }
+      }
+
+      const yarnLock = await this.readFile(path.join(dir, 'yarn.lock'));
+      const yarnVersion = yarnLock && parseYarnLock(yarnLock, name, range);
+      if (yarnVersion) {
+        return this.locked(sdk, yarnVersion, rootPath, path.join(dir, 'yarn.lock'));
+      }
+
+      const pnpmLock = await this.readFile(path.join(dir, 'pnpm-lock.yaml'));
+      const pnpmVersion = pnpmLock && parsePnpmLock(pnpmLock, name, importer);
+      if (pnpmVersion) {
+        return this.locked(sdk, pnpmVersion, rootPath, path.join(dir, 'pnpm-lock.yaml'));
+      }
+
+      const installedPath = path.join(dir, 'node_modules', ...name.split('/'), 'package.json');
+      const installedVersion = getString(await this.readJson(installedPath), 'version');
+      if (installedVersion) {
+        return this.locked(sdk, installedVersion, rootPath, installedPath);
+      }
+
+      const parent = path.dirname(dir);
+      if (!folder || dir === folder || parent === dir || !parent.startsWith(folder)) {
+        break;
+      }
+      dir = parent;
+    }
+
+    return this.declared(sdk, range, 'package.json');
+  }
+
+  private static async detectPython(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    // Poetry, uv and PDM lock packages as [[package]] tables
+    for (const lockfile of ['poetry.lock', 'uv.lock', 'pdm.lock']) {
+      const lock = await this.readFile(path.join(rootPath, lockfile));
+      for (const table of lock?.split(/^\[\[package\]\]\s*$/m).slice(1) || []) {
+        if (table.match(/^name\s*=\s*"([^"]+)"/m)?.[1].toLowerCase() === 'razorpay') {
+          const version = table.match(/^version\s*=\s*"([^"]+)"/m)?.[1];
+          if (version) {
+            return this.locked('python', version, rootPath, path.join(rootPath, lockfile));
+          }
+        }
+      }
+    }
+
+    const pipfileLock = await this.readJson(path.join(rootPath, 'Pipfile.lock'));
+    const pipenvVersion = getString(pipfileLock, 'default', 'razorpay', 'version')
+      || getString(pipfileLock, 'develop', 'razorpay', 'version');
+    if (pipenvVersion) {
+      return this.locked('python', pipenvVersion.replace(/^==/, ''), rootPath, path.join(rootPath, 'Pipfile.lock'));
+    }
+
+    const requirements = await this.readFile(path.join(rootPath, 'requirements.txt'));
+    const requirement = requirements?.match(/^razorpay\s*(?:\[[^\]]*\])?\s*([^\s;#]*)/im);
+    if (requirement) {
+      const pinned = requirement[1].match(/^===?([\w.]+)$/);
+      return pinned
+        ? this.locked('python', pinned[1], rootPath, path.join(rootPath, 'requirements.txt'))
+        : this.declared('python', requirement[1], 'requirements.txt');
+    }
+
+    for (const file of ['pyproject.toml', 'Pipfile', 'setup.py']) {
+      const content = await this.readFile(path.join(rootPath, file));
+      // razorpay = "^1.4" or razorpay = { version = "^1.4" } in Poetry and Pipfile; "razorpay>=1.4" in PEP 621 and setup.py
+      const match = content?.match(/^razorpay\s*=\s*(?:"([^"]*)"|\{[^}]*\bversion\s*=\s*"([^"]*)")/m)
+        || content?.match(/["']razorpay\s*(?:\[[^\]]*\])?\s*([<>=~!][^"';]*)["';]/);
+      const range = match?.[1] || match?.[2];
+      if (range) {
+        return this.declared('python', range, file);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * go.mod records the version in use; go.sum is read when go.mod does not
+   */
+  private static async detectGo(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const goMod = await this.readFile(path.join(rootPath, 'go.mod'));
+    // Replaced by a local copy, the required version is only a placeholder
+    if (goMod && /^\s*(?:replace\s+)?github\.com\/razorpay\/razorpay-go(?:\s+v\S+)?\s+=>\s+\.{0,2}\//m.test(goMod)) {
+      return undefined;
+    }
+    const required = goMod?.match(/^\s*(?:require\s+)?github\.com\/razorpay\/razorpay-go\s+(v\S+)/m)?.[1];
+    if (required) {
+      return this.locked('go', required, rootPath, path.join(rootPath, 'go.mod'));
+    }
+
+    const goSum = await this.readFile(path.join(rootPath, 'go.sum'));
+    const versions = [...goSum?.matchAll(/^github\.com\/razorpay\/razorpay-go (v[^\s/]+)/gm) || []].map(match => match[1]);
+    const newest = versions.sort((a, b) => compareVersions(b, a))[0];
+    return newest ? this.locked('go', newest, rootPath, path.join(rootPath, 'go.sum')) : undefined;
+  }
+
+  private static async detectRuby(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const gemfileLock = await this.readFile(path.join(rootPath, 'Gemfile.lock'));
+    const locked = gemfileLock?.match(/^ {4}razorpay \(([^)]+)\)\s*$/m)?.[1];
+    if (locked) {
+      return this.locked('ruby', locked, rootPath, path.join(rootPath, 'Gemfile.lock'));
+    }
+
+    const gemfile = await this.readFile(path.join(rootPath, 'Gemfile'));
+    const range = gemfile?.match(/gem\s+['"]razorpay['"]\s*,\s*['"]([^'"]+)['"]/)?.[1];
+    return range ? this.declared('ruby', range, 'Gemfile') : undefined;
+  }
+
+  private static async detectMaven(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const pom = await this.readFile(path.join(rootPath, 'pom.xml'));
+    for (const [, dependency] of pom?.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g) || []) {
+      if (!/<artifactId>\s*razorpay-java\s*<\/artifactId>/.test(dependency)) {
+        continue;
+      }
+      let version = dependency.match(/<version>\s*([^<\s]+)\s*<\/version>/)?.[1];
+      // <version>${razorpay.version}</version> with the value in <properties>
+      const property = version?.match(/^\$\{([^}]+)\}$/)?.[1];
+      if (property) {
+        const escaped = property.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        version = pom?.match(new RegExp(`<${escaped}>\\s*([^<\\s]+)\\s*</${escaped}>`))?.[1];
+      }
+      if (version) {
+        return this.gradleOrMavenVersion('java', version, rootPath, 'pom.xml');
+      }
+    }
+    return undefined;
+  }
+
+  private static async detectGradle(sdk: SDKId, rootPath: string, buildFiles: string[]): Promise<InstalledSDKVersion | undefined> {
+    const artifact = sdkReleases[sdk].package;
+    const escaped = artifact.replace(/[.]/g, '\\.');
+
+    // Dependency locking writes gradle.lockfile next to each module
+    for (const lockfile of [...new Set(buildFiles.map(file => path.posix.join(path.posix.dirname(file), 'gradle.lockfile')))]) {
+      const lock = await this.readFile(path.join(rootPath, lockfile));
+      const locked = lock?.match(new RegExp(`^${escaped}:([^=\\s]+)=`, 'm'))?.[1];
+      if (locked) {
+        return this.locked(sdk, locked, rootPath, path.join(rootPath, lockfile));
+      }
+    }
+
+    const properties = await this.readFile(path.join(rootPath, 'gradle.properties')) || '';
+    for (const file of buildFiles) {
+      const build = await this.readFile(path.join(rootPath, file));
+      let version = build?.match(new RegExp(`['"]${escaped}:([^'"@]+)`))?.[1];
+      // "com.razorpay:razorpay-java:$razorpayVersion", defined in the build file or gradle.properties
+      const variable = version?.match(/^\$\{?(\w+)\}?$/)?.[1];
+      if (variable) {
+        const assignment = new RegExp(`^\\s*(?:(?:def|val|var|ext\\.)\\s*)?${variable}\\s*=\\s*['"]?([^'"\\s]+)`, 'm');
+        version = build?.match(assignment)?.[1] || properties.match(assignment)?.[1];
+      }
+      if (version) {
+        return this.gradleOrMavenVersion(sdk, version, rootPath, file);
+      }
+    }
+    return undefined;
+  }
+
+  private static async detectPods(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const podfileLock = await this.readFile(path.join(rootPath, 'Podfile.lock'));
+    const locked = podfileLock?.match(/^\s+- razorpay-pod \(([^)]+)\)/m)?.[1];
+    if (locked) {
+      return this.locked('ios', locked, rootPath, path.join(rootPath, 'Podfile.lock'));
+    }
+
+    const podfile = await this.readFile(path.join(rootPath, 'Podfile'));
+    const range = podfile?.match(/pod\s+['"]razorpay-pod['"]\s*,\s*['"]([^'"]+)['"]/)?.[1];
+    return range ? this.declared('ios', range, 'Podfile') : undefined;
+  }
+
+  private static async detectComposer(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const composerLock = await this.readJson(path.join(rootPath, 'composer.lock'));
+    const packages = [getField(composerLock, 'packages'), getField(composerLock, 'packages-dev')]
+      .flatMap(list => Array.isArray(list) ? list : []);
+    const locked = getString(packages.find(pkg => getString(pkg, 'name') === 'razorpay/razorpay'), 'version');
+    if (locked) {
+      return this.locked('php', locked, rootPath, path.join(rootPath, 'composer.lock'));
+    }
+
+    const composer = await this.readJson(path.join(rootPath, 'composer.json'));
+    const range = getString(composer, 'require', 'razorpay/razorpay') || getString(composer, 'require-dev', 'razorpay/razorpay');
+    return range ? this.declared('php', range, 'composer.json') : undefined;
+  }
+
+  private static async detectPub(rootPath: string): Promise<InstalledSDKVersion | undefined> {
+    const pubspecLock = await this.readFile(path.join(rootPath, 'pubspec.lock'));
+    const locked = pubspecLock?.match(/^ {2}razorpay_flutter:\r?\n(?: {4}.*\r?\n)*? {4}version: "?([^"\s]+)"?/m)?.[1];
+    if (locked) {
+      return this.locked('flutter', locked, rootPath, path.join(rootPath, 'pubspec.lock'));
+    }
+
+    const pubspec = await this.readFile(path.join(rootPath, 'pubspec.yaml'));
+    const range = pubspec?.match(/^\s+razorpay_flutter:[ \t]*['"]?([^'"\r\n#]*)/m)?.[1].trim();
+    return range ? this.declared('flutter', range, 'pubspec.yaml') : undefined;
+  }
+
+  /**
+   * Maven and Gradle versions are exact unless dynamic, like 1.4.+ or latest.release
+   */
+  private static gradleOrMavenVersion(sdk: SDKId, version: string, rootPath: string, file: string): InstalledSDKVersion | undefined {
+    if (version.endsWith('+')) {
+      return this.declared(sdk, version.replace(/\+$/, 'x'), file);
+    }
+    return this.locked(sdk, version, rootPath, path.join(rootPath, file));
+  }
+
+  private static locked(sdk: SDKId, version: string, rootPath: string, file: string): InstalledSDKVersion | undefined {
+    if (!/^v?\d/.test(version)) {
+      return undefined;
+    }
+    return {
+      sdk,
+      package: sdkReleases[sdk].package,
+      version: version.replace(/^v/, ''),
+      source: path.relative(rootPath, file).split(path.sep).join('/'),
+    };
+  }
+
+  /**
+   * A constraint from the manifest, such as ^2.9.0; paths, git URLs and workspace references have no version
+   */
+  private static declared(sdk: SDKId, range: string, source: string): InstalledSDKVersion | undefined {
+    const lowest = /[:/]/.test(range) ? undefined : getLowerBound(range);
+    if (!lowest) {
+      return undefined;
+    }
+    return { sdk, package: sdkReleases[sdk].package, version: lowest, range: range.trim(), source };
+  }
+
+  private static async readFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static async readJson(filePath: string): Promise<unknown> {
+    const content = await this.readFile(filePath);
+    try {
+      return content ? JSON.parse(content) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Value at `keys` in parsed JSON, or undefined when a level is missing or not an object
+ */
+function getField(value: unknown, ...keys: string[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function getString(value: unknown, ...keys: string[]): string | undefined {
+  const field = getField(value, ...keys);
+  return typeof field === 'string' ? field : undefined;
+}
+
+/**
+ * Version yarn resolved `name@range` to, in the v1 or Berry lockfile format.
+ * Other ranges of the package may resolve to other versions; without a match the first one found is used.
+ */
+function parseYarnLock(text: string, name: string, range: string): string | undefined {
+  let fallback: string | undefined;
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const [header, ...body] = block.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+    if (!header || /^\s/.test(header)) {
+      continue;
+    }
+
+    const descriptors = header.replace(/:\s*$/, '').split(',')
+      .map(descriptor => descriptor.trim().replace(/^"|"$/g, ''))
+      .filter(descriptor => descriptor.startsWith(`${name}@`));
+    const version = body.join('\n').match(/^\s+version:?\s+"?([^"\s]+)"?/m)?.[1];
+    if (descriptors.length === 0 || !version) {
+      continue;
+    }
+    if (descriptors.some(descriptor => descriptor === `${name}@${range}` || descriptor === `${name}@npm:${range}`)) {
+      return version;
+    }
+    fallback = fallback || version;
+  }
+  return fallback;
+}
+
+/**
+ * Version pnpm resolved `name` to for the project at `importer` (its path from the lockfile, empty for the root)
+ */
+function parsePnpmLock(text: string, name: string, importer: string): string | undefined {
+  const lines = text.split(/\r?\n/);
+  const importersAt = lines.indexOf('importers:');
+  if (importersAt === -1) {
+    // Lockfiles of single projects list their dependencies at the top level
+    return findPnpmDependency(lines, 0, name);
+  }
+
+  const key = importer || '.';
+  const start = lines.findIndex((line, index) =>
+    index > importersAt && /^ {2}\S/.test(line) && line.trim().replace(/:$/, '').replace(/^['"]|['"]$/g, '') === key);
+  if (start === -1) {
+    return undefined;
+  }
+  const end = lines.findIndex((line, index) => index > start && /^ {0,2}\S/.test(line));
+  return findPnpmDependency(lines.slice(start + 1, end === -1 ? undefined : end), 4, name);
+}
+
+/**
+ * `name` in the dependencies sections at `indent` of a pnpm lockfile block: `name: 2.9.6` in lockfile v5,
+ * or a `version: 2.9.6` line under it from v6 on. Peer dependency suffixes are dropped.
+ */
+function findPnpmDependency(lines: string[], indent: number, name: string): string | undefined {
+  let inDependencies = false;
+  for (let i = 0; i < lines.length; i++) {
+    const lineIndent = lines[i].search(/\S/);
+    if (lineIndent === -1 || lineIndent < indent) {
+      continue;
+    }
+    if (lineIndent === indent) {
+      inDependencies = /^(dependencies|devDependencies|optionalDependencies):\s*$/.test(lines[i].trim());
+      continue;
+    }
+    const entry = lines[i].trim().match(/^['"]?([^'"]+?)['"]?:\s*(.*)$/);
+    if (!inDependencies || lineIndent !== indent + 2 || entry?.[1] !== name) {
+      continue;
+    }
+
+    let value = entry[2];
+    for (let j = i + 1; !value && j < lines.length && lines[j].search(/\S/) > lineIndent; j++) {
+      value = lines[j].trim().match(/^version:\s*(.+)$/)?.[1] || '';
+    }
+    return value.replace(/^['"]|['"]$/g, '').split(/[(_]/)[0] || undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,286 @@
+/**
+ * Razorpay SDK, by the name the installer and the version checks use for it
+ */
+export type SDKId = 'node' | 'react' | 'python' | 'go' | 'ruby' | 'java' | 'android' | 'ios' | 'php' | 'flutter';
+
+export interface SDKBreakingChange {
+  /** First release with the change */
+  version: string;
+  summary: string;
+  /** What to change in code written for earlier releases */
+  migration: string;
+}
+
+export interface SDKRelease {
+  package: string;
+  latest: string;
+  /** Releases below this one are no longer maintained */
+  deprecatedBelow?: string;
+  deprecationNote?: string;
+  /** Oldest first */
+  breakingChanges: SDKBreakingChange[];
+  /** How to move to the latest release */
+  upgrade: string;
+  changelog: string;
+}
+
+/**
+ * Version of the SDK a project uses, as read from its lockfile, installed packages or manifest
+ */
+export interface InstalledSDKVersion {
+  sdk: SDKId;
+  package: string;
+  /** Exact version, or the lowest one `range` allows when nothing pins the version */
+  version: string;
+  /** Constraint declared in the manifest; undefined when the version is locked or installed */
+  range?: string;
+  /** File the version was read from, relative to the project */
+  source: string;
+}
+
+export type SDKVersionStatus = 'latest' | 'outdated' | 'deprecated';
+
+export interface SDKVersionAdvice {
+  installed: InstalledSDKVersion;
+  release: SDKRelease;
+  status: SDKVersionStatus;
+  /** Breaking changes released after the installed version, oldest first */
+  changes: SDKBreakingChange[];
+}
+
+/**
+ * Known SDK releases, bundled so versions can be checked offline. Update `latest` and add breaking changes
+ * when an SDK ships a release.
+ */
+export const sdkReleases: Record<SDKId, SDKRelease> = {
+  node: {
+    package: 'razorpay',
+    latest: '2.9.6',
+    deprecatedBelow: '2.0.0',
+    deprecationNote: 'razorpay 1.x is no longer maintained.',
+    breakingChanges: [
+      {
+        version: '2.8.0',
+        summary: 'The package ships its own TypeScript declarations.',
+        migration: 'Remove @types/razorpay from devDependencies; the bundled declarations replace it.',
+      },
+    ],
+    upgrade: 'npm install razorpay@latest (or yarn add / pnpm add razorpay@latest)',
+    changelog: 'https://github.com/razorpay/razorpay-node/blob/master/CHANGELOG.md',
+  },
+  react: {
+    package: 'react-razorpay',
+    latest: '3.0.1',
+    deprecatedBelow: '2.0.0',
+    deprecationNote: 'react-razorpay 1.x is no longer maintained.',
+    breakingChanges: [
+      {
+        version: '3.0.0',
+        summary: 'useRazorpay is a named export and returns an object instead of an array.',
+        migration: 'Replace `import useRazorpay from "react-razorpay"` and `const [Razorpay] = useRazorpay()` with '
+          + '`import { useRazorpay } from "react-razorpay"` and `const { Razorpay, isLoading, error } = useRazorpay()`. '
+          + 'Wait for isLoading to be false before opening Checkout.',
+      },
+    ],
+    upgrade: 'npm install react-razorpay@latest (or yarn add / pnpm add react-razorpay@latest)',
+    changelog: 'https://github.com/razorpay/react-razorpay/releases',
+  },
+  python: {
+    package: 'razorpay',
+    latest: '1.4.2',
+    breakingChanges: [],
+    upgrade: 'pip install --upgrade razorpay, then update the pinned version in requirements.txt or pyproject.toml',
+    changelog: 'https://github.com/razorpay/razorpay-python/blob/master/CHANGELOG.md',
+  },
+  go: {
+    package: 'github.com/razorpay/razorpay-go',
+    latest: '1.3.0',
+    breakingChanges: [],
+    upgrade: 'go get github.com/razorpay/razorpay-go@latest && go mod tidy',
+    changelog: 'https://github.com/razorpay/razorpay-go/releases',
+  },
+  ruby: {
+    package: 'razorpay',
+    latest: '3.2.0',
+    deprecatedBelow: '3.0.0',
+    deprecationNote: 'razorpay 2.x is no longer maintained.',
+    breakingChanges: [],
+    upgrade: 'bundle update razorpay',
+    changelog: 'https://github.com/razorpay/razorpay-ruby/blob/master/CHANGELOG.md',
+  },
+  java: {
+    package: 'com.razorpay:razorpay-java',
+    latest: '1.4.8',
+    breakingChanges: [],
+    upgrade: 'Set the razorpay-java version in pom.xml or build.gradle to the latest release',
+    changelog: 'https://github.com/razorpay/razorpay-java/releases',
+  },
+  android: {
+    package: 'com.razorpay:razorpay-android',
+    latest: '1.6.33',
+    breakingChanges: [],
+    upgrade: 'Set the razorpay-android version in app/build.gradle to the latest release',
+    changelog: 'https://razorpay.com/docs/payments/payment-gateway/android-integration/standard/',
+  },
+  ios: {
+    package: 'razorpay-pod',
+    latest: '1.2.0',
+    breakingChanges: [],
+    upgrade: 'pod update razorpay-pod',
+    changelog: 'https://razorpay.com/docs/payments/payment-gateway/ios-integration/standard/',
+  },
+  php: {
+    package: 'razorpay/razorpay',
+    latest: '2.9.0',
+    deprecatedBelow: '2.0.0',
+    deprecationNote: 'razorpay/razorpay 1.x is no longer maintained.',
+    breakingChanges: [],
+    upgrade: 'composer update razorpay/razorpay',
+    changelog: 'https://github.com/razorpay/razorpay-php/releases',
+  },
+  flutter: {
+    package: 'razorpay_flutter',
+    latest: '1.3.7',
+    breakingChanges: [],
+    upgrade: 'flutter pub upgrade razorpay_flutter',
+    changelog: 'https://pub.dev/packages/razorpay_flutter/changelog',
+  },
+};
+
+/**
+ * How an installed SDK compares to the latest known release
+ */
+export function getSDKAdvice(installed: InstalledSDKVersion): SDKVersionAdvice {
+  const release = sdkReleases[installed.sdk];
+  const changes = release.breakingChanges.filter(change => compareVersions(change.version, installed.version) > 0);
+
+  let status: SDKVersionStatus = 'latest';
+  if (release.deprecatedBelow && compareVersions(installed.version, release.deprecatedBelow) < 0) {
+    status = 'deprecated';
+  } else if (compareVersions(installed.version, release.latest) < 0) {
+    // Nothing is locked, so a fresh install resolves the range to the latest release it allows
+    status = installed.range && satisfies(installed.range, release.latest) ? 'latest' : 'outdated';
+  }
+
+  return { installed, release, status, changes: status === 'latest' ? [] : changes };
+}
+
+/**
+ * Upgrade notes for a project's SDK, as Markdown
+ */
+export function getUpgradeGuide(advice: SDKVersionAdvice, projectName: string): string {
+  const { installed, release } = advice;
+  const lines = [
+    `# Upgrading ${release.package} in ${projectName}`,
+    '',
+    `- Using: ${installed.range ? `${installed.range} (declared, nothing locked)` : installed.version}, from \`${installed.source}\``,
+    `- Latest known release: ${release.latest}`,
+    '',
+  ];
+  if (advice.status === 'deprecated' && release.deprecationNote) {
+    lines.push(`> **Deprecated:** ${release.deprecationNote}`, '');
+  }
+
+  if (advice.changes.length > 0) {
+    lines.push('## Breaking changes since your version', '');
+    for (const change of advice.changes) {
+      lines.push(`### ${change.version}`, '', change.summary, '', `**Migration:** ${change.migration}`, '');
+    }
+  }
+
+  lines.push('## Upgrade', '', release.upgrade, '', `Release notes: ${release.changelog}`, '');
+  return lines.join('\n');
+}
+
+/**
+ * Compare dotted versions such as 2.9.6, v1.3.0 or 3.0.0-beta.1; a pre-release sorts before its release
+ * @returns negative, zero or positive like a sort comparator
+ */
+export function compareVersions(a: string, b: string): number {
+  const [mainA, preA] = splitVersion(a);
+  const [mainB, preB] = splitVersion(b);
+  for (let i = 0; i < Math.max(mainA.length, mainB.length); i++) {
+    const diff = (mainA[i] || 0) - (mainB[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  if (preA === preB) {
+    return 0;
+  }
+  if (!preA || !preB) {
+    return preA ? -1 : 1;
+  }
+  return preA.localeCompare(preB, undefined, { numeric: true });
+}
+
+/**
+ * The lowest version a constraint such as ^2.9.0, >=1.4, ~> 3.2 or v1.3.0 allows
+ */
+export function getLowerBound(range: string): string | undefined {
+  return range.match(/\d+(?:\.\d+)*(?:-[\w.]+)?/)?.[0];
+}
+
+/**
+ * Whether `version` meets a constraint in npm, pub, Composer, pip, Bundler or CocoaPods syntax.
+ * Unrecognised constraints are treated as not met.
+ */
+export function satisfies(range: string, version: string): boolean {
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().replace(/(>=|<=|~>|~=|==|[<>^~=])\s+/g, '$1').split(/[\s,]+/).filter(Boolean);
+    if (comparators.length === 0) {
+      return true;
+    }
+    return comparators.every(comparator => matchesComparator(comparator, version));
+  });
+}
+
+function matchesComparator(comparator: string, version: string): boolean {
+  if (comparator === '*' || comparator === 'x' || comparator === 'latest' || comparator === 'any') {
+    return true;
+  }
+  const match = comparator.match(/^(>=|<=|~>|~=|==|[<>^~=])?v?(\d+(?:\.(?:\d+|[x*]))*(?:-[\w.]+)?)$/);
+  if (!match) {
+    return false;
+  }
+  const [, operator = '', bound] = match;
+  const parts = bound.split('-')[0].split('.');
+  const wildcard = parts.findIndex(part => part === 'x' || part === '*');
+  const cmp = compareVersions(version, bound.replace(/\.[x*]/g, ''));
+
+  switch (operator) {
+    case '>=': return cmp >= 0;
+    case '>': return cmp > 0;
+    case '<=': return cmp <= 0;
+    case '<': return cmp < 0;
+    case '^': {
+      // Up to the next release that changes the first non-zero part
+      const nonZero = parts.findIndex(part => part !== '0');
+      return cmp >= 0 && compareVersions(version, bump(parts, nonZero === -1 ? parts.length - 1 : nonZero)) < 0;
+    }
+    case '~':
+      return cmp >= 0 && compareVersions(version, bump(parts, parts.length > 1 ? 1 : 0)) < 0;
+    case '~>':
+    case '~=':
+      // Pessimistic: only the last given part may grow
+      return cmp >= 0 && compareVersions(version, bump(parts, Math.max(parts.length - 2, 0))) < 0;
+    default:
+      if (wildcard !== -1) {
+        return cmp >= 0 && compareVersions(version, bump(parts, Math.max(wildcard - 1, 0))) < 0;
+      }
+      return cmp === 0;
+  }
+}
+
+/**
+ * The first version after `parts` that changes the part at `index`, e.g. 2.9.6 at index 0 is 3.0.0
+ */
+function bump(parts: string[], index: number): string {
+  return parts.slice(0, index + 1).map((part, i) => i === index ? String(Number(part) + 1) : part).join('.');
+}
+
+function splitVersion(version: string): [number[], string] {
+  // Build metadata (+...) does not affect ordering
+  const [main, ...pre] = version.trim().replace(/^v/, '').split('+')[0].split('-');
+  return [main.split('.').map(part => parseInt(part, 10) || 0), pre.join('-')];
+}
@@ -0,0 +1,70 @@
+/**
+ * One event of a `text/event-stream` body
+ */
+export interface ServerSentEvent {
+  /** Value of the `event:` field; undefined for plain `message` events */
+  event?: string;
+  /** `data:` lines of the event, joined with newlines */
+  data: string;
+}
+
+/**
+ * Incremental parser for `text/event-stream` bodies: feed it chunks as they arrive and it reports each event
+ * once the blank line ending it has been read, so answers can be shown while they stream.
+ * Reference: https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+export class SSEParser {
+  private buffer = '';
+  private event: string | undefined;
+  private data: string[] = [];
+
+  constructor(private onEvent: (event: ServerSentEvent) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    // The last piece may be a line cut off mid-chunk
+    this.buffer = lines.pop() || '';
+    lines.forEach(line => this.parseLine(line.replace(/\r$/, '')));
+  }
+
+  /**
+   * Flush an event left without its closing blank line when the stream ends
+   */
+  end(): void {
+    if (this.buffer) {
+      this.parseLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  private parseLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      // Comment, often sent as a keep-alive
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    const value = colon === -1 ? '' : line.substring(colon + 1).replace(/^ /, '');
+
+    if (field === 'data') {
+      this.data.push(value);
+    } else if (field === 'event') {
+      this.event = value;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data.length > 0) {
+      this.onEvent({ event: this.event, data: this.data.join('\n') });
+    }
+    this.event = undefined;
+    this.data = [];
+  }
+}
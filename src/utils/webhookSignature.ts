@@ -0,0 +1,23 @@
+import * as crypto from 'crypto';
+
+/**
+ * Compute the `X-Razorpay-Signature` value for a webhook body.
+ * Razorpay signs the raw request body with HMAC-SHA256 using the webhook secret.
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Verify a webhook body against the signature sent in `X-Razorpay-Signature`.
+ */
+export function verifyWebhookSignature(body: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(body, secret), 'utf8');
+  const received = Buffer.from(signature, 'utf8');
+
+  if (expected.length !== received.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expected, received);
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import type { RazorpayService } from '../services/razorpayService';
+import type { Logger } from '../utils/logger';
+import type { RazorpayCustomer, RazorpayToken } from '../types';
+
+const RECENT_CUSTOMERS_COUNT = 25;
+
+/**
+ * Tree view provider for the Customers pane.
+ * Lists recent customers; each customer expands into its saved tokens.
+ */
+export class CustomersTreeProvider implements vscode.TreeDataProvider<CustomersTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<CustomersTreeItem | undefined | null | void> =
+    new vscode.EventEmitter<CustomersTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<CustomersTreeItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  constructor(
+    private razorpayService: RazorpayService,
+    private logger: Logger,
+  ) {}
+
+  getTreeItem(element: CustomersTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: CustomersTreeItem): Promise<CustomersTreeItem[]> {
+    if (element) {
+      return element.customer ? this.getTokenItems(element.customer) : [];
+    }
+
+    if (!this.razorpayService.isInitialized()) {
+      const item = new CustomersTreeItem('Configure Razorpay credentials', 'customers-not-configured');
+      item.iconPath = new vscode.ThemeIcon('gear');
+      item.command = {
+        command: 'razorpay.setCredentials',
+        title: 'Set Credentials',
+      };
+      return [item];
+    }
+
+    try {
+      const customers = await this.razorpayService.listCustomers({ count: RECENT_CUSTOMERS_COUNT });
+      if (customers.items.length === 0) {
+        const item = new CustomersTreeItem('No customers yet', 'customers-empty');
+        item.iconPath = new vscode.ThemeIcon('info');
+        return [item];
+      }
+      return customers.items.map(customer => CustomersTreeItem.fromCustomer(customer));
+    } catch (error) {
+      this.logger.error('Failed to load customers', error as Error);
+      const item = new CustomersTreeItem(
+        `Failed to load customers: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'customers-error',
+      );
+      item.iconPath = new vscode.ThemeIcon('error');
+      return [item];
+    }
+  }
+
+  private async getTokenItems(customer: RazorpayCustomer): Promise<CustomersTreeItem[]> {
+    try {
+      const tokens = await this.razorpayService.fetchTokens(customer.id);
+      if (tokens.items.length === 0) {
+        const item = new CustomersTreeItem('No saved tokens', 'tokens-empty');
+        item.iconPath = new vscode.ThemeIcon('info');
+        return [item];
+      }
+      return tokens.items.map(token => CustomersTreeItem.fromToken(customer, token));
+    } catch (error) {
+      this.logger.error(`Failed to load tokens for customer ${customer.id}`, error as Error);
+      const item = new CustomersTreeItem(
+        `Failed to load tokens: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'tokens-error',
+      );
+      item.iconPath = new vscode.ThemeIcon('error');
+      return [item];
+    }
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+}
+
+export class CustomersTreeItem extends vscode.TreeItem {
+  customer?: RazorpayCustomer;
+  token?: RazorpayToken;
+
+  constructor(
+    label: string,
+    contextValue: string,
+    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+  ) {
+    super(label, collapsibleState);
+    this.contextValue = contextValue;
+  }
+
+  static fromCustomer(customer: RazorpayCustomer): CustomersTreeItem {
+    const item = new CustomersTreeItem(
+      customer.name || customer.id,
+      'customer',
+      vscode.TreeItemCollapsibleState.Collapsed,
+    );
+    item.customer = customer;
+    item.description = customer.email || customer.contact || customer.id;
+    item.tooltip = [
+      customer.id,
+      `Name: ${customer.name || 'N/A'}`,
+      `Email: ${customer.email || 'N/A'}`,
+      `Contact: ${customer.contact || 'N/A'}`,
+      `GSTIN: ${customer.gstin || 'N/A'}`,
+      `Created: ${new Date(customer.created_at * 1000).toLocaleString()}`,
+    ].join('\n');
+    item.iconPath = new vscode.ThemeIcon('person');
+    return item;
+  }
+
+  static fromToken(customer: RazorpayCustomer, token: RazorpayToken): CustomersTreeItem {
+    const item = new CustomersTreeItem(CustomersTreeItem.getTokenLabel(token), 'customerToken');
+    item.customer = customer;
+    item.token = token;
+    item.description = token.id;
+    item.tooltip = [
+      token.id,
+      `Method: ${token.method}`,
+      `Recurring: ${token.recurring ? 'yes' : 'no'}`,
+      `Last used: ${token.used_at ? new Date(token.used_at * 1000).toLocaleString() : 'never'}`,
+      `Expires: ${new Date(token.expired_at * 1000).toLocaleString()}`,
+    ].join('\n');
+    item.iconPath = new vscode.ThemeIcon(CustomersTreeItem.getIconForMethod(token.method));
+    return item;
+  }
+
+  private static getTokenLabel(token: RazorpayToken): string {
+    if (token.card) {
+      return `${token.card.network} •••• ${token.card.last4}`;
+    }
+    if (token.vpa && token.vpa.username) {
+      return `${token.vpa.username}@${token.vpa.handle}`;
+    }
+    return token.bank || token.wallet || token.method;
+  }
+
+  private static getIconForMethod(method: string): string {
+    switch (method) {
+      case 'card':
+        return 'credit-card';
+      case 'upi':
+        return 'device-mobile';
+      case 'wallet':
+        return 'briefcase';
+      default:
+        return 'key';
+    }
+  }
+}
@@ -38,6 +38,20 @@ export class EventsTreeProvider implements vscode.TreeDataProvider<EventsTreeIte
           undefined,
           new vscode.ThemeIcon('arrow-left')
         ),
+        new EventsTreeItem(
+          'Subscriptions',
+          'events-subscriptions',
+          vscode.TreeItemCollapsibleState.Expanded,
+          undefined,
+          new vscode.ThemeIcon('sync')
+        ),
+        new EventsTreeItem(
+          'Webhooks',
+          'events-webhooks',
+          vscode.TreeItemCollapsibleState.Expanded,
+          undefined,
+          new vscode.ThemeIcon('radio-tower')
+        ),
       ]);
     } else if (element.id === 'events-orders') {
       return Promise.resolve([
@@ -52,6 +66,17 @@ export class EventsTreeProvider implements vscode.TreeDataProvider<EventsTreeIte
           },
           new vscode.ThemeIcon('add')
         ),
+        new EventsTreeItem(
+          'Browse Orders',
+          'event-order-browse',
+          vscode.TreeItemCollapsibleState.None,
+          {
+            command: 'razorpay.openEvents',
+            title: 'Browse Orders',
+            arguments: ['orders'],
+          },
+          new vscode.ThemeIcon('list-unordered')
+        ),
       ]);
     } else if (element.id === 'events-payments') {
       return Promise.resolve([
@@ -81,6 +106,45 @@ export class EventsTreeProvider implements vscode.TreeDataProvider<EventsTreeIte
           new vscode.ThemeIcon('add')
         ),
       ]);
+    } else if (element.id === 'events-subscriptions') {
+      return Promise.resolve([
+        new EventsTreeItem(
+          'Plans & Subscriptions',
+          'event-subscriptions',
+          vscode.TreeItemCollapsibleState.None,
+          {
+            command: 'razorpay.openEvents',
+            title: 'Plans & Subscriptions',
+            arguments: ['subscriptions'],
+          },
+          new vscode.ThemeIcon('calendar')
+        ),
+      ]);
+    } else if (element.id === 'events-webhooks') {
+      return Promise.resolve([
+        new EventsTreeItem(
+          'Send Test Webhook',
+          'event-webhook-synthetic',
+          vscode.TreeItemCollapsibleState.None,
+          {
+            command: 'razorpay.openEvents',
+            title: 'Send Test Webhook',
+            arguments: ['synthetic'],
+          },
+          new vscode.ThemeIcon('send')
+        ),
+        new EventsTreeItem(
+          'Webhook Inbox',
+          'event-webhook-inbox',
+          vscode.TreeItemCollapsibleState.None,
+          {
+            command: 'razorpay.openEvents',
+            title: 'Webhook Inbox',
+            arguments: ['webhooks'],
+          },
+          new vscode.ThemeIcon('inbox')
+        ),
+      ]);
     }
     return Promise.resolve([]);
   }
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import type { RazorpayService } from '../services/razorpayService';
+import type { Logger } from '../utils/logger';
+import type { RazorpayPayment, RazorpayPaymentStatus } from '../types';
+import { formatAmount } from '../utils/money';
+
+const RECENT_PAYMENTS_COUNT = 25;
+
+/**
+ * Tree view provider for the Payments pane.
+ * Lists recent payments for the configured account with their status.
+ */
+export class PaymentsTreeProvider implements vscode.TreeDataProvider<PaymentsTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<PaymentsTreeItem | undefined | null | void> =
+    new vscode.EventEmitter<PaymentsTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<PaymentsTreeItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  constructor(
+    private razorpayService: RazorpayService,
+    private logger: Logger,
+  ) {}
+
+  getTreeItem(element: PaymentsTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: PaymentsTreeItem): Promise<PaymentsTreeItem[]> {
+    if (element) {
+      return [];
+    }
+
+    if (!this.razorpayService.isInitialized()) {
+      const item = new PaymentsTreeItem('Configure Razorpay credentials', 'payments-not-configured');
+      item.iconPath = new vscode.ThemeIcon('gear');
+      item.command = {
+        command: 'razorpay.setCredentials',
+        title: 'Set Credentials',
+      };
+      return [item];
+    }
+
+    try {
+      const payments = await this.razorpayService.listPayments({ count: RECENT_PAYMENTS_COUNT });
+      if (payments.items.length === 0) {
+        const item = new PaymentsTreeItem('No payments yet', 'payments-empty');
+        item.iconPath = new vscode.ThemeIcon('info');
+        return [item];
+      }
+      return payments.items.map(payment => PaymentsTreeItem.fromPayment(payment));
+    } catch (error) {
+      this.logger.error('Failed to load payments', error as Error);
+      const item = new PaymentsTreeItem(
+        `Failed to load payments: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'payments-error',
+      );
+      item.iconPath = new vscode.ThemeIcon('error');
+      return [item];
+    }
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+}
+
+export class PaymentsTreeItem extends vscode.TreeItem {
+  payment?: RazorpayPayment;
+
+  constructor(label: string, contextValue: string) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = contextValue;
+  }
+
+  static fromPayment(payment: RazorpayPayment): PaymentsTreeItem {
+    const amount = formatAmount(payment.amount, payment.currency);
+    const item = new PaymentsTreeItem(payment.id, `payment-${payment.status}`);
+    item.payment = payment;
+    item.description = `${amount} · ${payment.status}`;
+    item.tooltip = [
+      payment.id,
+      `Amount: ${amount}`,
+      `Status: ${payment.status}`,
+      `Method: ${payment.method}`,
+      `Order: ${payment.order_id || 'N/A'}`,
+      `Created: ${new Date(payment.created_at * 1000).toLocaleString()}`,
+    ].join('\n');
+    item.iconPath = PaymentsTreeItem.getIconForStatus(payment.status);
+    return item;
+  }
+
+  private static getIconForStatus(status: RazorpayPaymentStatus): vscode.ThemeIcon {
+    switch (status) {
+      case 'captured':
+        return new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green'));
+      case 'authorized':
+        return new vscode.ThemeIcon('unlock', new vscode.ThemeColor('charts.blue'));
+      case 'refunded':
+        return new vscode.ThemeIcon('arrow-left', new vscode.ThemeColor('charts.purple'));
+      case 'failed':
+        return new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+      default:
+        return new vscode.ThemeIcon('circle-outline');
+    }
+  }
+}
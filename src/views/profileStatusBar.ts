@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { CredentialManager } from '../services/credentialManager';
+
+/**
+ * Status bar item showing the active Razorpay profile and whether it uses test or live keys.
+ * Clicking it opens the profile switcher.
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private credentialManager: CredentialManager) {
+    this.item = vscode.window.createStatusBarItem('razorpay.profile', vscode.StatusBarAlignment.Left, 50);
+    this.item.name = 'Razorpay Profile';
+    this.item.command = 'razorpay.switchProfile';
+    this.disposables.push(
+      this.item,
+      credentialManager.onDidChange(change => {
+        if (change === 'profile' || change === 'keySecret') {
+          this.update();
+        }
+      }),
+    );
+    this.update();
+  }
+
+  async update(): Promise<void> {
+    const profile = this.credentialManager.getActiveProfile();
+
+    if (!profile) {
+      this.item.text = '$(key) Razorpay: Set Credentials';
+      this.item.tooltip = 'No Razorpay profile configured';
+      this.item.command = 'razorpay.setCredentials';
+      this.item.backgroundColor = undefined;
+      this.item.show();
+      return;
+    }
+
+    const mode = CredentialManager.getMode(profile.keyId);
+    const hasSecret = !!(await this.credentialManager.getRazorpayCredentials());
+
+    this.item.text = `${mode === 'live' ? '$(flame)' : '$(beaker)'} ${profile.name} · ${mode.toUpperCase()}`;
+    this.item.tooltip = [
+      `Razorpay profile: ${profile.name}`,
+      `Key ID: ${profile.keyId}`,
+      `Keys from ${CredentialManager.describeSource(profile)}`,
+      hasSecret ? `${mode === 'live' ? 'Live' : 'Test'} mode` : 'Key Secret missing. Run "Razorpay: Set Credentials"',
+      '',
+      'Click to switch profiles',
+    ].join('\n');
+    this.item.command = 'razorpay.switchProfile';
+    this.item.backgroundColor = mode === 'live'
+      ? new vscode.ThemeColor('statusBarItem.errorBackground')
+      : hasSecret ? undefined : new vscode.ThemeColor('statusBarItem.warningBackground');
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -1,30 +1,238 @@
 import * as vscode from 'vscode';
 import { sdkSnippetTemplates } from '../snippets/sdkTemplates';
 import type { SnippetTemplate } from '../types';
+import type { Logger } from '../utils/logger';
+import { ProjectDetector, ProjectInfo } from '../utils/projectDetector';
+import { getSDKAdvice, SDKVersionAdvice } from '../utils/sdkVersions';
+
+const SELECTED_PROJECT_STATE_KEY = 'razorpay.sdk.selectedProject';
+/** Manifests and lockfiles whose changes can add a project or change its SDK status or version */
+const MANIFEST_GLOB = '**/{package.json,pnpm-workspace.yaml,go.mod,go.work,pom.xml,build.gradle,build.gradle.kts,settings.gradle,settings.gradle.kts,'
+  + 'requirements.txt,pyproject.toml,setup.py,composer.json,Gemfile,pubspec.yaml,Podfile,'
+  + 'package-lock.json,yarn.lock,pnpm-lock.yaml,poetry.lock,uv.lock,Pipfile.lock,go.sum,Gemfile.lock,composer.lock,pubspec.lock,Podfile.lock,gradle.lockfile}';
+const RESCAN_DELAY_MS = 1000;
 
 /**
  * Tree view provider for the SDK Integration pane.
- * Shows SDK templates organized by category (Frontend/Backend).
+ * Shows the projects detected in the workspace, with the one being set up selected and upgrade notes for
+ * outdated SDKs, and SDK templates organized by category (Frontend/Backend).
  */
-export class SDKIntegrationTreeProvider implements vscode.TreeDataProvider<SDKIntegrationTreeItem> {
+export class SDKIntegrationTreeProvider implements vscode.TreeDataProvider<SDKIntegrationTreeItem>, vscode.Disposable {
   private _onDidChangeTreeData: vscode.EventEmitter<SDKIntegrationTreeItem | undefined | null | void> = 
     new vscode.EventEmitter<SDKIntegrationTreeItem | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<SDKIntegrationTreeItem | undefined | null | void> = 
     this._onDidChangeTreeData.event;
 
+  /** Detection result, kept until a manifest or the workspace folders change */
+  private projects: Promise<ProjectInfo[]> | undefined;
+  private rescanTimer: NodeJS.Timeout | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private workspaceState: vscode.Memento,
+    private logger: Logger,
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher(MANIFEST_GLOB);
+    const onManifestChange = (uri: vscode.Uri) => {
+      if (!uri.path.includes('/node_modules/')) {
+        this.scheduleRescan();
+      }
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(onManifestChange),
+      watcher.onDidChange(onManifestChange),
+      watcher.onDidDelete(onManifestChange),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refreshProjects()),
+    );
+  }
+
   getTreeItem(element: SDKIntegrationTreeItem): vscode.TreeItem {
     return element;
   }
 
-  getChildren(element?: SDKIntegrationTreeItem): Thenable<SDKIntegrationTreeItem[]> {
+  async getChildren(element?: SDKIntegrationTreeItem): Promise<SDKIntegrationTreeItem[]> {
     if (!element) {
-      // Root level - return categories
-      return Promise.resolve(this.getCategories());
+      // Root level - return the project selector and categories
+      return [await this.getProjectSelector(), ...this.getCategories()];
+    } else if (element.category === 'projects') {
+      return this.getProjectItems();
+    } else if (element.project) {
+      return this.getAdviceItems(element.project);
     } else if (element.category) {
       // Category level - return templates in this category
-      return Promise.resolve(this.getTemplatesForCategory(element.category));
+      return this.getTemplatesForCategory(element.category);
     }
-    return Promise.resolve([]);
+    return [];
+  }
+
+  /**
+   * Projects in the workspace folders, including the sub-projects of monorepos
+   */
+  getProjects(): Promise<ProjectInfo[]> {
+    if (!this.projects) {
+      this.projects = ProjectDetector.detectProjects().catch((error: Error) => {
+        this.logger.error('Failed to detect projects', error);
+        return [];
+      });
+    }
+    return this.projects;
+  }
+
+  /**
+   * The project SDK setup applies to: the one picked in the view, or the only one detected
+   */
+  async getSelectedProject(): Promise<ProjectInfo | undefined> {
+    const projects = await this.getProjects();
+    const selected = this.workspaceState.get<string>(SELECTED_PROJECT_STATE_KEY);
+    return projects.find(project => project.rootPath === selected) || (projects.length === 1 ? projects[0] : undefined);
+  }
+
+  async selectProject(project: ProjectInfo): Promise<void> {
+    await this.workspaceState.update(SELECTED_PROJECT_STATE_KEY, project.rootPath);
+    this.logger.info(`SDK setup project: ${project.rootPath}`);
+    this.refresh();
+  }
+
+  /**
+   * Name of a project as shown in the view: its path in the workspace folder, prefixed with the folder when
+   * there are several
+   */
+  static getProjectName(project: ProjectInfo): string {
+    const multiRoot = (vscode.workspace.workspaceFolders?.length || 0) > 1;
+    const folder = project.workspaceFolder || '';
+    if (!project.relativePath) {
+      return folder || project.rootPath;
+    }
+    return multiRoot ? `${folder}/${project.relativePath}` : project.relativePath;
+  }
+
+  static getProjectDescription(project: ProjectInfo): string {
+    if (!project.hasSDK) {
+      return `${project.type} · SDK not installed`;
+    }
+    if (!project.sdkVersion) {
+      return `${project.type} · ${project.sdkPackage || 'SDK'} installed`;
+    }
+
+    const { installed, release, status } = getSDKAdvice(project.sdkVersion);
+    const version = `${installed.package} ${installed.range || installed.version}`;
+    if (status === 'deprecated') {
+      return `${project.type} · ${version}, deprecated`;
+    }
+    return `${project.type} · ${status === 'outdated' ? `${version}, ${release.latest} available` : version}`;
+  }
+
+  /**
+   * How the project's SDK compares to the latest release; undefined when its version is unknown
+   */
+  static getSDKAdvice(project: ProjectInfo): SDKVersionAdvice | undefined {
+    return project.sdkVersion ? getSDKAdvice(project.sdkVersion) : undefined;
+  }
+
+  private async getProjectSelector(): Promise<SDKIntegrationTreeItem> {
+    const projects = await this.getProjects();
+    const selected = await this.getSelectedProject();
+
+    const item = new SDKIntegrationTreeItem(
+      'Project',
+      projects.length > 1 && !selected ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+      undefined,
+      'projects',
+      new vscode.ThemeIcon('folder-library'),
+    );
+    if (selected) {
+      item.description = SDKIntegrationTreeProvider.getProjectName(selected);
+    } else {
+      item.description = projects.length > 0 ? `${projects.length} detected, none selected` : 'none detected';
+    }
+    return item;
+  }
+
+  private async getProjectItems(): Promise<SDKIntegrationTreeItem[]> {
+    const projects = await this.getProjects();
+    if (projects.length === 0) {
+      return [new SDKIntegrationTreeItem(
+        'No projects detected',
+        vscode.TreeItemCollapsibleState.None,
+        undefined,
+        undefined,
+        new vscode.ThemeIcon('info'),
+      )];
+    }
+
+    const selected = await this.getSelectedProject();
+    return projects.map(project => {
+      const isSelected = project.rootPath === selected?.rootPath;
+      const advice = SDKIntegrationTreeProvider.getSDKAdvice(project);
+      const needsUpgrade = advice !== undefined && advice.status !== 'latest';
+
+      let icon = isSelected ? 'check' : 'folder';
+      if (!isSelected && needsUpgrade) {
+        icon = advice.status === 'deprecated' ? 'warning' : 'arrow-circle-up';
+      }
+      const item = new SDKIntegrationTreeItem(
+        SDKIntegrationTreeProvider.getProjectName(project),
+        // Outdated SDKs expand to their upgrade notes
+        needsUpgrade ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        undefined,
+        undefined,
+        new vscode.ThemeIcon(icon),
+        project,
+      );
+      item.description = SDKIntegrationTreeProvider.getProjectDescription(project);
+      item.tooltip = [
+        project.rootPath,
+        project.workspaceTool ? `Listed in the ${project.workspaceTool} workspace` : undefined,
+        project.sdkVersion ? `SDK version from ${project.sdkVersion.source}` : undefined,
+        isSelected ? 'Selected for SDK setup' : 'Click to set up the SDK in this project',
+      ].filter(Boolean).join('\n');
+      return item;
+    });
+  }
+
+  /**
+   * What is wrong with the project's SDK version and what changed since, for outdated and deprecated SDKs
+   */
+  private getAdviceItems(project: ProjectInfo): SDKIntegrationTreeItem[] {
+    const advice = SDKIntegrationTreeProvider.getSDKAdvice(project);
+    if (!advice || advice.status === 'latest') {
+      return [];
+    }
+
+    const { installed, release } = advice;
+    const note = (label: string, icon: string, tooltip?: string) => {
+      const item = new SDKIntegrationTreeItem(label, vscode.TreeItemCollapsibleState.None, undefined, undefined, new vscode.ThemeIcon(icon));
+      item.tooltip = tooltip;
+      return item;
+    };
+
+    const version = note(
+      `${installed.range || installed.version} → ${release.latest}`,
+      advice.status === 'deprecated' ? 'warning' : 'arrow-circle-up',
+      `${installed.package} ${installed.range ? `${installed.range} is declared and nothing is locked` : `${installed.version} is locked`}`
+        + ` in ${installed.source}; the latest release is ${release.latest}`,
+    );
+    version.description = installed.source;
+    const items = [version];
+
+    if (advice.status === 'deprecated' && release.deprecationNote) {
+      items.push(note(release.deprecationNote, 'error'));
+    }
+    for (const change of advice.changes) {
+      const item = note(`${change.version}: ${change.summary}`, 'note', change.migration);
+      item.description = 'breaking change';
+      items.push(item);
+    }
+
+    const guide = note('Show upgrade guide', 'book', release.changelog);
+    guide.command = {
+      command: 'razorpay.sdk.showUpgradeGuide',
+      title: 'Show Upgrade Guide',
+      arguments: [project],
+    };
+    items.push(guide);
+    return items;
   }
 
   private getCategories(): SDKIntegrationTreeItem[] {
@@ -86,19 +294,53 @@ export class SDKIntegrationTreeProvider implements vscode.TreeDataProvider<SDKIn
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
+
+  /**
+   * Detect the projects again, after SDKs are installed or packages added
+   */
+  refreshProjects(): void {
+    this.projects = undefined;
+    this.refresh();
+  }
+
+  private scheduleRescan(): void {
+    // Installs touch several manifests at once; scan once they settle
+    if (this.rescanTimer) {
+      clearTimeout(this.rescanTimer);
+    }
+    this.rescanTimer = setTimeout(() => {
+      this.rescanTimer = undefined;
+      this.refreshProjects();
+    }, RESCAN_DELAY_MS);
+  }
+
+  dispose(): void {
+    if (this.rescanTimer) {
+      clearTimeout(this.rescanTimer);
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
 }
 
-class SDKIntegrationTreeItem extends vscode.TreeItem {
+export class SDKIntegrationTreeItem extends vscode.TreeItem {
   constructor(
     public readonly label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly template?: SnippetTemplate,
     public readonly category?: string,
     public readonly iconPath?: vscode.ThemeIcon,
+    public readonly project?: ProjectInfo,
   ) {
     super(label, collapsibleState);
 
-    if (template) {
+    if (project) {
+      this.contextValue = 'sdkProject';
+      this.command = {
+        command: 'razorpay.sdk.selectProject',
+        title: 'Select Project',
+        arguments: [project],
+      };
+    } else if (template) {
       // This is a template item (leaf node)
       this.tooltip = template.description;
       this.description = template.description;
@@ -108,7 +350,7 @@ class SDKIntegrationTreeItem extends vscode.TreeItem {
         title: 'Insert SDK Template',
         arguments: [template.id],
       };
-    } else {
+    } else if (category) {
       // This is a category (folder node)
       this.contextValue = 'sdkCategory';
     }
@@ -77,6 +77,7 @@ export class SnippetsTreeProvider implements vscode.TreeDataProvider<SnippetsTre
       order: 'Orders',
       payment: 'Payments',
       refund: 'Refunds',
+      subscription: 'Subscriptions',
     };
 
     const categoryIcons: Record<string, string> = {
@@ -84,9 +85,10 @@ export class SnippetsTreeProvider implements vscode.TreeDataProvider<SnippetsTre
       order: 'package',
       payment: 'credit-card',
       refund: 'arrow-left',
+      subscription: 'sync',
     };
 
-    const categoryOrder = ['setup', 'order', 'payment', 'refund'];
+    const categoryOrder = ['setup', 'order', 'payment', 'refund', 'subscription'];
 
     return categoryOrder
       .filter((cat) => categories.has(cat))
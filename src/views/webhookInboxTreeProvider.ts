@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import type { CapturedWebhook, WebhookServer } from '../services/webhookServer';
+
+/**
+ * Tree view provider for the Webhook Inbox pane.
+ * Shows the listener status followed by captured webhook deliveries, newest first.
+ */
+export class WebhookInboxTreeProvider implements vscode.TreeDataProvider<WebhookInboxTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<WebhookInboxTreeItem | undefined | null | void> =
+    new vscode.EventEmitter<WebhookInboxTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<WebhookInboxTreeItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  constructor(private webhookServer: WebhookServer) {
+    webhookServer.onDidChangeState(() => this.refresh());
+  }
+
+  getTreeItem(element: WebhookInboxTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: WebhookInboxTreeItem): Thenable<WebhookInboxTreeItem[]> {
+    if (element) {
+      return Promise.resolve([]);
+    }
+
+    const items: WebhookInboxTreeItem[] = [this.getStatusItem()];
+    for (const event of this.webhookServer.getEvents()) {
+      items.push(this.getEventItem(event));
+    }
+    return Promise.resolve(items);
+  }
+
+  private getStatusItem(): WebhookInboxTreeItem {
+    const url = this.webhookServer.getUrl();
+    if (url) {
+      const item = new WebhookInboxTreeItem(
+        'Listening',
+        'webhook-listener-running',
+        {
+          command: 'razorpay.webhooks.stopListener',
+          title: 'Stop Webhook Listener',
+        },
+        new vscode.ThemeIcon('radio-tower', new vscode.ThemeColor('charts.green')),
+      );
+      item.description = url;
+      item.tooltip = `Receiving webhooks on ${url}. Click to stop.`;
+      return item;
+    }
+
+    const item = new WebhookInboxTreeItem(
+      'Start Webhook Listener',
+      'webhook-listener-stopped',
+      {
+        command: 'razorpay.webhooks.startListener',
+        title: 'Start Webhook Listener',
+      },
+      new vscode.ThemeIcon('debug-start'),
+    );
+    item.tooltip = 'Start a local HTTP listener for Razorpay webhooks';
+    return item;
+  }
+
+  private getEventItem(event: CapturedWebhook): WebhookInboxTreeItem {
+    const item = new WebhookInboxTreeItem(
+      event.event,
+      'webhookEvent',
+      {
+        command: 'razorpay.openEvents',
+        title: 'Show Webhook',
+        arguments: ['webhooks', event.id],
+      },
+      this.getIconForVerification(event),
+    );
+    item.webhookId = event.id;
+    item.description = `${new Date(event.receivedAt).toLocaleTimeString()} · ${this.getVerificationLabel(event)}`;
+    item.tooltip = `${event.event}\nReceived: ${new Date(event.receivedAt).toLocaleString()}\nSignature: ${this.getVerificationLabel(event)}`;
+    return item;
+  }
+
+  private getIconForVerification(event: CapturedWebhook): vscode.ThemeIcon {
+    switch (event.verification) {
+      case 'verified':
+        return new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green'));
+      case 'invalid':
+        return new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+      default:
+        return new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+    }
+  }
+
+  private getVerificationLabel(event: CapturedWebhook): string {
+    switch (event.verification) {
+      case 'verified':
+        return 'verified';
+      case 'invalid':
+        return 'invalid signature';
+      case 'missing_signature':
+        return 'no signature';
+      case 'no_secret':
+        return 'not verified (no secret)';
+    }
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+}
+
+export class WebhookInboxTreeItem extends vscode.TreeItem {
+  webhookId?: string;
+
+  constructor(
+    public readonly label: string,
+    contextValue: string,
+    public readonly command?: vscode.Command,
+    public readonly iconPath?: vscode.ThemeIcon,
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = contextValue;
+    if (iconPath) {
+      this.iconPath = iconPath;
+    }
+  }
+}
@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import * as https from 'https';
 import type { Logger } from '../utils/logger';
+import { SSEParser } from '../utils/sse';
+import { ConversationStore, ConversationTurn } from '../services/conversationStore';
+
+/** Previous turns sent with each question, so follow-up questions have context */
+const MAX_HISTORY_TURNS = 5;
 
 /**
  * Sidebar Chat View Provider for Razorpay AI Assistant
@@ -11,10 +16,13 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'razorpayAssistantChat';
 
   private _view?: vscode.WebviewView;
+  /** Aborts the Smartron request being streamed, when the user presses Stop */
+  private currentRequest?: AbortController;
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly conversations: ConversationStore
   ) {}
 
   public resolveWebviewView(
@@ -30,15 +38,132 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
     };
 
     webviewView.webview.html = this._getHtmlContent(webviewView.webview);
+    webviewView.onDidDispose(() => {
+      if (this._view === webviewView) {
+        this._view = undefined;
+      }
+    });
 
     // Handle messages from webview
     webviewView.webview.onDidReceiveMessage(async (message) => {
       switch (message.command) {
+        case 'ready':
+          this.postConversation();
+          break;
         case 'askQuestion':
           await this.handleQuestion(message.text);
           break;
+        case 'stop':
+          this.currentRequest?.abort();
+          break;
+        case 'newConversation':
+          // Created with the first question, so unused conversations don't pile up
+          await this.conversations.setActive(undefined);
+          this.postConversation();
+          break;
+        case 'openConversation':
+          await this.conversations.setActive(message.id);
+          this.postConversation();
+          break;
+        case 'renameConversation':
+          await this.renameConversation(message.id);
+          break;
+        case 'deleteConversation':
+          await this.deleteConversation(message.id);
+          break;
+        case 'exportConversation':
+          await this.exportConversation(message.id);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Show the active conversation and the conversation list
+   */
+  private postConversation(): void {
+    const conversation = this.conversations.getActive();
+    this._view?.webview.postMessage({
+      command: 'conversation',
+      id: conversation?.id,
+      messages: (conversation?.messages || []).map(m => ({ role: m.role, text: m.text })),
+    });
+    this.postConversationList();
+  }
+
+  private postConversationList(): void {
+    this._view?.webview.postMessage({
+      command: 'conversationList',
+      activeId: this.conversations.getActive()?.id,
+      conversations: this.conversations.list().map(c => ({
+        id: c.id,
+        title: c.title,
+        updatedAt: c.updatedAt,
+        messageCount: c.messages.length,
+      })),
+    });
+  }
+
+  private async renameConversation(id: string): Promise<void> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return;
+
+    const title = await vscode.window.showInputBox({
+      prompt: 'Conversation name',
+      value: conversation.title,
+      validateInput: value => value.trim() ? undefined : 'Enter a name',
+    });
+    if (title) {
+      await this.conversations.rename(id, title);
+      this.postConversationList();
+    }
+  }
+
+  private async deleteConversation(id: string): Promise<void> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return;
+
+    const choice = await vscode.window.showWarningMessage(
+      `Delete the conversation "${conversation.title}"?`,
+      { modal: true, detail: `${conversation.messages.length} messages will be removed from this workspace.` },
+      'Delete'
+    );
+    if (choice === 'Delete') {
+      const wasActive = this.conversations.getActive()?.id === id;
+      await this.conversations.delete(id);
+      if (wasActive) {
+        this.postConversation();
+      } else {
+        this.postConversationList();
       }
+    }
+  }
+
+  /**
+   * Save a conversation as a Markdown file
+   */
+  private async exportConversation(id: string | undefined): Promise<void> {
+    const conversation = id ? this.conversations.get(id) : this.conversations.getActive();
+    if (!conversation || conversation.messages.length === 0) {
+      vscode.window.showInformationMessage('There is nothing to export in this conversation yet.');
+      return;
+    }
+
+    const fileName = `${conversation.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'conversation'}.md`;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+      filters: { Markdown: ['md'] },
+      saveLabel: 'Export',
     });
+    if (!uri) return;
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(ConversationStore.toMarkdown(conversation), 'utf-8'));
+    this.logger.info(`Exported conversation to ${uri.fsPath}`);
+    const choice = await vscode.window.showInformationMessage(`Conversation exported to ${vscode.workspace.asRelativePath(uri)}`, 'Open');
+    if (choice === 'Open') {
+      await vscode.window.showTextDocument(uri);
+    }
   }
 
   private async handleQuestion(question: string): Promise<void> {
@@ -53,35 +178,73 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
       isLoading: true
     });
 
+    // The answer is saved even if the view is hidden before it arrives
+    const conversation = this.conversations.getActive() ?? await this.conversations.create();
+    const history = ConversationStore.getTurns(conversation, MAX_HISTORY_TURNS);
+    await this.conversations.append(conversation.id, { role: 'user', text: question });
+    this.postConversationList();
+
+    const controller = new AbortController();
+    this.currentRequest = controller;
+    let streamed = '';
+
     try {
-      const response = await this.callSmartronAPI(question);
+      const response = await this.callSmartronAPI(question, history, controller.signal, text => {
+        streamed += text;
+        this._view?.webview.postMessage({ command: 'stream', text });
+      });
 
-      this._view.webview.postMessage({
+      await this.conversations.append(conversation.id, { role: 'assistant', text: response });
+      this._view?.webview.postMessage({
         command: 'response',
         text: response,
         isLoading: false
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        const text = `${streamed.trim()}\n\n*Stopped.*`.trim();
+        if (streamed.trim()) {
+          await this.conversations.append(conversation.id, { role: 'assistant', text });
+        }
+        this._view?.webview.postMessage({
+          command: 'response',
+          text,
+          isLoading: false
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error('Smartron API error', error as Error);
       
-      this._view.webview.postMessage({
+      this._view?.webview.postMessage({
         command: 'response',
         text: `Error: ${errorMessage}`,
         isLoading: false
       });
+    } finally {
+      if (this.currentRequest === controller) {
+        this.currentRequest = undefined;
+      }
+      this.postConversationList();
     }
   }
 
   /**
-   * Call Razorpay Smartron API for AI-powered assistance
-   * Response format: text/event-stream with plain markdown text
+   * Call Razorpay Smartron API for AI-powered assistance, passing each piece of the answer to `onText` as it arrives.
+   * The API sends `text/event-stream`, but some answers come back as plain markdown, so the body is sniffed
+   * @returns the whole answer
    */
-  private async callSmartronAPI(question: string): Promise<string> {
+  private async callSmartronAPI(
+    question: string,
+    history: ConversationTurn[],
+    signal: AbortSignal,
+    onText: (text: string) => void
+  ): Promise<string> {
     const requestBody = JSON.stringify({
       question: question,
       products: ['docs'],
-      history: [] 
+      history
     });
 
     return new Promise((resolve, reject) => {
@@ -90,6 +253,7 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
         port: 443,
         path: '/query',
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'text/event-stream',
@@ -103,48 +267,58 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
       };
 
       const req = https.request(options, (res) => {
-        let rawData = '';
+        let answer = '';
+        const emit = (text: string) => {
+          if (text) {
+            answer += text;
+            onText(text);
+          }
+        };
+
+        if ((res.statusCode || 0) >= 400) {
+          res.resume();
+          reject(new Error(`Smartron API returned HTTP ${res.statusCode}`));
+          return;
+        }
+
+        const parser = new SSEParser(event => {
+          if (event.data !== '[DONE]') {
+            emit(this.getEventText(event.data));
+          }
+        });
+        // Undecided until the first line shows whether the body is SSE or plain markdown
+        let format: 'sse' | 'text' | undefined;
+        let head = '';
 
-        res.on('data', (chunk) => {
-          rawData += chunk.toString();
+        const push = (chunk: string) => {
+          if (format === 'sse') {
+            parser.push(chunk);
+          } else {
+            emit(chunk);
+          }
+        };
+
+        res.setEncoding('utf-8');
+        res.on('data', (chunk: string) => {
+          if (format) {
+            push(chunk);
+            return;
+          }
+          head += chunk;
+          if (!head.trimStart().includes('\n')) {
+            return;
+          }
+          format = /^(data|event|id|retry)?:/.test(head.trimStart()) ? 'sse' : 'text';
+          push(head);
         });
 
         res.on('end', () => {
-          this.logger.info('Smartron API response length: ' + rawData.length);
-          
-          // The Smartron API returns text/event-stream with plain markdown text
-          let answer = rawData.trim();
-          
-          // If response contains SSE format "data:" lines, extract the text content
-          if (answer.includes('data:')) {
-            const lines = answer.split('\n');
-            const contentLines: string[] = [];
-            
-            for (const line of lines) {
-              const trimmedLine = line.trim();
-              if (trimmedLine.startsWith('data:')) {
-                const content = trimmedLine.substring(5).trim();
-                if (content && content !== '[DONE]') {
-                  try {
-                    const parsed = JSON.parse(content);
-                    const textContent = parsed.content || parsed.text || parsed.answer || 
-                                       parsed.response || parsed.delta?.content;
-                    if (textContent) {
-                      contentLines.push(textContent);
-                    }
-                  } catch {
-                    contentLines.push(content);
-                  }
-                }
-              } else if (trimmedLine && !trimmedLine.startsWith('event:') && !trimmedLine.startsWith(':')) {
-                contentLines.push(trimmedLine);
-              }
-            }
-            
-            if (contentLines.length > 0) {
-              answer = contentLines.join('\n');
-            }
+          if (!format && head) {
+            format = /^(data|event|id|retry)?:/.test(head.trimStart()) ? 'sse' : 'text';
+            push(head);
           }
+          parser.end();
+          this.logger.info('Smartron API response length: ' + answer.length);
 
           if (answer.trim()) {
             resolve(answer.trim());
@@ -169,6 +343,21 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * Text carried by one event: a JSON payload with the answer under one of several names, or plain text
+   */
+  private getEventText(data: string): string {
+    try {
+      const parsed = JSON.parse(data);
+      if (typeof parsed !== 'object' || parsed === null) {
+        return data;
+      }
+      return parsed.content || parsed.text || parsed.answer || parsed.response || parsed.delta?.content || '';
+    } catch {
+      return data;
+    }
+  }
+
   private _getHtmlContent(_webview: vscode.Webview): string {
     return `<!DOCTYPE html>
 <html lang="en">
@@ -212,6 +401,51 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
             opacity: 0.9;
             margin-top: 4px;
         }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 8px 12px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .conversation-title {
+            flex: 1;
+            font-size: 12px;
+            font-weight: 600;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .tool-btn {
+            padding: 4px 8px;
+            font-size: 11px;
+            border-radius: 6px;
+            cursor: pointer;
+            color: #528FF0;
+            background: rgba(82, 143, 240, 0.12);
+            border: 1px solid transparent;
+        }
+        .tool-btn:hover { border-color: #528FF0; }
+        .history-panel {
+            max-height: 40vh;
+            overflow-y: auto;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding: 6px 12px;
+        }
+        .history-item {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 8px;
+            border-radius: 6px;
+            cursor: pointer;
+        }
+        .history-item:hover { background: rgba(82, 143, 240, 0.1); }
+        .history-item.active { background: rgba(82, 143, 240, 0.18); }
+        .history-item-info { flex: 1; min-width: 0; }
+        .history-item-title { font-size: 12px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .history-item-meta { font-size: 11px; color: var(--vscode-descriptionForeground); }
+        .history-empty { font-size: 12px; color: var(--vscode-descriptionForeground); padding: 6px 0; }
         .chat-container {
             flex: 1;
             overflow-y: auto;
@@ -246,6 +480,13 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
         .assistant-message.loading {
             opacity: 0.7;
         }
+        .assistant-message.streaming::after {
+            content: '▍';
+            animation: blink 1s steps(2) infinite;
+        }
+        @keyframes blink {
+            to { visibility: hidden; }
+        }
         .input-container {
             padding: 14px;
             border-top: 1px solid var(--vscode-panel-border);
@@ -384,6 +625,14 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
         <h3>Razorpay AI Assistant</h3>
         <p>Ask about integration, APIs, webhooks & more</p>
     </div>
+
+    <div class="toolbar">
+        <span class="conversation-title" id="conversationTitle">New conversation</span>
+        <span class="tool-btn" onclick="newConversation()" title="Start a new conversation">+ New</span>
+        <span class="tool-btn" onclick="toggleHistory()" title="Show saved conversations">History</span>
+        <span class="tool-btn" onclick="conversationAction('exportConversation', activeId)" title="Save this conversation as Markdown">Export</span>
+    </div>
+    <div class="history-panel" id="historyPanel" style="display: none;"></div>
     
     <div class="chat-container" id="chatContainer">
         <div class="welcome" id="welcome">
@@ -401,7 +650,7 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
     <div class="input-container">
         <div class="input-wrapper">
             <input type="text" id="questionInput" placeholder="Ask a question..." />
-            <button onclick="sendMessage()" id="sendBtn">Send</button>
+            <button onclick="onSendClick()" id="sendBtn">Send</button>
         </div>
     </div>
 
@@ -412,6 +661,81 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
         const welcome = document.getElementById('welcome');
         const sendBtn = document.getElementById('sendBtn');
         let isLoading = false;
+        const conversationTitle = document.getElementById('conversationTitle');
+        const historyPanel = document.getElementById('historyPanel');
+        // Answer received so far while it streams
+        let streamText = '';
+        let renderPending = false;
+        let activeId = null;
+        let conversations = [];
+
+        function newConversation() {
+            if (isLoading) return;
+            historyPanel.style.display = 'none';
+            vscode.postMessage({ command: 'newConversation' });
+        }
+
+        function toggleHistory() {
+            historyPanel.style.display = historyPanel.style.display === 'none' ? 'block' : 'none';
+        }
+
+        function conversationAction(command, id) {
+            if (isLoading && command !== 'exportConversation') return;
+            vscode.postMessage({ command, id });
+        }
+
+        function renderConversation(messages) {
+            chatContainer.innerHTML = '';
+            welcome.style.display = messages.length ? 'none' : '';
+            chatContainer.appendChild(welcome);
+            messages.forEach(message => addMessage(message.text, message.role === 'user' ? 'user' : 'assistant'));
+        }
+
+        function renderConversationList() {
+            const active = conversations.find(c => c.id === activeId);
+            conversationTitle.textContent = active ? active.title : 'New conversation';
+            conversationTitle.title = conversationTitle.textContent;
+
+            historyPanel.innerHTML = '';
+            if (!conversations.length) {
+                historyPanel.innerHTML = '<div class="history-empty">No saved conversations in this workspace yet.</div>';
+                return;
+            }
+            conversations.forEach(conversation => {
+                const item = document.createElement('div');
+                item.className = 'history-item' + (conversation.id === activeId ? ' active' : '');
+                item.onclick = () => {
+                    if (isLoading) return;
+                    historyPanel.style.display = 'none';
+                    vscode.postMessage({ command: 'openConversation', id: conversation.id });
+                };
+
+                const info = document.createElement('div');
+                info.className = 'history-item-info';
+                const title = document.createElement('div');
+                title.className = 'history-item-title';
+                title.textContent = conversation.title;
+                const meta = document.createElement('div');
+                meta.className = 'history-item-meta';
+                meta.textContent = conversation.messageCount + ' messages · ' + new Date(conversation.updatedAt).toLocaleString();
+                info.append(title, meta);
+                item.appendChild(info);
+
+                [['✎', 'Rename', 'renameConversation'], ['⤓', 'Export as Markdown', 'exportConversation'], ['✕', 'Delete', 'deleteConversation']]
+                    .forEach(([label, tooltip, command]) => {
+                        const button = document.createElement('span');
+                        button.className = 'tool-btn';
+                        button.textContent = label;
+                        button.title = tooltip;
+                        button.onclick = e => {
+                            e.stopPropagation();
+                            conversationAction(command, conversation.id);
+                        };
+                        item.appendChild(button);
+                    });
+                historyPanel.appendChild(item);
+            });
+        }
 
         function askSuggestion(text) {
             questionInput.value = text;
@@ -428,8 +752,7 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
             // Add user message
             addMessage(question, 'user');
             questionInput.value = '';
-            isLoading = true;
-            sendBtn.disabled = true;
+            setLoading(true);
 
             // Send to extension
             vscode.postMessage({
@@ -438,12 +761,43 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
             });
         }
 
+        function setLoading(value) {
+            isLoading = value;
+            sendBtn.textContent = value ? 'Stop' : 'Send';
+            sendBtn.title = value ? 'Stop the answer' : '';
+        }
+
+        function onSendClick() {
+            if (isLoading) {
+                vscode.postMessage({ command: 'stop' });
+            } else {
+                sendMessage();
+            }
+        }
+
+        function appendStream(text) {
+            streamText += text;
+            if (renderPending) return;
+            // Render at most once a frame; answers arrive a few characters at a time
+            renderPending = true;
+            requestAnimationFrame(() => {
+                renderPending = false;
+                const lastMsg = chatContainer.querySelector('.assistant-message:last-child');
+                if (!lastMsg || !isLoading) return;
+                lastMsg.classList.remove('loading');
+                lastMsg.classList.add('streaming');
+                lastMsg.innerHTML = formatMessage(streamText);
+                chatContainer.scrollTop = chatContainer.scrollHeight;
+            });
+        }
+
         function addMessage(text, type, replace = false) {
             if (replace) {
                 const lastMsg = chatContainer.querySelector('.assistant-message:last-child');
                 if (lastMsg) {
                     lastMsg.innerHTML = formatMessage(text);
-                    lastMsg.classList.remove('loading');
+                    lastMsg.classList.remove('loading', 'streaming');
+                    chatContainer.scrollTop = chatContainer.scrollHeight;
                     return;
                 }
             }
@@ -462,7 +816,8 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         function formatMessage(text) {
-            let formatted = text;
+            // Answers quote HTML from the docs; show it as text
+            let formatted = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
             
             // Code blocks
             formatted = formatted.replace(/\`\`\`(\\w+)?\\n([\\s\\S]*?)\`\`\`/g, '<pre><code>$2</code></pre>');
@@ -493,15 +848,26 @@ export class AssistantChatViewProvider implements vscode.WebviewViewProvider {
             const message = event.data;
             if (message.command === 'response') {
                 if (message.isLoading) {
+                    streamText = '';
                     addMessage(message.text, 'assistant');
                     chatContainer.querySelector('.assistant-message:last-child')?.classList.add('loading');
                 } else {
                     addMessage(message.text, 'assistant', true);
-                    isLoading = false;
-                    sendBtn.disabled = false;
+                    setLoading(false);
                 }
+            } else if (message.command === 'stream') {
+                appendStream(message.text);
+            } else if (message.command === 'conversation') {
+                activeId = message.id || null;
+                renderConversation(message.messages);
+            } else if (message.command === 'conversationList') {
+                activeId = message.activeId || null;
+                conversations = message.conversations;
+                renderConversationList();
             }
         });
+
+        vscode.postMessage({ command: 'ready' });
     </script>
 </body>
 </html>`;
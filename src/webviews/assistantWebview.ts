@@ -4,6 +4,12 @@ import { ChatOpenAI } from '@langchain/openai';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import * as https from 'https';
 import type { Logger } from '../utils/logger';
+import type { CredentialManager } from '../services/credentialManager';
+import { LiveModeGuard } from '../services/liveModeGuard';
+import { MCPClient } from '../services/mcpClient';
+import { createChatModel, getMessageText } from '../services/chatModel';
+import { formatToolList, isReadOnlyTool } from '../utils/mcpTools';
+import { isRazorpayCollection, isRazorpayEntity, isRazorpayPaymentLink } from '../types';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type LLMType = ChatOpenAI | ChatGoogleGenerativeAI | any;
@@ -22,35 +28,21 @@ interface SmartronResponse {
   error?: string;
 }
 
-interface MCPTool {
-  name: string;
-  description: string;
-  inputSchema?: Record<string, unknown>;
-}
-
-interface MCPResponse {
-  jsonrpc: string;
-  id: number;
-  result?: {
-    tools?: MCPTool[];
-    content?: Array<{ type: string; text: string }>;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    [key: string]: any;
-  };
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
 export class AssistantWebviewProvider {
   // Separate panels for each agent
   private static razorpayPanel: vscode.WebviewPanel | undefined = undefined;
   private static mcpPanel: vscode.WebviewPanel | undefined = undefined;
-  private mcpRequestId = 0;
   private smartronHistory: SmartronHistoryItem[] = [];
+  /** Aborts the question a panel is waiting on, when the user presses Stop */
+  private readonly requests = new Map<vscode.WebviewPanel, AbortController>();
 
-  constructor(private context: vscode.ExtensionContext, private logger: Logger) { }
+  constructor(
+    private context: vscode.ExtensionContext,
+    private logger: Logger,
+    private credentialManager: CredentialManager,
+    private guard: LiveModeGuard,
+    private mcpClient: MCPClient,
+  ) { }
 
   public show(agent?: string): void {
     const selectedAgent = agent || 'razorpay';
@@ -85,6 +77,8 @@ export class AssistantWebviewProvider {
       async (message) => {
         if (message.command === 'askQuestion') {
           await this.handleQuestion(message.text, 'razorpay', panel);
+        } else if (message.command === 'stop') {
+          this.requests.get(panel)?.abort();
         }
       },
       null,
@@ -121,6 +115,8 @@ export class AssistantWebviewProvider {
       async (message) => {
         if (message.command === 'askQuestion') {
           await this.handleQuestion(message.text, 'mcp', panel);
+        } else if (message.command === 'stop') {
+          this.requests.get(panel)?.abort();
         }
       },
       null,
@@ -145,6 +141,14 @@ export class AssistantWebviewProvider {
       isLoading: true,
     });
 
+    const controller = new AbortController();
+    this.requests.set(panel, controller);
+    let streamed = '';
+    const onText = (text: string) => {
+      streamed += text;
+      panel.webview.postMessage({ command: 'stream', text, agent });
+    };
+
     try {
       let response: string;
 
@@ -153,7 +157,7 @@ export class AssistantWebviewProvider {
         response = await this.handleMCPQuestion(question);
       } else if (agent === 'razorpay') {
         // Use AI-powered Razorpay assistant
-        response = await this.handleRazorpayQuestion(question);
+        response = await this.handleRazorpayQuestion(question, controller.signal, onText);
       } else {
         response = 'Unknown agent selected.';
       }
@@ -165,6 +169,16 @@ export class AssistantWebviewProvider {
         isLoading: false,
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        panel.webview.postMessage({
+          command: 'response',
+          text: `${streamed.trim()}\n\n*Stopped.*`.trim(),
+          agent: agent,
+          isLoading: false,
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       this.logger.error('Failed to handle question', error as Error);
 
@@ -174,6 +188,10 @@ export class AssistantWebviewProvider {
         agent: agent,
         isLoading: false,
       });
+    } finally {
+      if (this.requests.get(panel) === controller) {
+        this.requests.delete(panel);
+      }
     }
   }
 
@@ -182,16 +200,14 @@ export class AssistantWebviewProvider {
    * Based on: https://razorpay.com/docs/mcp-server/remote/
    */
   private async handleMCPQuestion(question: string): Promise<string> {
-    const config = vscode.workspace.getConfiguration('razorpay');
-    const keyId = config.get<string>('keyId');
-    const keySecret = config.get<string>('keySecret');
+    const credentials = await this.credentialManager.getRazorpayCredentials();
 
-    if (!keyId || !keySecret) {
+    if (!credentials) {
       return `⚠️ **MCP Server requires Razorpay API credentials**
 
-Please configure your API keys in VS Code Settings → Razorpay:
-- \`razorpay.keyId\`: Your Razorpay Key ID
-- \`razorpay.keySecret\`: Your Razorpay Key Secret
+Run **Razorpay: Set Credentials** from the Command Palette and enter:
+- Your Razorpay Key ID
+- Your Razorpay Key Secret (kept in VS Code's secure storage)
 
 **How to get API keys:**
 1. Log in to [Razorpay Dashboard](https://dashboard.razorpay.com)
@@ -206,7 +222,7 @@ Learn more: https://razorpay.com/docs/mcp-server/remote/`;
       const toolRequest = this.parseQuestionForMCPTool(question);
       
       if (toolRequest.action === 'list_tools') {
-        return await this.listMCPTools(keyId, keySecret);
+        return await this.listMCPTools();
       }
 
       if (toolRequest.action === 'need_input') {
@@ -226,7 +242,7 @@ To use \`${toolRequest.tool}\`, please provide: **${missing}**
       }
 
       // Execute the MCP tool
-      return await this.executeMCPTool(keyId, keySecret, toolRequest.tool, toolRequest.params);
+      return await this.executeMCPTool(toolRequest.tool, toolRequest.params);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('MCP Server error', error as Error);
@@ -244,86 +260,6 @@ Learn more: https://razorpay.com/docs/mcp-server/remote/`;
     }
   }
 
-  /**
-   * Create base64 encoded merchant token for MCP authentication
-   */
-  private createMerchantToken(keyId: string, keySecret: string): string {
-    const credentials = `${keyId}:${keySecret}`;
-    return Buffer.from(credentials).toString('base64');
-  }
-
-  /**
-   * Make HTTP request to Razorpay MCP Server
-   */
-  private async mcpRequest(keyId: string, keySecret: string, method: string, params: Record<string, unknown> = {}): Promise<MCPResponse> {
-    const merchantToken = this.createMerchantToken(keyId, keySecret);
-    
-    const requestBody = JSON.stringify({
-      jsonrpc: '2.0',
-      id: ++this.mcpRequestId,
-      method: method,
-      params: params
-    });
-
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: 'mcp.razorpay.com',
-        port: 443,
-        path: '/mcp',
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Basic ${merchantToken}`,
-          'Content-Length': Buffer.byteLength(requestBody)
-        }
-      };
-
-      const req = https.request(options, (res) => {
-        let data = '';
-        
-        res.on('data', (chunk) => {
-          data += chunk;
-        });
-
-        res.on('end', () => {
-          try {
-            // Handle streaming response - take first valid JSON
-            const lines = data.split('\n').filter(line => line.trim());
-            for (const line of lines) {
-              try {
-                const response = JSON.parse(line);
-                if (response.jsonrpc) {
-                  resolve(response);
-                  return;
-                }
-              } catch {
-                // Try next line
-              }
-            }
-            // Try parsing whole response
-            const response = JSON.parse(data);
-            resolve(response);
-    } catch (error) {
-            this.logger.error('Failed to parse MCP response', error as Error);
-            reject(new Error(`Invalid response from MCP server: ${data.substring(0, 200)}`));
-          }
-        });
-      });
-
-      req.on('error', (error) => {
-        reject(new Error(`MCP Server connection failed: ${error.message}`));
-      });
-
-      req.setTimeout(30000, () => {
-        req.destroy();
-        reject(new Error('MCP Server request timed out'));
-      });
-
-      req.write(requestBody);
-      req.end();
-    });
-  }
-
   private parseQuestionForMCPTool(question: string): { action: string; tool: string; params: Record<string, unknown>; message?: string } {
     const lowerQuestion = question.toLowerCase();
 
@@ -649,26 +585,15 @@ Learn more: https://razorpay.com/docs/mcp-server/remote/`;
     return { action: 'list_tools', tool: '', params: {} };
   }
 
-  private async listMCPTools(keyId: string, keySecret: string): Promise<string> {
+  private async listMCPTools(): Promise<string> {
     try {
-      const response = await this.mcpRequest(keyId, keySecret, 'tools/list', {});
-      
-      if (response.error) {
-        throw new Error(response.error.message);
-      }
-
-      const tools = response.result?.tools || [];
+      const tools = await this.mcpClient.listTools();
       
       if (tools.length === 0) {
         return this.getStaticToolsList();
       }
 
-      let result = `## 🛠️ Available Razorpay MCP Tools\n\n`;
-      
-      for (const tool of tools) {
-        result += `### ${tool.name}\n`;
-        result += `${tool.description}\n\n`;
-      }
+      let result = `## 🛠️ Available Razorpay MCP Tools\n\n${formatToolList(tools)}\n`;
 
       result += `\n---\n**Usage Examples:**\n`;
       result += `- "Create order for 500 rupees"\n`;
@@ -752,25 +677,26 @@ The Razorpay MCP Server provides **32 tools** for direct API operations:
 Learn more: https://razorpay.com/docs/mcp-server/`;
   }
 
-  private async executeMCPTool(keyId: string, keySecret: string, toolName: string, params: Record<string, unknown>): Promise<string> {
+  private async executeMCPTool(toolName: string, params: Record<string, unknown>): Promise<string> {
     try {
       this.logger.info(`Executing MCP tool: ${toolName} with params: ${JSON.stringify(params)}`);
       
-      const response = await this.mcpRequest(keyId, keySecret, 'tools/call', {
-        name: toolName,
-        arguments: params
-      });
+      const tool = await this.mcpClient.getTool(toolName).catch(() => undefined);
+      const keyId = await this.mcpClient.getKeyId();
+      const call = () => this.mcpClient.callTool(toolName, params, keyId);
+      const response = isReadOnlyTool(tool)
+        ? await call()
+        : await this.guard.run(LiveModeGuard.describeToolCall(toolName, params, keyId), call, res => ({ error: MCPClient.getError(res) }));
 
       if (response.error) {
         return `## ❌ Error\n\n**${response.error.message}**\n\nError code: ${response.error.code}`;
       }
+      if (response.result?.isError) {
+        return `## ❌ Error\n\n**${MCPClient.getError(response)}**`;
+      }
 
-      if (response.result?.content) {
-        const textContent = response.result.content
-          .filter(c => c.type === 'text')
-          .map(c => c.text)
-          .join('\n');
-        
+      const textContent = MCPClient.getText(response.result);
+      if (textContent) {
         // Try to pretty-print JSON and add human-readable amounts
         try {
           const parsed = JSON.parse(textContent);
@@ -798,59 +724,57 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
       return `\`\`\`json\n${JSON.stringify(result, null, 2)}\n\`\`\``;
     }
 
-    const data = result as Record<string, unknown>;
-    
     // For payment link result - show only essential info with clickable link
-    if (data.id && typeof data.id === 'string' && data.id.startsWith('plink_') && data.short_url) {
-      const amount = typeof data.amount === 'number' ? data.amount / 100 : 0;
-      const currency = data.currency || 'INR';
+    if (isRazorpayPaymentLink(result)) {
+      const amount = result.amount / 100;
+      const currency = result.currency || 'INR';
       
       let summary = `### 🔗 Payment Link Created!\n\n`;
       summary += `**Amount:** ₹${amount} ${currency}\n\n`;
       summary += `**Payment Link:**\n`;
-      summary += `### 👉 [Click here to pay](${data.short_url})\n\n`;
-      summary += `\`${data.short_url}\`\n\n`;
+      summary += `### 👉 [Click here to pay](${result.short_url})\n\n`;
+      summary += `\`${result.short_url}\`\n\n`;
       summary += `---\n`;
-      summary += `**Link ID:** \`${data.id}\`\n`;
-      summary += `**Status:** ${data.status}\n`;
-      if (data.description) summary += `**Description:** ${data.description}\n`;
+      summary += `**Link ID:** \`${result.id}\`\n`;
+      summary += `**Status:** ${result.status}\n`;
+      if (result.description) summary += `**Description:** ${result.description}\n`;
       
       return summary;
     }
     
     // For single order/payment result
-    if (data.entity === 'order' || data.entity === 'payment') {
-      const amount = typeof data.amount === 'number' ? data.amount / 100 : 0;
-      const amountDue = typeof data.amount_due === 'number' ? data.amount_due / 100 : 0;
-      const amountPaid = typeof data.amount_paid === 'number' ? data.amount_paid / 100 : 0;
-      const currency = data.currency || 'INR';
+    if (isRazorpayEntity(result, 'order') || isRazorpayEntity(result, 'payment')) {
+      const amount = result.amount / 100;
+      const currency = result.currency || 'INR';
       
-      let summary = `### ${data.entity === 'order' ? '📦 Order Created!' : '💳 Payment Details'}\n\n`;
+      let summary = `### ${result.entity === 'order' ? '📦 Order Created!' : '💳 Payment Details'}\n\n`;
       summary += `| Field | Value |\n|-------|-------|\n`;
-      summary += `| ID | \`${data.id}\` |\n`;
+      summary += `| ID | \`${result.id}\` |\n`;
       summary += `| Amount | **₹${amount}** |\n`;
-      if (data.amount_due !== undefined) summary += `| Amount Due | ₹${amountDue} |\n`;
-      if (data.amount_paid !== undefined) summary += `| Amount Paid | ₹${amountPaid} |\n`;
+      if (result.entity === 'order') {
+        summary += `| Amount Due | ₹${result.amount_due / 100} |\n`;
+        summary += `| Amount Paid | ₹${result.amount_paid / 100} |\n`;
+      }
       summary += `| Currency | ${currency} |\n`;
-      summary += `| Status | **${data.status}** |\n`;
-      if (data.receipt) summary += `| Receipt | ${data.receipt} |\n`;
-      if (data.created_at) {
-        const date = new Date((data.created_at as number) * 1000);
+      summary += `| Status | **${result.status}** |\n`;
+      if (result.entity === 'order' && result.receipt) summary += `| Receipt | ${result.receipt} |\n`;
+      if (result.created_at) {
+        const date = new Date(result.created_at * 1000);
         summary += `| Created | ${date.toLocaleString()} |\n`;
       }
       
       // Add helpful next step for orders
-      if (data.entity === 'order') {
-        summary += `\n---\n💡 **Next Step:** Generate payment link:\n\`Generate payment for ${data.id} for ${amount} rupees\``;
+      if (result.entity === 'order') {
+        summary += `\n---\n💡 **Next Step:** Generate payment link:\n\`Generate payment for ${result.id} for ${amount} rupees\``;
       }
       
       return summary;
     }
     
     // For collection results (list of items)
-    if (data.entity === 'collection' && Array.isArray(data.items)) {
-      const items = data.items as Array<Record<string, unknown>>;
-      let summary = `### 📋 Found ${data.count || items.length} items\n\n`;
+    if (isRazorpayCollection(result)) {
+      const items = result.items;
+      let summary = `### 📋 Found ${result.count || items.length} items\n\n`;
       
       if (items.length > 0) {
         summary += `| ID | Amount | Status | Created |\n|-----|--------|--------|----------|\n`;
@@ -858,8 +782,8 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
         for (const item of items.slice(0, 10)) {
           const itemAmount = typeof item.amount === 'number' ? `₹${item.amount / 100}` : '-';
           const status = item.status || '-';
-          const created = item.created_at 
-            ? new Date((item.created_at as number) * 1000).toLocaleDateString() 
+          const created = typeof item.created_at === 'number'
+            ? new Date(item.created_at * 1000).toLocaleDateString() 
             : '-';
           summary += `| \`${item.id}\` | ${itemAmount} | ${status} | ${created} |\n`;
         }
@@ -880,7 +804,7 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
    * Call Razorpay Smartron API (RAY) for intelligent documentation assistance
    * This API doesn't require any authentication
    */
-  private async callSmartronAPI(question: string): Promise<SmartronResponse> {
+  private async callSmartronAPI(question: string, signal: AbortSignal): Promise<SmartronResponse> {
     const requestBody = JSON.stringify({
       question: question,
       products: ['docs'],
@@ -893,6 +817,7 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
         port: 443,
         path: '/query',
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'application/json',
@@ -960,39 +885,18 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
     return result;
   }
 
-  private createLLM(): LLMType | null {
-    const config = vscode.workspace.getConfiguration('razorpay');
-    
-    const openaiKey = config.get<string>('ai.openai.apiKey');
-    const openaiModel = config.get<string>('ai.openai.model') || 'gpt-4o-mini';
-    
-    if (openaiKey) {
-      return new ChatOpenAI({
-        apiKey: openaiKey,
-        model: openaiModel,
-        temperature: 0.2,
-      });
-    }
-
-    const geminiKey = config.get<string>('ai.gemini.apiKey');
-    const geminiModel = config.get<string>('ai.gemini.model') || 'gemini-2.0-flash';
-    
-    if (geminiKey) {
-      return new ChatGoogleGenerativeAI({
-        apiKey: geminiKey,
-        model: geminiModel,
-        temperature: 0.2,
-      });
-    }
-
-    return null;
+  private async createLLM(): Promise<LLMType | null> {
+    return (await createChatModel(this.credentialManager)) ?? null;
   }
 
-  private async handleRazorpayQuestion(question: string): Promise<string> {
+  /**
+   * Answer from Smartron, or else from the configured AI model, whose answer streams to `onText`
+   */
+  private async handleRazorpayQuestion(question: string, signal: AbortSignal, onText: (text: string) => void): Promise<string> {
     // First, try to use Razorpay Smartron API (RAY) - no API key needed
     try {
       this.logger.info('Calling Razorpay Smartron API...');
-      const smartronResponse = await this.callSmartronAPI(question);
+      const smartronResponse = await this.callSmartronAPI(question, signal);
       
       if (smartronResponse.answer) {
         // Store in history for context in future questions
@@ -1009,17 +913,23 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
         return this.formatSmartronResponse(smartronResponse);
       }
     } catch (error) {
+      if (signal.aborted) {
+        throw error;
+      }
       this.logger.warn(`Smartron API call failed, falling back to LLM: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     // Fallback to LangChain LLM if Smartron fails
-    const llm = this.createLLM();
+    const llm = await this.createLLM();
     
     if (llm) {
       try {
         // Use LangChain LLM for AI-powered responses
-        return await this.callAI(llm, question);
+        return await this.callAI(llm, question, signal, onText);
       } catch (error) {
+        if (signal.aborted) {
+          throw error;
+        }
         const errorMessage = error instanceof Error ? error.message : String(error);
         this.logger.error('AI call failed', error as Error);
         
@@ -1028,7 +938,7 @@ Learn more: https://razorpay.com/docs/mcp-server/`;
           return `⚠️ Model not found. Try changing the model in Settings → Razorpay → AI.\n\nAvailable models:\n- Gemini: gemini-2.0-flash, gemini-1.5-pro, gemini-pro\n- OpenAI: gpt-4o-mini, gpt-4o, gpt-3.5-turbo\n\n${this.getFallbackResponse(question)}`;
         }
         if (errorMessage.includes('401') || errorMessage.includes('API key')) {
-          return `⚠️ Invalid API key. Please check your API key in Settings → Razorpay → AI.\n\n${this.getFallbackResponse(question)}`;
+          return `⚠️ Invalid API key. Update it with "Razorpay: Set Credentials".\n\n${this.getFallbackResponse(question)}`;
         }
         if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
           return `⚠️ Rate limit exceeded. Please wait a moment and try again.\n\n${this.getFallbackResponse(question)}`;
@@ -1071,7 +981,7 @@ rzp.open();
 
 Would you like more specific help with any of these?
 
-💡 Tip: Set your AI API key in Settings → Razorpay for smarter responses!`;
+💡 Tip: Add an AI API key with "Razorpay: Set Credentials" for smarter responses!`;
     }
 
     if (lowerQuestion.includes('order') || lowerQuestion.includes('create order')) {
@@ -1089,7 +999,7 @@ const order = await razorpay.orders.create({
 
 The order ID can then be used in the checkout flow.
 
-💡 Tip: Set your AI API key in Settings → Razorpay for smarter responses!`;
+💡 Tip: Add an AI API key with "Razorpay: Set Credentials" for smarter responses!`;
     }
 
     if (lowerQuestion.includes('webhook') || lowerQuestion.includes('event')) {
@@ -1101,7 +1011,7 @@ The order ID can then be used in the checkout flow.
 
 Set up webhooks in your Razorpay Dashboard under Settings → Webhooks.
 
-💡 Tip: Set your AI API key in Settings → Razorpay for smarter responses!`;
+💡 Tip: Add an AI API key with "Razorpay: Set Credentials" for smarter responses!`;
     }
 
     if (lowerQuestion.includes('refund') || lowerQuestion.includes('cancel')) {
@@ -1116,7 +1026,7 @@ const refund = await razorpay.payments.refund(paymentId, {
 });
 \`\`\`
 
-💡 Tip: Set your AI API key in Settings → Razorpay for smarter responses!`;
+💡 Tip: Add an AI API key with "Razorpay: Set Credentials" for smarter responses!`;
     }
 
     return `I'm the Razorpay assistant. I can help you with:
@@ -1127,42 +1037,30 @@ const refund = await razorpay.payments.refund(paymentId, {
 - Refunds and cancellations
 - API usage and code snippets
 
-💡 Tip: Set your AI API key in Settings → Razorpay → AI (OpenAI or Gemini) for smarter AI-powered responses!
+💡 Tip: Add an OpenAI or Gemini API key with "Razorpay: Set Credentials" for smarter AI-powered responses!
 
 What specific Razorpay topic would you like help with?`;
   }
 
   /**
-   * Call AI using LangChain (supports OpenAI and Google Gemini)
+   * Call AI using LangChain (supports OpenAI and Google Gemini), streaming the answer to `onText` as it is generated
    */
-  private async callAI(llm: LLMType, question: string): Promise<string> {
+  private async callAI(llm: LLMType, question: string, signal: AbortSignal, onText: (text: string) => void): Promise<string> {
     const systemMessage = new SystemMessage(
       'You are a helpful assistant specializing in Razorpay payment integration. Help developers with Razorpay APIs, SDKs, webhooks, and best practices.'
     );
     const humanMessage = new HumanMessage(question);
 
-    const response = await llm.invoke([systemMessage, humanMessage]);
-    
-    // Extract text content from the response
-    const content = response.content;
-    if (typeof content === 'string') {
-      return content;
-    }
-    
-    // Handle array of content parts (for multimodal responses)
-    if (Array.isArray(content)) {
-      return content
-        .map((part: unknown) => {
-          if (typeof part === 'string') return part;
-          if (part && typeof part === 'object' && 'text' in part) {
-            return (part as { text: string }).text;
-          }
-          return '';
-        })
-        .join('');
+    let answer = '';
+    const stream = await llm.stream([systemMessage, humanMessage], { signal });
+    for await (const chunk of stream) {
+      const text = getMessageText(chunk.content);
+      if (text) {
+        answer += text;
+        onText(text);
+      }
     }
-
-    return 'No response received';
+    return answer || 'No response received';
   }
 
   private getBaseStyles(): string {
@@ -1268,10 +1166,29 @@ What specific Razorpay topic would you like help with?`;
         const vscode = acquireVsCodeApi();
         const questionInput = document.getElementById('questionInput');
         const chatHistory = document.getElementById('chatHistory');
+        const sendBtn = document.getElementById('sendBtn');
+        // Message the pending answer is shown in, and the answer streamed into it so far
+        let pendingMsg = null;
+        let streamText = '';
+        let renderPending = false;
+
+        function onSend() {
+            if (pendingMsg) {
+                vscode.postMessage({ command: 'stop' });
+            } else {
+                askQuestion();
+            }
+        }
+
+        function setPending(messageDiv) {
+            pendingMsg = messageDiv;
+            streamText = '';
+            sendBtn.textContent = messageDiv ? 'Stop' : 'Send';
+        }
 
         function askQuestion() {
             const question = questionInput.value.trim();
-            if (!question) return;
+            if (!question || pendingMsg) return;
 
             const empty = chatHistory.querySelector('.empty-state');
             if (empty) empty.remove();
@@ -1297,11 +1214,13 @@ What specific Razorpay topic would you like help with?`;
             
             chatHistory.appendChild(messageDiv);
             chatHistory.scrollTop = chatHistory.scrollHeight;
+            return messageDiv;
         }
 
         function formatMessage(text) {
             if (!text) return '';
-            let formatted = String(text);
+            // Answers include tool descriptions from the MCP server and LLM output
+            let formatted = String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
             // Code blocks
             formatted = formatted.replace(/\`\`\`([\\w]*)?\\n([\\s\\S]*?)\`\`\`/g, '<pre><code>$2</code></pre>');
             // Inline code
@@ -1323,20 +1242,25 @@ What specific Razorpay topic would you like help with?`;
             const message = event.data;
             console.log('Received message:', message);
             if (message.command === 'response') {
-                const lastMsg = chatHistory.lastElementChild;
                 if (message.isLoading) {
-                    if (lastMsg && lastMsg.classList.contains('assistant-message')) {
-                        lastMsg.textContent = message.text;
-                    } else {
-                        addMessage(message.text, 'assistant');
-                    }
+                    setPending(addMessage(message.text, 'assistant'));
+                } else if (pendingMsg) {
+                    pendingMsg.innerHTML = formatMessage(message.text);
+                    setPending(null);
                 } else {
-                    if (lastMsg && (lastMsg.textContent.includes('Thinking...') || lastMsg.textContent.includes('Connecting'))) {
-                        lastMsg.innerHTML = formatMessage(message.text);
-                    } else {
-                        addMessage(message.text, 'assistant');
-                    }
+                    addMessage(message.text, 'assistant');
                 }
+            } else if (message.command === 'stream' && pendingMsg) {
+                streamText += message.text;
+                if (renderPending) return;
+                // Render at most once a frame; answers arrive a few characters at a time
+                renderPending = true;
+                requestAnimationFrame(() => {
+                    renderPending = false;
+                    if (!pendingMsg) return;
+                    pendingMsg.innerHTML = formatMessage(streamText);
+                    chatHistory.scrollTop = chatHistory.scrollHeight;
+                });
             }
         });
 
@@ -1373,7 +1297,7 @@ What specific Razorpay topic would you like help with?`;
         
         <div class="input-area">
             <input type="text" id="questionInput" placeholder="Ask about Razorpay..." />
-            <button onclick="askQuestion()">Send</button>
+            <button onclick="onSend()" id="sendBtn">Send</button>
         </div>
     </div>
 
@@ -1410,7 +1334,7 @@ What specific Razorpay topic would you like help with?`;
         
         <div class="input-area">
             <input type="text" id="questionInput" placeholder="Try: list tools, create order..." />
-            <button onclick="askQuestion()">Send</button>
+            <button onclick="onSend()" id="sendBtn">Send</button>
         </div>
     </div>
 
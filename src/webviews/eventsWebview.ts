@@ -1,19 +1,73 @@
 import * as vscode from 'vscode';
 import type { Logger } from '../utils/logger';
 import { RazorpayService } from '../services/razorpayService';
+import type { WebhookServer } from '../services/webhookServer';
+import type { WebhookForwarder, ForwardWebhookResult } from '../services/webhookForwarder';
+import { buildWebhookPayload, webhookEventCatalogue } from '../api/webhookPayloads';
+import {
+  createOrderDoc,
+  createPaymentLinkDoc,
+  createPlanDoc,
+  createRefundDoc,
+  createSubscriptionDoc,
+  fetchOrderDoc,
+  findApiParameter,
+} from '../api/apiDocumentation';
+import type { ApiDocumentation, ApiParameter } from '../api/apiDocumentation';
+import { RazorpayApiError } from '../services/razorpayApiError';
+import { CredentialManager } from '../services/credentialManager';
+import { supportedCurrencies, toSubunits } from '../utils/money';
+
+/**
+ * Error details shown in the result card of a failed request
+ */
+interface ErrorDiagnostics {
+  code?: string;
+  statusCode?: number;
+  field?: string;
+  source?: string;
+  step?: string;
+  reason?: string;
+  /** Documented input parameter matching `field` */
+  parameter?: ApiParameter;
+  apiName: string;
+  docUrl: string;
+}
 
 export class EventsWebviewProvider {
   private static currentPanel: vscode.WebviewPanel | undefined = undefined;
+  private currentSection: string | undefined;
+  private selectedWebhookId: string | undefined;
+  private refundPaymentId: string | undefined;
 
   constructor(
     private context: vscode.ExtensionContext,
     private logger: Logger,
     private razorpayService: RazorpayService,
-  ) {}
+    private webhookServer: WebhookServer,
+    private webhookForwarder: WebhookForwarder,
+    private credentialManager: CredentialManager,
+  ) {
+    this.context.subscriptions.push(
+      this.webhookServer.onDidChangeState(() => {
+        if (EventsWebviewProvider.currentPanel && this.currentSection === 'webhooks') {
+          this.handleLoadWebhooks(EventsWebviewProvider.currentPanel.webview);
+        }
+      }),
+    );
+  }
+
+  public show(section?: string, selection?: string): void {
+    this.currentSection = section;
+    if (section === 'webhooks') {
+      this.selectedWebhookId = selection;
+    } else if (section === 'refund') {
+      this.refundPaymentId = selection;
+    }
 
-  public show(section?: string): void {
     if (EventsWebviewProvider.currentPanel) {
       // If panel exists, update it with new section
+      EventsWebviewProvider.currentPanel.title = this.getSectionTitle(section);
       EventsWebviewProvider.currentPanel.webview.html = this.getWebviewContent(EventsWebviewProvider.currentPanel.webview, section);
       EventsWebviewProvider.currentPanel.reveal();
       this.handleCheckConfig(EventsWebviewProvider.currentPanel.webview);
@@ -22,7 +76,7 @@ export class EventsWebviewProvider {
 
     const panel = vscode.window.createWebviewPanel(
       'razorpayEvents',
-      section === 'order' ? 'Create Order' : section === 'payment' ? 'Create Payment Link' : section === 'refund' ? 'Create Refund' : 'Razorpay Trigger Events',
+      this.getSectionTitle(section),
       vscode.ViewColumn.One,
       {
         enableScripts: true,
@@ -45,12 +99,69 @@ export class EventsWebviewProvider {
             await this.handleCreateRefund(panel.webview, message.data);
             break;
           case 'checkConfig':
-            this.handleCheckConfig(panel.webview);
+            await this.handleCheckConfig(panel.webview);
             break;
           case 'copyToClipboard':
             await vscode.env.clipboard.writeText(message.text);
             vscode.window.showInformationMessage(`Copied to clipboard: ${message.text}`);
             break;
+          case 'loadWebhooks':
+            await this.handleLoadWebhooks(panel.webview);
+            break;
+          case 'selectWebhook':
+            this.selectedWebhookId = message.id;
+            break;
+          case 'startWebhookListener':
+            await vscode.commands.executeCommand('razorpay.webhooks.startListener');
+            break;
+          case 'stopWebhookListener':
+            await vscode.commands.executeCommand('razorpay.webhooks.stopListener');
+            break;
+          case 'clearWebhooks':
+            this.webhookServer.clear();
+            break;
+          case 'replayWebhook':
+            await this.handleReplayWebhook(panel.webview, message.data);
+            break;
+          case 'buildSyntheticWebhook':
+            this.handleBuildSyntheticWebhook(panel.webview, message.data);
+            break;
+          case 'sendSyntheticWebhook':
+            await this.handleSendSyntheticWebhook(panel.webview, message.data);
+            break;
+          case 'listOrders':
+            await this.handleListOrders(panel.webview, message.data);
+            break;
+          case 'fetchOrderDetail':
+            await this.handleFetchOrderDetail(panel.webview, message.orderId);
+            break;
+          case 'updateOrderNotes':
+            await this.handleUpdateOrderNotes(panel.webview, message.data);
+            break;
+          case 'listPlans':
+            await this.handleListPlans(panel.webview);
+            break;
+          case 'createPlan':
+            await this.handleCreatePlan(panel.webview, message.data);
+            break;
+          case 'createSubscription':
+            await this.handleCreateSubscription(panel.webview, message.data);
+            break;
+          case 'listSubscriptions':
+            await this.handleListSubscriptions(panel.webview, message.data);
+            break;
+          case 'fetchSubscriptionDetail':
+            await this.handleFetchSubscriptionDetail(panel.webview, message.subscriptionId);
+            break;
+          case 'subscriptionAction':
+            await this.handleSubscriptionAction(panel.webview, message.data);
+            break;
+          case 'loadForwardUrl':
+            panel.webview.postMessage({
+              command: 'forwardUrl',
+              url: vscode.workspace.getConfiguration('razorpay').get<string>('webhooks.forwardUrl', ''),
+            });
+            break;
         }
       },
       null,
@@ -70,241 +181,663 @@ export class EventsWebviewProvider {
     this.handleCheckConfig(panel.webview);
   }
 
-  private handleCheckConfig(webview: vscode.Webview): void {
+  private getSectionTitle(section?: string): string {
+    switch (section) {
+      case 'order':
+        return 'Create Order';
+      case 'payment':
+        return 'Create Payment Link';
+      case 'refund':
+        return 'Create Refund';
+      case 'webhooks':
+        return 'Webhook Inbox';
+      case 'synthetic':
+        return 'Send Test Webhook';
+      case 'orders':
+        return 'Orders Explorer';
+      case 'subscriptions':
+        return 'Subscriptions & Plans';
+      default:
+        return 'Razorpay Trigger Events';
+    }
+  }
+
+  private async handleLoadWebhooks(webview: vscode.Webview): Promise<void> {
     const config = vscode.workspace.getConfiguration('razorpay');
-    const keyId = config.get<string>('keyId', '');
-    const keySecret = config.get<string>('keySecret', '');
+    const secret = await this.credentialManager.getSecret('webhookSecret');
 
-    const isConfigured = !!(keyId && keySecret);
+    webview.postMessage({
+      command: 'webhooks',
+      listening: this.webhookServer.isRunning(),
+      url: this.webhookServer.getUrl(),
+      secretConfigured: !!secret,
+      forwardUrl: config.get<string>('webhooks.forwardUrl', ''),
+      selectedId: this.selectedWebhookId,
+      events: this.webhookServer.getEvents(),
+    });
+  }
 
-    if (isConfigured && !this.razorpayService.isInitialized()) {
-      this.razorpayService.initialize({ keyId, keySecret });
+  private async handleReplayWebhook(webview: vscode.Webview, data: any): Promise<void> {
+    const secret = await this.credentialManager.getSecret('webhookSecret') || '';
+    const times = Math.min(Math.max(parseInt(data.times, 10) || 1, 1), 50);
+    const original = this.webhookServer.getEvent(data.id);
+    const results: Array<(ForwardWebhookResult & { attempt: number }) | { attempt: number; error: string }> = [];
+
+    for (let attempt = 1; attempt <= times; attempt++) {
+      try {
+        const result = await this.webhookForwarder.forward({
+          url: data.url,
+          body: data.body,
+          secret,
+          eventId: data.keepEventId ? original?.eventId : undefined,
+        });
+        results.push({ attempt, ...result });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        this.logger.error('Failed to replay webhook', error as Error);
+        results.push({ attempt, error: errorMessage });
+        break;
+      }
     }
 
     webview.postMessage({
-      command: 'configStatus',
-      configured: isConfigured,
-      initialized: this.razorpayService.isInitialized(),
+      command: 'replayResult',
+      id: data.id,
+      signed: !!secret,
+      results,
     });
   }
 
-  private async handleCreateOrder(webview: vscode.Webview, data: any): Promise<void> {
+  private handleBuildSyntheticWebhook(webview: vscode.Webview, data: any): void {
     try {
-      if (!this.razorpayService.isInitialized()) {
-        const config = vscode.workspace.getConfiguration('razorpay');
-        const keyId = config.get<string>('keyId', '');
-        const keySecret = config.get<string>('keySecret', '');
+      const payload = buildWebhookPayload(data.event, {
+        amount: toSubunits(data.amount, data.currency),
+        currency: data.currency,
+        paymentId: data.payment_id || undefined,
+        orderId: data.order_id || undefined,
+        refundId: data.refund_id || undefined,
+        subscriptionId: data.subscription_id || undefined,
+        paymentLinkId: data.payment_link_id || undefined,
+        method: data.method || undefined,
+        email: data.email || undefined,
+        contact: data.contact || undefined,
+        notes: data.notes || undefined,
+      });
 
-        if (!keyId || !keySecret) {
-          webview.postMessage({
-            command: 'orderResult',
-            success: false,
-            error: 'Razorpay credentials not configured. Please set razorpay.keyId and razorpay.keySecret in VS Code settings.',
-          });
-          return;
-        }
+      webview.postMessage({
+        command: 'syntheticPayload',
+        success: true,
+        payload: JSON.stringify(payload, null, 2),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error('Failed to build webhook payload', error as Error);
 
-        this.razorpayService.initialize({ keyId, keySecret });
-      }
+      webview.postMessage({
+        command: 'syntheticPayload',
+        success: false,
+        error: errorMessage,
+      });
+    }
+  }
 
-      const order = await this.razorpayService.createOrder({
-        amount: parseFloat(data.amount),
-        currency: data.currency,
+  private async handleSendSyntheticWebhook(webview: vscode.Webview, data: any): Promise<void> {
+    const secret = await this.credentialManager.getSecret('webhookSecret') || '';
+
+    try {
+      // Each synthetic delivery gets its own event id, as Razorpay would assign
+      const result = await this.webhookForwarder.forward({
+        url: data.url,
+        body: data.body,
+        secret,
+        eventId: `evt_local_${Date.now()}`,
+      });
+
+      webview.postMessage({
+        command: 'syntheticResult',
+        success: true,
+        signed: !!secret,
+        result,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error('Failed to send test webhook', error as Error);
+
+      webview.postMessage({
+        command: 'syntheticResult',
+        success: false,
+        error: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Initialize the service from stored credentials if needed; reports missing credentials to the webview
+   */
+  private async ensureInitialized(webview: vscode.Webview, resultCommand: string): Promise<boolean> {
+    if (await this.razorpayService.ensureInitialized()) {
+      return true;
+    }
+
+    webview.postMessage({
+      command: resultCommand,
+      success: false,
+      error: 'Razorpay credentials not configured. Run "Razorpay: Set Credentials" to add your API keys.',
+    });
+    return false;
+  }
+
+  private async handleListOrders(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'ordersList'))) {
+      return;
+    }
+
+    const count = Math.min(Math.max(parseInt(data.count, 10) || 10, 1), 100);
+    const skip = Math.max(parseInt(data.skip, 10) || 0, 0);
+
+    try {
+      const orders = await this.razorpayService.listOrders({
+        from: data.from || undefined,
+        to: data.to || undefined,
         receipt: data.receipt || undefined,
-        notes: data.notes || undefined,
+        count,
+        skip,
       });
 
       webview.postMessage({
-        command: 'orderResult',
+        command: 'ordersList',
         success: true,
-        order: {
-          id: order.id,
-          amount: order.amount,
-          currency: order.currency,
-          status: order.status,
-          receipt: order.receipt,
-          created_at: order.created_at,
-        },
+        orders: orders.items,
+        count,
+        skip,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      webview.postMessage({
+        command: 'ordersList',
+        success: false,
+        error: errorMessage,
       });
+    }
+  }
 
-      // Copy order ID to clipboard
-      await vscode.env.clipboard.writeText(order.id);
-      vscode.window.showInformationMessage(`Order created! Order ID: ${order.id} (copied to clipboard)`);
+  private async handleFetchOrderDetail(webview: vscode.Webview, orderId: string): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'orderDetail'))) {
+      return;
+    }
+
+    try {
+      const [order, payments] = await Promise.all([
+        this.razorpayService.fetchOrder(orderId),
+        this.razorpayService.fetchOrderPayments(orderId),
+      ]);
+
+      webview.postMessage({
+        command: 'orderDetail',
+        success: true,
+        order,
+        payments: payments.items,
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      this.logger.error('Failed to create order', error as Error);
+      this.logger.error(`Failed to load order ${orderId}: ${errorMessage}`, error as Error);
 
       webview.postMessage({
-        command: 'orderResult',
+        command: 'orderDetail',
         success: false,
         error: errorMessage,
+        diagnostics: this.getErrorDiagnostics(error, fetchOrderDoc),
       });
     }
   }
 
-  private async handleCreatePayment(webview: vscode.Webview, data: any): Promise<void> {
+  private async handleUpdateOrderNotes(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'orderNotesUpdated'))) {
+      return;
+    }
+
     try {
-      if (!this.razorpayService.isInitialized()) {
-        const config = vscode.workspace.getConfiguration('razorpay');
-        const keyId = config.get<string>('keyId', '');
-        const keySecret = config.get<string>('keySecret', '');
+      const order = await this.razorpayService.updateOrder(data.order_id, data.notes || {});
 
-        if (!keyId || !keySecret) {
-          webview.postMessage({
-            command: 'paymentResult',
-            success: false,
-            error: 'Razorpay credentials not configured. Please set razorpay.keyId and razorpay.keySecret in VS Code settings.',
-          });
-          return;
-        }
+      webview.postMessage({
+        command: 'orderNotesUpdated',
+        success: true,
+        order,
+      });
+      vscode.window.showInformationMessage(`Notes updated for order ${order.id}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
-        this.razorpayService.initialize({ keyId, keySecret });
-      }
+      webview.postMessage({
+        command: 'orderNotesUpdated',
+        success: false,
+        error: errorMessage,
+      });
+    }
+  }
 
-      const paymentLink = await this.razorpayService.createPayment({
-        amount: parseFloat(data.amount),
+  private async handleListPlans(webview: vscode.Webview): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'plansList'))) {
+      return;
+    }
+
+    try {
+      const plans = await this.razorpayService.listPlans({ count: 100 });
+
+      webview.postMessage({
+        command: 'plansList',
+        success: true,
+        plans: plans.items,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      webview.postMessage({
+        command: 'plansList',
+        success: false,
+        error: errorMessage,
+      });
+    }
+  }
+
+  private async handleCreatePlan(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'planResult'))) {
+      return;
+    }
+
+    try {
+      const plan = await this.razorpayService.createPlan({
+        period: data.period,
+        interval: parseInt(data.interval, 10),
+        name: data.name,
+        amount: String(data.amount).trim(),
         currency: data.currency,
-        order_id: data.order_id,
         description: data.description || undefined,
-        customer: data.customer || undefined,
-        notes: data.notes || undefined,
       });
 
       webview.postMessage({
-        command: 'paymentResult',
+        command: 'planResult',
         success: true,
-        payment: {
-          id: paymentLink.id,
-          short_url: paymentLink.short_url,
-          amount: paymentLink.amount,
-          currency: paymentLink.currency,
-          status: paymentLink.status,
-          order_id: paymentLink.order_id,
-          created_at: paymentLink.created_at,
-        },
+        plan,
       });
-
-      // Copy payment link ID to clipboard
-      await vscode.env.clipboard.writeText(paymentLink.id);
-      vscode.window.showInformationMessage(`Payment link created! Link ID: ${paymentLink.id} (copied to clipboard). Use the checkout URL to complete payment.`);
-    } catch (error: any) {
-      let errorMessage = 'Unknown error occurred';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (error?.error?.description) {
-        errorMessage = error.error.description;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      this.logger.error(`Failed to create payment: ${errorMessage}`, error as Error);
+      vscode.window.showInformationMessage(`Plan created! Plan ID: ${plan.id}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error('Failed to create plan', error as Error);
 
       webview.postMessage({
-        command: 'paymentResult',
+        command: 'planResult',
         success: false,
         error: errorMessage,
+        diagnostics: this.getErrorDiagnostics(error, createPlanDoc),
       });
     }
   }
 
-  private async handleCreateRefund(webview: vscode.Webview, data: any): Promise<void> {
+  private async handleCreateSubscription(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'subscriptionResult'))) {
+      return;
+    }
+
     try {
-      if (!this.razorpayService.isInitialized()) {
-        const config = vscode.workspace.getConfiguration('razorpay');
-        const keyId = config.get<string>('keyId', '');
-        const keySecret = config.get<string>('keySecret', '');
+      const subscription = await this.razorpayService.createSubscription({
+        plan_id: data.plan_id,
+        total_count: parseInt(data.total_count, 10),
+        quantity: data.quantity ? parseInt(data.quantity, 10) : undefined,
+        customer_notify: !!data.customer_notify,
+        start_at: data.start_at || undefined,
+        notes: data.notes || undefined,
+      });
 
-        if (!keyId || !keySecret) {
-          webview.postMessage({
-            command: 'refundResult',
-            success: false,
-            error: 'Razorpay credentials not configured. Please set razorpay.keyId and razorpay.keySecret in VS Code settings.',
-          });
-          return;
-        }
+      webview.postMessage({
+        command: 'subscriptionResult',
+        success: true,
+        subscription,
+      });
 
-        this.razorpayService.initialize({ keyId, keySecret });
-      }
+      await vscode.env.clipboard.writeText(subscription.id);
+      vscode.window.showInformationMessage(`Subscription created! Subscription ID: ${subscription.id} (copied to clipboard)`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error('Failed to create subscription', error as Error);
 
-      const refund = await this.razorpayService.createRefund({
-        payment_id: data.payment_id,
-        amount: data.amount ? parseFloat(data.amount) : undefined,
-        speed: data.speed || 'normal',
-        notes: data.notes || undefined,
-        receipt: data.receipt || undefined,
+      webview.postMessage({
+        command: 'subscriptionResult',
+        success: false,
+        error: errorMessage,
+        diagnostics: this.getErrorDiagnostics(error, createSubscriptionDoc),
+      });
+    }
+  }
+
+  private async handleListSubscriptions(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'subscriptionsList'))) {
+      return;
+    }
+
+    try {
+      const subscriptions = await this.razorpayService.listSubscriptions({
+        plan_id: data?.plan_id || undefined,
+        count: 25,
       });
 
       webview.postMessage({
-        command: 'refundResult',
+        command: 'subscriptionsList',
         success: true,
-        refund: {
-          id: refund.id,
-          amount: refund.amount,
-          currency: refund.currency,
-          payment_id: refund.payment_id,
-          status: refund.status,
-          speed_processed: refund.speed_processed,
-          speed_requested: refund.speed_requested,
-          notes: refund.notes,
-          receipt: refund.receipt,
-          created_at: refund.created_at,
-        },
+        subscriptions: subscriptions.items,
       });
-
-      // Copy refund ID to clipboard
-      await vscode.env.clipboard.writeText(refund.id);
-      vscode.window.showInformationMessage(`Refund created! Refund ID: ${refund.id} (copied to clipboard)`);
-    } catch (error: any) {
-      let errorMessage = 'Unknown error occurred';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (error?.error?.description) {
-        errorMessage = error.error.description;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      this.logger.error(`Failed to create refund: ${errorMessage}`, error as Error);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
       webview.postMessage({
-        command: 'refundResult',
+        command: 'subscriptionsList',
         success: false,
         error: errorMessage,
       });
     }
   }
 
-  private getWebviewContent(_webview: vscode.Webview, section?: string): string {
-    // If a specific section is selected, show only that functionality
-    if (section === 'order') {
-      return this.getOrderContent();
-    } else if (section === 'payment') {
-      return this.getPaymentContent();
-    } else if (section === 'refund') {
-      return this.getRefundContent();
+  private async handleFetchSubscriptionDetail(webview: vscode.Webview, subscriptionId: string): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'subscriptionDetail'))) {
+      return;
+    }
+
+    try {
+      const [subscription, invoices] = await Promise.all([
+        this.razorpayService.fetchSubscription(subscriptionId),
+        this.razorpayService.fetchSubscriptionInvoices(subscriptionId),
+      ]);
+
+      webview.postMessage({
+        command: 'subscriptionDetail',
+        success: true,
+        subscription,
+        invoices: invoices.items,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      webview.postMessage({
+        command: 'subscriptionDetail',
+        success: false,
+        error: errorMessage,
+      });
     }
-    // Otherwise show the full tree view
-    return this.getFullContent();
   }
 
-  private getOrderContent(): string {
-    const orderForm = '<form id="orderForm">' +
+  private async handleSubscriptionAction(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'subscriptionActionResult'))) {
+      return;
+    }
+
+    const id: string = data.id;
+    if (data.action === 'cancel' || data.action === 'cancelAtCycleEnd') {
+      const when = data.action === 'cancel' ? 'immediately' : 'at the end of the current billing cycle';
+      const confirmation = await vscode.window.showWarningMessage(
+        `Cancel subscription ${id} ${when}? Cancelled subscriptions cannot be resumed.`,
+        { modal: true },
+        'Cancel Subscription',
+      );
+      if (confirmation !== 'Cancel Subscription') {
+        webview.postMessage({ command: 'subscriptionActionResult', success: false, cancelled: true });
+        return;
+      }
+    }
+
+    try {
+      switch (data.action) {
+        case 'pause':
+          await this.razorpayService.pauseSubscription(id);
+          break;
+        case 'resume':
+          await this.razorpayService.resumeSubscription(id);
+          break;
+        case 'cancel':
+          await this.razorpayService.cancelSubscription(id, false);
+          break;
+        case 'cancelAtCycleEnd':
+          await this.razorpayService.cancelSubscription(id, true);
+          break;
+        default:
+          throw new Error(`Unknown subscription action: ${data.action}`);
+      }
+
+      webview.postMessage({ command: 'subscriptionActionResult', success: true, id });
+      await this.handleFetchSubscriptionDetail(webview, id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      webview.postMessage({
+        command: 'subscriptionActionResult',
+        success: false,
+        error: errorMessage,
+      });
+    }
+  }
+
+  private async handleCheckConfig(webview: vscode.Webview): Promise<void> {
+    const isConfigured = await this.razorpayService.ensureInitialized();
+    const profile = this.credentialManager.getActiveProfile();
+
+    webview.postMessage({
+      command: 'configStatus',
+      configured: isConfigured,
+      initialized: this.razorpayService.isInitialized(),
+      profile: profile?.name,
+      mode: profile ? CredentialManager.getMode(profile.keyId) : undefined,
+      keyId: profile?.keyId,
+      keySource: profile ? CredentialManager.describeSource(profile) : undefined,
+    });
+  }
+
+  /**
+   * Re-check credentials in the open panel after they change
+   */
+  public refreshConfigStatus(): void {
+    if (EventsWebviewProvider.currentPanel) {
+      this.handleCheckConfig(EventsWebviewProvider.currentPanel.webview);
+    }
+  }
+
+  public refreshWebhooks(): void {
+    if (EventsWebviewProvider.currentPanel && this.currentSection === 'webhooks') {
+      this.handleLoadWebhooks(EventsWebviewProvider.currentPanel.webview);
+    }
+  }
+
+  private async handleCreateOrder(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'orderResult'))) {
+      return;
+    }
+
+    try {
+      const order = await this.razorpayService.createOrder({
+        amount: String(data.amount).trim(),
+        currency: data.currency,
+        receipt: data.receipt || undefined,
+        notes: data.notes || undefined,
+      });
+
+      webview.postMessage({
+        command: 'orderResult',
+        success: true,
+        order: {
+          id: order.id,
+          amount: order.amount,
+          currency: order.currency,
+          status: order.status,
+          receipt: order.receipt,
+          created_at: order.created_at,
+        },
+      });
+
+      // Copy order ID to clipboard
+      await vscode.env.clipboard.writeText(order.id);
+      vscode.window.showInformationMessage(`Order created! Order ID: ${order.id} (copied to clipboard)`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error('Failed to create order', error as Error);
+
+      webview.postMessage({
+        command: 'orderResult',
+        success: false,
+        error: errorMessage,
+        diagnostics: this.getErrorDiagnostics(error, createOrderDoc),
+      });
+    }
+  }
+
+  private async handleCreatePayment(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'paymentResult'))) {
+      return;
+    }
+
+    try {
+      const paymentLink = await this.razorpayService.createPayment({
+        amount: String(data.amount).trim(),
+        currency: data.currency,
+        order_id: data.order_id,
+        description: data.description || undefined,
+        customer: data.customer || undefined,
+        notes: data.notes || undefined,
+      });
+
+      webview.postMessage({
+        command: 'paymentResult',
+        success: true,
+        payment: {
+          id: paymentLink.id,
+          short_url: paymentLink.short_url,
+          amount: paymentLink.amount,
+          currency: paymentLink.currency,
+          status: paymentLink.status,
+          order_id: paymentLink.order_id,
+          created_at: paymentLink.created_at,
+        },
+      });
+
+      // Copy payment link ID to clipboard
+      await vscode.env.clipboard.writeText(paymentLink.id);
+      vscode.window.showInformationMessage(`Payment link created! Link ID: ${paymentLink.id} (copied to clipboard). Use the checkout URL to complete payment.`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error(`Failed to create payment: ${errorMessage}`, error as Error);
+
+      webview.postMessage({
+        command: 'paymentResult',
+        success: false,
+        error: errorMessage,
+        diagnostics: this.getErrorDiagnostics(error, createPaymentLinkDoc),
+      });
+    }
+  }
+
+  private async handleCreateRefund(webview: vscode.Webview, data: any): Promise<void> {
+    if (!(await this.ensureInitialized(webview, 'refundResult'))) {
+      return;
+    }
+
+    try {
+      const refund = await this.razorpayService.createRefund({
+        payment_id: data.payment_id,
+        amount: data.amount ? String(data.amount).trim() : undefined,
+        currency: data.currency || undefined,
+        speed: data.speed || 'normal',
+        notes: data.notes || undefined,
+        receipt: data.receipt || undefined,
+      });
+
+      webview.postMessage({
+        command: 'refundResult',
+        success: true,
+        refund: {
+          id: refund.id,
+          amount: refund.amount,
+          currency: refund.currency,
+          payment_id: refund.payment_id,
+          status: refund.status,
+          speed_processed: refund.speed_processed,
+          speed_requested: refund.speed_requested,
+          notes: refund.notes,
+          receipt: refund.receipt,
+          created_at: refund.created_at,
+        },
+      });
+
+      // Copy refund ID to clipboard
+      await vscode.env.clipboard.writeText(refund.id);
+      vscode.window.showInformationMessage(`Refund created! Refund ID: ${refund.id} (copied to clipboard)`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error(`Failed to create refund: ${errorMessage}`, error as Error);
+
+      webview.postMessage({
+        command: 'refundResult',
+        success: false,
+        error: errorMessage,
+        diagnostics: this.getErrorDiagnostics(error, createRefundDoc),
+      });
+    }
+  }
+
+  /**
+   * Collect the details of a failed request and match the offending field against the API documentation
+   */
+  private getErrorDiagnostics(error: unknown, doc: ApiDocumentation): ErrorDiagnostics {
+    const diagnostics: ErrorDiagnostics = {
+      apiName: doc.apiName,
+      docUrl: doc.docUrl,
+    };
+
+    if (error instanceof RazorpayApiError) {
+      diagnostics.code = error.code;
+      diagnostics.statusCode = error.statusCode;
+      diagnostics.field = error.field;
+      diagnostics.source = error.source;
+      diagnostics.step = error.step;
+      diagnostics.reason = error.reason;
+      if (error.field) {
+        diagnostics.parameter = findApiParameter(doc, error.field);
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private getWebviewContent(_webview: vscode.Webview, section?: string): string {
+    // If a specific section is selected, show only that functionality
+    if (section === 'order') {
+      return this.getOrderContent();
+    } else if (section === 'payment') {
+      return this.getPaymentContent();
+    } else if (section === 'refund') {
+      return this.getRefundContent();
+    } else if (section === 'webhooks') {
+      return this.getWebhooksContent();
+    } else if (section === 'synthetic') {
+      return this.getSyntheticContent();
+    } else if (section === 'orders') {
+      return this.getOrdersExplorerContent();
+    } else if (section === 'subscriptions') {
+      return this.getSubscriptionsContent();
+    }
+    // Otherwise show the full tree view
+    return this.getFullContent();
+  }
+
+  private getOrderContent(): string {
+    const orderForm = '<form id="orderForm">' +
       '<div class="form-group">' +
         '<label for="amount">Amount *</label>' +
         '<input type="number" id="amount" name="amount" step="0.01" min="0.01" required placeholder="100.00" />' +
         '<div class="info-text">Amount in your currency (e.g., 100.00 for ₹100)</div>' +
+        '<div class="info-text amount-preview" id="amountPreview"></div>' +
       '</div>' +
       '<div class="form-group">' +
         '<label for="currency">Currency *</label>' +
         '<select id="currency" name="currency" required>' +
-          '<option value="INR">INR (Indian Rupee)</option>' +
-          '<option value="USD">USD (US Dollar)</option>' +
-          '<option value="EUR">EUR (Euro)</option>' +
-          '<option value="GBP">GBP (British Pound)</option>' +
+          this.getCurrencyOptions() +
         '</select>' +
       '</div>' +
       '<div class="form-group">' +
@@ -330,14 +863,12 @@ export class EventsWebviewProvider {
         '<label for="paymentAmount">Amount *</label>' +
         '<input type="number" id="paymentAmount" name="paymentAmount" step="0.01" min="0.01" required placeholder="100.00" />' +
         '<div class="info-text">Amount in your currency (e.g., 100.00 for ₹100)</div>' +
+        '<div class="info-text amount-preview" id="paymentAmountPreview"></div>' +
       '</div>' +
       '<div class="form-group">' +
         '<label for="paymentCurrency">Currency *</label>' +
         '<select id="paymentCurrency" name="paymentCurrency" required>' +
-          '<option value="INR">INR (Indian Rupee)</option>' +
-          '<option value="USD">USD (US Dollar)</option>' +
-          '<option value="EUR">EUR (Euro)</option>' +
-          '<option value="GBP">GBP (British Pound)</option>' +
+          this.getCurrencyOptions() +
         '</select>' +
       '</div>' +
       '<div class="form-group">' +
@@ -363,12 +894,13 @@ export class EventsWebviewProvider {
   }
 
   private getRefundContent(): string {
+    const prefilledPaymentId = (this.refundPaymentId || '').replace(/^pay_/, '').replace(/[^\w]/g, '');
     const refundForm = '<form id="refundForm">' +
       '<div class="form-group">' +
         '<label for="paymentId">Payment ID *</label>' +
         '<div style="display: flex; align-items: center; gap: 5px;">' +
           '<span style="padding: 10px; background-color: var(--vscode-textCodeBlock-background); border: 1px solid var(--vscode-input-border); border-radius: 4px 0 0 4px; color: var(--vscode-descriptionForeground);">pay_</span>' +
-          '<input type="text" id="paymentId" name="paymentId" required placeholder="29QQoUBi66xm2f" style="flex: 1; border-radius: 0 4px 4px 0; border-left: none;" />' +
+          '<input type="text" id="paymentId" name="paymentId" required placeholder="29QQoUBi66xm2f" value="' + prefilledPaymentId + '" style="flex: 1; border-radius: 0 4px 4px 0; border-left: none;" />' +
         '</div>' +
         '<div class="info-text">Enter only the payment ID (the pay_ prefix is added automatically)</div>' +
       '</div>' +
@@ -376,12 +908,20 @@ export class EventsWebviewProvider {
         '<label for="refundAmount">Amount (Optional)</label>' +
         '<input type="number" id="refundAmount" name="refundAmount" step="0.01" min="0.01" placeholder="100.00" />' +
         '<div class="info-text">Amount to refund in your currency. Leave empty for full refund (e.g., 100.00 for ₹100)</div>' +
+        '<div class="info-text amount-preview" id="refundAmountPreview"></div>' +
+      '</div>' +
+      '<div class="form-group">' +
+        '<label for="refundCurrency">Payment Currency</label>' +
+        '<select id="refundCurrency" name="refundCurrency">' +
+          this.getCurrencyOptions() +
+        '</select>' +
+        '<div class="info-text">Currency of the payment; checked against the payment before a partial refund is sent</div>' +
       '</div>' +
       '<div class="form-group">' +
         '<label for="refundSpeed">Refund Speed</label>' +
         '<select id="refundSpeed" name="refundSpeed">' +
           '<option value="normal" selected>Normal (5-7 working days)</option>' +
-          '<option value="instant">Instant</option>' +
+          '<option value="optimum">Optimum (instant where the bank supports it)</option>' +
         '</select>' +
         '<div class="info-text">Speed at which the refund is to be processed</div>' +
       '</div>' +
@@ -402,8 +942,265 @@ export class EventsWebviewProvider {
     return this.getBaseHTML('Create Refund', 'Create a refund for a payment. Provide the payment_id and optionally specify the amount (leave empty for full refund).', refundForm, 'refund');
   }
 
-  private getBaseHTML(title: string, description: string, content: string, formType: 'order' | 'payment' | 'refund'): string {
-    const scriptContent = formType === 'order' ? this.getOrderScript() : formType === 'payment' ? this.getPaymentScript() : this.getRefundScript();
+  private getWebhooksContent(): string {
+    const webhooksContent = '<div class="webhook-toolbar">' +
+        '<div>' +
+          '<span class="status-dot" id="listenerDot"></span>' +
+          '<strong id="listenerStatus">Listener stopped</strong>' +
+          '<div class="info-text" id="listenerUrl"></div>' +
+        '</div>' +
+        '<div class="toolbar-actions">' +
+          '<button id="toggleListenerButton">Start Listener</button>' +
+          '<button id="clearWebhooksButton" class="secondary">Clear</button>' +
+        '</div>' +
+      '</div>' +
+      '<div class="config-warning" id="secretWarning" style="display: none;">' +
+        '⚠️ No webhook secret configured. Store the secret used in the Razorpay Dashboard with <code>Razorpay: Set Credentials</code> to verify <code>X-Razorpay-Signature</code>.' +
+      '</div>' +
+      '<div class="webhook-layout">' +
+        '<div class="webhook-list" id="webhookList"></div>' +
+        '<div class="webhook-detail" id="webhookDetail">' +
+          '<div class="info-text">Select a webhook to see its payload and headers.</div>' +
+        '</div>' +
+      '</div>';
+
+    return this.getBaseHTML('Webhook Inbox', 'Webhooks delivered to the local listener, with their payload, headers and signature verification result.', webhooksContent, 'webhooks');
+  }
+
+  private getSyntheticContent(): string {
+    const categories = Array.from(new Set(webhookEventCatalogue.map(e => e.category)));
+    const eventOptions = categories.map(category =>
+      '<optgroup label="' + category + '">' +
+        webhookEventCatalogue
+          .filter(e => e.category === category)
+          .map(e => '<option value="' + e.event + '" data-contains="' + e.contains.join(',') + '" title="' + e.description.replace(/"/g, '&quot;') + '">' + e.event + '</option>')
+          .join('') +
+      '</optgroup>'
+    ).join('');
+
+    const syntheticForm = '<form id="syntheticForm">' +
+      '<div class="form-group">' +
+        '<label for="syntheticEvent">Event *</label>' +
+        '<select id="syntheticEvent" name="syntheticEvent" required>' + eventOptions + '</select>' +
+        '<div class="info-text" id="syntheticEventDescription"></div>' +
+      '</div>' +
+      '<div class="form-group">' +
+        '<label for="syntheticAmount">Amount *</label>' +
+        '<input type="number" id="syntheticAmount" name="syntheticAmount" step="0.01" min="0.01" required value="500.00" />' +
+        '<div class="info-text amount-preview" id="syntheticAmountPreview"></div>' +
+      '</div>' +
+      '<div class="form-group">' +
+        '<label for="syntheticCurrency">Currency *</label>' +
+        '<select id="syntheticCurrency" name="syntheticCurrency" required>' +
+          this.getCurrencyOptions() +
+        '</select>' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="payment">' +
+        '<label for="syntheticPaymentId">Payment ID</label>' +
+        '<input type="text" id="syntheticPaymentId" placeholder="pay_xxxxxxxxxxxxx (generated if empty)" />' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="payment">' +
+        '<label for="syntheticMethod">Payment Method</label>' +
+        '<select id="syntheticMethod">' +
+          '<option value="card">Card</option>' +
+          '<option value="upi">UPI</option>' +
+          '<option value="netbanking">Netbanking</option>' +
+          '<option value="wallet">Wallet</option>' +
+        '</select>' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="payment,order">' +
+        '<label for="syntheticOrderId">Order ID</label>' +
+        '<input type="text" id="syntheticOrderId" placeholder="order_xxxxxxxxxxxxx (generated if empty)" />' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="refund">' +
+        '<label for="syntheticRefundId">Refund ID</label>' +
+        '<input type="text" id="syntheticRefundId" placeholder="rfnd_xxxxxxxxxxxxx (generated if empty)" />' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="subscription">' +
+        '<label for="syntheticSubscriptionId">Subscription ID</label>' +
+        '<input type="text" id="syntheticSubscriptionId" placeholder="sub_xxxxxxxxxxxxx (generated if empty)" />' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="payment_link">' +
+        '<label for="syntheticPaymentLinkId">Payment Link ID</label>' +
+        '<input type="text" id="syntheticPaymentLinkId" placeholder="plink_xxxxxxxxxxxxx (generated if empty)" />' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="payment,payment_link">' +
+        '<label for="syntheticEmail">Customer Email</label>' +
+        '<input type="email" id="syntheticEmail" placeholder="customer@example.com" />' +
+      '</div>' +
+      '<div class="form-group entity-field" data-entity="payment,payment_link">' +
+        '<label for="syntheticContact">Customer Contact</label>' +
+        '<input type="text" id="syntheticContact" placeholder="+919999999999" />' +
+      '</div>' +
+      '<div class="form-group">' +
+        '<label for="syntheticNotes">Notes (Optional)</label>' +
+        '<textarea id="syntheticNotes" placeholder=\'{"key1": "value1", "key2": "value2"}\'></textarea>' +
+        '<div class="info-text">JSON object copied into the notes of every entity</div>' +
+      '</div>' +
+      '<button type="submit" id="generatePayloadButton">Generate Payload</button>' +
+    '</form>' +
+    '<div class="form-group" style="margin-top: 20px;">' +
+      '<label for="syntheticPayload">Payload</label>' +
+      '<textarea id="syntheticPayload" style="min-height: 260px;" placeholder="Generate a payload, then edit it if needed"></textarea>' +
+    '</div>' +
+    '<div class="form-group">' +
+      '<label for="syntheticUrl">Target URL *</label>' +
+      '<input type="text" id="syntheticUrl" placeholder="http://localhost:3000/razorpay/webhook" />' +
+      '<div class="info-text">The payload is signed with the stored webhook secret and POSTed here</div>' +
+    '</div>' +
+    '<button id="sendSyntheticButton">Send Webhook</button>' +
+    '<div id="syntheticResult"></div>';
+
+    return this.getBaseHTML('Send Test Webhook', 'Generate a realistic webhook payload for any Razorpay event, sign it and POST it to your local handler. No network or live account needed.', syntheticForm, 'synthetic');
+  }
+
+  private getOrdersExplorerContent(): string {
+    const ordersExplorer = '<form id="ordersFilterForm" class="filter-bar">' +
+        '<div class="form-group">' +
+          '<label for="ordersFrom">From</label>' +
+          '<input type="date" id="ordersFrom" />' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="ordersTo">To</label>' +
+          '<input type="date" id="ordersTo" />' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="ordersReceipt">Receipt</label>' +
+          '<input type="text" id="ordersReceipt" placeholder="receipt_001" />' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="ordersCount">Per Page</label>' +
+          '<select id="ordersCount">' +
+            '<option value="10" selected>10</option>' +
+            '<option value="25">25</option>' +
+            '<option value="50">50</option>' +
+            '<option value="100">100</option>' +
+          '</select>' +
+        '</div>' +
+        '<button type="submit" id="ordersSearchButton">Search</button>' +
+      '</form>' +
+      '<div id="ordersResult"></div>' +
+      '<div class="pager">' +
+        '<button id="ordersPrevButton" class="secondary" disabled>Previous</button>' +
+        '<span id="ordersPageInfo" class="info-text"></span>' +
+        '<button id="ordersNextButton" class="secondary" disabled>Next</button>' +
+      '</div>' +
+      '<div id="orderDetail"></div>';
+
+    return this.getBaseHTML('Orders Explorer', 'Browse test orders, inspect their payments and update their notes without leaving VS Code.', ordersExplorer, 'orders');
+  }
+
+  private getSubscriptionsContent(): string {
+    const subscriptionsPanel = '<h2>Plans</h2>' +
+      '<div id="plansResult"></div>' +
+      '<details id="planFormDetails">' +
+        '<summary>Create Plan</summary>' +
+        '<form id="planForm">' +
+          '<div class="form-group">' +
+            '<label for="planName">Name *</label>' +
+            '<input type="text" id="planName" required placeholder="Pro plan" />' +
+          '</div>' +
+          '<div class="form-group">' +
+            '<label for="planAmount">Amount per Charge *</label>' +
+            '<input type="number" id="planAmount" step="0.01" min="0.01" required placeholder="499.00" />' +
+            '<div class="info-text amount-preview" id="planAmountPreview"></div>' +
+          '</div>' +
+          '<div class="form-group">' +
+            '<label for="planCurrency">Currency *</label>' +
+            '<select id="planCurrency" required>' +
+              this.getCurrencyOptions() +
+            '</select>' +
+          '</div>' +
+          '<div class="form-group">' +
+            '<label for="planPeriod">Billing Period *</label>' +
+            '<select id="planPeriod" required>' +
+              '<option value="daily">Daily</option>' +
+              '<option value="weekly">Weekly</option>' +
+              '<option value="monthly" selected>Monthly</option>' +
+              '<option value="yearly">Yearly</option>' +
+            '</select>' +
+          '</div>' +
+          '<div class="form-group">' +
+            '<label for="planInterval">Interval *</label>' +
+            '<input type="number" id="planInterval" min="1" step="1" required value="1" />' +
+            '<div class="info-text">Charge every N periods (daily plans need at least 7)</div>' +
+          '</div>' +
+          '<div class="form-group">' +
+            '<label for="planDescription">Description (Optional)</label>' +
+            '<input type="text" id="planDescription" placeholder="Monthly Pro subscription" />' +
+          '</div>' +
+          '<button type="submit" id="createPlanButton">Create Plan</button>' +
+        '</form>' +
+        '<div id="planResult"></div>' +
+      '</details>' +
+      '<h2>Create Subscription</h2>' +
+      '<form id="subscriptionForm">' +
+        '<div class="form-group">' +
+          '<label for="subscriptionPlan">Plan *</label>' +
+          '<select id="subscriptionPlan" required></select>' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="subscriptionTotalCount">Billing Cycles *</label>' +
+          '<input type="number" id="subscriptionTotalCount" min="1" step="1" required value="12" />' +
+          '<div class="info-text">Number of times the customer is charged</div>' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="subscriptionQuantity">Quantity (Optional)</label>' +
+          '<input type="number" id="subscriptionQuantity" min="1" step="1" placeholder="1" />' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="subscriptionStartAt">Start Date (Optional)</label>' +
+          '<input type="date" id="subscriptionStartAt" />' +
+          '<div class="info-text">Leave empty to start as soon as the customer authorizes</div>' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label><input type="checkbox" id="subscriptionNotify" style="width: auto;" checked /> Let Razorpay notify the customer</label>' +
+        '</div>' +
+        '<div class="form-group">' +
+          '<label for="subscriptionNotes">Notes (Optional)</label>' +
+          '<textarea id="subscriptionNotes" placeholder=\'{"key1": "value1"}\'></textarea>' +
+        '</div>' +
+        '<button type="submit" id="createSubscriptionButton">Create Subscription</button>' +
+      '</form>' +
+      '<div id="subscriptionResult"></div>' +
+      '<div class="webhook-toolbar" style="margin-top: 20px;">' +
+        '<h2>Subscriptions</h2>' +
+        '<div class="toolbar-actions">' +
+          '<select id="subscriptionsPlanFilter"><option value="">All plans</option></select>' +
+          '<button id="refreshSubscriptionsButton" class="secondary">Refresh</button>' +
+        '</div>' +
+      '</div>' +
+      '<div id="subscriptionsResult"></div>' +
+      '<div id="subscriptionDetail"></div>';
+
+    return this.getBaseHTML('Subscriptions & Plans', 'Create plans and subscriptions, pause, resume or cancel them, and inspect the invoices each billing cycle generates.', subscriptionsPanel, 'subscriptions');
+  }
+
+  private getBaseHTML(title: string, description: string, content: string, formType: 'order' | 'payment' | 'refund' | 'webhooks' | 'synthetic' | 'orders' | 'subscriptions'): string {
+    let scriptContent: string;
+    switch (formType) {
+      case 'order':
+        scriptContent = this.getOrderScript();
+        break;
+      case 'payment':
+        scriptContent = this.getPaymentScript();
+        break;
+      case 'refund':
+        scriptContent = this.getRefundScript();
+        break;
+      case 'webhooks':
+        scriptContent = this.getWebhooksScript();
+        break;
+      case 'synthetic':
+        scriptContent = this.getSyntheticScript();
+        break;
+      case 'orders':
+        scriptContent = this.getOrdersExplorerScript();
+        break;
+      case 'subscriptions':
+        scriptContent = this.getSubscriptionsScript();
+        break;
+    }
     
     return `<!DOCTYPE html>
 <html lang="en">
@@ -426,6 +1223,14 @@ export class EventsWebviewProvider {
             color: var(--vscode-textLink-foreground);
             margin-bottom: 10px;
         }
+        h2 {
+            font-size: 16px;
+            margin: 20px 0 10px;
+        }
+        details summary {
+            cursor: pointer;
+            margin: 10px 0;
+        }
         .description {
             color: var(--vscode-descriptionForeground);
             margin-bottom: 20px;
@@ -438,6 +1243,13 @@ export class EventsWebviewProvider {
             border-radius: 4px;
             margin-bottom: 20px;
         }
+        .config-warning.live-mode {
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border-left-color: var(--vscode-inputValidation-errorBorder);
+        }
+        .key-source {
+            margin: -10px 0 20px;
+        }
         .form-group {
             margin-bottom: 20px;
         }
@@ -489,6 +1301,26 @@ export class EventsWebviewProvider {
             background-color: var(--vscode-inputValidation-errorBackground);
             border-left: 3px solid var(--vscode-inputValidation-errorBorder);
         }
+        .result.error .error-parameter {
+            margin-top: 10px;
+            padding: 10px;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 4px;
+        }
+        .result.error .error-parameter .badge {
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .amount-preview {
+            font-family: var(--vscode-editor-font-family);
+        }
+        .amount-preview.invalid {
+            color: var(--vscode-errorForeground);
+        }
+        input.field-error, select.field-error, textarea.field-error {
+            border-color: var(--vscode-inputValidation-errorBorder);
+            outline: 1px solid var(--vscode-inputValidation-errorBorder);
+        }
         .order-id, .payment-id {
             font-family: var(--vscode-editor-font-family);
             background-color: var(--vscode-textCodeBlock-background);
@@ -517,27 +1349,311 @@ export class EventsWebviewProvider {
         a.payment-link:hover {
             color: var(--vscode-textLink-activeForeground);
         }
-    </style>
-</head>
+        button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .webhook-toolbar {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 20px;
+        }
+        .toolbar-actions {
+            display: flex;
+            gap: 8px;
+        }
+        .status-dot {
+            display: inline-block;
+            width: 8px;
+            height: 8px;
+            border-radius: 50%;
+            margin-right: 8px;
+            background-color: var(--vscode-descriptionForeground);
+        }
+        .status-dot.running {
+            background-color: #4caf50;
+        }
+        .webhook-layout {
+            display: flex;
+            gap: 16px;
+        }
+        .webhook-list {
+            flex: 0 0 260px;
+            max-height: 70vh;
+            overflow-y: auto;
+        }
+        .webhook-detail {
+            flex: 1;
+            min-width: 0;
+        }
+        .webhook-item {
+            padding: 10px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            margin-bottom: 8px;
+            cursor: pointer;
+        }
+        .webhook-item.selected {
+            border-color: var(--vscode-focusBorder);
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .badge {
+            display: inline-block;
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 11px;
+            margin-top: 4px;
+        }
+        .badge.verified {
+            background-color: rgba(76, 175, 80, 0.2);
+            color: #4caf50;
+        }
+        .badge.invalid {
+            background-color: var(--vscode-inputValidation-errorBackground);
+            color: var(--vscode-errorForeground);
+        }
+        .badge.unverified {
+            background-color: var(--vscode-inputValidation-warningBackground);
+        }
+        pre.code-block {
+            font-family: var(--vscode-editor-font-family);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 10px;
+            border-radius: 4px;
+            overflow-x: auto;
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
+        table.headers {
+            width: 100%;
+            border-collapse: collapse;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+        }
+        .filter-bar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            align-items: flex-end;
+            margin-bottom: 20px;
+        }
+        .filter-bar .form-group {
+            flex: 1 1 140px;
+            margin-bottom: 0;
+        }
+        table.data-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 13px;
+        }
+        table.data-table th, table.data-table td {
+            text-align: left;
+            padding: 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        table.data-table tr.clickable {
+            cursor: pointer;
+        }
+        table.data-table tr.clickable:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        table.data-table code {
+            font-family: var(--vscode-editor-font-family);
+        }
+        .pager {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin: 15px 0;
+        }
+        table.headers td {
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            vertical-align: top;
+            word-break: break-all;
+        }
+    </style>
+</head>
 <body>
     <div class="container">
         <h1>${title}</h1>
         <p class="description">${description}</p>
         
         <div class="config-warning" id="configWarning" style="display: none;">
-            ⚠️ Razorpay credentials not configured. Please set <code>razorpay.keyId</code> and <code>razorpay.keySecret</code> in VS Code settings (Code → Settings → Settings → search "razorpay").
+            ⚠️ Razorpay credentials not configured. Run <strong>Razorpay: Set Credentials</strong> from the Command Palette to add your Key ID and Key Secret.
         </div>
+        <div class="config-warning live-mode" id="liveModeBanner" style="display: none;"></div>
+        <div class="info-text key-source" id="keySource" style="display: none;"></div>
 
         ${content}
     </div>
 
     <script>
+        function escapeHtml(value) {
+            return String(value)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#39;');
+        }
+
         ${scriptContent}
     </script>
+    <script>
+        window.addEventListener('message', event => {
+            if (event.data.command === 'configStatus') {
+                const liveModeBanner = document.getElementById('liveModeBanner');
+                liveModeBanner.style.display = event.data.mode === 'live' ? 'block' : 'none';
+                liveModeBanner.textContent = '🔴 LIVE MODE · ' + event.data.profile +
+                    ': orders, payment links, refunds and subscriptions created here are real. Each write is confirmed or blocked per razorpay.liveMode.mutations.';
+
+                const keySource = document.getElementById('keySource');
+                keySource.style.display = event.data.keySource ? 'block' : 'none';
+                keySource.textContent = '🔑 ' + event.data.keyId + ' from ' + event.data.keySource;
+            }
+        });
+    </script>
 </body>
 </html>`;
   }
 
+  private getCurrencyOptions(): string {
+    return supportedCurrencies
+      .map(c => '<option value="' + c.code + '">' + c.code + ' (' + c.name + ')</option>')
+      .join('');
+  }
+
+  /**
+   * Shared script for converting form amounts to subunits, mirroring utils/money.ts
+   */
+  private getMoneyScript(): string {
+    const exponents = JSON.stringify(Object.fromEntries(supportedCurrencies.map(c => [c.code, c.exponent])));
+    return `
+        const currencyExponents = ${exponents};
+
+        function parseSubunits(value, currency) {
+            const exponent = currencyExponents[currency];
+            if (exponent === undefined) {
+                return { error: 'Unsupported currency: ' + currency };
+            }
+            const match = /^(\\d+)(?:\\.(\\d+))?$/.exec(String(value).trim());
+            if (!match) {
+                return { error: 'Invalid amount' };
+            }
+            const fraction = (match[2] || '').replace(/0+$/, '');
+            if (fraction.length > exponent) {
+                return {
+                    error: exponent === 0
+                        ? currency + ' does not support decimal amounts'
+                        : currency + ' amounts support at most ' + exponent + ' decimal places',
+                };
+            }
+            const subunits = Number(match[1] + fraction.padEnd(exponent, '0'));
+            if (subunits <= 0) {
+                return { error: 'Amount must be greater than zero' };
+            }
+            return { subunits };
+        }
+
+        function formatSubunits(subunits, currency) {
+            const exponent = currencyExponents[currency] ?? 2;
+            return (subunits / Math.pow(10, exponent)).toFixed(exponent) + ' ' + currency;
+        }
+
+        function bindAmountPreview(amountId, currencyId, previewId) {
+            const amountInput = document.getElementById(amountId);
+            const currencyInput = document.getElementById(currencyId);
+            const preview = document.getElementById(previewId);
+
+            function update() {
+                const exponent = currencyExponents[currencyInput.value] ?? 2;
+                const step = exponent === 0 ? '1' : '0.' + '0'.repeat(exponent - 1) + '1';
+                amountInput.step = step;
+                amountInput.min = step;
+
+                if (!amountInput.value) {
+                    preview.textContent = '';
+                    preview.classList.remove('invalid');
+                    return;
+                }
+
+                const result = parseSubunits(amountInput.value, currencyInput.value);
+                preview.textContent = result.error || 'Will be sent as ' + result.subunits + ' subunits';
+                preview.classList.toggle('invalid', !!result.error);
+            }
+
+            amountInput.addEventListener('input', update);
+            currencyInput.addEventListener('change', update);
+            update();
+        }
+    `;
+  }
+
+  /**
+   * Shared script for rendering failed requests in the create forms and the orders explorer
+   * Expects the including script to define `fieldInputs`, mapping API field names to input ids
+   */
+  private getErrorDiagnosticsScript(): string {
+    return `
+        function clearFieldErrors() {
+            document.querySelectorAll('.field-error').forEach(el => el.classList.remove('field-error'));
+        }
+
+        function renderErrorCard(title, message, diagnostics) {
+            let html = '<div class="result error">' +
+                '<h3>' + escapeHtml(title) + '</h3>' +
+                '<p>' + escapeHtml(message) + '</p>';
+
+            if (!diagnostics) {
+                return html + '</div>';
+            }
+
+            if (diagnostics.code) {
+                html += '<p><code>' + escapeHtml(diagnostics.code) + '</code>' +
+                    (diagnostics.statusCode ? ' &middot; HTTP ' + diagnostics.statusCode : '') + '</p>';
+            }
+
+            if (diagnostics.field) {
+                const inputId = fieldInputs[diagnostics.field] || fieldInputs[diagnostics.field.split('.')[0]];
+                const input = inputId ? document.getElementById(inputId) : null;
+                const label = input ? document.querySelector('label[for="' + input.id + '"]') : null;
+                if (input) {
+                    input.classList.add('field-error');
+                    input.focus();
+                }
+                html += '<p><strong>Field:</strong> <code>' + escapeHtml(diagnostics.field) + '</code>' +
+                    (label ? ' (' + escapeHtml(label.textContent.replace(' *', '').replace(' (Optional)', '')) + ')' : '') + '</p>';
+            }
+
+            const details = [['Source', diagnostics.source], ['Step', diagnostics.step], ['Reason', diagnostics.reason]]
+                .filter(detail => detail[1]);
+            if (details.length > 0) {
+                html += '<ul>' + details.map(detail => '<li>' + detail[0] + ': ' + escapeHtml(detail[1]) + '</li>').join('') + '</ul>';
+            }
+
+            if (diagnostics.parameter) {
+                const parameter = diagnostics.parameter;
+                html += '<div class="error-parameter">' +
+                    '<p><code>' + escapeHtml(parameter.name) + '</code> ' +
+                        '<span class="badge">' + escapeHtml(parameter.type) + '</span>' +
+                        (parameter.required ? ' <span class="badge">required</span>' : '') + '</p>' +
+                    '<p>' + escapeHtml(parameter.description) + '</p>' +
+                    (parameter.example ? '<p>Example: <code>' + escapeHtml(parameter.example) + '</code></p>' : '') +
+                '</div>';
+            }
+
+            if (diagnostics.docUrl) {
+                html += '<p><a href="' + escapeHtml(diagnostics.docUrl) + '">' + escapeHtml(diagnostics.apiName) + ' API reference</a></p>';
+            }
+
+            return html + '</div>';
+        }
+    `;
+  }
+
   private getOrderScript(): string {
     return `
         const vscode = acquireVsCodeApi();
@@ -545,21 +1661,33 @@ export class EventsWebviewProvider {
         const resultDiv = document.getElementById('result');
         const configWarning = document.getElementById('configWarning');
         const createButton = document.getElementById('createButton');
+        const fieldInputs = { amount: 'amount', currency: 'currency', receipt: 'receipt', notes: 'notes' };
+        ${this.getErrorDiagnosticsScript()}
+        ${this.getMoneyScript()}
+
+        bindAmountPreview('amount', 'currency', 'amountPreview');
 
         form.addEventListener('submit', async (e) => {
             e.preventDefault();
+            clearFieldErrors();
             
             const amount = document.getElementById('amount').value;
             const currency = document.getElementById('currency').value;
             const receipt = document.getElementById('receipt').value;
             const notesText = document.getElementById('notes').value;
 
+            const parsedAmount = parseSubunits(amount, currency);
+            if (parsedAmount.error) {
+                showResult(false, parsedAmount.error, { field: 'amount' });
+                return;
+            }
+
             let notes = null;
             if (notesText.trim()) {
                 try {
                     notes = JSON.parse(notesText);
                 } catch (err) {
-                    showResult(false, 'Invalid JSON in notes field');
+                    showResult(false, 'Invalid JSON in notes field', { field: 'notes' });
                     return;
                 }
             }
@@ -578,7 +1706,7 @@ export class EventsWebviewProvider {
             });
         });
 
-        function showResult(success, data) {
+        function showResult(success, data, diagnostics) {
             createButton.disabled = false;
             createButton.textContent = 'Create Order';
 
@@ -592,7 +1720,7 @@ export class EventsWebviewProvider {
                         '<button class="copy-button" onclick="copyOrderId(\\'' + data.id + '\\')">Copy Order ID</button>' +
                         '<p style="margin-top: 15px;"><strong>Details:</strong></p>' +
                         '<ul style="margin-top: 10px;">' +
-                            '<li>Amount: ' + (data.amount / 100) + ' ' + data.currency + '</li>' +
+                            '<li>Amount: ' + formatSubunits(data.amount, data.currency) + '</li>' +
                             '<li>Status: ' + data.status + '</li>' +
                             '<li>Receipt: ' + (data.receipt || 'N/A') + '</li>' +
                             '<li>Created: ' + createdDate + '</li>' +
@@ -602,11 +1730,7 @@ export class EventsWebviewProvider {
                         '</p>' +
                     '</div>';
             } else {
-                resultDiv.innerHTML = 
-                    '<div class="result error">' +
-                        '<h3>Failed to Create Order</h3>' +
-                        '<p>' + data + '</p>' +
-                    '</div>';
+                resultDiv.innerHTML = renderErrorCard('Failed to Create Order', data, diagnostics);
             }
         }
 
@@ -631,7 +1755,7 @@ export class EventsWebviewProvider {
                 if (message.success) {
                     showResult(true, message.order);
                 } else {
-                    showResult(false, message.error);
+                    showResult(false, message.error, message.diagnostics);
                 }
             }
         });
@@ -649,9 +1773,21 @@ export class EventsWebviewProvider {
         const paymentResultDiv = document.getElementById('paymentResult');
         const configWarning = document.getElementById('configWarning');
         const createPaymentButton = document.getElementById('createPaymentButton');
+        const fieldInputs = {
+            amount: 'paymentAmount',
+            currency: 'paymentCurrency',
+            order_id: 'orderId',
+            description: 'paymentDescription',
+            notes: 'paymentNotes',
+        };
+        ${this.getErrorDiagnosticsScript()}
+        ${this.getMoneyScript()}
+
+        bindAmountPreview('paymentAmount', 'paymentCurrency', 'paymentAmountPreview');
 
         paymentForm.addEventListener('submit', async (e) => {
             e.preventDefault();
+            clearFieldErrors();
             
             const amount = document.getElementById('paymentAmount').value;
             const currency = document.getElementById('paymentCurrency').value;
@@ -659,12 +1795,18 @@ export class EventsWebviewProvider {
             const description = document.getElementById('paymentDescription').value;
             const notesText = document.getElementById('paymentNotes').value;
 
+            const parsedAmount = parseSubunits(amount, currency);
+            if (parsedAmount.error) {
+                showPaymentResult(false, parsedAmount.error, { field: 'amount' });
+                return;
+            }
+
             let notes = null;
             if (notesText.trim()) {
                 try {
                     notes = JSON.parse(notesText);
                 } catch (err) {
-                    showPaymentResult(false, 'Invalid JSON in notes field');
+                    showPaymentResult(false, 'Invalid JSON in notes field', { field: 'notes' });
                     return;
                 }
             }
@@ -684,7 +1826,7 @@ export class EventsWebviewProvider {
             });
         });
 
-        function showPaymentResult(success, data) {
+        function showPaymentResult(success, data, diagnostics) {
             createPaymentButton.disabled = false;
             createPaymentButton.textContent = 'Create Payment Link';
 
@@ -703,7 +1845,7 @@ export class EventsWebviewProvider {
                         '<button class="copy-button" onclick="copyPaymentUrl(\\'' + data.short_url + '\\')">Copy Checkout URL</button>' +
                         '<p style="margin-top: 15px;"><strong>Details:</strong></p>' +
                         '<ul style="margin-top: 10px;">' +
-                            '<li>Amount: ' + (data.amount / 100) + ' ' + data.currency + '</li>' +
+                            '<li>Amount: ' + formatSubunits(data.amount, data.currency) + '</li>' +
                             '<li>Status: ' + data.status + '</li>' +
                             '<li>Order ID: ' + data.order_id + '</li>' +
                             '<li>Created: ' + createdDate + '</li>' +
@@ -713,11 +1855,7 @@ export class EventsWebviewProvider {
                         '</p>' +
                     '</div>';
             } else {
-                paymentResultDiv.innerHTML = 
-                    '<div class="result error">' +
-                        '<h3>Failed to Create Payment Link</h3>' +
-                        '<p>' + data + '</p>' +
-                    '</div>';
+                paymentResultDiv.innerHTML = renderErrorCard('Failed to Create Payment Link', data, diagnostics);
             }
         }
 
@@ -749,7 +1887,7 @@ export class EventsWebviewProvider {
                 if (message.success) {
                     showPaymentResult(true, message.payment);
                 } else {
-                    showPaymentResult(false, message.error);
+                    showPaymentResult(false, message.error, message.diagnostics);
                 }
             }
         });
@@ -767,12 +1905,26 @@ export class EventsWebviewProvider {
         const refundResultDiv = document.getElementById('refundResult');
         const configWarning = document.getElementById('configWarning');
         const createRefundButton = document.getElementById('createRefundButton');
+        const fieldInputs = {
+            payment_id: 'paymentId',
+            amount: 'refundAmount',
+            speed: 'refundSpeed',
+            receipt: 'refundReceipt',
+            currency: 'refundCurrency',
+            notes: 'refundNotes',
+        };
+        ${this.getErrorDiagnosticsScript()}
+        ${this.getMoneyScript()}
+
+        bindAmountPreview('refundAmount', 'refundCurrency', 'refundAmountPreview');
 
         refundForm.addEventListener('submit', async (e) => {
             e.preventDefault();
+            clearFieldErrors();
             
             let paymentId = document.getElementById('paymentId').value.trim();
             const refundAmount = document.getElementById('refundAmount').value;
+            const refundCurrency = document.getElementById('refundCurrency').value;
             const refundSpeed = document.getElementById('refundSpeed').value;
             const refundReceipt = document.getElementById('refundReceipt').value;
             const refundNotesText = document.getElementById('refundNotes').value;
@@ -783,16 +1935,24 @@ export class EventsWebviewProvider {
             }
 
             if (!paymentId || paymentId === 'pay_') {
-                showRefundResult(false, 'Please enter a valid payment ID');
+                showRefundResult(false, 'Please enter a valid payment ID', { field: 'payment_id' });
                 return;
             }
 
+            if (refundAmount) {
+                const parsedAmount = parseSubunits(refundAmount, refundCurrency);
+                if (parsedAmount.error) {
+                    showRefundResult(false, parsedAmount.error, { field: 'amount' });
+                    return;
+                }
+            }
+
             let refundNotes = null;
             if (refundNotesText.trim()) {
                 try {
                     refundNotes = JSON.parse(refundNotesText);
                 } catch (err) {
-                    showRefundResult(false, 'Invalid JSON in notes field');
+                    showRefundResult(false, 'Invalid JSON in notes field', { field: 'notes' });
                     return;
                 }
             }
@@ -805,6 +1965,7 @@ export class EventsWebviewProvider {
                 data: {
                     payment_id: paymentId,
                     amount: refundAmount || undefined,
+                    currency: refundAmount ? refundCurrency : undefined,
                     speed: refundSpeed,
                     receipt: refundReceipt || undefined,
                     notes: refundNotes || undefined,
@@ -812,7 +1973,7 @@ export class EventsWebviewProvider {
             });
         });
 
-        function showRefundResult(success, data) {
+        function showRefundResult(success, data, diagnostics) {
             createRefundButton.disabled = false;
             createRefundButton.textContent = 'Create Refund';
 
@@ -826,7 +1987,7 @@ export class EventsWebviewProvider {
                         '<button class="copy-button" onclick="copyRefundId(\\'' + data.id + '\\')">Copy Refund ID</button>' +
                         '<p style="margin-top: 15px;"><strong>Details:</strong></p>' +
                         '<ul style="margin-top: 10px;">' +
-                            '<li>Amount: ' + (data.amount / 100) + ' ' + data.currency + '</li>' +
+                            '<li>Amount: ' + formatSubunits(data.amount, data.currency) + '</li>' +
                             '<li>Status: ' + data.status + '</li>' +
                             '<li>Payment ID: ' + data.payment_id + '</li>' +
                             '<li>Speed: ' + (data.speed_processed || data.speed_requested || 'normal') + '</li>' +
@@ -839,11 +2000,7 @@ export class EventsWebviewProvider {
                         '</p>' +
                     '</div>';
             } else {
-                refundResultDiv.innerHTML = 
-                    '<div class="result error">' +
-                        '<h3>Failed to Create Refund</h3>' +
-                        '<p>' + data + '</p>' +
-                    '</div>';
+                refundResultDiv.innerHTML = renderErrorCard('Failed to Create Refund', data, diagnostics);
             }
         }
 
@@ -868,7 +2025,960 @@ export class EventsWebviewProvider {
                 if (message.success) {
                     showRefundResult(true, message.refund);
                 } else {
-                    showRefundResult(false, message.error);
+                    showRefundResult(false, message.error, message.diagnostics);
+                }
+            }
+        });
+
+        vscode.postMessage({
+            command: 'checkConfig'
+        });
+    `;
+  }
+
+  private getWebhooksScript(): string {
+    return `
+        const vscode = acquireVsCodeApi();
+        const listEl = document.getElementById('webhookList');
+        const detailEl = document.getElementById('webhookDetail');
+        const listenerDot = document.getElementById('listenerDot');
+        const listenerStatus = document.getElementById('listenerStatus');
+        const listenerUrl = document.getElementById('listenerUrl');
+        const secretWarning = document.getElementById('secretWarning');
+        const toggleListenerButton = document.getElementById('toggleListenerButton');
+        const clearWebhooksButton = document.getElementById('clearWebhooksButton');
+        let events = [];
+        let selectedId = undefined;
+        let listening = false;
+        let forwardUrl = '';
+
+        const verificationLabels = {
+            verified: 'Signature verified',
+            invalid: 'Invalid signature',
+            missing_signature: 'No signature header',
+            no_secret: 'Not verified (no secret)'
+        };
+
+        function badge(verification) {
+            const cls = verification === 'verified' ? 'verified' : verification === 'invalid' ? 'invalid' : 'unverified';
+            return '<span class="badge ' + cls + '">' + verificationLabels[verification] + '</span>';
+        }
+
+        function renderList() {
+            if (events.length === 0) {
+                listEl.innerHTML = '<div class="info-text">' +
+                    (listening ? 'Waiting for webhooks...' : 'Start the listener to capture webhooks.') +
+                    '</div>';
+                return;
+            }
+
+            listEl.innerHTML = events.map(e =>
+                '<div class="webhook-item' + (e.id === selectedId ? ' selected' : '') + '" data-id="' + escapeHtml(e.id) + '">' +
+                    '<strong>' + escapeHtml(e.event) + '</strong>' +
+                    '<div class="info-text">' + new Date(e.receivedAt).toLocaleTimeString() + '</div>' +
+                    badge(e.verification) +
+                '</div>'
+            ).join('');
+
+            listEl.querySelectorAll('.webhook-item').forEach(item => {
+                item.addEventListener('click', () => selectEvent(item.getAttribute('data-id')));
+            });
+        }
+
+        function renderDetail() {
+            const event = events.find(e => e.id === selectedId);
+            if (!event) {
+                detailEl.innerHTML = '<div class="info-text">Select a webhook to see its payload and headers.</div>';
+                return;
+            }
+
+            const payloadText = typeof event.payload === 'string' ? event.payload : JSON.stringify(event.payload, null, 2);
+            const headerRows = Object.keys(event.headers).sort().map(name =>
+                '<tr><td>' + escapeHtml(name) + '</td><td>' + escapeHtml(event.headers[name]) + '</td></tr>'
+            ).join('');
+
+            detailEl.innerHTML =
+                '<h3>' + escapeHtml(event.event) + '</h3>' +
+                badge(event.verification) +
+                '<ul style="margin-top: 10px;">' +
+                    '<li>Received: ' + new Date(event.receivedAt).toLocaleString() + '</li>' +
+                    '<li>Event ID: ' + escapeHtml(event.eventId || 'N/A') + '</li>' +
+                    '<li>Signature: <code>' + escapeHtml(event.signature || 'N/A') + '</code></li>' +
+                '</ul>' +
+                '<p style="margin-top: 15px;"><strong>Payload</strong></p>' +
+                '<pre class="code-block">' + escapeHtml(payloadText) + '</pre>' +
+                '<button class="copy-button" id="copyPayloadButton">Copy Payload</button>' +
+                '<p style="margin-top: 15px;"><strong>Headers</strong></p>' +
+                '<table class="headers">' + headerRows + '</table>' +
+                '<h3 style="margin-top: 25px;">Replay</h3>' +
+                '<div class="form-group">' +
+                    '<label for="replayUrl">Target URL *</label>' +
+                    '<input type="text" id="replayUrl" value="' + escapeHtml(forwardUrl) + '" placeholder="http://localhost:3000/razorpay/webhook" />' +
+                '</div>' +
+                '<div class="form-group">' +
+                    '<label for="replayBody">Payload</label>' +
+                    '<textarea id="replayBody" style="min-height: 200px;">' + escapeHtml(event.rawBody) + '</textarea>' +
+                    '<div class="info-text">Sent as-is or edited; the body is re-signed with the stored webhook secret before sending</div>' +
+                '</div>' +
+                '<div class="form-group">' +
+                    '<label for="replayTimes">Times</label>' +
+                    '<input type="number" id="replayTimes" min="1" max="50" value="1" />' +
+                    '<div class="info-text">Send the same delivery several times to test idempotency</div>' +
+                '</div>' +
+                '<div class="form-group">' +
+                    '<label><input type="checkbox" id="replayKeepEventId" style="width: auto;" checked /> Keep original X-Razorpay-Event-Id</label>' +
+                '</div>' +
+                '<button id="replayButton">Replay Webhook</button>' +
+                '<div id="replayResult"></div>';
+
+            document.getElementById('copyPayloadButton').addEventListener('click', () => {
+                vscode.postMessage({ command: 'copyToClipboard', text: event.rawBody });
+            });
+
+            document.getElementById('replayButton').addEventListener('click', () => replay(event));
+        }
+
+        function replay(event) {
+            const url = document.getElementById('replayUrl').value.trim();
+            const body = document.getElementById('replayBody').value;
+            const replayResultDiv = document.getElementById('replayResult');
+
+            if (!url) {
+                replayResultDiv.innerHTML = '<div class="result error"><p>Please enter a target URL</p></div>';
+                return;
+            }
+
+            try {
+                JSON.parse(body);
+            } catch (err) {
+                replayResultDiv.innerHTML = '<div class="result error"><p>Invalid JSON in payload</p></div>';
+                return;
+            }
+
+            const replayButton = document.getElementById('replayButton');
+            replayButton.disabled = true;
+            replayButton.textContent = 'Sending...';
+
+            vscode.postMessage({
+                command: 'replayWebhook',
+                data: {
+                    id: event.id,
+                    url,
+                    body,
+                    times: document.getElementById('replayTimes').value,
+                    keepEventId: document.getElementById('replayKeepEventId').checked,
+                }
+            });
+        }
+
+        function showReplayResult(message) {
+            const replayButton = document.getElementById('replayButton');
+            const replayResultDiv = document.getElementById('replayResult');
+            if (!replayButton || !replayResultDiv || message.id !== selectedId) {
+                return;
+            }
+
+            replayButton.disabled = false;
+            replayButton.textContent = 'Replay Webhook';
+
+            const failed = message.results.some(r => r.error || r.status >= 400);
+            replayResultDiv.innerHTML =
+                '<div class="result ' + (failed ? 'error' : 'success') + '">' +
+                    (message.signed ? '' : '<p>⚠️ Sent unsigned: no webhook secret is stored.</p>') +
+                    message.results.map(r => r.error
+                        ? '<p><strong>#' + r.attempt + '</strong> ' + escapeHtml(r.error) + '</p>'
+                        : '<p><strong>#' + r.attempt + '</strong> HTTP ' + r.status + ' ' + escapeHtml(r.statusText) + ' (' + r.durationMs + 'ms)</p>' +
+                          (r.body ? '<pre class="code-block">' + escapeHtml(r.body) + '</pre>' : '')
+                    ).join('') +
+                '</div>';
+        }
+
+        function selectEvent(id) {
+            selectedId = id;
+            vscode.postMessage({ command: 'selectWebhook', id });
+            renderList();
+            renderDetail();
+        }
+
+        toggleListenerButton.addEventListener('click', () => {
+            toggleListenerButton.disabled = true;
+            vscode.postMessage({ command: listening ? 'stopWebhookListener' : 'startWebhookListener' });
+        });
+
+        clearWebhooksButton.addEventListener('click', () => {
+            vscode.postMessage({ command: 'clearWebhooks' });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'webhooks') {
+                const previousSelectedId = selectedId;
+                events = message.events;
+                listening = message.listening;
+                forwardUrl = message.forwardUrl || '';
+                if (message.selectedId) {
+                    selectedId = message.selectedId;
+                } else if (!events.some(e => e.id === selectedId)) {
+                    selectedId = events.length > 0 ? events[0].id : undefined;
+                }
+
+                listenerDot.className = 'status-dot' + (listening ? ' running' : '');
+                listenerStatus.textContent = listening ? 'Listening' : 'Listener stopped';
+                listenerUrl.textContent = message.url ? 'POST ' + message.url : '';
+                toggleListenerButton.textContent = listening ? 'Stop Listener' : 'Start Listener';
+                toggleListenerButton.disabled = false;
+                secretWarning.style.display = message.secretConfigured ? 'none' : 'block';
+
+                renderList();
+                // Keep the replay form intact while new deliveries arrive
+                if (selectedId !== previousSelectedId || !document.getElementById('replayButton') || !events.some(e => e.id === selectedId)) {
+                    renderDetail();
+                }
+            } else if (message.command === 'replayResult') {
+                showReplayResult(message);
+            }
+        });
+
+        vscode.postMessage({
+            command: 'loadWebhooks'
+        });
+    `;
+  }
+
+  private getSyntheticScript(): string {
+    return `
+        const vscode = acquireVsCodeApi();
+        const syntheticForm = document.getElementById('syntheticForm');
+        const eventSelect = document.getElementById('syntheticEvent');
+        const eventDescription = document.getElementById('syntheticEventDescription');
+        const payloadInput = document.getElementById('syntheticPayload');
+        const urlInput = document.getElementById('syntheticUrl');
+        const generatePayloadButton = document.getElementById('generatePayloadButton');
+        const sendSyntheticButton = document.getElementById('sendSyntheticButton');
+        const syntheticResultDiv = document.getElementById('syntheticResult');
+
+        ${this.getMoneyScript()}
+
+        bindAmountPreview('syntheticAmount', 'syntheticCurrency', 'syntheticAmountPreview');
+
+        function updateEntityFields() {
+            const option = eventSelect.options[eventSelect.selectedIndex];
+            const contains = option.getAttribute('data-contains').split(',');
+            eventDescription.textContent = option.title;
+            document.querySelectorAll('.entity-field').forEach(field => {
+                const entities = field.getAttribute('data-entity').split(',');
+                field.style.display = entities.some(e => contains.includes(e)) ? 'block' : 'none';
+            });
+        }
+
+        eventSelect.addEventListener('change', () => {
+            updateEntityFields();
+            payloadInput.value = '';
+        });
+
+        syntheticForm.addEventListener('submit', (e) => {
+            e.preventDefault();
+
+            const parsedAmount = parseSubunits(
+                document.getElementById('syntheticAmount').value,
+                document.getElementById('syntheticCurrency').value,
+            );
+            if (parsedAmount.error) {
+                showSyntheticError(parsedAmount.error);
+                return;
+            }
+
+            const notesText = document.getElementById('syntheticNotes').value;
+            let notes = null;
+            if (notesText.trim()) {
+                try {
+                    notes = JSON.parse(notesText);
+                } catch (err) {
+                    showSyntheticError('Invalid JSON in notes field');
+                    return;
+                }
+            }
+
+            generatePayloadButton.disabled = true;
+            vscode.postMessage({
+                command: 'buildSyntheticWebhook',
+                data: {
+                    event: eventSelect.value,
+                    amount: document.getElementById('syntheticAmount').value,
+                    currency: document.getElementById('syntheticCurrency').value,
+                    payment_id: document.getElementById('syntheticPaymentId').value.trim(),
+                    order_id: document.getElementById('syntheticOrderId').value.trim(),
+                    refund_id: document.getElementById('syntheticRefundId').value.trim(),
+                    subscription_id: document.getElementById('syntheticSubscriptionId').value.trim(),
+                    payment_link_id: document.getElementById('syntheticPaymentLinkId').value.trim(),
+                    method: document.getElementById('syntheticMethod').value,
+                    email: document.getElementById('syntheticEmail').value.trim(),
+                    contact: document.getElementById('syntheticContact').value.trim(),
+                    notes: notes || undefined,
+                }
+            });
+        });
+
+        sendSyntheticButton.addEventListener('click', () => {
+            const url = urlInput.value.trim();
+            const body = payloadInput.value;
+
+            if (!body.trim()) {
+                showSyntheticError('Generate a payload first');
+                return;
+            }
+
+            try {
+                JSON.parse(body);
+            } catch (err) {
+                showSyntheticError('Invalid JSON in payload');
+                return;
+            }
+
+            if (!url) {
+                showSyntheticError('Please enter a target URL');
+                return;
+            }
+
+            sendSyntheticButton.disabled = true;
+            sendSyntheticButton.textContent = 'Sending...';
+            vscode.postMessage({
+                command: 'sendSyntheticWebhook',
+                data: { url, body }
+            });
+        });
+
+        function showSyntheticError(error) {
+            syntheticResultDiv.innerHTML =
+                '<div class="result error">' +
+                    '<h3>Failed to Send Webhook</h3>' +
+                    '<p>' + escapeHtml(error) + '</p>' +
+                '</div>';
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'forwardUrl') {
+                if (!urlInput.value) {
+                    urlInput.value = message.url;
+                }
+            } else if (message.command === 'syntheticPayload') {
+                generatePayloadButton.disabled = false;
+                if (message.success) {
+                    payloadInput.value = message.payload;
+                    syntheticResultDiv.innerHTML = '';
+                } else {
+                    showSyntheticError(message.error);
+                }
+            } else if (message.command === 'syntheticResult') {
+                sendSyntheticButton.disabled = false;
+                sendSyntheticButton.textContent = 'Send Webhook';
+
+                if (!message.success) {
+                    showSyntheticError(message.error);
+                    return;
+                }
+
+                const result = message.result;
+                syntheticResultDiv.innerHTML =
+                    '<div class="result ' + (result.status >= 400 ? 'error' : 'success') + '">' +
+                        '<h3>HTTP ' + result.status + ' ' + escapeHtml(result.statusText) + '</h3>' +
+                        (message.signed ? '' : '<p>⚠️ Sent unsigned: no webhook secret is stored.</p>') +
+                        '<p>Responded in ' + result.durationMs + 'ms</p>' +
+                        (result.body ? '<pre class="code-block">' + escapeHtml(result.body) + '</pre>' : '') +
+                    '</div>';
+            }
+        });
+
+        updateEntityFields();
+        vscode.postMessage({
+            command: 'loadForwardUrl'
+        });
+    `;
+  }
+
+  private getOrdersExplorerScript(): string {
+    return `
+        const vscode = acquireVsCodeApi();
+        const filterForm = document.getElementById('ordersFilterForm');
+        const ordersResultDiv = document.getElementById('ordersResult');
+        const orderDetailDiv = document.getElementById('orderDetail');
+        const configWarning = document.getElementById('configWarning');
+        const searchButton = document.getElementById('ordersSearchButton');
+        const prevButton = document.getElementById('ordersPrevButton');
+        const nextButton = document.getElementById('ordersNextButton');
+        const pageInfo = document.getElementById('ordersPageInfo');
+        const fieldInputs = {};
+        let currentSkip = 0;
+
+        ${this.getErrorDiagnosticsScript()}
+        ${this.getMoneyScript()}
+
+        function toUnix(dateValue, endOfDay) {
+            if (!dateValue) {
+                return undefined;
+            }
+            const date = new Date(dateValue + (endOfDay ? 'T23:59:59' : 'T00:00:00'));
+            return Math.floor(date.getTime() / 1000);
+        }
+
+        function loadOrders(skip) {
+            currentSkip = skip;
+            searchButton.disabled = true;
+            prevButton.disabled = true;
+            nextButton.disabled = true;
+            ordersResultDiv.innerHTML = '<div class="info-text">Loading orders...</div>';
+
+            vscode.postMessage({
+                command: 'listOrders',
+                data: {
+                    from: toUnix(document.getElementById('ordersFrom').value, false),
+                    to: toUnix(document.getElementById('ordersTo').value, true),
+                    receipt: document.getElementById('ordersReceipt').value.trim() || undefined,
+                    count: document.getElementById('ordersCount').value,
+                    skip,
+                }
+            });
+        }
+
+        function renderOrders(message) {
+            searchButton.disabled = false;
+
+            if (!message.success) {
+                ordersResultDiv.innerHTML =
+                    '<div class="result error">' +
+                        '<h3>Failed to Load Orders</h3>' +
+                        '<p>' + escapeHtml(message.error) + '</p>' +
+                    '</div>';
+                pageInfo.textContent = '';
+                return;
+            }
+
+            const orders = message.orders;
+            prevButton.disabled = message.skip === 0;
+            nextButton.disabled = orders.length < message.count;
+            pageInfo.textContent = orders.length === 0
+                ? 'No orders'
+                : 'Showing ' + (message.skip + 1) + '–' + (message.skip + orders.length);
+
+            if (orders.length === 0) {
+                ordersResultDiv.innerHTML = '<div class="info-text">No orders match these filters.</div>';
+                return;
+            }
+
+            ordersResultDiv.innerHTML =
+                '<table class="data-table">' +
+                    '<thead><tr><th>Order ID</th><th>Amount</th><th>Paid</th><th>Status</th><th>Receipt</th><th>Created</th></tr></thead>' +
+                    '<tbody>' +
+                        orders.map(o =>
+                            '<tr class="clickable" data-id="' + escapeHtml(o.id) + '">' +
+                                '<td><code>' + escapeHtml(o.id) + '</code></td>' +
+                                '<td>' + escapeHtml(formatSubunits(o.amount, o.currency)) + '</td>' +
+                                '<td>' + escapeHtml(formatSubunits(o.amount_paid, o.currency)) + '</td>' +
+                                '<td>' + escapeHtml(o.status) + '</td>' +
+                                '<td>' + escapeHtml(o.receipt || 'N/A') + '</td>' +
+                                '<td>' + new Date(o.created_at * 1000).toLocaleString() + '</td>' +
+                            '</tr>'
+                        ).join('') +
+                    '</tbody>' +
+                '</table>';
+
+            ordersResultDiv.querySelectorAll('tr.clickable').forEach(row => {
+                row.addEventListener('click', () => showOrder(row.getAttribute('data-id')));
+            });
+        }
+
+        function showOrder(orderId) {
+            orderDetailDiv.innerHTML = '<div class="info-text">Loading ' + escapeHtml(orderId) + '...</div>';
+            vscode.postMessage({ command: 'fetchOrderDetail', orderId });
+        }
+
+        function renderOrderDetail(message) {
+            if (!message.success) {
+                orderDetailDiv.innerHTML = renderErrorCard('Failed to Load Order', message.error, message.diagnostics);
+                return;
+            }
+
+            const order = message.order;
+            const payments = message.payments;
+            const paymentsHtml = payments.length === 0
+                ? '<div class="info-text">No payments have been made against this order.</div>'
+                : '<table class="data-table">' +
+                    '<thead><tr><th>Payment ID</th><th>Amount</th><th>Status</th><th>Method</th><th>Created</th></tr></thead>' +
+                    '<tbody>' +
+                        payments.map(p =>
+                            '<tr>' +
+                                '<td><code>' + escapeHtml(p.id) + '</code></td>' +
+                                '<td>' + escapeHtml(formatSubunits(p.amount, p.currency)) + '</td>' +
+                                '<td>' + escapeHtml(p.status) + '</td>' +
+                                '<td>' + escapeHtml(p.method) + '</td>' +
+                                '<td>' + new Date(p.created_at * 1000).toLocaleString() + '</td>' +
+                            '</tr>'
+                        ).join('') +
+                    '</tbody>' +
+                  '</table>';
+
+            orderDetailDiv.innerHTML =
+                '<div class="result success">' +
+                    '<h3>Order ' + escapeHtml(order.id) + '</h3>' +
+                    '<button class="copy-button" id="copyOrderIdButton">Copy Order ID</button>' +
+                    '<ul style="margin-top: 10px;">' +
+                        '<li>Amount: ' + escapeHtml(formatSubunits(order.amount, order.currency)) + '</li>' +
+                        '<li>Amount Paid: ' + escapeHtml(formatSubunits(order.amount_paid, order.currency)) + '</li>' +
+                        '<li>Amount Due: ' + escapeHtml(formatSubunits(order.amount_due, order.currency)) + '</li>' +
+                        '<li>Status: ' + escapeHtml(order.status) + '</li>' +
+                        '<li>Attempts: ' + order.attempts + '</li>' +
+                        '<li>Receipt: ' + escapeHtml(order.receipt || 'N/A') + '</li>' +
+                        '<li>Created: ' + new Date(order.created_at * 1000).toLocaleString() + '</li>' +
+                    '</ul>' +
+                    '<p style="margin-top: 15px;"><strong>Payments</strong></p>' +
+                    paymentsHtml +
+                    '<div class="form-group" style="margin-top: 15px;">' +
+                        '<label for="orderNotes">Notes</label>' +
+                        '<textarea id="orderNotes">' + escapeHtml(JSON.stringify(order.notes && !Array.isArray(order.notes) ? order.notes : {}, null, 2)) + '</textarea>' +
+                        '<div class="info-text">Replaces all notes on the order</div>' +
+                    '</div>' +
+                    '<button id="updateNotesButton">Update Notes</button>' +
+                    '<div id="notesResult"></div>' +
+                '</div>';
+
+            document.getElementById('copyOrderIdButton').addEventListener('click', () => {
+                vscode.postMessage({ command: 'copyToClipboard', text: order.id });
+            });
+            document.getElementById('updateNotesButton').addEventListener('click', () => updateNotes(order.id));
+        }
+
+        function updateNotes(orderId) {
+            const notesText = document.getElementById('orderNotes').value;
+            const notesResult = document.getElementById('notesResult');
+            let notes = {};
+            if (notesText.trim()) {
+                try {
+                    notes = JSON.parse(notesText);
+                } catch (err) {
+                    notesResult.innerHTML = '<div class="result error"><p>Invalid JSON in notes field</p></div>';
+                    return;
+                }
+            }
+
+            const updateNotesButton = document.getElementById('updateNotesButton');
+            updateNotesButton.disabled = true;
+            updateNotesButton.textContent = 'Updating...';
+            vscode.postMessage({
+                command: 'updateOrderNotes',
+                data: { order_id: orderId, notes }
+            });
+        }
+
+        filterForm.addEventListener('submit', (e) => {
+            e.preventDefault();
+            loadOrders(0);
+        });
+
+        prevButton.addEventListener('click', () => {
+            const count = parseInt(document.getElementById('ordersCount').value, 10);
+            loadOrders(Math.max(currentSkip - count, 0));
+        });
+
+        nextButton.addEventListener('click', () => {
+            const count = parseInt(document.getElementById('ordersCount').value, 10);
+            loadOrders(currentSkip + count);
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'configStatus') {
+                if (!message.configured || !message.initialized) {
+                    configWarning.style.display = 'block';
+                    searchButton.disabled = true;
+                } else {
+                    configWarning.style.display = 'none';
+                    searchButton.disabled = false;
+                    if (!ordersResultDiv.innerHTML) {
+                        loadOrders(0);
+                    }
+                }
+            } else if (message.command === 'ordersList') {
+                renderOrders(message);
+            } else if (message.command === 'orderDetail') {
+                renderOrderDetail(message);
+            } else if (message.command === 'orderNotesUpdated') {
+                const updateNotesButton = document.getElementById('updateNotesButton');
+                const notesResult = document.getElementById('notesResult');
+                if (updateNotesButton) {
+                    updateNotesButton.disabled = false;
+                    updateNotesButton.textContent = 'Update Notes';
+                }
+                if (notesResult) {
+                    notesResult.innerHTML = message.success
+                        ? '<p class="info-text">Notes updated.</p>'
+                        : '<div class="result error"><p>' + escapeHtml(message.error) + '</p></div>';
+                }
+            }
+        });
+
+        vscode.postMessage({
+            command: 'checkConfig'
+        });
+    `;
+  }
+
+  private getSubscriptionsScript(): string {
+    return `
+        const vscode = acquireVsCodeApi();
+        const configWarning = document.getElementById('configWarning');
+        const plansResultDiv = document.getElementById('plansResult');
+        const planForm = document.getElementById('planForm');
+        const planResultDiv = document.getElementById('planResult');
+        const createPlanButton = document.getElementById('createPlanButton');
+        const subscriptionForm = document.getElementById('subscriptionForm');
+        const subscriptionPlanSelect = document.getElementById('subscriptionPlan');
+        const subscriptionResultDiv = document.getElementById('subscriptionResult');
+        const createSubscriptionButton = document.getElementById('createSubscriptionButton');
+        const planFilter = document.getElementById('subscriptionsPlanFilter');
+        const subscriptionsResultDiv = document.getElementById('subscriptionsResult');
+        const subscriptionDetailDiv = document.getElementById('subscriptionDetail');
+        const fieldInputs = {
+            'item.name': 'planName',
+            'item.amount': 'planAmount',
+            'item.currency': 'planCurrency',
+            item: 'planName',
+            period: 'planPeriod',
+            interval: 'planInterval',
+            plan_id: 'subscriptionPlan',
+            total_count: 'subscriptionTotalCount',
+            quantity: 'subscriptionQuantity',
+            start_at: 'subscriptionStartAt',
+            notes: 'subscriptionNotes',
+        };
+        let plans = [];
+        ${this.getErrorDiagnosticsScript()}
+        ${this.getMoneyScript()}
+
+        bindAmountPreview('planAmount', 'planCurrency', 'planAmountPreview');
+
+        function formatDate(timestamp) {
+            return timestamp ? new Date(timestamp * 1000).toLocaleString() : 'N/A';
+        }
+
+        function describeBilling(plan) {
+            const unit = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[plan.period];
+            return plan.interval === 1 ? 'Every ' + unit : 'Every ' + plan.interval + ' ' + unit + 's';
+        }
+
+        function loadPlans() {
+            plansResultDiv.innerHTML = '<div class="info-text">Loading plans...</div>';
+            vscode.postMessage({ command: 'listPlans' });
+        }
+
+        function loadSubscriptions() {
+            subscriptionsResultDiv.innerHTML = '<div class="info-text">Loading subscriptions...</div>';
+            vscode.postMessage({ command: 'listSubscriptions', data: { plan_id: planFilter.value || undefined } });
+        }
+
+        function renderPlans(message) {
+            if (!message.success) {
+                plansResultDiv.innerHTML =
+                    '<div class="result error">' +
+                        '<h3>Failed to Load Plans</h3>' +
+                        '<p>' + escapeHtml(message.error) + '</p>' +
+                    '</div>';
+                return;
+            }
+
+            plans = message.plans;
+            const selectedPlan = subscriptionPlanSelect.value;
+            const selectedFilter = planFilter.value;
+            const options = plans.map(plan =>
+                '<option value="' + escapeHtml(plan.id) + '">' +
+                    escapeHtml(plan.item.name + ' · ' + formatSubunits(plan.item.amount, plan.item.currency) + ' · ' + describeBilling(plan)) +
+                '</option>'
+            ).join('');
+            subscriptionPlanSelect.innerHTML = options;
+            subscriptionPlanSelect.value = selectedPlan || (plans[0] && plans[0].id) || '';
+            planFilter.innerHTML = '<option value="">All plans</option>' + options;
+            planFilter.value = selectedFilter;
+
+            if (plans.length === 0) {
+                plansResultDiv.innerHTML = '<div class="info-text">No plans yet. Create one below to start testing subscriptions.</div>';
+                document.getElementById('planFormDetails').open = true;
+                return;
+            }
+
+            plansResultDiv.innerHTML =
+                '<table class="data-table">' +
+                    '<thead><tr><th>Plan ID</th><th>Name</th><th>Amount</th><th>Billing</th><th>Created</th></tr></thead>' +
+                    '<tbody>' +
+                        plans.map(plan =>
+                            '<tr class="clickable" data-id="' + escapeHtml(plan.id) + '">' +
+                                '<td><code>' + escapeHtml(plan.id) + '</code></td>' +
+                                '<td>' + escapeHtml(plan.item.name) + '</td>' +
+                                '<td>' + escapeHtml(formatSubunits(plan.item.amount, plan.item.currency)) + '</td>' +
+                                '<td>' + escapeHtml(describeBilling(plan)) + '</td>' +
+                                '<td>' + formatDate(plan.created_at) + '</td>' +
+                            '</tr>'
+                        ).join('') +
+                    '</tbody>' +
+                '</table>';
+
+            plansResultDiv.querySelectorAll('tr.clickable').forEach(row => {
+                row.addEventListener('click', () => {
+                    subscriptionPlanSelect.value = row.getAttribute('data-id');
+                    subscriptionPlanSelect.focus();
+                });
+            });
+        }
+
+        function renderSubscriptions(message) {
+            if (!message.success) {
+                subscriptionsResultDiv.innerHTML =
+                    '<div class="result error">' +
+                        '<h3>Failed to Load Subscriptions</h3>' +
+                        '<p>' + escapeHtml(message.error) + '</p>' +
+                    '</div>';
+                return;
+            }
+
+            const subscriptions = message.subscriptions;
+            if (subscriptions.length === 0) {
+                subscriptionsResultDiv.innerHTML = '<div class="info-text">No subscriptions yet.</div>';
+                return;
+            }
+
+            subscriptionsResultDiv.innerHTML =
+                '<table class="data-table">' +
+                    '<thead><tr><th>Subscription ID</th><th>Plan</th><th>Status</th><th>Paid</th><th>Next Charge</th><th>Created</th></tr></thead>' +
+                    '<tbody>' +
+                        subscriptions.map(sub =>
+                            '<tr class="clickable" data-id="' + escapeHtml(sub.id) + '">' +
+                                '<td><code>' + escapeHtml(sub.id) + '</code></td>' +
+                                '<td><code>' + escapeHtml(sub.plan_id) + '</code></td>' +
+                                '<td>' + escapeHtml(sub.status) + '</td>' +
+                                '<td>' + sub.paid_count + ' / ' + sub.total_count + '</td>' +
+                                '<td>' + formatDate(sub.charge_at) + '</td>' +
+                                '<td>' + formatDate(sub.created_at) + '</td>' +
+                            '</tr>'
+                        ).join('') +
+                    '</tbody>' +
+                '</table>';
+
+            subscriptionsResultDiv.querySelectorAll('tr.clickable').forEach(row => {
+                row.addEventListener('click', () => showSubscription(row.getAttribute('data-id')));
+            });
+        }
+
+        function showSubscription(subscriptionId) {
+            subscriptionDetailDiv.innerHTML = '<div class="info-text">Loading ' + escapeHtml(subscriptionId) + '...</div>';
+            vscode.postMessage({ command: 'fetchSubscriptionDetail', subscriptionId });
+        }
+
+        function getSubscriptionActions(sub) {
+            const actions = [];
+            if (sub.status === 'active') {
+                actions.push(['pause', 'Pause']);
+            }
+            if (sub.status === 'paused') {
+                actions.push(['resume', 'Resume']);
+            }
+            if (['created', 'authenticated', 'active', 'pending', 'halted', 'paused'].includes(sub.status)) {
+                actions.push(['cancelAtCycleEnd', 'Cancel at Cycle End']);
+                actions.push(['cancel', 'Cancel Now']);
+            }
+            return actions;
+        }
+
+        function renderSubscriptionDetail(message) {
+            if (!message.success) {
+                subscriptionDetailDiv.innerHTML =
+                    '<div class="result error">' +
+                        '<h3>Failed to Load Subscription</h3>' +
+                        '<p>' + escapeHtml(message.error) + '</p>' +
+                    '</div>';
+                return;
+            }
+
+            const sub = message.subscription;
+            const invoices = message.invoices;
+            const invoicesHtml = invoices.length === 0
+                ? '<div class="info-text">No invoices yet. Razorpay generates one for every billing cycle once the subscription is authorized.</div>'
+                : '<table class="data-table">' +
+                    '<thead><tr><th>Invoice ID</th><th>Amount</th><th>Status</th><th>Billing Period</th><th>Payment ID</th><th>Paid</th></tr></thead>' +
+                    '<tbody>' +
+                        invoices.map(inv =>
+                            '<tr>' +
+                                '<td><code>' + escapeHtml(inv.id) + '</code></td>' +
+                                '<td>' + escapeHtml(formatSubunits(inv.amount, inv.currency)) + '</td>' +
+                                '<td>' + escapeHtml(inv.status) + '</td>' +
+                                '<td>' + (inv.billing_start ? new Date(inv.billing_start * 1000).toLocaleDateString() + ' – ' + new Date(inv.billing_end * 1000).toLocaleDateString() : 'N/A') + '</td>' +
+                                '<td>' + (inv.payment_id ? '<code>' + escapeHtml(inv.payment_id) + '</code>' : 'N/A') + '</td>' +
+                                '<td>' + formatDate(inv.paid_at) + '</td>' +
+                            '</tr>'
+                        ).join('') +
+                    '</tbody>' +
+                  '</table>';
+
+            subscriptionDetailDiv.innerHTML =
+                '<div class="result success">' +
+                    '<h3>Subscription ' + escapeHtml(sub.id) + '</h3>' +
+                    '<div class="toolbar-actions">' +
+                        '<button class="copy-button" id="copySubscriptionIdButton">Copy Subscription ID</button>' +
+                        getSubscriptionActions(sub).map(action =>
+                            '<button class="secondary subscription-action" data-action="' + action[0] + '">' + action[1] + '</button>'
+                        ).join('') +
+                    '</div>' +
+                    '<ul style="margin-top: 10px;">' +
+                        '<li>Status: ' + escapeHtml(sub.status) + '</li>' +
+                        '<li>Plan: <code>' + escapeHtml(sub.plan_id) + '</code></li>' +
+                        '<li>Customer: ' + escapeHtml(sub.customer_id || 'N/A') + '</li>' +
+                        '<li>Paid Cycles: ' + sub.paid_count + ' / ' + sub.total_count + ' (' + sub.remaining_count + ' remaining)</li>' +
+                        '<li>Quantity: ' + sub.quantity + '</li>' +
+                        '<li>Current Cycle: ' + formatDate(sub.current_start) + ' – ' + formatDate(sub.current_end) + '</li>' +
+                        '<li>Next Charge: ' + formatDate(sub.charge_at) + '</li>' +
+                        (sub.has_scheduled_changes ? '<li>Scheduled change at: ' + formatDate(sub.change_scheduled_at) + '</li>' : '') +
+                        '<li>Created: ' + formatDate(sub.created_at) + '</li>' +
+                    '</ul>' +
+                    (sub.short_url
+                        ? '<p><strong>Authorization Link:</strong> <a href="' + escapeHtml(sub.short_url) + '" class="payment-link">' + escapeHtml(sub.short_url) + '</a></p>'
+                        : '') +
+                    '<div id="subscriptionActionResult"></div>' +
+                    '<p style="margin-top: 15px;"><strong>Invoices</strong></p>' +
+                    invoicesHtml +
+                '</div>';
+
+            document.getElementById('copySubscriptionIdButton').addEventListener('click', () => {
+                vscode.postMessage({ command: 'copyToClipboard', text: sub.id });
+            });
+            subscriptionDetailDiv.querySelectorAll('.subscription-action').forEach(button => {
+                button.addEventListener('click', () => {
+                    subscriptionDetailDiv.querySelectorAll('.subscription-action').forEach(b => b.disabled = true);
+                    vscode.postMessage({
+                        command: 'subscriptionAction',
+                        data: { id: sub.id, action: button.getAttribute('data-action') }
+                    });
+                });
+            });
+        }
+
+        planForm.addEventListener('submit', (e) => {
+            e.preventDefault();
+            clearFieldErrors();
+
+            const amount = document.getElementById('planAmount').value;
+            const currency = document.getElementById('planCurrency').value;
+            const parsedAmount = parseSubunits(amount, currency);
+            if (parsedAmount.error) {
+                planResultDiv.innerHTML = renderErrorCard('Failed to Create Plan', parsedAmount.error, { field: 'item.amount' });
+                return;
+            }
+
+            createPlanButton.disabled = true;
+            createPlanButton.textContent = 'Creating Plan...';
+            vscode.postMessage({
+                command: 'createPlan',
+                data: {
+                    name: document.getElementById('planName').value.trim(),
+                    amount,
+                    currency,
+                    period: document.getElementById('planPeriod').value,
+                    interval: document.getElementById('planInterval').value,
+                    description: document.getElementById('planDescription').value.trim() || undefined,
+                }
+            });
+        });
+
+        subscriptionForm.addEventListener('submit', (e) => {
+            e.preventDefault();
+            clearFieldErrors();
+
+            if (!subscriptionPlanSelect.value) {
+                subscriptionResultDiv.innerHTML = renderErrorCard('Failed to Create Subscription', 'Create a plan first', { field: 'plan_id' });
+                return;
+            }
+
+            const notesText = document.getElementById('subscriptionNotes').value;
+            let notes = null;
+            if (notesText.trim()) {
+                try {
+                    notes = JSON.parse(notesText);
+                } catch (err) {
+                    subscriptionResultDiv.innerHTML = renderErrorCard('Failed to Create Subscription', 'Invalid JSON in notes field', { field: 'notes' });
+                    return;
+                }
+            }
+
+            const startDate = document.getElementById('subscriptionStartAt').value;
+            createSubscriptionButton.disabled = true;
+            createSubscriptionButton.textContent = 'Creating Subscription...';
+            vscode.postMessage({
+                command: 'createSubscription',
+                data: {
+                    plan_id: subscriptionPlanSelect.value,
+                    total_count: document.getElementById('subscriptionTotalCount').value,
+                    quantity: document.getElementById('subscriptionQuantity').value || undefined,
+                    start_at: startDate ? Math.floor(new Date(startDate + 'T00:00:00').getTime() / 1000) : undefined,
+                    customer_notify: document.getElementById('subscriptionNotify').checked,
+                    notes: notes || undefined,
+                }
+            });
+        });
+
+        planFilter.addEventListener('change', loadSubscriptions);
+        document.getElementById('refreshSubscriptionsButton').addEventListener('click', () => {
+            loadPlans();
+            loadSubscriptions();
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'configStatus') {
+                if (!message.configured || !message.initialized) {
+                    configWarning.style.display = 'block';
+                    createPlanButton.disabled = true;
+                    createSubscriptionButton.disabled = true;
+                } else {
+                    configWarning.style.display = 'none';
+                    createPlanButton.disabled = false;
+                    createSubscriptionButton.disabled = false;
+                    if (!plansResultDiv.innerHTML) {
+                        loadPlans();
+                        loadSubscriptions();
+                    }
+                }
+            } else if (message.command === 'plansList') {
+                renderPlans(message);
+            } else if (message.command === 'subscriptionsList') {
+                renderSubscriptions(message);
+            } else if (message.command === 'subscriptionDetail') {
+                renderSubscriptionDetail(message);
+            } else if (message.command === 'planResult') {
+                createPlanButton.disabled = false;
+                createPlanButton.textContent = 'Create Plan';
+                if (message.success) {
+                    planResultDiv.innerHTML = '<p class="info-text">Plan <code>' + escapeHtml(message.plan.id) + '</code> created.</p>';
+                    subscriptionPlanSelect.value = message.plan.id;
+                    loadPlans();
+                } else {
+                    planResultDiv.innerHTML = renderErrorCard('Failed to Create Plan', message.error, message.diagnostics);
+                }
+            } else if (message.command === 'subscriptionResult') {
+                createSubscriptionButton.disabled = false;
+                createSubscriptionButton.textContent = 'Create Subscription';
+                if (message.success) {
+                    subscriptionResultDiv.innerHTML = '';
+                    loadSubscriptions();
+                    renderSubscriptionDetail({ success: true, subscription: message.subscription, invoices: [] });
+                } else {
+                    subscriptionResultDiv.innerHTML = renderErrorCard('Failed to Create Subscription', message.error, message.diagnostics);
+                }
+            } else if (message.command === 'subscriptionActionResult') {
+                subscriptionDetailDiv.querySelectorAll('.subscription-action').forEach(b => b.disabled = false);
+                if (message.success) {
+                    loadSubscriptions();
+                } else if (!message.cancelled) {
+                    const actionResult = document.getElementById('subscriptionActionResult');
+                    if (actionResult) {
+                        actionResult.innerHTML = '<div class="result error"><p>' + escapeHtml(message.error) + '</p></div>';
+                    }
                 }
             }
         });
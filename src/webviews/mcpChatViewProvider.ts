@@ -1,19 +1,18 @@
 import * as vscode from 'vscode';
-import * as https from 'https';
 import type { Logger } from '../utils/logger';
+import { CredentialManager, RazorpayProfile } from '../services/credentialManager';
+import { LiveModeGuard } from '../services/liveModeGuard';
+import { MCPClient } from '../services/mcpClient';
+import { MCPToolRouter, ProposedToolCall } from '../services/mcpToolRouter';
+import { formatToolList, isReadOnlyTool, validateToolArguments } from '../utils/mcpTools';
+import { isRazorpayCollection, isRazorpayEntity, isRazorpayPaymentLink, MCPResponse, MCPToolCallResult } from '../types';
 
-interface MCPResponse {
-  jsonrpc: string;
-  id: number;
-  result?: {
-    tools?: Array<{ name: string; description: string }>;
-    content?: Array<{ type: string; text: string }>;
-    [key: string]: unknown;
-  };
-  error?: {
-    code: number;
-    message: string;
-  };
+/**
+ * What the chat shows for a message: Markdown, plus tool calls to confirm when the model planned any
+ */
+interface ChatReply {
+  text: string;
+  proposal?: { id: string; steps: ProposedToolCall[] };
 }
 
 /**
@@ -24,11 +23,17 @@ export class MCPChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'razorpayMCPChat';
 
   private _view?: vscode.WebviewView;
-  private mcpRequestId = 0;
+  private proposalCount = 0;
+  /** Tool calls the model proposed, by proposal ID, until they are run or cancelled */
+  private readonly proposals = new Map<string, ProposedToolCall[]>();
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly credentialManager: CredentialManager,
+    private readonly guard: LiveModeGuard,
+    private readonly mcpClient: MCPClient,
+    private readonly router: MCPToolRouter
   ) {}
 
   public resolveWebviewView(
@@ -50,75 +55,241 @@ export class MCPChatViewProvider implements vscode.WebviewViewProvider {
         case 'executeCommand':
           await this.handleCommand(message.text);
           break;
+        case 'loadTools':
+          await this.postTools(message.refresh === true);
+          break;
+        case 'callTool':
+          await this.handleToolCall(message.tool, message.arguments || {});
+          break;
+        case 'runProposal':
+          await this.runProposal(message.id);
+          break;
+        case 'cancelProposal':
+          this.proposals.delete(message.id);
+          break;
       }
     });
   }
 
-  private async handleCommand(command: string): Promise<void> {
+  /**
+   * Tell the chat which account the next MCP calls use; the merchant token is built from the active profile per request
+   */
+  public notifyProfileChanged(profile: RazorpayProfile | undefined): void {
     if (!this._view) return;
 
-    this.logger.info(`MCP command: ${command}`);
+    this._view.webview.postMessage({
+      command: 'notice',
+      text: profile
+        ? `Now using profile **${profile.name}** (${CredentialManager.getMode(profile.keyId)} mode, \`${profile.keyId}\`)`
+        : 'No Razorpay profile selected',
+    });
+    this.postTools(false);
+  }
 
+  /**
+   * Send the server's tools to the webview for the tool form
+   */
+  private async postTools(refresh: boolean): Promise<void> {
+    if (!this._view) return;
+
+    if (!(await this.credentialManager.getRazorpayCredentials())) {
+      this._view.webview.postMessage({ command: 'tools', tools: [], error: 'Set credentials to load tools' });
+      return;
+    }
+
+    try {
+      const tools = await this.mcpClient.listTools(refresh);
       this._view.webview.postMessage({
-        command: 'response',
-      text: 'Executing...',
-      isLoading: true
+        command: 'tools',
+        tools: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description || '',
+          inputSchema: tool.inputSchema || {},
+          readOnly: isReadOnlyTool(tool),
+        })),
       });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to load MCP tools: ${errorMessage}`);
+      this._view.webview.postMessage({ command: 'tools', tools: [], error: 'Could not load tools from the MCP server' });
+    }
+  }
 
-    try {
-      const config = vscode.workspace.getConfiguration('razorpay');
-      const keyId = config.get<string>('keyId');
-      const keySecret = config.get<string>('keySecret');
-
-      if (!keyId || !keySecret) {
-        this._view.webview.postMessage({
-          command: 'response',
-          text: this.getCredentialsMessage(),
-          isLoading: false
-        });
-        return;
-      }
+  private async handleCommand(command: string): Promise<void> {
+    this.logger.info(`MCP command: ${command}`);
 
+    await this.respond(async () => {
       const toolRequest = this.parseCommand(command);
-      let result: string;
 
       if (toolRequest.action === 'list_tools') {
-        result = await this.listMCPTools(keyId, keySecret);
-      } else if (toolRequest.action === 'need_input') {
-        result = `Missing: **${toolRequest.params.missing}**\n\nExample: "${toolRequest.example}"`;
-      } else {
-        result = await this.executeMCPTool(keyId, keySecret, toolRequest.tool, toolRequest.params);
+        return this.listMCPTools(toolRequest.params.refresh === true);
+      }
+
+      const naturalLanguage = vscode.workspace.getConfiguration('razorpay').get<string>('mcp.naturalLanguage', 'fallback');
+      const useModel = naturalLanguage === 'always' || (naturalLanguage === 'fallback' && toolRequest.action === 'unknown');
+      if (useModel && await this.router.isAvailable()) {
+        return this.planToolCalls(command);
+      }
+      if (toolRequest.action === 'unknown') {
+        return this.listMCPTools(false);
+      }
+      if (toolRequest.action === 'need_input') {
+        return `Missing: **${toolRequest.params.missing}**\n\nExample: "${toolRequest.example}"`;
+      }
+      return this.prefillTool(toolRequest.tool, toolRequest.params);
+    });
+  }
+
+  /**
+   * Run a tool with the arguments entered in the tool form
+   */
+  private async handleToolCall(toolName: string, args: Record<string, unknown>): Promise<void> {
+    await this.respond(async () => {
+      const tool = await this.mcpClient.getTool(toolName);
+      const errors = validateToolArguments(tool?.inputSchema, args);
+      if (errors.length > 0) {
+        return `**Invalid arguments for ${toolName}:**\n${errors.map(e => `- ${e}`).join('\n')}`;
       }
+      return this.executeMCPTool(toolName, args);
+    });
+  }
+
+  /**
+   * Open the tool form with what the chat command said. Read-only tools whose arguments are complete run straight
+   * away; anything that changes data waits for the user to check the form and run it.
+   */
+  private async prefillTool(toolName: string, params: Record<string, unknown>): Promise<string> {
+    const tool = await this.mcpClient.getTool(toolName).catch(() => undefined);
+    if (!tool) {
+      // Tool list unavailable; let the server report what it makes of the call
+      return this.executeMCPTool(toolName, params);
+    }
+
+    this._view?.webview.postMessage({ command: 'showToolForm', tool: tool.name, values: params });
+    if (isReadOnlyTool(tool) && validateToolArguments(tool.inputSchema, params).length === 0) {
+      return this.executeMCPTool(toolName, params);
+    }
+    return `Check the arguments for **${tool.name}** in the form below, then press **Run Tool**.`;
+  }
 
+  /**
+   * Let the AI model work out the tool calls for a request. Its read-only lookups have already run;
+   * calls that change data come back as a proposal the user runs or cancels.
+   */
+  private async planToolCalls(request: string): Promise<ChatReply> {
+    const plan = await this.router.plan(request);
+
+    const lookups = plan.lookups.length > 0
+      ? `*Looked up: ${plan.lookups.map(l => `\`${l.tool}\`${l.error ? ' (failed)' : ''}`).join(', ')}*\n\n`
+      : '';
+    const summary = plan.summary || (plan.proposed.length > 0 ? '' : 'The model did not suggest any tool calls.');
+    if (plan.proposed.length === 0) {
+      return { text: `${lookups}${summary}` };
+    }
+
+    const id = String(++this.proposalCount);
+    this.proposals.set(id, plan.proposed);
+    return {
+      text: `${lookups}${summary}\n\nNothing has been changed yet. Review the proposed calls below.`,
+      proposal: { id, steps: plan.proposed },
+    };
+  }
+
+  /**
+   * Run the calls of a proposal in order, stopping at the first one that fails or is declined
+   */
+  private async runProposal(id: string): Promise<void> {
+    const steps = this.proposals.get(id);
+    this.proposals.delete(id);
+
+    await this.respond(async () => {
+      if (!steps) {
+        return 'These calls were already run or cancelled.';
+      }
+      const invalid = steps.find(step => step.errors.length > 0);
+      if (invalid) {
+        return `**Invalid arguments for ${invalid.tool}:**\n${invalid.errors.map(e => `- ${e}`).join('\n')}\n\nEdit the call in the tool form instead.`;
+      }
+
+      const results: string[] = [];
+      for (const [index, step] of steps.entries()) {
+        const heading = `**${index + 1}/${steps.length} ${step.tool}**`;
+        let error: string | undefined;
+        try {
+          const response = await this.runTool(step.tool, step.arguments);
+          error = MCPClient.getError(response);
+          results.push(`${heading}\n\n${error ? `**Error:** ${error}` : this.formatResponse(response)}`);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+          results.push(`${heading}\n\n**Error:** ${error}`);
+        }
+
+        const remaining = steps.length - index - 1;
+        if (error) {
+          if (remaining > 0) {
+            results.push(`Stopped; the remaining ${remaining} call${remaining === 1 ? '' : 's'} did not run.`);
+          }
+          break;
+        }
+      }
+      return results.join('\n\n');
+    });
+  }
+
+  /**
+   * Show a loading message, run the work once credentials are available and post its result or error
+   */
+  private async respond(work: () => Promise<string | ChatReply>): Promise<void> {
+    if (!this._view) return;
+
+    this._view.webview.postMessage({
+      command: 'response',
+      text: 'Executing...',
+      isLoading: true
+    });
+
+    try {
+      const credentials = await this.credentialManager.getRazorpayCredentials();
+
+      const result = credentials ? await work() : this.getCredentialsMessage();
+      const reply = typeof result === 'string' ? { text: result } : result;
       this._view.webview.postMessage({
         command: 'response',
-        text: result,
+        text: reply.text,
+        proposal: reply.proposal,
         isLoading: false
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error('MCP error', error as Error);
 
-        this._view.webview.postMessage({
-          command: 'response',
-          text: `Error: ${errorMessage}`,
+      this._view.webview.postMessage({
+        command: 'response',
+        text: `Error: ${errorMessage}`,
         isLoading: false
-        });
-      }
+      });
     }
+  }
 
   private getCredentialsMessage(): string {
     return `**API credentials required**
 
-Configure in Settings > Razorpay:
-- razorpay.keyId
-- razorpay.keySecret
+Run **Razorpay: Set Credentials** from the Command Palette to add your Key ID and Key Secret.
 
 Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
   }
 
   private parseCommand(command: string): { action: string; tool: string; params: Record<string, unknown>; example?: string } {
     const lower = command.toLowerCase();
+    // Rupees in the command as paise; left out when the command has no number, so the form asks for it.
+    // Only a standalone number counts, not digits inside an ID such as pay_29QQoUBi66xm2f
+    const amountMatch = command.match(/(?:^|\s)(\d+(?:\.\d+)?)(?=\s|$)/);
+    const amount = amountMatch ? Math.round(parseFloat(amountMatch[1]) * 100) : undefined;
+
+    // Ask the server for its tool list again
+    if (lower.includes('refresh tools')) {
+      return { action: 'list_tools', tool: '', params: { refresh: true } };
+    }
 
     // Help / List tools
     if (lower.includes('help') || lower.includes('list tools') || lower.includes('available') || lower === '?') {
@@ -129,8 +300,6 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     
     // Create order
     if ((lower.includes('create') || lower.includes('new')) && lower.includes('order') && !lower.includes('payment')) {
-      const amountMatch = command.match(/(\d+)/);
-      const amount = amountMatch ? parseInt(amountMatch[1]) * 100 : 50000;
       return { action: 'call_tool', tool: 'create_order', params: { amount, currency: 'INR' } };
     }
 
@@ -143,12 +312,12 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     // Update order
     if (command.match(/order_\w+/i) && lower.includes('update')) {
       const orderId = command.match(/order_\w+/i)?.[0];
-      return { action: 'call_tool', tool: 'update_order', params: { order_id: orderId, notes: { updated: 'true' } } };
+      return { action: 'call_tool', tool: 'update_order', params: { order_id: orderId } };
     }
 
     // List all orders
     if (lower.includes('list') && lower.includes('order')) {
-      return { action: 'call_tool', tool: 'fetch_all_orders', params: { count: 10 } };
+      return { action: 'call_tool', tool: 'fetch_all_orders', params: {} };
     }
 
     // ============ PAYMENTS (5 tools) ============
@@ -156,8 +325,6 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     // Capture payment
     if (lower.includes('capture') && command.match(/pay_\w+/i)) {
       const paymentId = command.match(/pay_\w+/i)?.[0];
-      const amountMatch = command.match(/(\d+)/);
-      const amount = amountMatch ? parseInt(amountMatch[1]) * 100 : 10000;
       return { action: 'call_tool', tool: 'capture_payment', params: { payment_id: paymentId, amount, currency: 'INR' } };
     }
 
@@ -175,16 +342,14 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
 
     // List all payments
     if (lower.includes('list') && lower.includes('payment') && !lower.includes('link')) {
-      return { action: 'call_tool', tool: 'fetch_all_payments', params: { count: 10 } };
+      return { action: 'call_tool', tool: 'fetch_all_payments', params: {} };
     }
 
     // ============ PAYMENT LINKS (4 tools) ============
     
     // Create payment link
     if ((lower.includes('create') || lower.includes('generate')) && lower.includes('link')) {
-      const amountMatch = command.match(/(\d+)/);
-      const amount = amountMatch ? parseInt(amountMatch[1]) * 100 : 50000;
-      return { action: 'call_tool', tool: 'create_payment_link', params: { amount, currency: 'INR', description: 'Payment Link' } };
+      return { action: 'call_tool', tool: 'create_payment_link', params: { amount, currency: 'INR' } };
     }
 
     // Fetch payment link
@@ -215,9 +380,7 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     
     // Create QR code
     if ((lower.includes('create') || lower.includes('generate')) && lower.includes('qr')) {
-      const amountMatch = command.match(/(\d+)/);
-      const amount = amountMatch ? parseInt(amountMatch[1]) * 100 : 50000;
-      return { action: 'call_tool', tool: 'create_qr_code', params: { usage: 'single_use', fixed_amount: true, payment_amount: amount } };
+      return { action: 'call_tool', tool: 'create_qr_code', params: { usage: 'single_use', fixed_amount: amount !== undefined, payment_amount: amount } };
     }
 
     // Fetch QR code
@@ -249,7 +412,7 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     if (command.match(/rfnd_\w+/i)) {
       const refundId = command.match(/rfnd_\w+/i)?.[0];
       if (lower.includes('update')) {
-        return { action: 'call_tool', tool: 'update_refund', params: { refund_id: refundId, notes: {} } };
+        return { action: 'call_tool', tool: 'update_refund', params: { refund_id: refundId } };
       }
       return { action: 'call_tool', tool: 'fetch_refund', params: { refund_id: refundId } };
     }
@@ -262,7 +425,7 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
 
     // List all refunds
     if (lower.includes('list') && lower.includes('refund')) {
-      return { action: 'call_tool', tool: 'fetch_all_refunds', params: { count: 10 } };
+      return { action: 'call_tool', tool: 'fetch_all_refunds', params: {} };
     }
 
     // ============ SETTLEMENTS (4 tools) ============
@@ -285,7 +448,7 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
 
     // List all settlements
     if (lower.includes('list') && lower.includes('settlement')) {
-      return { action: 'call_tool', tool: 'fetch_all_settlements', params: { count: 10 } };
+      return { action: 'call_tool', tool: 'fetch_all_settlements', params: {} };
     }
 
     // ============ PAYOUTS (2 tools) ============
@@ -320,154 +483,117 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     
     // Create UPI payment link
     if (lower.includes('upi') && lower.includes('link')) {
-      const amountMatch = command.match(/(\d+)/);
-      const amount = amountMatch ? parseInt(amountMatch[1]) * 100 : 50000;
       return { action: 'call_tool', tool: 'payment_link_upi_create', params: { amount, currency: 'INR' } };
     }
 
-    // Default: show help
-    return { action: 'list_tools', tool: '', params: {} };
-  }
-
-  private createMerchantToken(keyId: string, keySecret: string): string {
-    return Buffer.from(`${keyId}:${keySecret}`).toString('base64');
-  }
-
-  private async mcpRequest(keyId: string, keySecret: string, method: string, params: Record<string, unknown> = {}): Promise<MCPResponse> {
-    const merchantToken = this.createMerchantToken(keyId, keySecret);
-    const requestBody = JSON.stringify({
-      jsonrpc: '2.0',
-      id: ++this.mcpRequestId,
-      method: method,
-      params: params
-    });
-
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: 'mcp.razorpay.com',
-        port: 443,
-        path: '/mcp',
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Basic ${merchantToken}`,
-          'Content-Length': Buffer.byteLength(requestBody)
-        }
-      };
-
-      const req = https.request(options, (res) => {
-        let data = '';
-        res.on('data', (chunk) => data += chunk);
-        res.on('end', () => {
-          try {
-            const lines = data.split('\n').filter(line => line.trim());
-            for (const line of lines) {
-              try {
-                const response = JSON.parse(line);
-                if (response.jsonrpc) {
-                  resolve(response);
-                  return;
-                }
-              } catch { /* continue */ }
-            }
-            resolve(JSON.parse(data));
-          } catch {
-            reject(new Error(`Invalid MCP response: ${data.substring(0, 200)}`));
-          }
-        });
-      });
-
-      req.on('error', (error) => reject(new Error(`MCP connection failed: ${error.message}`)));
-      req.setTimeout(30000, () => { req.destroy(); reject(new Error('MCP request timed out')); });
-      req.write(requestBody);
-      req.end();
-    });
+    // Not a known command: the AI model or the tool list picks it up
+    return { action: 'unknown', tool: '', params: {} };
   }
 
-  private async listMCPTools(keyId: string, keySecret: string): Promise<string> {
+  /**
+   * Tools as reported by the server, followed by the commands this chat understands
+   */
+  private async listMCPTools(refresh: boolean): Promise<string> {
     try {
-      const response = await this.mcpRequest(keyId, keySecret, 'tools/list', {});
-      if (response.error) throw new Error(response.error.message);
-      
-      // Return complete tools list
-      return this.getStaticToolsList();
-    } catch {
-      return this.getStaticToolsList();
+      const tools = await this.mcpClient.listTools(refresh);
+      const server = await this.mcpClient.getServerInfo();
+      const serverLine = `Server: ${server.name || 'MCP server'}${server.version ? ` ${server.version}` : ''} at \`${server.endpoint}\`\n\n`;
+      return `${formatToolList(tools)}\n\n${serverLine}${this.getQuickCommands()}`;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to load MCP tools: ${errorMessage}`);
+      return `Could not load the tool list from the MCP server: ${errorMessage}\n\n${this.getQuickCommands()}`;
     }
   }
 
-  private getStaticToolsList(): string {
-    return `**Razorpay MCP Tools (32 tools)**
+  private getQuickCommands(): string {
+    return `**Quick Commands**
 
-**Orders (4)**
+**Orders**
 - \`create order for 500\`
 - \`list orders\`
 - \`fetch order order_XXXXX\`
 - \`update order order_XXXXX\`
 
-**Payments (5)**
+**Payments**
 - \`list payments\`
 - \`fetch payment pay_XXXXX\`
 - \`capture payment pay_XXXXX for 100\`
 - \`payments for order_XXXXX\`
 
-**Payment Links (4)**
+**Payment Links**
 - \`create link for 500\`
 - \`list links\`
 - \`fetch link plink_XXXXX\`
 - \`send plink_XXXXX via email\`
 
-**QR Codes (5)**
+**QR Codes**
 - \`create qr for 500\`
 - \`list qr\`
 - \`fetch qr qr_XXXXX\`
 - \`payments for qr_XXXXX\`
 - \`qr for customer cust_XXXXX\`
 
-**Refunds (4)**
+**Refunds**
 - \`list refunds\`
 - \`fetch refund rfnd_XXXXX\`
 - \`refunds for pay_XXXXX\`
 - \`update refund rfnd_XXXXX\`
 
-**Settlements (4)**
+**Settlements**
 - \`list settlements\`
 - \`fetch settlement setl_XXXXX\`
 - \`instant settlements\`
 - \`settlement recon\`
 
-**Payouts (2)**
+**Payouts**
 - \`list payouts\`
 - \`fetch payout pout_XXXXX\`
 
-**Tokens (2)**
+**Tokens**
 - \`tokens for cust_XXXXX\`
 - \`revoke token_XXXXX cust_XXXXX\`
 
-**Other (2)**
+**Other**
 - \`create upi link for 500\`
-- \`help\``;
+- \`help\` · \`refresh tools\``;
   }
 
-  private async executeMCPTool(keyId: string, keySecret: string, toolName: string, params: Record<string, unknown>): Promise<string> {
+  private async executeMCPTool(toolName: string, params: Record<string, unknown>): Promise<string> {
+    return this.formatResponse(await this.runTool(toolName, params));
+  }
+
+  /**
+   * Call a tool; calls that change data go through the live mode guard. Tools are classified as in proposals, and
+   * a tool that can't be looked up is guarded.
+   */
+  private async runTool(toolName: string, params: Record<string, unknown>): Promise<MCPResponse<MCPToolCallResult>> {
     this.logger.info(`Executing: ${toolName}`);
-    
-    const response = await this.mcpRequest(keyId, keySecret, 'tools/call', { name: toolName, arguments: params });
 
-      if (response.error) {
-      return `**Error:** ${response.error.message}`;
-      }
+    const tool = await this.mcpClient.getTool(toolName).catch(() => undefined);
+    if (isReadOnlyTool(tool)) {
+      return this.mcpClient.callTool(toolName, params);
+    }
+    const keyId = await this.mcpClient.getKeyId();
+    const call = () => this.mcpClient.callTool(toolName, params, keyId);
+    return this.guard.run(LiveModeGuard.describeToolCall(toolName, params, keyId), call, res => ({
+      resultId: this.getResultId(res),
+      error: MCPClient.getError(res),
+    }));
+  }
 
-      if (response.result?.content) {
-        const textContent = response.result.content
-        .filter(c => c.type === 'text')
-        .map(c => c.text)
-          .join('\n');
+  private formatResponse(response: MCPResponse<MCPToolCallResult>): string {
+    const error = MCPClient.getError(response);
+    if (error) {
+      return `**Error:** ${error}`;
+    }
 
-        try {
-          const parsed = JSON.parse(textContent);
+    const textContent = MCPClient.getText(response.result);
+    if (textContent) {
+      try {
+        const parsed = JSON.parse(textContent);
         return this.formatResult(parsed);
-        } catch {
+      } catch {
         return textContent;
       }
     }
@@ -475,48 +601,57 @@ Get keys from [Razorpay Dashboard](https://dashboard.razorpay.com)`;
     return this.formatResult(response.result);
   }
 
+  /**
+   * ID of the entity a tool call returned, for the audit log
+   */
+  private getResultId(response: MCPResponse<MCPToolCallResult>): string | undefined {
+    const text = MCPClient.getText(response.result);
+    try {
+      const parsed = text ? JSON.parse(text) : response.result;
+      return typeof parsed?.id === 'string' ? parsed.id : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private formatResult(result: unknown): string {
     if (!result || typeof result !== 'object') {
       return '```json\n' + JSON.stringify(result, null, 2) + '\n```';
     }
 
-    const data = result as Record<string, unknown>;
-
     // Payment link
-    if (data.id && String(data.id).startsWith('plink_') && data.short_url) {
-      const amount = typeof data.amount === 'number' ? data.amount / 100 : 0;
+    if (isRazorpayPaymentLink(result)) {
       return `**Payment Link Created!**
 
-**Amount:** Rs ${amount}
-**Link:** [${data.short_url}](${data.short_url})
-**ID:** \`${data.id}\`
-**Status:** ${data.status}
+**Amount:** Rs ${result.amount / 100}
+**Link:** [${result.short_url}](${result.short_url})
+**ID:** \`${result.id}\`
+**Status:** ${result.status}
 
 Click the link above to open payment page.`;
     }
 
     // Order or payment
-    if (data.entity === 'order' || data.entity === 'payment') {
-      const amount = typeof data.amount === 'number' ? data.amount / 100 : 0;
-      return `**${data.entity === 'order' ? 'Order' : 'Payment'}**
+    if (isRazorpayEntity(result, 'order') || isRazorpayEntity(result, 'payment')) {
+      return `**${result.entity === 'order' ? 'Order' : 'Payment'}**
 
-ID: \`${data.id}\`
-Amount: Rs ${amount}
-Status: **${data.status}**`;
+ID: \`${result.id}\`
+Amount: Rs ${result.amount / 100}
+Status: **${result.status}**`;
     }
 
     // Collection
-    if (data.entity === 'collection' && Array.isArray(data.items)) {
-      const items = data.items as Array<Record<string, unknown>>;
-      let result = `**Found ${data.count || items.length} items**\n\n`;
+    if (isRazorpayCollection(result)) {
+      const items = result.items;
+      let summary = `**Found ${result.count || items.length} items**\n\n`;
       
       for (const item of items.slice(0, 5)) {
         const amount = typeof item.amount === 'number' ? `Rs ${item.amount / 100}` : '-';
-        result += `- \`${item.id}\` | ${amount} | ${item.status}\n`;
+        summary += `- \`${item.id}\` | ${amount} | ${item.status}\n`;
       }
       
-      if (items.length > 5) result += `\n... and ${items.length - 5} more`;
-      return result;
+      if (items.length > 5) summary += `\n... and ${items.length - 5} more`;
+      return summary;
     }
 
     return '```json\n' + JSON.stringify(result, null, 2) + '\n```';
@@ -588,6 +723,11 @@ Status: **${data.status}**`;
             border-bottom-left-radius: 4px;
         }
         .result.loading { opacity: 0.7; }
+        .notice {
+            text-align: center;
+            color: var(--vscode-descriptionForeground);
+            padding: 6px 14px;
+        }
         .input-container {
             padding: 14px;
             border-top: 1px solid var(--vscode-panel-border);
@@ -676,6 +816,47 @@ Status: **${data.status}**`;
             text-decoration: underline;
             background: rgba(124, 58, 237, 0.2);
         }
+        .tool-panel {
+            padding: 12px 14px;
+            border-top: 1px solid var(--vscode-panel-border);
+            max-height: 50vh;
+            overflow-y: auto;
+        }
+        .tool-panel-header { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+        .tool-panel-header select { flex: 1; }
+        .tool-panel-header .quick-btn { padding: 4px 8px; }
+        .tool-description {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 10px;
+            white-space: pre-wrap;
+        }
+        .field { margin-bottom: 10px; }
+        .field label { display: block; font-size: 11px; font-weight: 600; margin-bottom: 4px; }
+        .field input, .field textarea, .field select { width: 100%; }
+        select, textarea {
+            padding: 6px 10px;
+            border: 1px solid var(--vscode-input-border);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border-radius: 8px;
+            font-size: 12px;
+            font-family: inherit;
+        }
+        textarea { font-family: 'Fira Code', 'SF Mono', Consolas, monospace; resize: vertical; }
+        .field-hint { font-size: 11px; color: var(--vscode-descriptionForeground); margin-top: 3px; }
+        .field-error { font-size: 11px; color: var(--vscode-errorForeground); margin-top: 3px; }
+        .proposal {
+            border: 1px solid #7C3AED;
+            background: rgba(124, 58, 237, 0.08);
+            margin-right: 5%;
+        }
+        .proposal ol { padding-left: 18px; margin: 8px 0; }
+        .proposal li { margin-bottom: 8px; }
+        .proposal pre { margin-top: 4px; white-space: pre-wrap; }
+        .proposal-actions { display: flex; gap: 8px; align-items: center; }
+        .proposal-actions button { padding: 6px 12px; }
+        .proposal-status { font-size: 11px; color: var(--vscode-descriptionForeground); }
         ::-webkit-scrollbar { width: 6px; }
         ::-webkit-scrollbar-track { background: transparent; }
         ::-webkit-scrollbar-thumb { background: rgba(124, 58, 237, 0.3); border-radius: 3px; }
@@ -690,6 +871,7 @@ Status: **${data.status}**`;
     
     <div class="quick-actions">
         <span class="quick-btn" onclick="run('help')">Help</span>
+        <span class="quick-btn" onclick="toggleToolPanel()">Tool Form</span>
         <span class="quick-btn" onclick="run('create order for 500')">+ Order</span>
         <span class="quick-btn" onclick="run('list orders')">Orders</span>
         <span class="quick-btn" onclick="run('list payments')">Payments</span>
@@ -700,6 +882,17 @@ Status: **${data.status}**`;
     </div>
     
     <div class="output" id="output"></div>
+
+    <div class="tool-panel" id="toolPanel" style="display: none;">
+        <div class="tool-panel-header">
+            <select id="toolSelect" onchange="showToolForm(this.value, {})"></select>
+            <span class="quick-btn" onclick="vscode.postMessage({ command: 'loadTools', refresh: true })" title="Reload tools from the server">↻</span>
+            <span class="quick-btn" onclick="toggleToolPanel()" title="Close">✕</span>
+        </div>
+        <div class="tool-description" id="toolDescription"></div>
+        <div id="toolFields"></div>
+        <button onclick="submitTool()" id="runToolBtn">Run Tool</button>
+    </div>
     
     <div class="input-container">
         <div class="input-wrapper">
@@ -713,7 +906,16 @@ Status: **${data.status}**`;
         const output = document.getElementById('output');
         const cmdInput = document.getElementById('cmdInput');
         const sendBtn = document.getElementById('sendBtn');
+        const toolPanel = document.getElementById('toolPanel');
+        const toolSelect = document.getElementById('toolSelect');
+        const toolDescription = document.getElementById('toolDescription');
+        const toolFields = document.getElementById('toolFields');
+        const runToolBtn = document.getElementById('runToolBtn');
         let loading = false;
+        let tools = [];
+        let fields = [];
+        // A form requested by a chat command before the tool list arrived
+        let pendingForm = null;
 
         function run(cmd) {
             cmdInput.value = cmd;
@@ -726,8 +928,7 @@ Status: **${data.status}**`;
 
             addMsg(cmd, 'command');
             cmdInput.value = '';
-            loading = true;
-            sendBtn.disabled = true;
+            setLoading(true);
 
             vscode.postMessage({ command: 'executeCommand', text: cmd });
         }
@@ -739,13 +940,18 @@ Status: **${data.status}**`;
             }
             const div = document.createElement('div');
             div.className = 'message ' + (type === 'command' ? 'command' : 'result');
-            div.innerHTML = type === 'command' ? '> ' + text : format(text);
+            div.innerHTML = type === 'command' ? '> ' + escapeHtml(text) : format(text);
             output.appendChild(div);
             output.scrollTop = output.scrollHeight;
         }
 
+        function escapeHtml(text) {
+            return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        }
+
         function format(text) {
-            let formatted = text;
+            // Tool names and descriptions come from the MCP server
+            let formatted = escapeHtml(text);
             // Code blocks
             formatted = formatted.replace(/\`\`\`(\\w+)?\\n([\\s\\S]*?)\`\`\`/g, '<pre>$2</pre>');
             // Inline code
@@ -761,20 +967,284 @@ Status: **${data.status}**`;
             return formatted;
         }
 
+        function setLoading(value) {
+            loading = value;
+            sendBtn.disabled = value;
+            runToolBtn.disabled = value;
+        }
+
+        function renderToolOptions(error) {
+            toolSelect.innerHTML = '';
+            if (!tools.length) {
+                const option = document.createElement('option');
+                option.value = '';
+                option.textContent = error || 'Loading tools...';
+                toolSelect.appendChild(option);
+                return;
+            }
+            [['Read-only', true], ['Creates or changes data', false]].forEach(([label, readOnly]) => {
+                const group = document.createElement('optgroup');
+                group.label = label;
+                tools.filter(tool => tool.readOnly === readOnly).forEach(tool => {
+                    const option = document.createElement('option');
+                    option.value = tool.name;
+                    option.textContent = tool.name;
+                    group.appendChild(option);
+                });
+                if (group.children.length) toolSelect.appendChild(group);
+            });
+        }
+
+        function toggleToolPanel() {
+            if (toolPanel.style.display !== 'none') {
+                toolPanel.style.display = 'none';
+                return;
+            }
+            toolPanel.style.display = 'block';
+            if (!fields.length && toolSelect.value) showToolForm(toolSelect.value, {});
+        }
+
+        function fieldKind(prop) {
+            if (Array.isArray(prop.enum)) return 'enum';
+            const types = [].concat(prop.type || []).filter(type => type !== 'null');
+            return types[0] || (prop.properties ? 'object' : 'string');
+        }
+
+        function createField(key, prop, required, value) {
+            const kind = fieldKind(prop);
+            const wrapper = document.createElement('div');
+            wrapper.className = 'field';
+            const label = document.createElement('label');
+            label.textContent = key + (required ? ' *' : '') + ' (' + (kind === 'enum' ? 'one of' : kind) + ')';
+            wrapper.appendChild(label);
+
+            let input;
+            if (kind === 'enum' || kind === 'boolean') {
+                input = document.createElement('select');
+                const empty = document.createElement('option');
+                empty.value = '';
+                empty.textContent = required ? 'Select...' : '(not set)';
+                input.appendChild(empty);
+                (kind === 'enum' ? prop.enum : [true, false]).forEach(choice => {
+                    const option = document.createElement('option');
+                    // Enum values keep their JSON type
+                    option.value = JSON.stringify(choice);
+                    option.textContent = String(choice);
+                    input.appendChild(option);
+                });
+            } else if (kind === 'object' || kind === 'array') {
+                input = document.createElement('textarea');
+                input.rows = 3;
+                input.placeholder = kind === 'array' ? '["value"]' : '{"key": "value"}';
+            } else {
+                input = document.createElement('input');
+                input.type = kind === 'integer' || kind === 'number' ? 'number' : 'text';
+                if (kind === 'integer') input.step = '1';
+                if (kind === 'number') input.step = 'any';
+                if (typeof prop.minimum === 'number') input.min = String(prop.minimum);
+                if (typeof prop.maximum === 'number') input.max = String(prop.maximum);
+            }
+
+            const initial = value !== undefined ? value : prop.default;
+            if (initial !== undefined && initial !== null) {
+                if (kind === 'enum' || kind === 'boolean') input.value = JSON.stringify(initial);
+                else input.value = typeof initial === 'object' ? JSON.stringify(initial, null, 2) : String(initial);
+            }
+            wrapper.appendChild(input);
+
+            if (prop.description) {
+                const hint = document.createElement('div');
+                hint.className = 'field-hint';
+                hint.textContent = prop.description;
+                wrapper.appendChild(hint);
+            }
+            const error = document.createElement('div');
+            error.className = 'field-error';
+            wrapper.appendChild(error);
+
+            return { key, prop, kind, required, input, error, wrapper };
+        }
+
+        function showToolForm(name, values) {
+            const tool = tools.find(t => t.name === name);
+            if (!tool) {
+                pendingForm = { name, values };
+                return;
+            }
+            pendingForm = null;
+            toolPanel.style.display = 'block';
+            toolSelect.value = name;
+            toolDescription.textContent = (tool.readOnly ? '' : '⚠️ Creates or changes data. ') + tool.description;
+
+            const schema = tool.inputSchema || {};
+            const properties = schema.properties || {};
+            const required = schema.required || [];
+            const keys = Object.keys(properties).sort((a, b) => required.includes(b) - required.includes(a));
+
+            toolFields.innerHTML = '';
+            fields = keys.map(key => createField(key, properties[key], required.includes(key), values ? values[key] : undefined));
+            fields.forEach(field => toolFields.appendChild(field.wrapper));
+            if (!keys.length) {
+                toolFields.innerHTML = '<div class="field-hint">This tool takes no arguments.</div>';
+            }
+        }
+
+        function validateField(field) {
+            const raw = field.input.value.trim();
+            if (!raw) return { message: field.required ? 'Required' : '' };
+
+            const prop = field.prop;
+            if (field.kind === 'enum' || field.kind === 'boolean') {
+                return { value: JSON.parse(raw) };
+            }
+            if (field.kind === 'integer' || field.kind === 'number') {
+                const value = Number(raw);
+                if (!isFinite(value)) return { message: 'Enter a number' };
+                if (field.kind === 'integer' && !Number.isInteger(value)) return { message: 'Enter a whole number' };
+                if (typeof prop.minimum === 'number' && value < prop.minimum) return { message: 'Must be at least ' + prop.minimum };
+                if (typeof prop.maximum === 'number' && value > prop.maximum) return { message: 'Must be at most ' + prop.maximum };
+                return { value };
+            }
+            if (field.kind === 'object' || field.kind === 'array') {
+                let value;
+                try {
+                    value = JSON.parse(raw);
+                } catch (e) {
+                    return { message: 'Enter valid JSON' };
+                }
+                if (field.kind === 'array' && !Array.isArray(value)) return { message: 'Enter a JSON array' };
+                if (field.kind === 'object' && (!value || typeof value !== 'object' || Array.isArray(value))) return { message: 'Enter a JSON object' };
+                return { value };
+            }
+            if (typeof prop.minLength === 'number' && raw.length < prop.minLength) return { message: 'At least ' + prop.minLength + ' characters' };
+            if (typeof prop.maxLength === 'number' && raw.length > prop.maxLength) return { message: 'At most ' + prop.maxLength + ' characters' };
+            if (typeof prop.pattern === 'string') {
+                try {
+                    if (!new RegExp(prop.pattern).test(raw)) return { message: 'Must match ' + prop.pattern };
+                } catch (e) { /* left to the server */ }
+            }
+            return { value: raw };
+        }
+
+        function addProposal(proposal) {
+            const card = document.createElement('div');
+            card.className = 'message proposal';
+            const title = document.createElement('strong');
+            title.textContent = 'Proposed calls (' + proposal.steps.length + ')';
+            card.appendChild(title);
+
+            const list = document.createElement('ol');
+            proposal.steps.forEach(step => {
+                const item = document.createElement('li');
+                const name = document.createElement('code');
+                name.textContent = step.tool;
+                const edit = document.createElement('span');
+                edit.className = 'quick-btn';
+                edit.textContent = 'Edit in form';
+                edit.onclick = () => showToolForm(step.tool, step.arguments);
+                const args = document.createElement('pre');
+                args.textContent = JSON.stringify(step.arguments, null, 2);
+                item.append(name, ' ', edit, args);
+                step.errors.forEach(message => {
+                    const error = document.createElement('div');
+                    error.className = 'field-error';
+                    error.textContent = message;
+                    item.appendChild(error);
+                });
+                list.appendChild(item);
+            });
+            card.appendChild(list);
+
+            const actions = document.createElement('div');
+            actions.className = 'proposal-actions';
+            const runAll = document.createElement('button');
+            runAll.textContent = proposal.steps.length > 1 ? 'Run All' : 'Run';
+            runAll.disabled = proposal.steps.some(step => step.errors.length > 0);
+            const cancel = document.createElement('span');
+            cancel.className = 'quick-btn';
+            cancel.textContent = 'Cancel';
+            const status = document.createElement('span');
+            status.className = 'proposal-status';
+            if (runAll.disabled) status.textContent = 'Fix the arguments in the form and run it from there.';
+
+            const close = text => {
+                runAll.remove();
+                cancel.remove();
+                status.textContent = text;
+            };
+            runAll.onclick = () => {
+                if (loading) return;
+                close('Confirmed');
+                addMsg('Run proposed calls', 'command');
+                setLoading(true);
+                vscode.postMessage({ command: 'runProposal', id: proposal.id });
+            };
+            cancel.onclick = () => {
+                close('Cancelled');
+                vscode.postMessage({ command: 'cancelProposal', id: proposal.id });
+            };
+            actions.append(runAll, cancel, status);
+            card.appendChild(actions);
+
+            output.appendChild(card);
+            output.scrollTop = output.scrollHeight;
+        }
+
+        function submitTool() {
+            const name = toolSelect.value;
+            if (!name || loading) return;
+
+            const args = {};
+            let valid = true;
+            fields.forEach(field => {
+                const result = validateField(field);
+                field.error.textContent = result.message || '';
+                if (result.message) valid = false;
+                else if (result.value !== undefined) args[field.key] = result.value;
+            });
+            if (!valid) return;
+
+            addMsg(name + ' ' + JSON.stringify(args), 'command');
+            setLoading(true);
+            vscode.postMessage({ command: 'callTool', tool: name, arguments: args });
+        }
+
         cmdInput.addEventListener('keypress', e => { if (e.key === 'Enter') send(); });
 
         window.addEventListener('message', e => {
-            if (e.data.command === 'response') {
+            if (e.data.command === 'notice') {
+                const div = document.createElement('div');
+                div.className = 'message notice';
+                div.innerHTML = format(e.data.text);
+                output.appendChild(div);
+                output.scrollTop = output.scrollHeight;
+            } else if (e.data.command === 'response') {
                 if (e.data.isLoading) {
                     addMsg(e.data.text, 'result');
                     output.querySelector('.result:last-child')?.classList.add('loading');
                 } else {
                     addMsg(e.data.text, 'result', true);
-                    loading = false;
-                    sendBtn.disabled = false;
+                    if (e.data.proposal) addProposal(e.data.proposal);
+                    setLoading(false);
                 }
+            } else if (e.data.command === 'tools') {
+                const current = toolSelect.value;
+                tools = e.data.tools;
+                renderToolOptions(e.data.error);
+                if (pendingForm) {
+                    showToolForm(pendingForm.name, pendingForm.values);
+                } else if (tools.some(tool => tool.name === current)) {
+                    toolSelect.value = current;
+                } else if (toolPanel.style.display !== 'none' && toolSelect.value) {
+                    showToolForm(toolSelect.value, {});
+                }
+            } else if (e.data.command === 'showToolForm') {
+                showToolForm(e.data.tool, e.data.values);
             }
         });
+
+        renderToolOptions();
+        vscode.postMessage({ command: 'loadTools' });
     </script>
 </body>
 </html>`;